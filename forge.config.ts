@@ -24,6 +24,12 @@ const config: ForgeConfig = {
           config: 'vite.main.config.ts',
           target: 'main',
         },
+        {
+          // Clustering worker, loaded by the main process from next to its bundle
+          entry: 'src/main/workers/clustering-worker.ts',
+          config: 'vite.worker.config.ts',
+          target: 'main',
+        },
         {
           entry: 'src/preload/preload.ts',
           config: 'vite.preload.config.ts',
@@ -13,6 +13,12 @@ CREATE TABLE IF NOT EXISTS suggestions (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Link suggestions to the local cluster they came from (also upgrades tables created before this column existed)
+ALTER TABLE suggestions ADD COLUMN IF NOT EXISTS cluster_id TEXT;
+
+-- Placeholders of template suggestions, e.g. [{"name": "function", "values": ["parseConfig", "loadUser"]}]
+ALTER TABLE suggestions ADD COLUMN IF NOT EXISTS placeholders JSONB;
+
 -- Table for storing analysis results and performance metrics
 CREATE TABLE IF NOT EXISTS analysis_results (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -27,6 +33,7 @@ CREATE TABLE IF NOT EXISTS analysis_results (
 CREATE INDEX IF NOT EXISTS idx_suggestions_status ON suggestions(status);
 CREATE INDEX IF NOT EXISTS idx_suggestions_created_at ON suggestions(created_at);
 CREATE INDEX IF NOT EXISTS idx_suggestions_trigger ON suggestions(trigger);
+CREATE INDEX IF NOT EXISTS idx_suggestions_cluster_id ON suggestions(cluster_id);
 
 CREATE INDEX IF NOT EXISTS idx_analysis_results_timestamp ON analysis_results(analysis_timestamp);
 
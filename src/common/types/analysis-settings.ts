@@ -0,0 +1,20 @@
+/**
+ * @file Shared types for analysis settings
+ * @module analysis-settings
+ */
+
+// Where prompt embeddings come from: OpenAI, or local lexical vectors computed on this machine
+export type EmbeddingProviderId = 'openai' | 'local';
+
+// How embeddings are grouped into clusters
+export type ClusteringAlgorithmId = 'dbscan' | 'hdbscan' | 'agglomerative';
+
+// Which captured entries feed the analysis workflow, and how they are embedded
+export interface AnalysisSettings {
+  submittedOnly: boolean; // Only analyze prompts that were submitted (Enter/Cmd+Enter), not ones flushed by timeout or focus loss
+  windowDays: number;     // Analyze prompts from this many past days, from the live log and archives
+  embeddingProvider: EmbeddingProviderId;
+  clusteringAlgorithm: ClusteringAlgorithmId;
+  clusterEpsilon: number | null; // Cosine distance for DBSCAN and agglomerative; null picks it from the k-distance knee
+  clusterMinPoints: number;      // Smallest group that counts as a cluster
+}
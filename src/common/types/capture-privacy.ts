@@ -0,0 +1,41 @@
+/**
+ * @file Shared types for privacy controls: capture pauses, schedules and window exclusions
+ * @module capture-privacy
+ */
+
+// A recurring window of time in which capture is allowed
+export interface CaptureScheduleWindow {
+  days: number[];   // Days of the week the window starts on (0 = Sunday ... 6 = Saturday)
+  start: string;    // Local start time, 'HH:MM'
+  end: string;      // Local end time, 'HH:MM' (earlier than start for windows that run past midnight)
+}
+
+// Capture schedule; when enabled, capture only runs inside one of the windows
+export interface CaptureSchedule {
+  enabled: boolean;
+  windows: CaptureScheduleWindow[];
+}
+
+// Privacy settings persisted in settings.json
+export interface PrivacySettings {
+  schedule: CaptureSchedule;
+  excludedWindowTitles: string[]; // Case-insensitive glob patterns ('*' and '?') matched anywhere in the window title
+}
+
+// How long a manual pause lasts
+export type PauseDuration = '15m' | '1h' | 'tomorrow' | 'indefinite';
+
+// A manual pause persisted in settings.json so it outlasts a restart
+export interface ManualCapturePause {
+  until: string | null;  // ISO time the pause ends, or null for a pause that lasts until resumed
+}
+
+// Why capture is currently paused
+export type CapturePauseReason = 'manual' | 'schedule';
+
+// Pause state reported by monitoring
+export interface CapturePauseStatus {
+  paused: boolean;
+  reason?: CapturePauseReason;
+  resumesAt?: string | null;  // ISO time the pause ends, or null for a pause that lasts until resumed
+}
@@ -0,0 +1,47 @@
+/**
+ * @file Shared types for capture recordings (JSONL files of keystroke and focus events)
+ * @module capture-recording
+ */
+
+import type { CaptureTargetRule } from './capture-target';
+import type { ClassifierSettings } from './prompt-classifier';
+import type { KeyboardLayout } from './keyboard-layout';
+import type { RedactionSettings } from './redaction';
+
+// First line of every recording file; snapshots every setting replay needs, so later settings changes don't alter it
+export interface RecordingHeader {
+  type: 'header';
+  version: 2;
+  startedAt: number;                   // Epoch milliseconds; event times are offsets from this
+  keyboardLayout: KeyboardLayout;      // Layout used to decode the keystrokes
+  captureTargets: CaptureTargetRule[]; // Target rules in effect while recording
+  classifier: ClassifierSettings;      // Prompt filter settings in effect while recording
+  redaction: RedactionSettings;        // Redaction settings applied to the logged text
+  redacted: boolean;                   // Character keys and window titles were masked
+}
+
+// A keyboard event as delivered by uiohook-napi
+export interface RecordedKeyEvent {
+  t: number;
+  type: 'keydown' | 'keyup';
+  keycode: number;
+  shiftKey: boolean;
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}
+
+// A focus change reported by the window source
+export interface RecordedFocusEvent {
+  t: number;
+  type: 'focus';
+  window: { processName: string; windowTitle: string } | null;
+}
+
+export type RecordedEvent = RecordedKeyEvent | RecordedFocusEvent;
+
+// A parsed recording file
+export interface CaptureRecording {
+  header: RecordingHeader;
+  events: RecordedEvent[];
+}
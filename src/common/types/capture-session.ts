@@ -0,0 +1,25 @@
+/**
+ * @file Shared types for capture sessions (runs of capture activity without a long idle gap)
+ * @module capture-session
+ */
+
+// Why the capture buffer was written to the log
+export type FlushReason =
+  | 'submit'              // A submit chord for the target app (Enter, Cmd+Enter...)
+  | 'timeout'             // Typing paused for TEXT_BUFFER_TIMEOUT
+  | 'special-key'         // Tab or Escape
+  | 'focus-loss'          // Focus left the target app
+  | 'target-switch'       // Focus moved directly to another target app
+  | 'monitoring-stopped'  // Monitoring was stopped with text in the buffer
+  | 'clipboard';          // Captured from the clipboard rather than typed
+
+// Summary of one capture session, derived from the log entries that share its ID
+export interface CaptureSessionSummary {
+  id: string;
+  startedAt: string;        // Timestamp of the first entry
+  endedAt: string;          // Timestamp of the last entry
+  entryCount: number;
+  submittedCount: number;   // Entries with flushReason 'submit'
+  processNames: string[];   // Apps captured from during the session
+  typingDurationMs: number; // Sum of per-entry typing durations
+}
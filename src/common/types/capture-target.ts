@@ -0,0 +1,29 @@
+/**
+ * @file Shared types describing which applications DryPrompt captures prompts from
+ * @module capture-target
+ */
+
+/**
+ * A single target application and the rules used while capturing text from it
+ */
+export interface CaptureTargetRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  processPattern: string;        // Case-insensitive regex tested against the window owner name
+  windowTitleInclude?: string;   // Optional regex the window title must match
+  windowTitleExclude?: string;   // Optional regex that rejects matching window titles
+  minTextLength: number;         // Minimum trimmed buffer length before an entry is logged
+  submitKeys: string[];          // Key chords that submit a prompt, e.g. 'Enter' or 'Cmd+Enter'
+  newlineKeys?: string[];        // Key chords that insert a line break (defaults to Enter with Shift/Option, and plain Enter where it doesn't submit)
+}
+
+/**
+ * Summary of the rule that matched the currently focused window
+ */
+export interface MatchedTargetInfo {
+  ruleId: string;
+  ruleName: string;
+  processName: string;
+  windowTitle: string;
+}
@@ -0,0 +1,30 @@
+/**
+ * @file Shared types for the persistent cluster store
+ * @module cluster-store
+ */
+
+import type { TemplatePlaceholder } from './prompt-template';
+
+// The suggestion synthesized for a cluster; later runs reuse it instead of synthesizing the pattern again
+export interface ClusterSuggestionLink {
+  trigger: string;
+  replacement: string;
+  placeholders?: TemplatePlaceholder[];
+  confidence: number;
+  suggestionId?: string; // Supabase record ID
+  synthesizedAt: string;
+}
+
+// A cluster kept across analysis runs (hashes of its prompts only, never their text)
+export interface StoredCluster {
+  id: string;
+  fingerprint: string;      // Hash of the prompts that founded the cluster; survives new members, merges and splits
+  centroid: number[];
+  memberKeys: string[];     // Normalized-text hashes of the prompts assigned to the cluster
+  createdAt: string;
+  updatedAt: string;        // Last run that saw one of its prompts
+  lastSynthesizedAt?: string;
+  suggestion?: ClusterSuggestionLink;
+  mergedIds?: string[];     // Clusters that were folded into this one
+  splitFrom?: string;       // Cluster this one broke away from
+}
@@ -0,0 +1,70 @@
+/**
+ * @file Shared types for cluster quality and the clustering tuner
+ * @module clustering
+ */
+
+import type { ClusteringAlgorithmId } from './analysis-settings';
+
+// How well separated and how tight a set of clusters is
+export interface ClusteringQuality {
+  silhouette: number | null;              // -1 to 1 over clustered points; null with fewer than two clusters
+  intraClusterSimilarity: number | null;  // Mean cosine similarity between points of the same cluster
+  noiseRatio: number;                     // Share of points in no cluster
+}
+
+// Parameters the tuner clusters with
+export interface ClusteringTunerParams {
+  algorithm: ClusteringAlgorithmId;
+  epsilon: number | null;  // null picks it from the k-distance knee
+  minPoints: number;
+}
+
+// The prompts the tuner works on: the analysis window's prompts whose embeddings are cached
+export interface ClusteringTunerDataset {
+  embeddingModel: string | null;  // `provider:model:dimensions` of the last analysis, or null if none has run
+  pointCount: number;
+  uncachedCount: number;          // Prompts in the window without a cached embedding (left out)
+  params: ClusteringTunerParams;  // The saved settings
+}
+
+// A cluster as shown in the tuner
+export interface ClusteringTunerCluster {
+  size: number;
+  texts: string[];        // Up to a few prompts, most typical first
+  similarity: number;     // Mean cosine similarity of the prompts to the centroid
+}
+
+// The tuner's clusters for one set of parameters
+export interface ClusteringTunerResult {
+  epsilon: number;
+  epsilonSource: 'auto' | 'manual' | 'default';
+  clusters: ClusteringTunerCluster[];
+  noise: string[];        // Up to a few dozen prompts in no cluster
+  noiseCount: number;
+  quality: ClusteringQuality;
+  durationMs: number;
+}
+
+// A prompt in the cluster explorer, placed by its embedding's two principal components
+export interface ClusterExplorerPoint {
+  x: number;
+  y: number;
+  text: string;
+  cluster: number | null;   // Index into the explorer's clusters; null for noise
+}
+
+// A stored cluster as shown in the explorer
+export interface ClusterExplorerCluster {
+  id: string;
+  size: number;             // Prompts of the cluster among the plotted points
+  suggestion: { trigger: string; replacement: string } | null;
+}
+
+// The cluster explorer's plot
+export interface ClusterExplorerData {
+  embeddingModel: string;
+  points: ClusterExplorerPoint[];
+  clusters: ClusterExplorerCluster[];
+  uncachedCount: number;
+  explainedVariance: [number, number];  // Share of the variance along each axis
+}
@@ -0,0 +1,15 @@
+/**
+ * @file Shared types for the on-disk embedding cache
+ * @module embedding-cache
+ */
+
+// Size and lifetime counters of the embedding cache
+export interface EmbeddingCacheStats {
+  entries: number;
+  sizeBytes: number;                   // Size of the cache file on disk
+  models: Record<string, number>;      // Entries per `provider:model:dimensions`
+  hits: number;                        // Lookups answered from the cache since it was created or cleared
+  misses: number;                      // Lookups that had to call the provider
+  evicted: number;                     // Entries dropped for age or to stay under the entry limit
+  oldestUsedAt: string | null;
+}
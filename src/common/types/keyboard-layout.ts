@@ -0,0 +1,19 @@
+/**
+ * @file Shared types for normalized keyboard layouts
+ * @module keyboard-layout
+ */
+
+// Modifier layers a layout can define
+export type LayerName = 'base' | 'shift' | 'option' | 'shiftOption';
+
+// Keycode to produced character for a single layer
+export type KeyLayer = { [keycode: number]: string };
+
+// Fully normalized layout used by the keystroke decoder
+export interface KeyboardLayout {
+  id: string;
+  name: string;
+  layers: { base: KeyLayer; shift: KeyLayer; option?: KeyLayer; shiftOption?: KeyLayer };
+  deadKeys: { [layer in LayerName]?: number[] };         // Keycodes that start a dead-key composition
+  compositions: { [deadChar: string]: { [char: string]: string } }; // Overrides for the default accent table
+}
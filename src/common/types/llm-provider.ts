@@ -0,0 +1,24 @@
+/**
+ * @file Shared types for the language model providers used to synthesize suggestions
+ * @module llm-provider
+ */
+
+// Supported providers
+export type LlmProviderId =
+  | 'openai'             // OpenAI API
+  | 'openai-compatible'  // Any server speaking the OpenAI chat API: Ollama, LM Studio, vLLM...
+  | 'anthropic'          // Anthropic Messages API
+  | 'mock';              // Deterministic local stand-in for tests and offline runs
+
+// Per-provider model settings (credentials are kept in the keychain, not here)
+export interface LlmProviderConfig {
+  model: string;
+  temperature: number;
+  baseUrl?: string;      // Required for openai-compatible; overrides the default endpoint for the others
+}
+
+// Which provider synthesizes suggestions, and the settings of each
+export interface SynthesisSettings {
+  provider: LlmProviderId;
+  providers: Record<LlmProviderId, LlmProviderConfig>;
+}
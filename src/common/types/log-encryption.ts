@@ -0,0 +1,27 @@
+/**
+ * @file Shared types for encryption at rest of the prompt log and its archives
+ * @module log-encryption
+ */
+
+// Current state of log encryption, as shown in settings
+export interface LogEncryptionStatus {
+  activeKeyId: string;
+  activeKeyCreatedAt: string;       // ISO timestamp of the last key rotation (or key creation)
+  keyCount: number;                 // Keys in the keyring; more than one only while a rotation is unfinished
+  recoveryKeyCreatedAt: string | null; // ISO timestamp of the last recovery key export, null if none was exported
+  lockedLines: number;              // Live log lines encrypted with a key that isn't in the keyring
+}
+
+// Outcome of rotating the data key
+export interface KeyRotationResult {
+  activeKeyId: string;
+  filesRewritten: number;           // Live log plus archives re-encrypted with the new key
+  entriesReencrypted: number;
+  recoveryKeyUpdated: boolean;      // Whether the exported recovery key still covers the new key
+}
+
+// Outcome of restoring keys from a recovery key
+export interface KeyRestoreResult {
+  restoredKeys: number;             // Keys that were missing from the keyring
+  unlockedLines: number;            // Live log lines that can be read again
+}
@@ -0,0 +1,40 @@
+/**
+ * @file Shared type for captured prompt log entries
+ * @module log-entry
+ */
+
+import type { RedactionCounts } from './redaction';
+import type { PromptClassification } from './prompt-classifier';
+import type { FlushReason } from './capture-session';
+import type { ImportFormat } from './prompt-import';
+
+// A single captured prompt as stored in the prompt log
+export interface LogEntry {
+  id?: string;                              // Assigned by the log store when the entry is written
+  timestamp: string;
+  text: string;
+  windowTitle?: string;
+  processName?: string;
+  source?: 'keyboard' | 'clipboard' | 'import'; // How the text was captured
+  importFormat?: ImportFormat;              // For imported entries: the tool the prompt came from
+  importedAt?: string;                      // For imported entries: when the import ran (analysis and retention age them from then)
+  clipboardOrigin?: 'target' | 'external'; // For clipboard captures: copied in the target app or brought in from elsewhere
+  redactions?: RedactionCounts;             // Secrets/PII replaced with placeholders at capture time
+  classification?: PromptClassification;    // Prompt classifier score and reasons
+  sessionId?: string;                       // Capture session the entry belongs to
+  flushReason?: FlushReason;                // What ended the capture (submit, timeout, focus loss...)
+  typingDurationMs?: number;                // First to last keystroke of the captured text
+  keystrokeCount?: number;                  // Characters typed, including ones later deleted
+  editCount?: number;                       // Deletes, cuts, pastes, undos and redos while composing
+  textPurgedAt?: string;                    // When retention deleted the text and window title (the entry's stats are kept)
+  excludedFromAnalysis?: boolean;           // Hidden from analysis by the user in the history browser
+}
+
+// Filter for indexed reads of the prompt log
+export interface LogQuery {
+  from?: string;        // Inclusive ISO start time
+  to?: string;          // Exclusive ISO end time
+  processName?: string; // Case-insensitive app (process) name
+  order?: 'asc' | 'desc';
+  limit?: number;
+}
@@ -0,0 +1,48 @@
+/**
+ * @file Shared types for the weighted-rule prompt classifier
+ * @module prompt-classifier
+ */
+
+// User-defined classifier rule: adds its weight to the score when it matches
+export interface ClassifierRuleConfig {
+  id: string;
+  name: string;
+  type: 'keywords' | 'regex';
+  keywords?: string[];     // Whole-word, case-insensitive matches (type 'keywords')
+  pattern?: string;        // JavaScript regular expression source (type 'regex')
+  flags?: string;
+  weight: number;          // Negative weights push text towards rejection
+  enabled: boolean;
+}
+
+// Keyword pack for one language
+export interface LanguagePack {
+  id: string;              // e.g. 'en', 'es'
+  name: string;
+  keywords: string[];      // Words that suggest a request to an assistant
+  imperativeVerbs: string[]; // Verbs that typically start an instruction
+}
+
+// Persisted classifier settings
+export interface ClassifierSettings {
+  threshold: number;       // Minimum score for text to count as a prompt
+  languagePacks: string[]; // Active language pack IDs
+  customLanguagePacks: LanguagePack[];
+  customRules: ClassifierRuleConfig[];
+  keepRejected: boolean;   // Also log rejected text (excluded from analysis) so the filter can be tuned
+}
+
+// One rule's contribution to a decision
+export interface ClassificationReason {
+  ruleId: string;
+  description: string;
+  weight: number;
+}
+
+// Classifier decision with its explanation
+export interface PromptClassification {
+  accepted: boolean;
+  score: number;
+  threshold: number;
+  reasons: ClassificationReason[];
+}
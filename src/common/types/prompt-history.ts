@@ -0,0 +1,34 @@
+/**
+ * @file Shared types for browsing, filtering and editing captured prompt history
+ * @module prompt-history
+ */
+
+import type { LogEntry } from './log-entry';
+import type { CaptureSessionSummary } from './capture-session';
+
+// Filters for the history browser; every field is optional and they combine with AND
+export interface HistoryQuery {
+  text?: string;             // Case-insensitive words that must all appear in the text or window title
+  processName?: string;      // Exact app (process) name, case-insensitive
+  windowTitle?: string;      // Case-insensitive substring of the window title
+  sessionId?: string;
+  from?: string;             // Inclusive ISO start time
+  to?: string;               // Exclusive ISO end time
+  includeArchives?: boolean; // Defaults to true
+  offset?: number;
+  limit?: number;            // Defaults to 100
+}
+
+// A history entry and where it is stored
+export interface HistoryEntry extends LogEntry {
+  id: string;
+  location: string;          // 'live' for the current log, otherwise the archive filename
+}
+
+// One page of history results, plus the values the filters can choose from
+export interface HistoryPage {
+  entries: HistoryEntry[];   // Newest first
+  total: number;             // Matches before paging
+  processNames: string[];
+  sessions: CaptureSessionSummary[];
+}
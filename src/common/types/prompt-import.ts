@@ -0,0 +1,22 @@
+/**
+ * @file Shared types for importing prompt history from other tools
+ * @module prompt-import
+ */
+
+// Supported import formats
+export type ImportFormat =
+  | 'chatgpt'  // ChatGPT data export `conversations.json`
+  | 'claude'   // Claude data export `conversations.json`
+  | 'cursor'   // Cursor `state.vscdb` chat database
+  | 'shell';   // zsh, bash or fish history file
+
+// Outcome of importing one file
+export interface ImportReport {
+  format: ImportFormat;
+  filePath: string;
+  found: number;        // Prompts read from the file
+  imported: number;     // New entries added to the log
+  duplicates: number;   // Already in the log or archives (or repeated in the file)
+  skipped: number;      // Too short or empty after normalizing
+  redacted: number;     // Imported entries that had secrets or PII replaced
+}
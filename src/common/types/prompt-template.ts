@@ -0,0 +1,22 @@
+/**
+ * @file Shared types for parameterized suggestion templates
+ * @module prompt-template
+ */
+
+// A named variable part of a template, written `{name}` in the replacement text
+export interface TemplatePlaceholder {
+  name: string;
+  values: string[];   // Values seen in the source prompts, most common first (empty if the model added the placeholder)
+}
+
+// Where a confirmed shortcut goes; each fills in placeholders its own way
+// - 'text-replacement': macOS Text Replacements expand to fixed text, so every placeholder needs a value
+// - 'clipboard': copied text keeps placeholders without a value as `{name}`, to fill in after pasting
+export type TemplateExportTarget = 'text-replacement' | 'clipboard';
+
+// A template filled in for one export target
+export interface FilledTemplate {
+  text: string;
+  placeholders: string[];  // Placeholder names in the template, in order of first use
+  missing: string[];       // Placeholders the target needs a value for but has none
+}
@@ -0,0 +1,23 @@
+/**
+ * @file Type definitions for the secret and PII redaction pipeline
+ * @module redaction
+ */
+
+// User-defined redaction rule (regex matched against captured text)
+export interface RedactionRule {
+  id: string;
+  name: string;            // Also used to build the placeholder, e.g. "Ticket ID" -> [REDACTED_TICKET_ID]
+  pattern: string;         // JavaScript regular expression source
+  flags?: string;          // Extra regex flags; 'g' is always added
+  enabled: boolean;
+}
+
+// Persisted redaction settings
+export interface RedactionSettings {
+  enabled: boolean;
+  disabledDetectors: string[];  // Built-in detector types to skip, e.g. ['ip-address']
+  customRules: RedactionRule[];
+}
+
+// Number of redactions applied, keyed by detector type or custom rule ID
+export type RedactionCounts = { [type: string]: number };
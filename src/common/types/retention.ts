@@ -0,0 +1,28 @@
+/**
+ * @file Shared types for prompt data retention policies and their run reports
+ * @module retention
+ */
+
+// Retention settings persisted in settings.json; a null limit is switched off
+export interface RetentionSettings {
+  enabled: boolean;
+  maxAgeDays: number | null;      // Delete entries (and archives) older than this
+  maxTotalSizeMb: number | null;  // Delete the oldest archives while the log and archives are larger than this
+  textMaxAgeDays: number | null;  // Delete the captured text and window title of older entries, keeping their stats
+  maxArchives: number | null;     // Keep at most this many archive files
+  intervalHours: number;          // How often retention runs while the app is open (it also runs at startup)
+}
+
+// What started a retention run
+export type RetentionTrigger = 'startup' | 'schedule' | 'manual';
+
+// What a retention run purged
+export interface RetentionRunReport {
+  ranAt: string;                  // ISO timestamp
+  trigger: RetentionTrigger;
+  entriesDeleted: number;
+  entriesStripped: number;        // Entries whose text was deleted
+  archivesDeleted: string[];      // Archive filenames
+  bytesFreed: number;
+  errors: string[];
+}
@@ -1,4 +1,4 @@
-import { app, BrowserWindow, ipcMain, Notification } from 'electron';
+import { app, BrowserWindow, dialog, ipcMain, Notification } from 'electron';
 import path from 'node:path';
 import started from 'electron-squirrel-startup';
 import * as appController from './services/app-controller';
@@ -7,6 +7,16 @@ import * as monitoringService from './services/monitoring-service';
 import * as permissionService from './services/permission-service';
 import { globalCleanupEditDialogHandlers } from './services/edit-dialog-window';
 import { createThreeLineIcon } from './utils/icon-generator';
+import type { CaptureTargetRule } from '../common/types/capture-target';
+import type { RedactionSettings } from '../common/types/redaction';
+import type { ClassifierSettings } from '../common/types/prompt-classifier';
+import type { AnalysisSettings } from '../common/types/analysis-settings';
+import type { ClusteringTunerParams } from '../common/types/clustering';
+import type { LlmProviderId, SynthesisSettings } from '../common/types/llm-provider';
+import type { PrivacySettings, PauseDuration } from '../common/types/capture-privacy';
+import type { RetentionSettings } from '../common/types/retention';
+import type { HistoryQuery } from '../common/types/prompt-history';
+import type { ImportFormat } from '../common/types/prompt-import';
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (started) {
@@ -27,7 +37,7 @@ const createConfigWindow = () => {
 
   configWindow = new BrowserWindow({
     width: 500,
-    height: 400,
+    height: 720,
     resizable: false,
     minimizable: false,
     maximizable: false,
@@ -59,6 +69,135 @@ const createConfigWindow = () => {
   };
   
 
+let historyWindow: BrowserWindow | null = null;
+
+/**
+ * Creates the prompt history window for browsing and editing captured prompts
+ */
+const createHistoryWindow = () => {
+  // Don't create multiple windows
+  if (historyWindow && !historyWindow.isDestroyed()) {
+    historyWindow.focus();
+    return;
+  }
+
+  historyWindow = new BrowserWindow({
+    width: 820,
+    height: 640,
+    minWidth: 640,
+    minHeight: 420,
+    title: 'Prompt History - DryPrompt',
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      preload: path.join(__dirname, 'preload.js'),
+    },
+  });
+
+  // Load the history view (same renderer as the config window, selected by hash)
+  if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
+    historyWindow.loadURL(`${MAIN_WINDOW_VITE_DEV_SERVER_URL}/#history`);
+  } else {
+    historyWindow.loadFile(path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/index.html`), { hash: '#history' });
+  }
+
+  // Clean up reference when window is closed
+  historyWindow.on('closed', () => {
+    historyWindow = null;
+  });
+
+  // Prevent new window creation
+  historyWindow.webContents.setWindowOpenHandler(() => {
+    return { action: 'deny' };
+  });
+};
+
+let tunerWindow: BrowserWindow | null = null;
+
+/**
+ * Creates the clustering tuner window for trying clustering parameters on the last analysis's embeddings
+ */
+const createTunerWindow = () => {
+  // Don't create multiple windows
+  if (tunerWindow && !tunerWindow.isDestroyed()) {
+    tunerWindow.focus();
+    return;
+  }
+
+  tunerWindow = new BrowserWindow({
+    width: 820,
+    height: 640,
+    minWidth: 640,
+    minHeight: 420,
+    title: 'Clustering Tuner - DryPrompt',
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      preload: path.join(__dirname, 'preload.js'),
+    },
+  });
+
+  // Load the tuner view (same renderer as the config window, selected by hash)
+  if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
+    tunerWindow.loadURL(`${MAIN_WINDOW_VITE_DEV_SERVER_URL}/#tuner`);
+  } else {
+    tunerWindow.loadFile(path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/index.html`), { hash: '#tuner' });
+  }
+
+  // Clean up reference when window is closed
+  tunerWindow.on('closed', () => {
+    tunerWindow = null;
+  });
+
+  // Prevent new window creation
+  tunerWindow.webContents.setWindowOpenHandler(() => {
+    return { action: 'deny' };
+  });
+};
+
+let explorerWindow: BrowserWindow | null = null;
+
+/**
+ * Creates the cluster explorer window, which plots the last analysis's prompts by cluster
+ */
+const createExplorerWindow = () => {
+  // Don't create multiple windows
+  if (explorerWindow && !explorerWindow.isDestroyed()) {
+    explorerWindow.focus();
+    return;
+  }
+
+  explorerWindow = new BrowserWindow({
+    width: 820,
+    height: 640,
+    minWidth: 640,
+    minHeight: 420,
+    title: 'Cluster Explorer - DryPrompt',
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      preload: path.join(__dirname, 'preload.js'),
+    },
+  });
+
+  // Load the explorer view (same renderer as the config window, selected by hash)
+  if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
+    explorerWindow.loadURL(`${MAIN_WINDOW_VITE_DEV_SERVER_URL}/#explorer`);
+  } else {
+    explorerWindow.loadFile(path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/index.html`), { hash: '#explorer' });
+  }
+
+  // Clean up reference when window is closed
+  explorerWindow.on('closed', () => {
+    explorerWindow = null;
+  });
+
+  // Prevent new window creation
+  explorerWindow.webContents.setWindowOpenHandler(() => {
+    return { action: 'deny' };
+  });
+};
+
 /**
  * Opens the debug console for the config window
  */
@@ -121,6 +260,568 @@ const setupIpcHandlers = () => {
       return false;
     }
   });
+
+  // Handle capture target retrieval
+  ipcMain.handle('get-capture-targets', async () => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      return settingsService.getCaptureTargets();
+    } catch (error) {
+      console.error('Failed to get capture targets:', error);
+      return [];
+    }
+  });
+
+  // Handle capture target updates
+  ipcMain.handle('save-capture-targets', async (event, targets: CaptureTargetRule[]) => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      settingsService.saveCaptureTargets(targets);
+      return { success: true, message: 'Capture targets saved successfully' };
+    } catch (error) {
+      console.error('Failed to save capture targets:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle redaction settings retrieval
+  ipcMain.handle('get-redaction-settings', async () => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      return settingsService.getRedactionSettings();
+    } catch (error) {
+      console.error('Failed to get redaction settings:', error);
+      return null;
+    }
+  });
+
+  // Handle redaction settings updates
+  ipcMain.handle('save-redaction-settings', async (event, redaction: RedactionSettings) => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      settingsService.saveRedactionSettings(redaction);
+      return { success: true, message: 'Redaction settings saved successfully' };
+    } catch (error) {
+      console.error('Failed to save redaction settings:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle classifier settings retrieval (including available language packs)
+  ipcMain.handle('get-classifier-settings', async () => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      const promptClassifier = await import('./services/prompt-classifier-service');
+      return {
+        settings: settingsService.getClassifierSettings(),
+        languagePacks: promptClassifier.getAvailableLanguagePacks().map(pack => ({ id: pack.id, name: pack.name }))
+      };
+    } catch (error) {
+      console.error('Failed to get classifier settings:', error);
+      return null;
+    }
+  });
+
+  // Handle classifier settings updates
+  ipcMain.handle('save-classifier-settings', async (event, classifier: ClassifierSettings) => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      settingsService.saveClassifierSettings(classifier);
+      return { success: true, message: 'Classifier settings saved successfully' };
+    } catch (error) {
+      console.error('Failed to save classifier settings:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle analysis settings retrieval
+  ipcMain.handle('get-analysis-settings', async () => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      return settingsService.getAnalysisSettings();
+    } catch (error) {
+      console.error('Failed to get analysis settings:', error);
+      return null;
+    }
+  });
+
+  // Handle analysis settings updates
+  ipcMain.handle('save-analysis-settings', async (event, analysis: AnalysisSettings) => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      settingsService.saveAnalysisSettings(analysis);
+      return { success: true, message: 'Analysis settings saved successfully' };
+    } catch (error) {
+      console.error('Failed to save analysis settings:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle embedding cache statistics retrieval
+  ipcMain.handle('get-embedding-cache-stats', async () => {
+    try {
+      const embeddingCacheService = await import('./services/embedding-cache-service');
+      return embeddingCacheService.getEmbeddingCacheStats();
+    } catch (error) {
+      console.error('Failed to get embedding cache stats:', error);
+      return null;
+    }
+  });
+
+  // Handle embedding cache clearing
+  ipcMain.handle('clear-embedding-cache', async () => {
+    try {
+      const embeddingCacheService = await import('./services/embedding-cache-service');
+      embeddingCacheService.clearEmbeddingCache();
+      return { success: true, message: 'Embedding cache cleared' };
+    } catch (error) {
+      console.error('Failed to clear embedding cache:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle synthesis provider settings retrieval
+  ipcMain.handle('get-synthesis-settings', async () => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      return settingsService.getSynthesisSettings();
+    } catch (error) {
+      console.error('Failed to get synthesis settings:', error);
+      return null;
+    }
+  });
+
+  // Handle synthesis provider settings updates
+  ipcMain.handle('save-synthesis-settings', async (event, synthesis: SynthesisSettings) => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      settingsService.saveSynthesisSettings(synthesis);
+      await appController.handleSynthesisProviderUpdate();
+      return { success: true, message: 'Synthesis settings saved successfully' };
+    } catch (error) {
+      console.error('Failed to save synthesis settings:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle synthesis provider API key saving
+  ipcMain.handle('save-provider-api-key', async (event, provider: LlmProviderId, apiKey: string) => {
+    try {
+      const keychainService = await import('./services/keychain-service');
+      await keychainService.saveProviderApiKey(provider, apiKey);
+      await appController.handleSynthesisProviderUpdate();
+      return { success: true, message: 'API key saved successfully' };
+    } catch (error) {
+      console.error('Failed to save provider API key:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle synthesis provider API key existence check
+  ipcMain.handle('has-provider-api-key', async (event, provider: LlmProviderId) => {
+    try {
+      const keychainService = await import('./services/keychain-service');
+      return !!(await keychainService.getProviderApiKey(provider));
+    } catch (error) {
+      console.error('Failed to check provider API key:', error);
+      return false;
+    }
+  });
+
+  // Handle loading the clustering tuner's cached embeddings
+  ipcMain.handle('load-clustering-tuner', async () => {
+    try {
+      const clusteringTunerService = await import('./services/clustering-tuner-service');
+      const dataset = await clusteringTunerService.loadTunerDataset();
+      return {
+        success: true,
+        message: dataset.embeddingModel ? `Loaded ${dataset.pointCount} cached embeddings` : 'No analysis has run yet',
+        dataset
+      };
+    } catch (error) {
+      console.error('Failed to load clustering tuner:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle re-clustering in the clustering tuner
+  ipcMain.handle('run-clustering-tuner', async (event, params: ClusteringTunerParams) => {
+    try {
+      const clusteringTunerService = await import('./services/clustering-tuner-service');
+      const result = await clusteringTunerService.runTuner(params);
+      return { success: true, message: `Found ${result.clusters.length} clusters`, result };
+    } catch (error) {
+      console.error('Failed to run clustering tuner:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle loading the cluster explorer's plot
+  ipcMain.handle('get-cluster-explorer', async () => {
+    try {
+      const clusterExplorerService = await import('./services/cluster-explorer-service');
+      const data = await clusterExplorerService.loadClusterExplorer();
+      return data
+        ? { success: true, message: `Plotted ${data.points.length} prompts`, data }
+        : { success: true, message: 'No analysis has run yet' };
+    } catch (error) {
+      console.error('Failed to load cluster explorer:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle opening a plotted cluster's suggestion in the edit dialog
+  ipcMain.handle('open-cluster-suggestion', async (event, clusterId: string) => {
+    try {
+      const clusterExplorerService = await import('./services/cluster-explorer-service');
+      const suggestion = clusterExplorerService.getClusterSuggestion(clusterId);
+      if (!suggestion) {
+        return { success: false, message: 'This cluster has no suggestion yet' };
+      }
+
+      const notificationService = await import('./services/notification-service');
+      await notificationService.openSuggestionEditor(suggestion);
+      return { success: true, message: 'Suggestion opened' };
+    } catch (error) {
+      console.error('Failed to open cluster suggestion:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle privacy settings retrieval (schedule and window title exclusions)
+  ipcMain.handle('get-privacy-settings', async () => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      return settingsService.getPrivacySettings();
+    } catch (error) {
+      console.error('Failed to get privacy settings:', error);
+      return null;
+    }
+  });
+
+  // Handle privacy settings updates
+  ipcMain.handle('save-privacy-settings', async (event, privacy: PrivacySettings) => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      settingsService.savePrivacySettings(privacy);
+      return { success: true, message: 'Privacy settings saved successfully' };
+    } catch (error) {
+      console.error('Failed to save privacy settings:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle retention settings retrieval
+  ipcMain.handle('get-retention-settings', async () => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      return settingsService.getRetentionSettings();
+    } catch (error) {
+      console.error('Failed to get retention settings:', error);
+      return null;
+    }
+  });
+
+  // Handle retention settings updates
+  ipcMain.handle('save-retention-settings', async (event, retention: RetentionSettings) => {
+    try {
+      const settingsService = await import('./services/settings-service');
+      settingsService.saveRetentionSettings(retention);
+      return { success: true, message: 'Retention settings saved successfully' };
+    } catch (error) {
+      console.error('Failed to save retention settings:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle on-demand retention runs
+  ipcMain.handle('run-retention', async () => {
+    try {
+      const retentionService = await import('./services/retention-service');
+      const report = await retentionService.runRetention('manual');
+      return { success: report.errors.length === 0, message: report.errors.length === 0 ? 'Retention applied' : report.errors.join('; '), report };
+    } catch (error) {
+      console.error('Failed to run retention:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle retention report retrieval
+  ipcMain.handle('get-retention-reports', async () => {
+    try {
+      const retentionService = await import('./services/retention-service');
+      return retentionService.getRetentionReports();
+    } catch (error) {
+      console.error('Failed to get retention reports:', error);
+      return [];
+    }
+  });
+
+  // Handle prompt history searches (live log and archives)
+  ipcMain.handle('search-history', async (event, query: HistoryQuery) => {
+    try {
+      const loggingService = await import('./services/logging-service');
+      return await loggingService.searchHistory(query);
+    } catch (error) {
+      console.error('Failed to search history:', error);
+      return null;
+    }
+  });
+
+  // Handle deletion of prompt history entries
+  ipcMain.handle('delete-history-entries', async (event, ids: string[]) => {
+    try {
+      const loggingService = await import('./services/logging-service');
+      const deleted = await loggingService.deleteLogEntries(ids);
+      return { success: true, message: `Deleted ${deleted} ${deleted === 1 ? 'entry' : 'entries'}`, count: deleted };
+    } catch (error) {
+      console.error('Failed to delete history entries:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle excluding prompt history entries from analysis (or including them again)
+  ipcMain.handle('set-history-entries-excluded', async (event, ids: string[], excluded: boolean) => {
+    try {
+      const loggingService = await import('./services/logging-service');
+      const changed = await loggingService.setEntriesExcludedFromAnalysis(ids, excluded);
+      return { success: true, message: `${excluded ? 'Excluded' : 'Included'} ${changed} ${changed === 1 ? 'entry' : 'entries'}`, count: changed };
+    } catch (error) {
+      console.error('Failed to update history entries:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle imports of prompt history exported from other tools (asks for the file first)
+  ipcMain.handle('import-prompt-history', async (event, format: ImportFormat) => {
+    try {
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const options: Electron.OpenDialogOptions = {
+        title: 'Import Prompt History',
+        properties: ['openFile', 'showHiddenFiles'],
+        filters: format === 'chatgpt' || format === 'claude'
+          ? [{ name: 'Conversations export', extensions: ['json'] }]
+          : format === 'cursor' ? [{ name: 'Cursor database', extensions: ['vscdb'] }] : []
+      };
+      const { canceled, filePaths } = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+      if (canceled || filePaths.length === 0) {
+        return { success: false, message: 'Import canceled', canceled: true };
+      }
+      
+      const loggingService = await import('./services/logging-service');
+      const report = await loggingService.importPromptHistory(format, filePaths[0]);
+      return {
+        success: true,
+        message: `Imported ${report.imported} of ${report.found} prompts (${report.duplicates} duplicates, ${report.skipped} skipped)`,
+        report
+      };
+    } catch (error) {
+      console.error('Failed to import prompt history:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle capture pause requests
+  ipcMain.handle('pause-capture', async (event, duration: PauseDuration) => {
+    try {
+      const pause = await monitoringService.pauseCapture(duration);
+      return { success: true, message: 'Capture paused', pause };
+    } catch (error) {
+      console.error('Failed to pause capture:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle capture resume requests
+  ipcMain.handle('resume-capture', async () => {
+    try {
+      const pause = await monitoringService.resumeCapture();
+      return { success: true, message: pause.paused ? 'Capture is still paused by the schedule' : 'Capture resumed', pause };
+    } catch (error) {
+      console.error('Failed to resume capture:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle prompt log encryption status requests
+  ipcMain.handle('get-log-encryption-status', async () => {
+    try {
+      const loggingService = await import('./services/logging-service');
+      return await loggingService.getEncryptionStatus();
+    } catch (error) {
+      console.error('Failed to get log encryption status:', error);
+      return null;
+    }
+  });
+
+  // Handle prompt log key rotation requests
+  ipcMain.handle('rotate-log-encryption-key', async () => {
+    try {
+      const loggingService = await import('./services/logging-service');
+      const result = await loggingService.rotateEncryptionKey();
+      return { success: true, message: `Re-encrypted ${result.entriesReencrypted} entries with a new key`, result };
+    } catch (error) {
+      console.error('Failed to rotate log encryption key:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle recovery key export requests
+  ipcMain.handle('export-log-recovery-key', async () => {
+    try {
+      const logEncryptionService = await import('./services/log-encryption-service');
+      const recoveryKey = await logEncryptionService.exportRecoveryKey();
+      return { success: true, message: 'Recovery key created. Store it somewhere safe; it is only shown once.', recoveryKey };
+    } catch (error) {
+      console.error('Failed to export recovery key:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle key restore requests from a recovery key
+  ipcMain.handle('restore-log-encryption-keys', async (event, recoveryKey: string) => {
+    try {
+      const loggingService = await import('./services/logging-service');
+      const result = await loggingService.restoreEncryptionKeys(recoveryKey);
+      return { success: true, message: `Restored ${result.restoredKeys} key(s), unlocking ${result.unlockedLines} entries`, result };
+    } catch (error) {
+      console.error('Failed to restore log encryption keys:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle capture session summaries
+  ipcMain.handle('get-capture-sessions', async () => {
+    try {
+      const loggingService = await import('./services/logging-service');
+      return await loggingService.getCaptureSessions();
+    } catch (error) {
+      console.error('Failed to get capture sessions:', error);
+      return [];
+    }
+  });
+
+  // Handle capture recording start (opt-in redaction masks typed characters and window titles)
+  ipcMain.handle('start-capture-recording', async (event, options: { redact: boolean }) => {
+    try {
+      const captureRecorder = await import('./services/capture-recorder');
+      const filePath = await captureRecorder.startRecording({ redact: Boolean(options?.redact) });
+      return { success: true, message: 'Capture recording started', filePath };
+    } catch (error) {
+      console.error('Failed to start capture recording:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle capture recording stop
+  ipcMain.handle('stop-capture-recording', async () => {
+    try {
+      const captureRecorder = await import('./services/capture-recorder');
+      const filePath = await captureRecorder.stopRecording();
+      return { success: true, message: filePath ? 'Capture recording saved' : 'No recording in progress', filePath };
+    } catch (error) {
+      console.error('Failed to stop capture recording:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle replay of a capture recording (returns the log entries it would have produced)
+  ipcMain.handle('replay-capture-recording', async (event, filePath: string) => {
+    try {
+      const captureReplay = await import('./services/capture-replay');
+      const entries = await captureReplay.replayRecording(filePath);
+      return { success: true, message: `Replay produced ${entries.length} log entries`, entries };
+    } catch (error) {
+      console.error('Failed to replay capture recording:', error);
+      return { 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Unknown error occurred' 
+      };
+    }
+  });
+
+  // Handle classifier explanations for a sample text (used to tune rules)
+  ipcMain.handle('classify-text', async (event, text: string) => {
+    try {
+      const promptClassifier = await import('./services/prompt-classifier-service');
+      return promptClassifier.classifyPrompt(text.trim(), 0);
+    } catch (error) {
+      console.error('Failed to classify text:', error);
+      return null;
+    }
+  });
 };
 
 /**
@@ -141,6 +842,18 @@ async function initializeApplication(): Promise<void> {
       console.log('Settings clicked - opening configuration window');
       createConfigWindow();
     },
+    openHistory: () => {
+      console.log('Prompt History clicked - opening history window');
+      createHistoryWindow();
+    },
+    openTuner: () => {
+      console.log('Clustering Tuner clicked - opening tuner window');
+      createTunerWindow();
+    },
+    openExplorer: () => {
+      console.log('Cluster Explorer clicked - opening explorer window');
+      createExplorerWindow();
+    },
     tryDemo: async () => {
       console.log('Try Demo clicked - adding sample data for demonstration...');
       try {
@@ -165,6 +878,14 @@ async function initializeApplication(): Promise<void> {
             }
     },
     openConsole: openDebugConsole,
+    pauseCapture: (duration: PauseDuration) => {
+      console.log(`Pause Capture clicked (${duration})`);
+      monitoringService.pauseCapture(duration).catch(error => console.error('Error pausing capture:', error));
+    },
+    resumeCapture: () => {
+      console.log('Resume Capture clicked');
+      monitoringService.resumeCapture().catch(error => console.error('Error resuming capture:', error));
+    },
     quit: () => {
       console.log('Quit clicked');
       app.quit();
@@ -236,6 +957,13 @@ async function initializeApplication(): Promise<void> {
     trayManager.updateTray(state, status.isAnalyzing, trayCallbacks);
   });
 
+  // Show capture pauses (manual or scheduled) in the tray icon and menu
+  monitoringService.onCapturePauseChange((pause) => {
+    const status = appController.getDetailedStatus();
+    trayManager.setPauseStatus(pause);
+    trayManager.forceUpdateTray(status.state, status.isAnalyzing, trayCallbacks);
+  });
+
   // Initialize app controller (this will determine initial state)
   await appController.initializeApp();
   
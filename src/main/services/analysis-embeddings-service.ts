@@ -0,0 +1,57 @@
+/**
+ * @file Loads the analysis window's prompts with the embeddings the last analysis cached, for the clustering views
+ * @module analysis-embeddings-service
+ */
+
+import * as loggingService from './logging-service';
+import * as redactionService from './redaction-service';
+import * as embeddingCacheService from './embedding-cache-service';
+import { normalizeEmbeddingText, type EmbeddingCacheScope } from '../utils/embedding-cache';
+
+const MIN_TEXT_LENGTH = 10; // Analysis doesn't embed shorter texts
+
+// Prompts with cached vectors, in the same order
+export interface CachedAnalysisEmbeddings {
+  scope: EmbeddingCacheScope;
+  texts: string[];
+  vectors: number[][];
+  uncachedCount: number;  // Prompts left out because they have no cached vector
+}
+
+/**
+ * Loads the newest prompts of the analysis window that have a cached embedding
+ * Entries are redacted like analysis does, so the same texts (and cache keys) are used. Prompts without a cached
+ * vector, e.g. ones captured since the last analysis, are counted but left out rather than embedded
+ * @param maxPoints - Most prompts to load
+ * @returns The prompts and vectors, or null if no analysis has cached embeddings yet
+ */
+export async function loadCachedAnalysisEmbeddings(maxPoints: number): Promise<CachedAnalysisEmbeddings | null> {
+  const scope = embeddingCacheService.getLastEmbeddingScope();
+  if (!scope) return null;
+
+  const { entries } = redactionService.redactEntries(await loggingService.getAnalysisEntries());
+  const texts = entries
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .map(entry => entry.text)
+    .filter(text => text.trim().length >= MIN_TEXT_LENGTH)
+    .slice(0, maxPoints);
+
+  const cache = embeddingCacheService.getEmbeddingCache(scope);
+  const vectors = new Map<string, number[] | null>();
+  const loaded: CachedAnalysisEmbeddings = { scope, texts: [], vectors: [], uncachedCount: 0 };
+
+  for (const text of texts) {
+    const key = normalizeEmbeddingText(text);
+    if (!vectors.has(key)) vectors.set(key, cache.get(text));
+
+    const vector = vectors.get(key);
+    if (vector) {
+      loaded.texts.push(text);
+      loaded.vectors.push(vector);
+    } else {
+      loaded.uncachedCount++;
+    }
+  }
+
+  return loaded;
+}
@@ -0,0 +1,52 @@
+/**
+ * @file Tracks which log entries analysis has already processed, so runs only act on clusters with something new
+ * @module analysis-progress-service
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// What the last completed analysis processed (entry IDs only, never captured text)
+interface AnalysisProgress {
+  updatedAt: string;
+  processedEntryIds: string[];
+}
+
+// Get the path to the stored progress
+const getProgressPath = (): string => {
+  return path.join(app.getPath('userData'), 'analysis-progress.json');
+};
+
+/**
+ * Gets the IDs of the entries earlier analyses processed
+ * @returns Set of entry IDs (empty if nothing has been analyzed yet or the file is unreadable)
+ */
+export function getProcessedEntryIds(): Set<string> {
+  const progressPath = getProgressPath();
+  if (!fs.existsSync(progressPath)) return new Set();
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(progressPath, 'utf8')) as Partial<AnalysisProgress>;
+    return new Set(Array.isArray(parsed.processedEntryIds) ? parsed.processedEntryIds : []);
+  } catch (error) {
+    console.error('Failed to read analysis progress, treating every entry as new:', error);
+    return new Set();
+  }
+}
+
+/**
+ * Records the entries an analysis processed
+ * Replaces the stored IDs rather than adding to them: every entry still in the analysis window was part of this run,
+ * and entries that have left the window are never loaded again, so their IDs would only make the file grow
+ * @param ids - IDs of every entry the analysis loaded
+ */
+export function saveProcessedEntryIds(ids: string[]): void {
+  const progress: AnalysisProgress = { updatedAt: new Date().toISOString(), processedEntryIds: ids };
+
+  try {
+    fs.writeFileSync(getProgressPath(), JSON.stringify(progress));
+  } catch (error) {
+    console.error('Failed to save analysis progress:', error);
+  }
+}
@@ -7,12 +7,15 @@ import * as keychainService from './keychain-service';
 import * as permissionService from './permission-service';
 import * as monitoringService from './monitoring-service';
 import * as notificationService from './notification-service';
+import * as retentionService from './retention-service';
+import * as settingsService from './settings-service';
 import { runAnalysisWorkflow } from '../workflow/ai-workflow';
+import { providerRequiresApiKey } from '../workflow/llm-providers';
 
 // Application states
 export type AppState = 
   | 'starting'           // Initial startup
-  | 'configuration-needed' // No API key
+  | 'configuration-needed' // Missing an API key the configured providers need
   | 'permission-needed'  // No accessibility permission  
   | 'idle'              // Ready and monitoring
   | 'analyzing'         // AI analysis in progress
@@ -109,6 +112,25 @@ function setState(newState: AppState): void {
   }
 }
 
+/**
+ * Checks that every API key the configured embedding and synthesis providers need is stored
+ * @returns Promise resolving to whether analysis can run
+ */
+async function hasAnalysisCredentials(): Promise<boolean> {
+  const { embeddingProvider } = settingsService.getAnalysisSettings();
+  const { provider } = settingsService.getSynthesisSettings();
+
+  if ((embeddingProvider === 'openai' || provider === 'openai') && !(await keychainService.hasApiKey())) {
+    return false;
+  }
+
+  if (provider !== 'openai' && providerRequiresApiKey(provider)) {
+    return !!(await keychainService.getProviderApiKey(provider));
+  }
+
+  return true;
+}
+
 /**
  * Initializes the application and determines initial state
  * @returns Promise resolving when initialization is complete
@@ -116,9 +138,15 @@ function setState(newState: AppState): void {
 export async function initializeApp(): Promise<void> {
   console.log('Initializing application state...');
   
+  // Retention applies to data already on disk, so it runs whether or not capture can start
+  retentionService.startRetentionSchedule();
+  
+  // A pause from before the last quit still holds, so capture doesn't silently resume after a restart
+  await monitoringService.restoreCapturePause();
+  
   try {
-    // Check if API key is configured
-    const hasApiKey = await keychainService.hasApiKey();
+    // Check that the configured providers have their API keys
+    const hasApiKey = await hasAnalysisCredentials();
     
     if (!hasApiKey) {
       console.log('No API key found');
@@ -189,7 +217,7 @@ function startAutomatedAnalysis(): void {
   setTimeout(async () => {
     if (!appState.isAnalyzing && appState.currentState === 'idle') {
       const loggingService = await import('./logging-service');
-      const entries = await loggingService.getLogEntries();
+      const entries = await loggingService.getAnalysisEntries();
       
       if (entries.length >= MIN_LOG_ENTRIES_FOR_ANALYSIS) {
         console.log(`Found ${entries.length} log entries, running initial analysis`);
@@ -305,8 +333,8 @@ function startPermissionMonitoring(): void {
     if (hasPermission) {
       console.log('Accessibility permission granted');
       
-      // Check if we also have API key
-      const hasApiKey = await keychainService.hasApiKey();
+      // Check if we also have the API keys
+      const hasApiKey = await hasAnalysisCredentials();
       
       if (hasApiKey) {
         // Start monitoring and automated analysis
@@ -345,31 +373,55 @@ function stopPermissionMonitoring(): void {
 export async function handleApiKeyUpdate(apiKey: string): Promise<void> {
   try {
     await keychainService.saveApiKey(apiKey);
-    
-    // Check permissions and update state accordingly
-    const hasPermission = await permissionService.hasAccessibilityPermission();
-    
-    if (hasPermission) {
-      // Start monitoring and automated analysis
-      monitoringService.startMonitoring();
-      
-      const status = monitoringService.getMonitoringStatus();
-      notificationService.showMonitoringStartedNotification(status.captureMode);
-      
-      startAutomatedAnalysis();
-      setState('idle');
-    } else {
-      setState('permission-needed');
-      startPermissionMonitoring();
-      await permissionService.requestAccessibilityPermission();
-    }
-    
+    await startWhenConfigured();
   } catch (error) {
     console.error('Error handling API key update:', error);
     setState('error');
   }
 }
 
+/**
+ * Handles synthesis provider changes (settings or API key), leaving configuration-needed once every key is stored
+ */
+export async function handleSynthesisProviderUpdate(): Promise<void> {
+  if (appState.currentState !== 'configuration-needed') return;
+
+  try {
+    await startWhenConfigured();
+  } catch (error) {
+    console.error('Error handling synthesis provider update:', error);
+    setState('error');
+  }
+}
+
+/**
+ * Starts monitoring once the API keys and accessibility permission are in place
+ */
+async function startWhenConfigured(): Promise<void> {
+  if (!(await hasAnalysisCredentials())) {
+    setState('configuration-needed');
+    return;
+  }
+
+  // Check permissions and update state accordingly
+  const hasPermission = await permissionService.hasAccessibilityPermission();
+
+  if (hasPermission) {
+    // Start monitoring and automated analysis
+    monitoringService.startMonitoring();
+
+    const status = monitoringService.getMonitoringStatus();
+    notificationService.showMonitoringStartedNotification(status.captureMode);
+
+    startAutomatedAnalysis();
+    setState('idle');
+  } else {
+    setState('permission-needed');
+    startPermissionMonitoring();
+    await permissionService.requestAccessibilityPermission();
+  }
+}
+
 /**
  * Cleanup function to call when app is shutting down
  */
@@ -382,6 +434,9 @@ export function cleanup(): void {
   // Stop permission monitoring
   stopPermissionMonitoring();
   
+  // Stop retention schedule
+  retentionService.stopRetentionSchedule();
+  
   // Stop monitoring service
   monitoringService.stopMonitoring();
   
@@ -0,0 +1,209 @@
+/**
+ * @file Records keystroke and focus events seen by the capture engine to JSONL files for later replay
+ * @module capture-recorder
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as settingsService from './settings-service';
+import * as keyboardLayoutService from './keyboard-layout-service';
+import * as redactionService from './redaction-service';
+import { getCharacterKeycodes } from '../utils/keyboard-layouts';
+import type { KeystrokeEvent } from '../utils/keystroke-decoder';
+import type {
+  CaptureRecording,
+  RecordedEvent,
+  RecordedKeyEvent,
+  RecordingHeader
+} from '../../common/types/capture-recording';
+import type { WindowInfo } from './window-source';
+
+// Options for a recording session
+export interface RecordingOptions {
+  redact: boolean; // Mask character keys and redact window titles so the file can be shared
+}
+
+// Recorder state
+interface RecorderState {
+  stream?: fs.WriteStream;
+  filePath?: string;
+  startedAt: number;
+  redact: boolean;
+}
+
+// Keycode every character key is replaced with when redacting ('x' on all built-in layouts but Dvorak)
+const MASK_KEYCODE = 45;
+
+const CHARACTER_KEYCODES = new Set(getCharacterKeycodes());
+
+const state: RecorderState = {
+  startedAt: 0,
+  redact: false
+};
+
+// Get the directory holding recordings
+const getRecordingsDir = (): string => {
+  return path.join(app.getPath('userData'), 'recordings');
+};
+
+/**
+ * Writes one JSON line to the active recording
+ * @param record - The header or event to write
+ */
+function writeLine(record: RecordingHeader | RecordedEvent): void {
+  if (state.stream) {
+    state.stream.write(`${JSON.stringify(record)}\n`);
+  }
+}
+
+/**
+ * Starts recording capture events to a new file
+ * @param options - Recording options
+ * @returns Promise resolving to the recording file path
+ * @throws Error if a recording is already in progress
+ */
+export async function startRecording(options: RecordingOptions): Promise<string> {
+  if (state.stream) {
+    throw new Error('A capture recording is already in progress');
+  }
+
+  const recordingsDir = getRecordingsDir();
+  fs.mkdirSync(recordingsDir, { recursive: true });
+
+  const layout = await keyboardLayoutService.resolveActiveLayout();
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filePath = path.join(recordingsDir, `recording_${timestamp}.jsonl`);
+
+  state.stream = fs.createWriteStream(filePath, { encoding: 'utf8' });
+  state.filePath = filePath;
+  state.startedAt = Date.now();
+  state.redact = options.redact;
+
+  writeLine({
+    type: 'header',
+    version: 2,
+    startedAt: state.startedAt,
+    keyboardLayout: layout,
+    captureTargets: settingsService.getCaptureTargets(),
+    classifier: settingsService.getClassifierSettings(),
+    redaction: settingsService.getRedactionSettings(),
+    redacted: options.redact
+  });
+
+  console.log(`Capture recording started: ${filePath}${options.redact ? ' (redacted)' : ''}`);
+  return filePath;
+}
+
+/**
+ * Stops the current recording and closes its file
+ * @returns Promise resolving to the recording file path, or null if nothing was recording
+ */
+export async function stopRecording(): Promise<string | null> {
+  const { stream, filePath } = state;
+  if (!stream || !filePath) {
+    return null;
+  }
+
+  state.stream = undefined;
+  state.filePath = undefined;
+
+  await new Promise<void>(resolve => stream.end(() => resolve()));
+
+  console.log(`Capture recording saved: ${filePath}`);
+  return filePath;
+}
+
+/**
+ * Checks whether a recording is in progress
+ * @returns Whether events are being recorded
+ */
+export function isRecording(): boolean {
+  return state.stream !== undefined;
+}
+
+/**
+ * Records a keyboard event
+ * Character keys are masked when redacting; Cmd/Ctrl chords keep their keys so shortcuts replay correctly
+ * @param type - keydown or keyup
+ * @param event - The uiohook-napi event
+ * @param now - Current time in milliseconds
+ */
+export function recordKeyEvent(type: 'keydown' | 'keyup', event: KeystrokeEvent, now: number): void {
+  if (!state.stream) return;
+
+  const isChord = Boolean(event.metaKey || (event.ctrlKey && !event.altKey));
+  const keycode = state.redact && !isChord && CHARACTER_KEYCODES.has(event.keycode) ? MASK_KEYCODE : event.keycode;
+
+  const record: RecordedKeyEvent = {
+    t: now - state.startedAt,
+    type,
+    keycode,
+    shiftKey: Boolean(event.shiftKey),
+    altKey: Boolean(event.altKey),
+    ctrlKey: Boolean(event.ctrlKey),
+    metaKey: Boolean(event.metaKey)
+  };
+
+  writeLine(record);
+}
+
+/**
+ * Records a focus change
+ * @param window - The newly focused window, or null
+ * @param now - Current time in milliseconds
+ */
+export function recordFocusEvent(window: WindowInfo | null, now: number): void {
+  if (!state.stream) return;
+
+  const recordedWindow = window && state.redact
+    ? { processName: window.processName, windowTitle: redactionService.redact(window.windowTitle).text }
+    : window;
+
+  writeLine({ t: now - state.startedAt, type: 'focus', window: recordedWindow });
+}
+
+/**
+ * Parses a recording file
+ * @param filePath - Path to the JSONL recording
+ * @returns The recording header and events in file order
+ * @throws Error if the file has no valid header, uses an older format or contains malformed lines
+ */
+export function loadRecording(filePath: string): CaptureRecording {
+  const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line.trim());
+  const records = lines.map((line, index) => {
+    try {
+      return JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Malformed recording line ${index + 1} in ${path.basename(filePath)}`);
+    }
+  });
+
+  const [header, ...events] = records;
+  if (!header || header.type !== 'header') {
+    throw new Error(`Recording ${path.basename(filePath)} has no valid header`);
+  }
+  if (header.version !== 2) {
+    // Version 1 headers only named the layout and read every other setting live, so replays weren't reproducible
+    throw new Error(`Recording ${path.basename(filePath)} uses unsupported format version ${header.version}; record it again`);
+  }
+
+  return { header, events };
+}
+
+/**
+ * Lists saved recordings, newest first
+ * @returns Array of recording file paths
+ */
+export function listRecordings(): string[] {
+  const recordingsDir = getRecordingsDir();
+  if (!fs.existsSync(recordingsDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(recordingsDir)
+    .filter(filename => filename.endsWith('.jsonl'))
+    .sort()
+    .reverse()
+    .map(filename => path.join(recordingsDir, filename));
+}
@@ -0,0 +1,93 @@
+/**
+ * @file Regression tests replaying recorded capture sessions and checking the log entries they produce
+ * @module capture-replay.test
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as captureReplay from './capture-replay';
+import * as captureRecorder from './capture-recorder';
+import * as settingsService from './settings-service';
+import type { LogEntry } from '../../common/types/log-entry';
+
+// Settings and logs go to a throwaway directory instead of the app's userData
+vi.mock('electron', async () => {
+  const os = await import('os');
+  const path = await import('path');
+  const fs = await import('fs');
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'dryprompt-replay-'));
+  return {
+    app: { getPath: () => userData },
+    clipboard: { readText: () => '' }
+  };
+});
+// The native modules stay out of tests: no focus polling, and no keychain access for the log encryption key
+vi.mock('active-win', () => ({ default: async (): Promise<undefined> => undefined }));
+vi.mock('keytar', () => {
+  const passwords = new Map<string, string>();
+  return {
+    getPassword: async (service: string, account: string) => passwords.get(`${service}/${account}`) ?? null,
+    setPassword: async (service: string, account: string, password: string) => { passwords.set(`${service}/${account}`, password); },
+    deletePassword: async (service: string, account: string) => passwords.delete(`${service}/${account}`)
+  };
+});
+
+// Each recording sits next to the entries its replay must produce
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__', 'capture-replay');
+const FIXTURES = fs.readdirSync(FIXTURES_DIR)
+  .filter(filename => filename.endsWith('.jsonl'))
+  .map(filename => filename.replace(/\.jsonl$/, ''));
+
+/**
+ * Replays a fixture recording
+ * @param name - Fixture name without extension
+ * @returns Promise resolving to the replayed log entries
+ */
+function replayFixture(name: string): Promise<LogEntry[]> {
+  return captureReplay.replayRecording(path.join(FIXTURES_DIR, `${name}.jsonl`));
+}
+
+/**
+ * Reads the entries a fixture recording must replay to
+ * @param name - Fixture name without extension
+ * @returns The expected log entries
+ */
+function expectedEntries(name: string): unknown[] {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.expected.json`), 'utf8'));
+}
+
+describe('capture replay', () => {
+  const savedClassifier = settingsService.getClassifierSettings();
+  const savedRedaction = settingsService.getRedactionSettings();
+  const savedTargets = settingsService.getCaptureTargets();
+
+  afterEach(() => {
+    settingsService.saveClassifierSettings(savedClassifier);
+    settingsService.saveRedactionSettings(savedRedaction);
+    settingsService.saveCaptureTargets(savedTargets);
+  });
+
+  it.each(FIXTURES)('replays %s to the recorded entries', async name => {
+    expect(await replayFixture(name)).toEqual(expectedEntries(name));
+  });
+
+  it('uses the settings snapshot in the header rather than the current settings', async () => {
+    settingsService.saveClassifierSettings({ ...savedClassifier, threshold: 100, keepRejected: false });
+    settingsService.saveRedactionSettings({ enabled: false, disabledDetectors: [], customRules: [] });
+    settingsService.saveCaptureTargets([]);
+
+    for (const name of FIXTURES) {
+      expect(await replayFixture(name)).toEqual(expectedEntries(name));
+    }
+  });
+
+  it('rejects recordings from before settings were snapshotted', () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'dryprompt-recording-')), 'old.jsonl');
+    const header = { type: 'header', version: 1, startedAt: 0, keyboardLayoutId: 'us', captureTargets: [] as unknown[], redacted: false };
+    fs.writeFileSync(filePath, `${JSON.stringify(header)}\n`);
+
+    expect(() => captureRecorder.loadRecording(filePath)).toThrow('uses unsupported format version 1');
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * @file Replays capture recordings through the real capture engine on a virtual clock
+ * @module capture-replay
+ */
+
+import * as monitoringService from './monitoring-service';
+import * as loggingService from './logging-service';
+import * as captureRecorder from './capture-recorder';
+import { createFakeWindowSource } from './fake-window-source';
+import { createVirtualClock } from '../utils/virtual-clock';
+import type { CaptureRecording } from '../../common/types/capture-recording';
+import type { LogEntry } from '../../common/types/log-entry';
+import type { PrivacySettings } from '../../common/types/capture-privacy';
+
+// Idle time simulated after the last event so pending buffer timeouts fire, as they would live
+const TRAILING_IDLE_MS = 10000;
+
+// Replays ignore the live schedule and exclusions; excluded windows were never recorded in the first place
+const REPLAY_PRIVACY_SETTINGS: PrivacySettings = {
+  schedule: { enabled: false, windows: [] },
+  excludedWindowTitles: []
+};
+
+/**
+ * Replays a parsed recording and collects the log entries the capture engine would have written
+ * Focus, keystrokes and buffer timeouts all run on a virtual clock, and the layout, target rules, prompt filter
+ * and redaction settings come from the recording's header, so the result doesn't depend on the current settings
+ * @param recording - The recording to replay
+ * @returns Promise resolving to the log entries, in write order
+ * @throws Error if monitoring or a recording is active
+ */
+export async function replayCapture(recording: CaptureRecording): Promise<LogEntry[]> {
+  if (monitoringService.getMonitoringStatus().isRunning) {
+    throw new Error('Stop monitoring before replaying a capture recording');
+  }
+  if (captureRecorder.isRecording()) {
+    throw new Error('Stop the current recording before replaying');
+  }
+
+  const { header, events } = recording;
+  const clock = createVirtualClock(header.startedAt);
+  const windowSource = createFakeWindowSource();
+  const entries: LogEntry[] = [];
+
+  monitoringService.configureCaptureEnvironment({
+    clock,
+    keyboardInput: 'injected',
+    keyboardLayout: header.keyboardLayout,
+    captureTargets: header.captureTargets,
+    privacySettings: REPLAY_PRIVACY_SETTINGS,
+    classifierSettings: header.classifier,
+    logSink: async (text, windowTitle, processName, metadata) => {
+      const entry = loggingService.createLogEntry(text, windowTitle, processName, metadata, new Date(clock.now()), header.redaction);
+      if (entry) entries.push(entry);
+    }
+  });
+  monitoringService.setWindowSource(windowSource);
+
+  try {
+    monitoringService.startMonitoring();
+
+    for (const event of events) {
+      await clock.advanceTo(header.startedAt + event.t);
+
+      if (event.type === 'focus') {
+        await windowSource.focus(event.window);
+      } else {
+        monitoringService.injectKeyEvent(event.type, event);
+      }
+    }
+
+    await clock.advanceBy(TRAILING_IDLE_MS);
+
+    // Anything still buffered when the recording ended was never written, so stop collecting first
+    return [...entries];
+
+  } finally {
+    monitoringService.stopMonitoring();
+    monitoringService.setWindowSource(null);
+    monitoringService.resetCaptureEnvironment();
+  }
+}
+
+/**
+ * Loads a recording file and replays it
+ * @param filePath - Path to the JSONL recording
+ * @returns Promise resolving to the log entries the capture engine would have written
+ * @throws Error if the file is invalid or replay can't start
+ */
+export async function replayRecording(filePath: string): Promise<LogEntry[]> {
+  const recording = captureRecorder.loadRecording(filePath);
+  console.log(`Replaying ${recording.events.length} events from ${filePath}`);
+
+  const entries = await replayCapture(recording);
+  console.log(`Replay produced ${entries.length} log entries`);
+
+  return entries;
+}
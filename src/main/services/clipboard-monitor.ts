@@ -0,0 +1,99 @@
+/**
+ * @file Watches the system clipboard for text changes, used as the fallback capture source
+ * @module clipboard-monitor
+ */
+
+import { clipboard } from 'electron';
+
+// Where a clipboard change originated relative to the target app
+export type ClipboardOrigin = 'target' | 'external';
+
+// Callback invoked with new clipboard text
+export type ClipboardChangeHandler = (text: string, origin: ClipboardOrigin) => void;
+
+// Clipboard watcher state
+interface ClipboardMonitorState {
+  pollInterval?: NodeJS.Timeout;
+  lastText: string | null; // Kept across watch sessions so copies made elsewhere can be detected
+  onChange?: ClipboardChangeHandler;
+}
+
+// How often to poll the clipboard while watching
+const CLIPBOARD_POLL_INTERVAL = 1000; // 1 second
+
+const state: ClipboardMonitorState = {
+  lastText: null
+};
+
+/**
+ * Reads the current clipboard text, treating read failures as empty
+ * @returns The clipboard text
+ */
+function readClipboardText(): string {
+  try {
+    return clipboard.readText();
+  } catch (error) {
+    console.warn('Could not read clipboard:', error);
+    return '';
+  }
+}
+
+/**
+ * Polls the clipboard and reports text that changed since the last poll
+ */
+function checkClipboard(): void {
+  const text = readClipboardText();
+
+  if (text === state.lastText) return;
+  state.lastText = text;
+
+  if (text.trim() && state.onChange) {
+    state.onChange(text, 'target');
+  }
+}
+
+/**
+ * Starts watching the clipboard
+ * Text copied in another app since the last session is reported once as 'external',
+ * since it was most likely brought over to be pasted into the target app
+ * @param onChange - Called with each new clipboard text and its origin
+ */
+export function startClipboardWatch(onChange: ClipboardChangeHandler): void {
+  if (state.pollInterval) {
+    stopClipboardWatch();
+  }
+
+  state.onChange = onChange;
+
+  const text = readClipboardText();
+  const changedWhileAway = state.lastText !== null && text !== state.lastText;
+  state.lastText = text;
+
+  if (changedWhileAway && text.trim()) {
+    onChange(text, 'external');
+  }
+
+  state.pollInterval = setInterval(checkClipboard, CLIPBOARD_POLL_INTERVAL);
+  console.log('Clipboard watch started');
+}
+
+/**
+ * Stops watching the clipboard, remembering the last seen text for the next session
+ */
+export function stopClipboardWatch(): void {
+  if (state.pollInterval) {
+    clearInterval(state.pollInterval);
+    state.pollInterval = undefined;
+    console.log('Clipboard watch stopped');
+  }
+
+  state.onChange = undefined;
+}
+
+/**
+ * Checks whether the clipboard is currently being watched
+ * @returns Whether a watch session is active
+ */
+export function isClipboardWatchActive(): boolean {
+  return state.pollInterval !== undefined;
+}
@@ -0,0 +1,86 @@
+/**
+ * @file Cluster explorer: plots the last analysis's cached embeddings in 2D, coloured by their stored cluster
+ * @module cluster-explorer-service
+ */
+
+import * as clusterStoreService from './cluster-store-service';
+import * as clusteringWorkerService from './clustering-worker-service';
+import { loadCachedAnalysisEmbeddings } from './analysis-embeddings-service';
+import { getEmbeddingScopeKey, hashEmbeddingText } from '../utils/embedding-cache';
+import type { ClusterSuggestionLink } from '../../common/types/cluster-store';
+import type { TemplatePlaceholder } from '../../common/types/prompt-template';
+import type { ClusterExplorerCluster, ClusterExplorerData, ClusterExplorerPoint } from '../../common/types/clustering';
+
+const MAX_POINTS = 2000; // Newest prompts plotted
+
+// Interface for suggestion data (as the edit dialog takes it)
+interface SuggestionData {
+  trigger: string;
+  replacement: string;
+  placeholders?: TemplatePlaceholder[];
+  sourceTexts: string[];
+  confidence: number;
+  suggestionId?: string;
+}
+
+// Suggestions and prompts of the plotted clusters, for opening them in the edit dialog
+let plottedClusters = new Map<string, { suggestion?: ClusterSuggestionLink; texts: string[] }>();
+
+/**
+ * Loads the explorer's plot: the analysis window's prompts with cached embeddings, projected with PCA in the clustering worker
+ * Each prompt is coloured by the stored cluster the last analysis assigned it to; prompts in none are noise
+ * @returns The plot, or null if no analysis has cached embeddings yet
+ */
+export async function loadClusterExplorer(): Promise<ClusterExplorerData | null> {
+  const loaded = await loadCachedAnalysisEmbeddings(MAX_POINTS);
+  if (!loaded) return null;
+
+  const embeddingModel = getEmbeddingScopeKey(loaded.scope);
+  const clusterByKey = new Map<string, string>();
+  const suggestions = new Map<string, ClusterSuggestionLink | undefined>();
+  for (const cluster of clusterStoreService.getStoredClusters(embeddingModel)) {
+    cluster.memberKeys.forEach(key => clusterByKey.set(key, cluster.id));
+    suggestions.set(cluster.id, cluster.suggestion);
+  }
+
+  const assigned = loaded.texts.map(text => clusterByKey.get(hashEmbeddingText(text)) || null);
+  plottedClusters = new Map();
+  assigned.forEach((id, index) => {
+    if (!id) return;
+    const plotted = plottedClusters.get(id) || { suggestion: suggestions.get(id), texts: [] };
+    plotted.texts.push(loaded.texts[index]);
+    plottedClusters.set(id, plotted);
+  });
+
+  // Largest clusters first, so they get the first (most distinct) colours
+  const clusters: ClusterExplorerCluster[] = [...plottedClusters.entries()]
+    .sort((a, b) => b[1].texts.length - a[1].texts.length)
+    .map(([id, { suggestion, texts }]) => ({
+      id,
+      size: texts.length,
+      suggestion: suggestion ? { trigger: suggestion.trigger, replacement: suggestion.replacement } : null
+    }));
+  const clusterIndex = new Map(clusters.map((cluster, index) => [cluster.id, index]));
+
+  const { points, explainedVariance } = await clusteringWorkerService.runClusteringTask({ type: 'project', vectors: loaded.vectors });
+  const plotted: ClusterExplorerPoint[] = points.map(([x, y], index) => {
+    const id = assigned[index];
+    return { x, y, text: loaded.texts[index], cluster: id ? clusterIndex.get(id) ?? null : null };
+  });
+
+  console.log(`Cluster explorer plotted ${plotted.length} prompts in ${clusters.length} clusters`);
+  return { embeddingModel, points: plotted, clusters, uncachedCount: loaded.uncachedCount, explainedVariance };
+}
+
+/**
+ * Gets the suggestion of a plotted cluster, with its prompts as the source texts
+ * @param clusterId - Stored cluster ID
+ * @returns The suggestion, or null if the cluster isn't plotted or has none yet
+ */
+export function getClusterSuggestion(clusterId: string): SuggestionData | null {
+  const plotted = plottedClusters.get(clusterId);
+  if (!plotted?.suggestion) return null;
+
+  const { trigger, replacement, placeholders, confidence, suggestionId } = plotted.suggestion;
+  return { trigger, replacement, placeholders, confidence, suggestionId, sourceTexts: plotted.texts };
+}
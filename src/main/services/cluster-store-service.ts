@@ -0,0 +1,128 @@
+/**
+ * @file Keeps prompt clusters across analysis runs, so known patterns keep their ID and suggestion
+ * @module cluster-store-service
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { decodeEmbedding, encodeEmbedding } from '../utils/embedding-cache';
+import type { ClusterSuggestionLink, StoredCluster } from '../../common/types/cluster-store';
+
+const STORE_VERSION = 1;
+const MAX_CLUSTERS = 500;
+const MAX_MEMBER_KEYS = 1000;                       // Per cluster; the oldest assignments go first
+const MAX_IDLE_MS = 180 * 24 * 60 * 60 * 1000;      // Clusters no run has seen for 180 days are dropped
+
+// A stored cluster as written to disk, with its centroid encoded like cached embeddings
+interface StoredClusterRecord extends Omit<StoredCluster, 'centroid'> {
+  centroid: string;
+}
+
+// The stored clusters; they only apply to vectors of the embedding scope they were built from
+interface ClusterStoreFile {
+  version: number;
+  scope: string;            // `provider:model:dimensions` of the embeddings
+  clusters: StoredClusterRecord[];
+}
+
+// Get the path to the cluster store
+const getStorePath = (): string => {
+  return path.join(app.getPath('userData'), 'cluster-store.json');
+};
+
+/**
+ * Reads the store file
+ * @returns The stored file, or null if there is none or it can't be read
+ */
+function readStore(): ClusterStoreFile | null {
+  const storePath = getStorePath();
+  if (!fs.existsSync(storePath)) return null;
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(storePath, 'utf8')) as Partial<ClusterStoreFile>;
+    if (parsed.version !== STORE_VERSION || typeof parsed.scope !== 'string' || !Array.isArray(parsed.clusters)) {
+      return null;
+    }
+    return parsed as ClusterStoreFile;
+  } catch (error) {
+    console.error('Failed to read cluster store:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets the clusters stored for an embedding scope
+ * Clusters built from another provider or model are ignored, since their centroids can't be compared
+ * @param scope - `provider:model:dimensions` of the current embeddings
+ * @returns The stored clusters (empty if none match the scope)
+ */
+export function getStoredClusters(scope: string): StoredCluster[] {
+  const store = readStore();
+  if (!store) return [];
+
+  if (store.scope !== scope) {
+    console.log(`Cluster store was built with ${store.scope}, starting new clusters for ${scope}`);
+    return [];
+  }
+
+  return store.clusters.map(record => ({ ...record, centroid: decodeEmbedding(record.centroid) }));
+}
+
+/**
+ * Saves the clusters of an embedding scope, replacing whatever was stored
+ * Drops clusters idle for too long (then the least recently seen, above the cluster limit)
+ * @param scope - `provider:model:dimensions` of the embeddings
+ * @param clusters - Every cluster to keep
+ */
+export function saveStoredClusters(scope: string, clusters: StoredCluster[]): void {
+  const cutoff = Date.now() - MAX_IDLE_MS;
+  const kept = clusters
+    .filter(cluster => Date.parse(cluster.updatedAt) >= cutoff)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_CLUSTERS);
+
+  const store: ClusterStoreFile = {
+    version: STORE_VERSION,
+    scope,
+    clusters: kept.map(cluster => ({
+      ...cluster,
+      memberKeys: cluster.memberKeys.slice(-MAX_MEMBER_KEYS),
+      centroid: encodeEmbedding(cluster.centroid)
+    }))
+  };
+
+  try {
+    fs.writeFileSync(getStorePath(), JSON.stringify(store));
+  } catch (error) {
+    console.error('Failed to save cluster store:', error);
+  }
+}
+
+/**
+ * Records synthesis results on stored clusters
+ * @param synthesizedIds - IDs of every cluster that was sent to synthesis
+ * @param suggestions - The suggestion produced for each cluster that got one
+ */
+export function recordClusterSuggestions(synthesizedIds: string[], suggestions: Record<string, ClusterSuggestionLink>): void {
+  const store = readStore();
+  if (!store) return;
+
+  const synthesized = new Set(synthesizedIds);
+  const now = new Date().toISOString();
+
+  for (const cluster of store.clusters) {
+    if (!synthesized.has(cluster.id)) continue;
+
+    cluster.lastSynthesizedAt = now;
+    if (suggestions[cluster.id]) {
+      cluster.suggestion = suggestions[cluster.id];
+    }
+  }
+
+  try {
+    fs.writeFileSync(getStorePath(), JSON.stringify(store));
+  } catch (error) {
+    console.error('Failed to save cluster suggestions:', error);
+  }
+}
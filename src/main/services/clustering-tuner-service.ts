@@ -0,0 +1,62 @@
+/**
+ * @file Clustering tuner: re-clusters the last analysis's cached embeddings with other parameters, without any API call
+ * @module clustering-tuner-service
+ */
+
+import * as settingsService from './settings-service';
+import * as clusteringWorkerService from './clustering-worker-service';
+import { loadCachedAnalysisEmbeddings } from './analysis-embeddings-service';
+import { getEmbeddingScopeKey } from '../utils/embedding-cache';
+import type {
+  ClusteringTunerDataset,
+  ClusteringTunerParams,
+  ClusteringTunerResult
+} from '../../common/types/clustering';
+
+const MAX_POINTS = 2000;         // Newest prompts kept; the distance matrix grows with the square of the count
+
+/**
+ * Loads the prompts of the analysis window whose embeddings are cached, and has the clustering worker compute their distances
+ * @returns Promise resolving to the dataset summary and the saved clustering settings
+ */
+export async function loadTunerDataset(): Promise<ClusteringTunerDataset> {
+  const analysis = settingsService.getAnalysisSettings();
+  const params: ClusteringTunerParams = {
+    algorithm: analysis.clusteringAlgorithm,
+    epsilon: analysis.clusterEpsilon,
+    minPoints: analysis.clusterMinPoints
+  };
+
+  const loaded = await loadCachedAnalysisEmbeddings(MAX_POINTS);
+  if (!loaded) {
+    await clusteringWorkerService.runClusteringTask({ type: 'load-tuner', texts: [], vectors: [] });
+    return { embeddingModel: null, pointCount: 0, uncachedCount: 0, params };
+  }
+
+  await clusteringWorkerService.runClusteringTask({ type: 'load-tuner', texts: loaded.texts, vectors: loaded.vectors });
+  console.log(`Clustering tuner loaded ${loaded.texts.length} cached embeddings (${loaded.uncachedCount} uncached)`);
+
+  return {
+    embeddingModel: getEmbeddingScopeKey(loaded.scope),
+    pointCount: loaded.texts.length,
+    uncachedCount: loaded.uncachedCount,
+    params
+  };
+}
+
+/**
+ * Clusters the loaded embeddings with the given parameters in the clustering worker
+ * @param params - Algorithm, epsilon (null for automatic) and minimum cluster size
+ * @returns Promise resolving to the clusters, noise and quality metrics
+ * @throws Error if no dataset is loaded or a parameter is out of range
+ */
+export async function runTuner(params: ClusteringTunerParams): Promise<ClusteringTunerResult> {
+  if (!Number.isInteger(params.minPoints) || params.minPoints < 2 || params.minPoints > 50) {
+    throw new Error('Minimum cluster size must be a whole number between 2 and 50');
+  }
+  if (params.epsilon !== null && !(params.epsilon > 0 && params.epsilon < 1)) {
+    throw new Error('Epsilon must be a cosine distance between 0 and 1');
+  }
+
+  return clusteringWorkerService.runClusteringTask({ type: 'run-tuner', params });
+}
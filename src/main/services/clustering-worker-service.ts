@@ -0,0 +1,93 @@
+/**
+ * @file Runs clustering work in a worker thread so large distance matrices and projections don't block the main process
+ * @module clustering-worker-service
+ */
+
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import type {
+  ClusteringWorkerRequest,
+  ClusteringWorkerResponse,
+  ClusteringWorkerResults,
+  ClusteringWorkerTask
+} from '../workers/clustering-worker';
+
+// Built next to the main bundle (see forge.config.ts)
+const WORKER_PATH = path.join(__dirname, 'clustering-worker.js');
+
+// Requests waiting for the worker's answer
+interface PendingRequest {
+  resolve: (result: ClusteringWorkerResponse['result']) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+/**
+ * Fails every request still waiting on the worker and forgets it, so the next task starts a fresh one
+ * @param error - Why the worker went away
+ */
+function failPendingRequests(error: Error): void {
+  worker = null;
+  for (const request of pending.values()) {
+    request.reject(error);
+  }
+  pending.clear();
+}
+
+/**
+ * Gets the worker, starting it on first use
+ * @returns The worker
+ */
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  const started = new Worker(WORKER_PATH);
+  started.on('message', (response: ClusteringWorkerResponse) => {
+    const request = pending.get(response.requestId);
+    if (!request) return;
+    pending.delete(response.requestId);
+    if (pending.size === 0) started.unref(); // An idle worker mustn't keep the app from quitting
+
+    if (response.error !== undefined) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.result);
+    }
+  });
+  started.on('error', error => {
+    console.error('Clustering worker failed:', error);
+    failPendingRequests(error);
+  });
+  started.on('exit', code => {
+    if (worker === started) {
+      failPendingRequests(new Error(`Clustering worker exited with code ${code}`));
+    }
+  });
+
+  worker = started;
+  return worker;
+}
+
+/**
+ * Runs a task in the worker; tasks run one at a time, in the order they were sent
+ * @param task - The task
+ * @returns Promise resolving to the task's result
+ * @throws Error if the task fails or the worker dies before answering
+ */
+export function runClusteringTask<T extends ClusteringWorkerTask>(task: T): Promise<ClusteringWorkerResults[T['type']]> {
+  const target = getWorker();
+  const requestId = nextRequestId++;
+
+  return new Promise((resolve, reject) => {
+    pending.set(requestId, {
+      resolve: result => resolve(result as ClusteringWorkerResults[T['type']]),
+      reject
+    });
+    const request: ClusteringWorkerRequest = { ...task, requestId };
+    target.ref();
+    target.postMessage(request);
+  });
+}
@@ -7,6 +7,8 @@ import { BrowserWindow, ipcMain } from 'electron';
 import path from 'node:path';
 import * as applescriptService from './applescript-service';
 import { isValidTrigger, hasLikelyConflicts } from '../utils/trigger-generator';
+import { fillTemplate } from '../utils/prompt-template';
+import type { TemplateExportTarget, TemplatePlaceholder } from '../../common/types/prompt-template';
 
 // Declare Vite global variables
 declare const MAIN_WINDOW_VITE_DEV_SERVER_URL: string | undefined;
@@ -16,11 +18,19 @@ declare const MAIN_WINDOW_VITE_NAME: string;
 interface SuggestionData {
   trigger: string;
   replacement: string;
+  placeholders?: TemplatePlaceholder[]; // Set when the replacement is a template
   sourceTexts: string[];
   confidence: number;
   suggestionId?: string;
 }
 
+// Trigger and replacement as edited in the dialog, with values for the replacement's placeholders
+interface EditedSuggestionData {
+  trigger: string;
+  replacement: string;
+  placeholderValues?: Record<string, string>;
+}
+
 // Interface for edit dialog callbacks
 interface EditDialogCallbacks {
   onConfirm: (editedSuggestion: SuggestionData) => void;
@@ -261,6 +271,11 @@ function setupMultiSuggestionIpcHandlers(
       return validateReplacementText(replacement);
     });
 
+    // Handle template previews
+    ipcMain.handle('fill-template', async (event, template: string, values: Record<string, string>, target: TemplateExportTarget) => {
+      return fillTemplate(template, values, target);
+    });
+
     // Handle navigation between suggestions
     ipcMain.handle('get-suggestions-data', async () => {
       return { suggestions, count: suggestions.length };
@@ -269,7 +284,7 @@ function setupMultiSuggestionIpcHandlers(
     // Handle dialog confirmation for specific suggestion
     ipcMain.handle('confirm-suggestion', async (event, data: { 
       suggestionIndex: number;
-      editedData: { trigger: string; replacement: string };
+      editedData: EditedSuggestionData;
     }) => {
       try {
         const { suggestionIndex, editedData } = data;
@@ -279,10 +294,15 @@ function setupMultiSuggestionIpcHandlers(
           return { success: false, error: 'Invalid suggestion index' };
         }
 
+        const filled = fillTemplate(editedData.replacement.trim(), editedData.placeholderValues || {}, 'text-replacement');
+        if (filled.missing.length > 0) {
+          return { success: false, error: `Fill in ${formatPlaceholderList(filled.missing)} before creating the shortcut` };
+        }
+
         // Create the edited suggestion object
         const editedSuggestion: SuggestionData = {
           trigger: editedData.trigger.trim(),
-          replacement: editedData.replacement.trim(),
+          replacement: filled.text,
           sourceTexts: originalSuggestion.sourceTexts || [],
           confidence: originalSuggestion.confidence || 1.0,
           suggestionId: originalSuggestion.suggestionId
@@ -391,13 +411,23 @@ function setupEditDialogIpcHandlers(
       return validateReplacementText(replacement);
     });
 
+    // Handle template previews
+    ipcMain.handle('fill-template', async (event, template: string, values: Record<string, string>, target: TemplateExportTarget) => {
+      return fillTemplate(template, values, target);
+    });
+
     // Handle dialog confirmation
-    ipcMain.handle('confirm-edit', async (event, editedData: { trigger: string; replacement: string }) => {
+    ipcMain.handle('confirm-edit', async (event, editedData: EditedSuggestionData) => {
       try {
+        const filled = fillTemplate(editedData.replacement.trim(), editedData.placeholderValues || {}, 'text-replacement');
+        if (filled.missing.length > 0) {
+          return { success: false, error: `Fill in ${formatPlaceholderList(filled.missing)} before creating the shortcut` };
+        }
+
         // Create the edited suggestion object
         const editedSuggestion: SuggestionData = {
           trigger: editedData.trigger.trim(),
-          replacement: editedData.replacement.trim(),
+          replacement: filled.text,
           sourceTexts: originalSuggestion?.sourceTexts || [],
           confidence: originalSuggestion?.confidence || 1.0,
           suggestionId: originalSuggestion?.suggestionId
@@ -453,6 +483,7 @@ function cleanupEditDialogIpcHandlers(): void {
       // Use removeHandler instead of removeAllListeners for specific handlers
       ipcMain.removeHandler('validate-trigger');
       ipcMain.removeHandler('validate-replacement');
+      ipcMain.removeHandler('fill-template');
       ipcMain.removeHandler('confirm-edit');
       ipcMain.removeHandler('cancel-edit');
       
@@ -533,6 +564,16 @@ async function validateTrigger(trigger: string): Promise<ValidationResult> {
   };
 }
 
+/**
+ * Formats placeholder names for a message
+ * @param names - Placeholder names
+ * @returns The names as written in the template, e.g. "{file} and {error}"
+ */
+function formatPlaceholderList(names: string[]): string {
+  const written = names.map(name => `{${name}}`);
+  return written.length > 1 ? `${written.slice(0, -1).join(', ')} and ${written[written.length - 1]}` : written[0];
+}
+
 /**
  * Validates replacement text
  * @param replacement - The replacement text to validate
@@ -700,6 +741,7 @@ export function globalCleanupEditDialogHandlers(): void {
   try {
     ipcMain.removeHandler('validate-trigger');
     ipcMain.removeHandler('validate-replacement'); 
+    ipcMain.removeHandler('fill-template');
     ipcMain.removeHandler('confirm-edit');
     ipcMain.removeHandler('cancel-edit');
     
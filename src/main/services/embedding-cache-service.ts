@@ -0,0 +1,171 @@
+/**
+ * @file On-disk cache of prompt embeddings, so analysis only pays to embed text it hasn't seen before
+ * @module embedding-cache-service
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  decodeEmbedding,
+  encodeEmbedding,
+  evictEmbeddingCacheEntries,
+  getEmbeddingCacheKey,
+  type EmbeddingCache,
+  type EmbeddingCacheEntry,
+  type EmbeddingCacheLimits,
+  type EmbeddingCacheScope
+} from '../utils/embedding-cache';
+import type { EmbeddingCacheStats } from '../../common/types/embedding-cache';
+
+const CACHE_VERSION = 1;
+
+// About 8 KB per OpenAI vector, so the file stays around 40 MB at most
+const CACHE_LIMITS: EmbeddingCacheLimits = {
+  maxEntries: 5000,
+  maxUnusedMs: 90 * 24 * 60 * 60 * 1000 // 90 days
+};
+
+// The stored cache: hashed keys and vectors only, never captured text
+interface EmbeddingCacheFile {
+  version: number;
+  hits: number;
+  misses: number;
+  evicted: number;
+  lastScope?: EmbeddingCacheScope;  // Scope of the last analysis, whose vectors the clustering tuner works on
+  entries: Record<string, EmbeddingCacheEntry>;
+}
+
+let cache: EmbeddingCacheFile | null = null;
+
+// Get the path to the cache file
+const getCachePath = (): string => {
+  return path.join(app.getPath('userData'), 'embedding-cache.json');
+};
+
+/**
+ * Creates an empty cache
+ * @returns The cache
+ */
+function createEmptyCache(): EmbeddingCacheFile {
+  return { version: CACHE_VERSION, hits: 0, misses: 0, evicted: 0, entries: {} };
+}
+
+/**
+ * Loads the cache from disk on first use
+ * An unreadable file or one from another version starts an empty cache, since every vector can be computed again
+ * @returns The cache
+ */
+function loadCache(): EmbeddingCacheFile {
+  if (cache) return cache;
+
+  const cachePath = getCachePath();
+  cache = createEmptyCache();
+  if (!fs.existsSync(cachePath)) return cache;
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(cachePath, 'utf8')) as Partial<EmbeddingCacheFile>;
+    if (parsed.version === CACHE_VERSION && parsed.entries && typeof parsed.entries === 'object') {
+      cache = { ...createEmptyCache(), ...parsed, entries: parsed.entries };
+    }
+  } catch (error) {
+    console.error('Failed to read embedding cache, starting empty:', error);
+  }
+
+  return cache;
+}
+
+/**
+ * Gets the cached vectors of one provider, model and size
+ * @param scope - Provider, model and dimensions of the vectors
+ * @returns Lookup and storage for that scope (changes are kept in memory until saveEmbeddingCache)
+ */
+export function getEmbeddingCache(scope: EmbeddingCacheScope): EmbeddingCache {
+  const { entries } = loadCache();
+
+  return {
+    get: text => {
+      const entry = entries[getEmbeddingCacheKey(scope, text)];
+      if (!entry) return null;
+
+      const vector = decodeEmbedding(entry.vector);
+      if (vector.length !== scope.dimensions) return null;
+
+      entry.lastUsedAt = Date.now();
+      return vector;
+    },
+    set: (text, embedding) => {
+      const now = Date.now();
+      entries[getEmbeddingCacheKey(scope, text)] = { vector: encodeEmbedding(embedding), createdAt: now, lastUsedAt: now };
+    }
+  };
+}
+
+/**
+ * Evicts old entries and writes the cache to disk
+ * @param lookups - Hits and misses of the run that used the cache, added to the lifetime counts
+ * @param scope - Provider, model and dimensions the run embedded with
+ */
+export function saveEmbeddingCache(lookups: { hits: number; misses: number }, scope: EmbeddingCacheScope): void {
+  const current = loadCache();
+  current.hits += lookups.hits;
+  current.misses += lookups.misses;
+  current.lastScope = { id: scope.id, model: scope.model, dimensions: scope.dimensions };
+  current.evicted += evictEmbeddingCacheEntries(current.entries, CACHE_LIMITS, Date.now());
+
+  try {
+    fs.writeFileSync(getCachePath(), JSON.stringify(current));
+  } catch (error) {
+    console.error('Failed to save embedding cache:', error);
+  }
+}
+
+/**
+ * Gets the scope the last analysis embedded with
+ * @returns The scope, or null if no analysis has saved the cache yet
+ */
+export function getLastEmbeddingScope(): EmbeddingCacheScope | null {
+  return loadCache().lastScope || null;
+}
+
+/**
+ * Gets the size and lifetime counters of the cache
+ * @returns Cache statistics
+ */
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  const current = loadCache();
+  const entries = Object.entries(current.entries);
+  const models: Record<string, number> = {};
+  let oldestUsedAt: number | null = null;
+
+  for (const [key, entry] of entries) {
+    // Keys are `provider:model:dimensions:hash`; model names may contain colons of their own
+    const scope = key.slice(0, key.lastIndexOf(':'));
+    models[scope] = (models[scope] || 0) + 1;
+    if (oldestUsedAt === null || entry.lastUsedAt < oldestUsedAt) oldestUsedAt = entry.lastUsedAt;
+  }
+
+  const cachePath = getCachePath();
+  return {
+    entries: entries.length,
+    sizeBytes: fs.existsSync(cachePath) ? fs.statSync(cachePath).size : 0,
+    models,
+    hits: current.hits,
+    misses: current.misses,
+    evicted: current.evicted,
+    oldestUsedAt: oldestUsedAt === null ? null : new Date(oldestUsedAt).toISOString()
+  };
+}
+
+/**
+ * Deletes every cached vector and resets the counters
+ */
+export function clearEmbeddingCache(): void {
+  cache = createEmptyCache();
+
+  const cachePath = getCachePath();
+  if (fs.existsSync(cachePath)) {
+    fs.unlinkSync(cachePath);
+  }
+  console.log('Embedding cache cleared');
+}
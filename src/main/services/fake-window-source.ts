@@ -0,0 +1,74 @@
+/**
+ * @file Scriptable window source for driving monitoring without a display (development and replay)
+ * @module fake-window-source
+ */
+
+import { createFocusEmitter, isSameWindow, WindowInfo, WindowSource } from './window-source';
+
+// One step of a focus script
+export interface FakeWindowStep {
+  window: WindowInfo | null;   // Window to focus, or null for "nothing focused"
+  afterMs?: number;            // Wait this long before applying the step
+}
+
+// Fake source with controls for changing focus
+export interface FakeWindowSource extends WindowSource {
+  focus: (window: WindowInfo | null) => Promise<void>;
+  runScript: (steps: FakeWindowStep[]) => Promise<void>;
+}
+
+// Options for the fake source
+export interface FakeWindowSourceOptions {
+  initialWindow?: WindowInfo | null;
+  wait?: (ms: number) => Promise<void>; // Override to run scripts on a virtual clock
+}
+
+/**
+ * Creates a window source whose focus is set programmatically
+ * Focus changes only emit events while the source is started, like the polling source
+ * @param options - Initial window and an optional wait function
+ * @returns The fake window source
+ */
+export function createFakeWindowSource(options: FakeWindowSourceOptions = {}): FakeWindowSource {
+  const emitter = createFocusEmitter();
+  const wait = options.wait || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+
+  let running = false;
+  let focusedWindow: WindowInfo | null = options.initialWindow ?? null;
+  let reportedWindow: WindowInfo | null = null;
+
+  // Reports the focused window to listeners if it differs from what they last saw
+  const report = async (): Promise<void> => {
+    if (!running || isSameWindow(focusedWindow, reportedWindow)) return;
+    const previous = reportedWindow;
+    reportedWindow = focusedWindow;
+    await emitter.emit({ current: focusedWindow, previous });
+  };
+
+  const focus = async (window: WindowInfo | null): Promise<void> => {
+    focusedWindow = window;
+    await report();
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      report();
+    },
+    stop: () => {
+      running = false;
+      reportedWindow = null;
+    },
+    isRunning: () => running,
+    getCurrentWindow: () => reportedWindow,
+    onFocusChange: emitter.subscribe,
+    focus,
+    runScript: async steps => {
+      for (const step of steps) {
+        if (step.afterMs) await wait(step.afterMs);
+        await focus(step.window);
+      }
+    }
+  };
+}
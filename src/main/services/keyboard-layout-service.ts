@@ -0,0 +1,122 @@
+/**
+ * @file Resolves the keyboard layout used to decode captured keystrokes (built-in, user-defined, or detected)
+ * @module keyboard-layout-service
+ */
+
+import { app } from 'electron';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as settingsService from './settings-service';
+import { getBuiltInLayouts, normalizeLayout, KeyboardLayout } from '../utils/keyboard-layouts';
+
+const execAsync = promisify(exec);
+
+// Layout used when nothing else can be resolved
+const DEFAULT_LAYOUT_ID = 'us';
+
+// macOS input source IDs mapped to built-in layout IDs
+const MACOS_INPUT_SOURCES: { [sourceId: string]: string } = {
+  'com.apple.keylayout.US': 'us',
+  'com.apple.keylayout.ABC': 'us',
+  'com.apple.keylayout.USExtended': 'us',
+  'com.apple.keylayout.British': 'gb',
+  'com.apple.keylayout.French': 'fr-azerty',
+  'com.apple.keylayout.French-numerical': 'fr-azerty',
+  'com.apple.keylayout.German': 'de-qwertz',
+  'com.apple.keylayout.Austrian': 'de-qwertz',
+  'com.apple.keylayout.Dvorak': 'dvorak',
+  'com.apple.keylayout.Colemak': 'colemak'
+};
+
+// Get the directory holding user-supplied layout definitions
+const getCustomLayoutDir = (): string => {
+  return path.join(app.getPath('userData'), 'keyboard-layouts');
+};
+
+/**
+ * Loads user-defined layouts from JSON files in the keyboard-layouts directory
+ * Invalid files are skipped with a warning so one bad file can't break capture
+ * @returns Array of successfully loaded layouts
+ */
+function loadCustomLayouts(): KeyboardLayout[] {
+  const layoutDir = getCustomLayoutDir();
+
+  if (!fs.existsSync(layoutDir)) {
+    return [];
+  }
+
+  const layouts: KeyboardLayout[] = [];
+
+  for (const filename of fs.readdirSync(layoutDir)) {
+    if (!filename.endsWith('.json')) continue;
+
+    try {
+      const definition = JSON.parse(fs.readFileSync(path.join(layoutDir, filename), 'utf8'));
+      layouts.push(normalizeLayout(definition));
+    } catch (error) {
+      console.warn(`Skipping invalid keyboard layout file ${filename}:`, error);
+    }
+  }
+
+  return layouts;
+}
+
+/**
+ * Gets every available layout; user layouts override built-ins with the same ID
+ * @returns Array of keyboard layouts
+ */
+export function getAvailableLayouts(): KeyboardLayout[] {
+  const layoutsById = new Map<string, KeyboardLayout>();
+
+  for (const layout of [...getBuiltInLayouts(), ...loadCustomLayouts()]) {
+    layoutsById.set(layout.id, layout);
+  }
+
+  return Array.from(layoutsById.values());
+}
+
+/**
+ * Detects the active macOS keyboard layout from the HIToolbox preferences
+ * @returns Promise resolving to a layout ID, or null if it can't be mapped
+ */
+export async function detectSystemLayoutId(): Promise<string | null> {
+  if (process.platform !== 'darwin') {
+    return null;
+  }
+
+  try {
+    const { stdout } = await execAsync('defaults read com.apple.HIToolbox AppleCurrentKeyboardLayoutInputSourceID');
+    const sourceId = stdout.trim();
+    const layoutId = MACOS_INPUT_SOURCES[sourceId] || null;
+
+    console.log(`Detected keyboard input source: ${sourceId} -> ${layoutId || 'unmapped'}`);
+    return layoutId;
+  } catch (error) {
+    console.warn('Could not detect keyboard layout:', error);
+    return null;
+  }
+}
+
+/**
+ * Resolves the layout configured in settings ('auto' detects the system layout)
+ * @returns Promise resolving to the keyboard layout to decode with
+ */
+export async function resolveActiveLayout(): Promise<KeyboardLayout> {
+  const configuredId = settingsService.getSetting('keyboardLayout');
+  const layoutId = configuredId === 'auto'
+    ? (await detectSystemLayoutId()) || DEFAULT_LAYOUT_ID
+    : configuredId;
+
+  const layouts = getAvailableLayouts();
+  const layout = layouts.find(candidate => candidate.id === layoutId);
+
+  if (!layout) {
+    console.warn(`Keyboard layout "${layoutId}" not found, falling back to ${DEFAULT_LAYOUT_ID}`);
+    return layouts.find(candidate => candidate.id === DEFAULT_LAYOUT_ID) || getBuiltInLayouts()[0];
+  }
+
+  console.log(`Using keyboard layout: ${layout.name}`);
+  return layout;
+}
@@ -4,10 +4,34 @@
  */
 
 import * as keytar from 'keytar';
+import type { LlmProviderId } from '../../common/types/llm-provider';
 
 // Constants for keychain storage
 const SERVICE_NAME = 'DryPrompt';
 const API_KEY_ACCOUNT = 'openai-api-key';
+const LOG_KEYRING_ACCOUNT = 'prompt-log-keyring';
+const LOG_RECOVERY_ACCOUNT = 'prompt-log-recovery-wrapping-key';
+
+// Keychain account per synthesis provider; OpenAI shares the main API key, the mock provider needs none
+const PROVIDER_API_KEY_ACCOUNTS: Partial<Record<LlmProviderId, string>> = {
+  openai: API_KEY_ACCOUNT,
+  'openai-compatible': 'openai-compatible-api-key',
+  anthropic: 'anthropic-api-key'
+};
+
+/**
+ * Gets the keychain account holding a provider's API key
+ * @param provider - The synthesis provider
+ * @returns The account name
+ * @throws Error if the provider doesn't use an API key
+ */
+function getProviderAccount(provider: LlmProviderId): string {
+  const account = PROVIDER_API_KEY_ACCOUNTS[provider];
+  if (!account) {
+    throw new Error(`The ${provider} provider does not use an API key`);
+  }
+  return account;
+}
 
 /**
  * Saves the OpenAI API key securely to the macOS Keychain
@@ -83,4 +107,116 @@ export async function deleteApiKey(): Promise<void> {
     console.error('Failed to delete API key from keychain:', error);
     throw new Error('Failed to delete API key from keychain. Please check system permissions.');
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Saves the prompt log keyring (the data keys that encrypt the log) to the macOS Keychain
+ * @param keyring - The serialized keyring
+ * @throws Error if the keychain operation fails
+ */
+export async function saveLogKeyring(keyring: string): Promise<void> {
+  try {
+    await keytar.setPassword(SERVICE_NAME, LOG_KEYRING_ACCOUNT, keyring);
+    console.log('Prompt log keyring saved to keychain successfully');
+  } catch (error) {
+    console.error('Failed to save prompt log keyring to keychain:', error);
+    throw new Error('Failed to save prompt log encryption key to keychain. Please check system permissions.');
+  }
+}
+
+/**
+ * Retrieves the prompt log keyring from the macOS Keychain
+ * @returns Promise resolving to the serialized keyring or null if not found
+ * @throws Error if the keychain operation fails
+ */
+export async function getLogKeyring(): Promise<string | null> {
+  try {
+    return await keytar.getPassword(SERVICE_NAME, LOG_KEYRING_ACCOUNT);
+  } catch (error) {
+    console.error('Failed to retrieve prompt log keyring from keychain:', error);
+    throw new Error('Failed to retrieve prompt log encryption key from keychain. Please check system permissions.');
+  }
+}
+
+/**
+ * Saves the key derived from the exported recovery key, so the key backup can be refreshed after a rotation
+ * @param wrappingKey - The base64 wrapping key
+ * @throws Error if the keychain operation fails
+ */
+export async function saveLogRecoveryWrappingKey(wrappingKey: string): Promise<void> {
+  try {
+    await keytar.setPassword(SERVICE_NAME, LOG_RECOVERY_ACCOUNT, wrappingKey);
+  } catch (error) {
+    console.error('Failed to save recovery wrapping key to keychain:', error);
+    throw new Error('Failed to save recovery key to keychain. Please check system permissions.');
+  }
+}
+
+/**
+ * Retrieves the key derived from the exported recovery key
+ * @returns Promise resolving to the base64 wrapping key or null if no recovery key was exported
+ * @throws Error if the keychain operation fails
+ */
+export async function getLogRecoveryWrappingKey(): Promise<string | null> {
+  try {
+    return await keytar.getPassword(SERVICE_NAME, LOG_RECOVERY_ACCOUNT);
+  } catch (error) {
+    console.error('Failed to retrieve recovery wrapping key from keychain:', error);
+    throw new Error('Failed to retrieve recovery key from keychain. Please check system permissions.');
+  }
+}
+
+/**
+ * Saves a synthesis provider's API key to the macOS Keychain
+ * @param provider - The synthesis provider
+ * @param apiKey - The API key to store
+ * @throws Error if the provider doesn't use an API key or the keychain operation fails
+ */
+export async function saveProviderApiKey(provider: LlmProviderId, apiKey: string): Promise<void> {
+  if (!apiKey || typeof apiKey !== 'string') {
+    throw new Error('API key must be a non-empty string');
+  }
+
+  const account = getProviderAccount(provider);
+  try {
+    await keytar.setPassword(SERVICE_NAME, account, apiKey);
+    console.log(`${provider} API key saved to keychain successfully`);
+  } catch (error) {
+    console.error(`Failed to save ${provider} API key to keychain:`, error);
+    throw new Error('Failed to save API key to keychain. Please check system permissions.');
+  }
+}
+
+/**
+ * Retrieves a synthesis provider's API key from the macOS Keychain
+ * @param provider - The synthesis provider
+ * @returns Promise resolving to the API key, or null if none is stored or the provider doesn't use one
+ * @throws Error if the keychain operation fails
+ */
+export async function getProviderApiKey(provider: LlmProviderId): Promise<string | null> {
+  const account = PROVIDER_API_KEY_ACCOUNTS[provider];
+  if (!account) return null;
+
+  try {
+    return await keytar.getPassword(SERVICE_NAME, account);
+  } catch (error) {
+    console.error(`Failed to retrieve ${provider} API key from keychain:`, error);
+    throw new Error('Failed to retrieve API key from keychain. Please check system permissions.');
+  }
+}
+
+/**
+ * Removes a synthesis provider's API key from the keychain
+ * @param provider - The synthesis provider
+ * @throws Error if the provider doesn't use an API key or the keychain operation fails
+ */
+export async function deleteProviderApiKey(provider: LlmProviderId): Promise<void> {
+  const account = getProviderAccount(provider);
+  try {
+    await keytar.deletePassword(SERVICE_NAME, account);
+    console.log(`${provider} API key deleted from keychain`);
+  } catch (error) {
+    console.error(`Failed to delete ${provider} API key from keychain:`, error);
+    throw new Error('Failed to delete API key from keychain. Please check system permissions.');
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * @file Manages the data keys that encrypt the prompt log: keychain storage, rotation and the recovery key backup
+ * @module log-encryption-service
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as keychainService from './keychain-service';
+import {
+  createDataKey,
+  createKeyring,
+  createRecoveryKey,
+  createRecoverySalt,
+  deriveWrappingKey,
+  mergeKeyrings,
+  parseKeyring,
+  serializeKeyring,
+  unwrapKeyring,
+  wrapKeyring,
+  LogKeyring,
+  WrappedKeyring
+} from '../utils/log-crypto';
+
+let keyringPromise: Promise<LogKeyring> | null = null;
+
+// Get the path to the key backup, the keyring encrypted with the recovery key
+const getKeyBackupPath = (): string => {
+  return path.join(app.getPath('userData'), 'prompt_log.keys.backup');
+};
+
+/**
+ * Reads the key backup
+ * @returns The wrapped keyring, or null if no recovery key was exported
+ */
+function readKeyBackup(): WrappedKeyring | null {
+  const backupPath = getKeyBackupPath();
+  if (!fs.existsSync(backupPath)) return null;
+
+  try {
+    return JSON.parse(fs.readFileSync(backupPath, 'utf8')) as WrappedKeyring;
+  } catch (error) {
+    console.error('Failed to read prompt log key backup:', error);
+    return null;
+  }
+}
+
+/**
+ * Writes the key backup to a temporary file; it only replaces the backup once `commit` is called
+ * @param wrapped - The wrapped keyring
+ * @returns Functions to move the new backup into place or discard it
+ */
+function stageKeyBackup(wrapped: WrappedKeyring): { commit: () => void; discard: () => void } {
+  const backupPath = getKeyBackupPath();
+  const tempPath = `${backupPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(wrapped, null, 2), { mode: 0o600 });
+
+  return {
+    commit: () => fs.renameSync(tempPath, backupPath),
+    discard: () => fs.rmSync(tempPath, { force: true })
+  };
+}
+
+/**
+ * Loads the keyring from the keychain, creating one on first use
+ * If the keychain entry was lost a new keyring is created, so capture keeps working; lines written with the
+ * old keys stay locked until they are restored with the recovery key
+ * @returns Promise resolving to the keyring
+ */
+async function loadKeyring(): Promise<LogKeyring> {
+  const stored = await keychainService.getLogKeyring();
+  if (stored) return parseKeyring(stored);
+
+  const keyring = createKeyring();
+  await keychainService.saveLogKeyring(serializeKeyring(keyring));
+  console.log(`Created prompt log encryption key ${keyring.activeKeyId}`);
+  return keyring;
+}
+
+/**
+ * Gets the keyring for encrypting and decrypting the prompt log
+ * Loaded from the keychain once and kept in memory
+ * @returns Promise resolving to the keyring
+ * @throws Error if the keychain can't be read
+ */
+export function getLogKeyring(): Promise<LogKeyring> {
+  if (!keyringPromise) {
+    keyringPromise = loadKeyring().catch(error => {
+      keyringPromise = null; // Retry on the next call instead of caching the failure
+      throw error;
+    });
+  }
+  return keyringPromise;
+}
+
+/**
+ * Saves a keyring to the keychain and refreshes the key backup if a recovery key was exported
+ * @param keyring - The keyring
+ * @returns Promise resolving to whether the key backup was refreshed
+ */
+async function saveKeyring(keyring: LogKeyring): Promise<boolean> {
+  await keychainService.saveLogKeyring(serializeKeyring(keyring));
+  keyringPromise = Promise.resolve(keyring);
+
+  const wrappingKey = await keychainService.getLogRecoveryWrappingKey();
+  const backup = readKeyBackup();
+  if (!wrappingKey || !backup) return false;
+
+  stageKeyBackup(
+    wrapKeyring(keyring, Buffer.from(wrappingKey, 'base64'), Buffer.from(backup.salt, 'base64'), backup.createdAt)
+  ).commit();
+  return true;
+}
+
+/**
+ * Adds a new data key and makes it the active one; the old keys stay until retireInactiveKeys
+ * so anything not yet re-encrypted can still be read if the rotation is interrupted
+ * @returns Promise resolving to the keyring with the new active key
+ */
+export async function beginKeyRotation(): Promise<LogKeyring> {
+  const keyring = await getLogKeyring();
+  const dataKey = createDataKey();
+  const rotated: LogKeyring = {
+    activeKeyId: dataKey.id,
+    keys: new Map([...keyring.keys, [dataKey.id, dataKey]])
+  };
+
+  await saveKeyring(rotated);
+  console.log(`Rotated prompt log encryption key to ${dataKey.id}`);
+  return rotated;
+}
+
+/**
+ * Removes every key except the active one, once everything has been re-encrypted
+ * @returns Promise resolving to whether the key backup was refreshed
+ */
+export async function retireInactiveKeys(): Promise<boolean> {
+  const keyring = await getLogKeyring();
+  const active = keyring.keys.get(keyring.activeKeyId);
+  if (!active) {
+    throw new Error(`Active log key ${keyring.activeKeyId} is missing from the keyring`);
+  }
+
+  return await saveKeyring({ activeKeyId: active.id, keys: new Map([[active.id, active]]) });
+}
+
+/**
+ * Creates a new recovery key and backs up the keyring with it
+ * The backup is kept next to the log and refreshed on every rotation; any earlier recovery key stops working
+ * @returns Promise resolving to the recovery key, to be shown to the user once
+ */
+export async function exportRecoveryKey(): Promise<string> {
+  const keyring = await getLogKeyring();
+  const recoveryKey = createRecoveryKey();
+  const salt = createRecoverySalt();
+  const wrappingKey = deriveWrappingKey(recoveryKey, salt);
+
+  const backup = stageKeyBackup(wrapKeyring(keyring, wrappingKey, salt, new Date().toISOString()));
+  try {
+    await keychainService.saveLogRecoveryWrappingKey(wrappingKey.toString('base64'));
+  } catch (error) {
+    backup.discard();
+    throw error;
+  }
+  backup.commit();
+
+  console.log('Exported a new prompt log recovery key');
+  return recoveryKey;
+}
+
+/**
+ * Restores keys from the key backup using a recovery key, e.g. after the keychain entry was lost
+ * Restored keys are added to the current keyring; the active key doesn't change
+ * @param recoveryKey - The recovery key as shown when it was exported
+ * @returns Promise resolving to the number of keys that were missing
+ * @throws Error if there is no key backup or the recovery key doesn't match it
+ */
+export async function restoreFromRecoveryKey(recoveryKey: string): Promise<number> {
+  const backup = readKeyBackup();
+  if (!backup) {
+    throw new Error('No prompt log key backup found. A recovery key has to be exported before it can be used.');
+  }
+
+  const wrappingKey = deriveWrappingKey(recoveryKey, Buffer.from(backup.salt, 'base64'));
+  const restored = unwrapKeyring(backup, wrappingKey);
+
+  const current = await getLogKeyring();
+  const merged: LogKeyring = { activeKeyId: current.activeKeyId, keys: new Map(current.keys) };
+  const added = mergeKeyrings(merged, restored);
+
+  await keychainService.saveLogRecoveryWrappingKey(wrappingKey.toString('base64'));
+  await saveKeyring(merged);
+
+  console.log(`Restored ${added} prompt log encryption key(s) from the recovery key`);
+  return added;
+}
+
+/**
+ * Gets when the current recovery key was exported
+ * @returns ISO timestamp, or null if no recovery key was exported
+ */
+export function getRecoveryKeyCreatedAt(): string | null {
+  return readKeyBackup()?.createdAt ?? null;
+}
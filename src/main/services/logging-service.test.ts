@@ -0,0 +1,90 @@
+/**
+ * @file Tests that imported prompt history reaches analysis and survives retention, however old it is
+ * @module logging-service.test
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import * as loggingService from './logging-service';
+import * as retentionService from './retention-service';
+import * as settingsService from './settings-service';
+
+// Settings and logs go to a throwaway directory instead of the app's userData
+vi.mock('electron', async () => {
+  const os = await import('os');
+  const path = await import('path');
+  const fs = await import('fs');
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'dryprompt-logging-'));
+  return {
+    app: { getPath: () => userData }
+  };
+});
+// No keychain access for the log encryption key
+vi.mock('keytar', () => {
+  const passwords = new Map<string, string>();
+  return {
+    getPassword: async (service: string, account: string) => passwords.get(`${service}/${account}`) ?? null,
+    setPassword: async (service: string, account: string, password: string) => { passwords.set(`${service}/${account}`, password); },
+    deletePassword: async (service: string, account: string) => passwords.delete(`${service}/${account}`)
+  };
+});
+
+// Sent well before the 14-day analysis window and the 90-day retention limit
+const SENT_AT = Date.UTC(2023, 2, 1, 10, 0, 0) / 1000;
+const PROMPTS = [
+  'Write unit tests for the parseConfig function in config.ts',
+  'Explain how the retry logic in http.ts handles timeouts'
+];
+
+/**
+ * Writes a ChatGPT `conversations.json` export with one conversation holding the prompts
+ * @returns Path to the export
+ */
+function writeChatGptExport(): string {
+  const mapping = Object.fromEntries(PROMPTS.map((text, index) => [`node-${index}`, {
+    message: { author: { role: 'user' }, create_time: SENT_AT + index * 60, content: { parts: [text] } }
+  }]));
+  const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'dryprompt-export-')), 'conversations.json');
+  fs.writeFileSync(filePath, JSON.stringify([{ id: 'conversation-1', title: 'Old project', create_time: SENT_AT, mapping }]));
+  return filePath;
+}
+
+describe('imported prompt history', () => {
+  beforeAll(async () => {
+    const report = await loggingService.importPromptHistory('chatgpt', writeChatGptExport());
+    expect(report.imported).toBe(PROMPTS.length);
+  });
+
+  it('keeps the original time and records when the import ran', async () => {
+    const entries = await loggingService.getLogEntries();
+
+    expect(entries.map(entry => entry.timestamp)).toEqual([
+      new Date(SENT_AT * 1000).toISOString(),
+      new Date((SENT_AT + 60) * 1000).toISOString()
+    ]);
+    for (const entry of entries) {
+      expect(entry.source).toBe('import');
+      expect(Date.now() - new Date(entry.importedAt as string).getTime()).toBeLessThan(60 * 1000);
+    }
+  });
+
+  it('reaches the analysis window', async () => {
+    expect(settingsService.getAnalysisSettings().windowDays).toBe(14);
+
+    const entries = await loggingService.getAnalysisEntries();
+    expect(entries.map(entry => entry.text)).toEqual(PROMPTS);
+  });
+
+  it('survives the age-based retention limit', async () => {
+    // Retention is opt-in; nothing is deleted on its own until the user turns it on
+    expect(settingsService.getRetentionSettings().enabled).toBe(false);
+    settingsService.saveRetentionSettings({ ...settingsService.getRetentionSettings(), enabled: true, maxAgeDays: 90 });
+
+    const report = await retentionService.runRetention('manual');
+
+    expect(report.entriesDeleted).toBe(0);
+    expect((await loggingService.getLogEntries()).map(entry => entry.text)).toEqual(PROMPTS);
+  });
+});
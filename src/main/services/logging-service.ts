@@ -6,22 +6,88 @@
 import { app } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as redactionService from './redaction-service';
+import * as logStore from './prompt-log-store';
+import * as logEncryptionService from './log-encryption-service';
+import * as settingsService from './settings-service';
+import { countRedactions } from '../utils/redaction';
+import { getEntryAgeTime } from '../utils/retention';
+import { summarizeSessions } from '../utils/capture-session';
+import { buildLogIndex, indexLogEntry, queryLogIndex, LogIndex } from '../utils/log-index';
+import { buildHistoryPage } from '../utils/prompt-history';
+import {
+  addToDuplicateIndex,
+  buildDuplicateIndex,
+  isDuplicatePrompt,
+  parseChatGptExport,
+  parseClaudeExport,
+  parseCursorState,
+  parseShellHistory,
+  CursorStateRow,
+  ImportParseResult
+} from '../utils/prompt-import';
+import type { LogKeyring } from '../utils/log-crypto';
+import type { LogEntry, LogQuery } from '../../common/types/log-entry';
+import type { CaptureSessionSummary } from '../../common/types/capture-session';
+import type { KeyRestoreResult, KeyRotationResult, LogEncryptionStatus } from '../../common/types/log-encryption';
+import type { HistoryEntry, HistoryPage, HistoryQuery } from '../../common/types/prompt-history';
+import type { ImportFormat, ImportReport } from '../../common/types/prompt-import';
+import type { RedactionSettings } from '../../common/types/redaction';
 
-// Interface for log entries
-interface LogEntry {
-  timestamp: string;
-  text: string;
-  windowTitle?: string;
-  processName?: string;
+const execFileAsync = promisify(execFile);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Capture metadata recorded alongside the text
+export type CaptureMetadata = Pick<
+  LogEntry,
+  'source' | 'importFormat' | 'clipboardOrigin' | 'classification' | 'sessionId' | 'flushReason' | 'typingDurationMs' | 'keystrokeCount' | 'editCount'
+>;
+
+// Decrypted copy of the active log with its index, valid while the file's size and mtime and the keyring are unchanged
+interface ActiveLogCache {
+  size: number;
+  mtimeMs: number;
+  keyring: LogKeyring;
+  entries: LogEntry[];
+  index: LogIndex;
+  lockedLines: number;
+}
+
+// Decrypted entries of an archive, valid while the file's size and mtime and the keyring are unchanged
+interface ArchiveCache {
+  size: number;
+  mtimeMs: number;
+  keyring: LogKeyring;
+  entries: LogEntry[];
+}
+
+// Information about an archived log file
+export interface ArchiveInfo {
+  filename: string;
+  path: string;
+  size: number;
+  created: Date;
+  format: 'jsonl' | 'json';  // 'json' for archives written before the JSONL log
 }
 
+let activeLogCache: ActiveLogCache | null = null;
+let archivesEncrypted = false;
+const archiveCaches = new Map<string, ArchiveCache>(); // Keyed by archive path
+
 // Get the path to the user data directory
 const getUserDataPath = (): string => {
   return app.getPath('userData');
 };
 
-// Get the path to the prompt log file
+// Get the path to the prompt log file (one JSON entry per line)
 const getPromptLogPath = (): string => {
+  return path.join(getUserDataPath(), 'prompt_log.jsonl');
+};
+
+// Get the path to the JSON-array prompt log used before JSONL
+const getLegacyPromptLogPath = (): string => {
   return path.join(getUserDataPath(), 'prompt_log.json');
 };
 
@@ -46,56 +112,192 @@ const ensureDirectoriesExist = (): void => {
   }
 };
 
+/**
+ * Parses the timestamp an archive was created at from its filename
+ * @param filename - Archive filename, e.g. `prompt_log_2025-01-31T09-15-00-000Z.jsonl`
+ * @returns The archive time, or null if the filename doesn't contain one
+ */
+function parseArchiveTimestamp(filename: string): Date | null {
+  const match = filename.match(/^prompt_log_(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.jsonl?$/);
+  if (!match) return null;
+  
+  const [, date, hours, minutes, seconds, millis] = match;
+  const parsed = new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * Lists archived log files (JSONL archives and older JSON ones)
+ * @returns Archive file information, newest first
+ */
+function listArchives(): ArchiveInfo[] {
+  const archiveDir = getArchiveDir();
+  
+  if (!fs.existsSync(archiveDir)) {
+    return [];
+  }
+  
+  return fs.readdirSync(archiveDir)
+    .filter(file => file.startsWith('prompt_log_') && (file.endsWith('.jsonl') || file.endsWith('.json')))
+    .map((filename): ArchiveInfo => {
+      const filePath = path.join(archiveDir, filename);
+      const stats = fs.statSync(filePath);
+      
+      return {
+        filename,
+        path: filePath,
+        size: stats.size,
+        created: parseArchiveTimestamp(filename) || stats.birthtime, // Rewrites (encryption, key rotation) reset birthtime
+        format: filename.endsWith('.jsonl') ? 'jsonl' : 'json'
+      };
+    })
+    .sort((a, b) => b.created.getTime() - a.created.getTime()); // Newest first
+}
+
+/**
+ * Encrypts archives written before encryption at rest
+ * JSON archives are converted to encrypted JSONL and JSONL archives have their plaintext lines encrypted;
+ * the plaintext files are removed once the encrypted copy is on disk
+ * @param keyring - Keys for encrypting lines
+ */
+function encryptPlaintextArchives(keyring: LogKeyring): void {
+  for (const archive of listArchives()) {
+    try {
+      if (archive.format === 'jsonl') {
+        logStore.recoverLogFile(archive.path, keyring);
+        continue;
+      }
+      
+      const entries = logStore.readLegacyLogFile(archive.path).map(logStore.withEntryId);
+      logStore.writeLogFile(archive.path.replace(/\.json$/, '.jsonl'), entries, keyring);
+      fs.unlinkSync(archive.path);
+      console.log(`Encrypted archive ${archive.filename} (${entries.length} entries)`);
+    } catch (error) {
+      console.error(`Failed to encrypt archive ${archive.filename}:`, error);
+    }
+  }
+}
+
+/**
+ * Loads the active log, migrating older plaintext files, decrypting it and quarantining corrupt lines on the way
+ * Reuses the cached entries and index while the file and keyring are unchanged
+ * @returns Promise resolving to the cached log
+ */
+async function loadActiveLog(): Promise<ActiveLogCache> {
+  const keyring = await logEncryptionService.getLogKeyring();
+  const logPath = getPromptLogPath();
+  const legacyPath = getLegacyPromptLogPath();
+  
+  if (fs.existsSync(legacyPath)) {
+    ensureDirectoriesExist();
+    logStore.migrateLegacyLogFile(legacyPath, logPath, keyring);
+    activeLogCache = null;
+  }
+  
+  if (!archivesEncrypted) {
+    // Plaintext copies left by the JSON-to-JSONL migration are already in the log
+    fs.rmSync(`${legacyPath}.migrated`, { force: true });
+    encryptPlaintextArchives(keyring);
+    archivesEncrypted = true;
+  }
+  
+  const stats = fs.existsSync(logPath) ? fs.statSync(logPath) : null;
+  const size = stats ? stats.size : 0;
+  const mtimeMs = stats ? stats.mtimeMs : 0;
+  
+  if (activeLogCache && activeLogCache.size === size && activeLogCache.mtimeMs === mtimeMs && activeLogCache.keyring === keyring) {
+    return activeLogCache;
+  }
+  
+  const { entries, lockedLines } = logStore.recoverLogFile(logPath, keyring);
+  const current = fs.existsSync(logPath) ? fs.statSync(logPath) : null; // Recovery may have rewritten the file
+  
+  if (lockedLines.length > 0) {
+    console.warn(`${lockedLines.length} prompt log line(s) are encrypted with a key that isn't in the keychain; restore it with the recovery key`);
+  }
+  
+  activeLogCache = {
+    size: current ? current.size : 0,
+    mtimeMs: current ? current.mtimeMs : 0,
+    keyring,
+    entries,
+    index: buildLogIndex(entries),
+    lockedLines: lockedLines.length
+  };
+  return activeLogCache;
+}
+
+/**
+ * Builds the log entry that would be stored for a capture, applying redaction
+ * @param text - The captured text
+ * @param windowTitle - Optional window title for context
+ * @param processName - Optional process name for context
+ * @param metadata - Optional capture source details
+ * @param timestamp - Capture time (defaults to now; replay passes its virtual clock time)
+ * @param redactionSettings - Redaction settings to apply (defaults to the saved settings; replay passes the recorded ones)
+ * @returns The log entry, or null if the text is empty
+ */
+export function createLogEntry(
+  text: string,
+  windowTitle?: string,
+  processName?: string,
+  metadata?: CaptureMetadata,
+  timestamp: Date = new Date(),
+  redactionSettings?: RedactionSettings
+): LogEntry | null {
+  if (!text || text.trim().length === 0) {
+    return null;
+  }
+
+  // Redact secrets and PII before anything touches disk; line breaks are kept (normalized to \n) so multi-line prompts stay intact
+  const redaction = redactionService.redact(text.replace(/\r\n?/g, '\n').trim(), redactionSettings);
+  const redactionTotal = countRedactions(redaction.counts);
+
+  return {
+    timestamp: timestamp.toISOString(),
+    text: redaction.text,
+    windowTitle,
+    processName,
+    ...metadata,
+    ...(redactionTotal > 0 ? { redactions: redaction.counts } : {})
+  };
+}
+
 /**
  * Logs a text input entry to the prompt log file
+ * The entry is encrypted and appended as one line, so a crash can at worst tear that line, never earlier entries
  * @param text - The captured text to log
  * @param windowTitle - Optional window title for context
  * @param processName - Optional process name for context
+ * @param metadata - Optional capture source details
  */
 export async function logTextInput(
   text: string, 
   windowTitle?: string, 
-  processName?: string
+  processName?: string,
+  metadata?: CaptureMetadata
 ): Promise<void> {
-  if (!text || text.trim().length === 0) {
+  const logEntry = createLogEntry(text, windowTitle, processName, metadata);
+  if (!logEntry) {
     return; // Don't log empty text
   }
 
   ensureDirectoriesExist();
-  
-  const logEntry: LogEntry = {
-    timestamp: new Date().toISOString(),
-    text: text.trim(),
-    windowTitle,
-    processName
-  };
+  const redactionTotal = countRedactions(logEntry.redactions || {});
 
   try {
+    const cache = await loadActiveLog();
     const logPath = getPromptLogPath();
+    const stored = logStore.appendLogEntry(logPath, logEntry, cache.keyring);
     
-    // Read existing log entries or start with empty array
-    let logEntries: LogEntry[] = [];
-    
-    if (fs.existsSync(logPath)) {
-      const existingData = fs.readFileSync(logPath, 'utf8');
-      
-      if (existingData.trim()) {
-        try {
-          logEntries = JSON.parse(existingData);
-        } catch (parseError) {
-          console.error('Error parsing existing log file, starting fresh:', parseError);
-          logEntries = [];
-        }
-      }
-    }
-    
-    // Add new entry
-    logEntries.push(logEntry);
-    
-    // Write updated log back to file
-    fs.writeFileSync(logPath, JSON.stringify(logEntries, null, 2));
+    // Keep the cache in step with the append instead of re-reading the file
+    const stats = fs.statSync(logPath);
+    indexLogEntry(cache.index, stored, cache.entries.length);
+    cache.entries.push(stored);
+    cache.size = stats.size;
+    cache.mtimeMs = stats.mtimeMs;
     
-    console.log(`Logged text input: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`);
+    console.log(`Logged text input: "${logEntry.text.substring(0, 50)}${logEntry.text.length > 50 ? '...' : ''}"${redactionTotal > 0 ? ` (${redactionTotal} redacted)` : ''}`);
     
   } catch (error) {
     console.error('Failed to log text input:', error);
@@ -109,26 +311,70 @@ export async function logTextInput(
  */
 export async function getLogEntries(): Promise<LogEntry[]> {
   try {
-    const logPath = getPromptLogPath();
-    
-    if (!fs.existsSync(logPath)) {
-      return [];
-    }
-    
-    const data = fs.readFileSync(logPath, 'utf8');
-    
-    if (!data.trim()) {
-      return [];
-    }
-    
-    return JSON.parse(data);
-    
+    return [...(await loadActiveLog()).entries];
   } catch (error) {
     console.error('Failed to read log entries:', error);
     return [];
   }
 }
 
+/**
+ * Retrieves log entries by time range and app using the log index
+ * @param query - Time range, app, order and limit
+ * @returns Promise resolving to the matching log entries
+ */
+export async function queryLogEntries(query: LogQuery): Promise<LogEntry[]> {
+  try {
+    const { entries, index } = await loadActiveLog();
+    return queryLogIndex(index, query).map(position => entries[position]);
+  } catch (error) {
+    console.error('Failed to query log entries:', error);
+    return [];
+  }
+}
+
+/**
+ * Retrieves the entries that should feed analysis: everything captured in the last `windowDays`, from the live log
+ * and the archives, so prompts repeated days apart can still cluster after the log they were in has been archived
+ * Rejected entries kept for classifier tuning, entries whose text retention deleted and entries the user
+ * excluded in the history browser are left out, and with
+ * `submittedOnly` so is anything that wasn't submitted (timeouts, focus loss, clipboard, older entries)
+ * @returns Promise resolving to array of log entries
+ */
+export async function getAnalysisEntries(): Promise<LogEntry[]> {
+  const { submittedOnly, windowDays } = settingsService.getAnalysisSettings();
+  const windowStart = new Date(Date.now() - windowDays * DAY_MS);
+  const entries = await getLogEntries();
+
+  // An archive only holds entries captured before it was created, so older archives can be skipped unread
+  for (const archive of listArchives()) {
+    if (archive.format !== 'jsonl' || archive.created < windowStart) continue;
+    try {
+      entries.push(...await loadArchiveEntries(archive));
+    } catch (error) {
+      console.error(`Failed to read archive ${archive.filename}:`, error);
+    }
+  }
+
+  // Imported history counts from its import, so a first analysis has it to work with however old it is
+  return entries.filter(entry =>
+    getEntryAgeTime(entry) >= windowStart.getTime() &&
+    entry.classification?.accepted !== false &&
+    !entry.textPurgedAt &&
+    !entry.excludedFromAnalysis &&
+    (!submittedOnly || entry.flushReason === 'submit')
+  );
+}
+
+/**
+ * Summarizes the capture sessions in the current log
+ * @returns Promise resolving to session summaries, newest first
+ */
+export async function getCaptureSessions(): Promise<CaptureSessionSummary[]> {
+  const entries = await getLogEntries();
+  return summarizeSessions(entries);
+}
+
 /**
  * Archives the current prompt log file and creates a new empty one
  * This is called after successful AI analysis to prevent indefinite file growth
@@ -138,6 +384,9 @@ export async function archivePromptLog(): Promise<string | null> {
   try {
     const logPath = getPromptLogPath();
     
+    // Make sure a legacy log is migrated (and the JSONL file recovered and encrypted) before it's moved
+    await loadActiveLog();
+    
     if (!fs.existsSync(logPath)) {
       console.log('No log file to archive');
       return null;
@@ -147,11 +396,12 @@ export async function archivePromptLog(): Promise<string | null> {
     
     // Generate archive filename with timestamp
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const archiveFilename = `prompt_log_${timestamp}.json`;
+    const archiveFilename = `prompt_log_${timestamp}.jsonl`;
     const archivePath = path.join(getArchiveDir(), archiveFilename);
     
-    // Move current log to archive
+    // Move current log to archive (a rename, so it's atomic)
     fs.renameSync(logPath, archivePath);
+    activeLogCache = null;
     
     console.log(`Prompt log archived to: ${archivePath}`);
     
@@ -169,8 +419,7 @@ export async function archivePromptLog(): Promise<string | null> {
  */
 export async function getLogEntryCount(): Promise<number> {
   try {
-    const entries = await getLogEntries();
-    return entries.length;
+    return (await loadActiveLog()).entries.length;
   } catch (error) {
     console.error('Failed to get log entry count:', error);
     return 0;
@@ -186,40 +435,13 @@ export async function archiveCurrentLog(): Promise<string | null> {
 }
 
 /**
- * Gets information about archived log files
- * @returns Promise resolving to array of archive file information
+ * Gets information about archived log files (JSONL archives and older JSON ones)
+ * @returns Promise resolving to array of archive file information, newest first
  */
-export async function getArchiveInfo(): Promise<Array<{
-  filename: string;
-  path: string;
-  size: number;
-  created: Date;
-}>> {
+export async function getArchiveInfo(): Promise<ArchiveInfo[]> {
   try {
     ensureDirectoriesExist();
-    const archiveDir = getArchiveDir();
-    
-    if (!fs.existsSync(archiveDir)) {
-      return [];
-    }
-    
-    const files = fs.readdirSync(archiveDir);
-    const archiveFiles = files
-      .filter(file => file.startsWith('prompt_log_') && file.endsWith('.json'))
-      .map(filename => {
-        const filePath = path.join(archiveDir, filename);
-        const stats = fs.statSync(filePath);
-        
-        return {
-          filename,
-          path: filePath,
-          size: stats.size,
-          created: stats.birthtime
-        };
-      })
-      .sort((a, b) => b.created.getTime() - a.created.getTime()); // Newest first
-    
-    return archiveFiles;
+    return listArchives();
     
   } catch (error) {
     console.error('Failed to get archive info:', error);
@@ -227,6 +449,100 @@ export async function getArchiveInfo(): Promise<Array<{
   }
 }
 
+/**
+ * Loads the decrypted entries of a JSONL archive, reusing the cached copy while the file is unchanged
+ * @param archive - The archive
+ * @returns Promise resolving to the cached entries (not to be modified)
+ */
+async function loadArchiveEntries(archive: ArchiveInfo): Promise<LogEntry[]> {
+  const keyring = await logEncryptionService.getLogKeyring();
+  const stats = fs.statSync(archive.path);
+  const cached = archiveCaches.get(archive.path);
+  
+  if (cached && cached.size === stats.size && cached.mtimeMs === stats.mtimeMs && cached.keyring === keyring) {
+    return cached.entries;
+  }
+  
+  const { entries } = logStore.recoverLogFile(archive.path, keyring);
+  const current = fs.statSync(archive.path); // Recovery may have rewritten the file
+  archiveCaches.set(archive.path, { size: current.size, mtimeMs: current.mtimeMs, keyring, entries });
+  return entries;
+}
+
+/**
+ * Reads the entries of an archived log file in either format
+ * @param archive - The archive, as returned by getArchiveInfo
+ * @returns Promise resolving to the archived entries (corrupt and locked JSONL lines are skipped)
+ */
+export async function readArchive(archive: ArchiveInfo): Promise<LogEntry[]> {
+  try {
+    return archive.format === 'jsonl'
+      ? [...await loadArchiveEntries(archive)]
+      : logStore.readLegacyLogFile(archive.path);
+  } catch (error) {
+    console.error(`Failed to read archive ${archive.filename}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Gets the size of the live log file
+ * @returns Size in bytes (0 if there is no log yet)
+ */
+export function getActiveLogSize(): number {
+  const logPath = getPromptLogPath();
+  return fs.existsSync(logPath) ? fs.statSync(logPath).size : 0;
+}
+
+/**
+ * Rewrites the entries of the live log or an archive, e.g. to apply retention
+ * Lines locked by a missing key are kept as they are; an archive left with nothing in it is deleted
+ * @param archive - The archive to rewrite, or null for the live log
+ * @param transform - Returns the entries to keep
+ * @returns Promise resolving to the entries before and after, and the bytes freed
+ */
+export async function rewriteLogEntries(
+  archive: ArchiveInfo | null,
+  transform: (entries: LogEntry[]) => LogEntry[]
+): Promise<{ before: number; after: number; bytesFreed: number }> {
+  const keyring = archive ? await logEncryptionService.getLogKeyring() : (await loadActiveLog()).keyring;
+  const filePath = archive ? archive.path : getPromptLogPath();
+  if (!fs.existsSync(filePath)) return { before: 0, after: 0, bytesFreed: 0 };
+  
+  // No awaits from here until the file is written, so nothing is appended in between
+  const sizeBefore = fs.statSync(filePath).size;
+  const { entries, lockedLines } = logStore.recoverLogFile(filePath, keyring);
+  const kept = transform(entries);
+  
+  if (kept.length === entries.length && kept.every((entry, index) => entry === entries[index])) {
+    return { before: entries.length, after: entries.length, bytesFreed: 0 };
+  }
+  
+  if (archive && kept.length === 0 && lockedLines.length === 0) {
+    fs.unlinkSync(filePath);
+  } else {
+    logStore.writeLogFile(filePath, kept, keyring, lockedLines);
+  }
+  if (archive) archiveCaches.delete(filePath);
+  else activeLogCache = null;
+  
+  const sizeAfter = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+  return { before: entries.length, after: kept.length, bytesFreed: Math.max(0, sizeBefore - sizeAfter) };
+}
+
+/**
+ * Deletes an archived log file
+ * @param archive - The archive, as returned by getArchiveInfo
+ * @returns Promise resolving to the bytes freed
+ */
+export async function deleteArchive(archive: ArchiveInfo): Promise<number> {
+  if (!fs.existsSync(archive.path)) return 0;
+  const { size } = fs.statSync(archive.path);
+  fs.unlinkSync(archive.path);
+  console.log(`Deleted archive: ${archive.filename}`);
+  return size;
+}
+
 /**
  * Cleans up old archive files (keeps only the most recent N files)
  * @param keepCount - Number of archive files to keep (default: 10)
@@ -270,13 +586,312 @@ export async function clearLog(): Promise<void> {
   try {
     const logPath = getPromptLogPath();
     
+    const legacyPath = getLegacyPromptLogPath();
+    
     if (fs.existsSync(logPath)) {
       fs.unlinkSync(logPath);
       console.log('Prompt log cleared');
     }
+    if (fs.existsSync(legacyPath)) {
+      fs.unlinkSync(legacyPath); // Otherwise the next read would migrate it back in
+    }
+    activeLogCache = null;
     
   } catch (error) {
     console.error('Failed to clear log:', error);
     throw new Error('Failed to clear prompt log file');
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Gets the state of encryption at rest for the log
+ * @returns Promise resolving to the encryption status
+ */
+export async function getEncryptionStatus(): Promise<LogEncryptionStatus> {
+  const { keyring, lockedLines } = await loadActiveLog();
+  const activeKey = keyring.keys.get(keyring.activeKeyId);
+  
+  return {
+    activeKeyId: keyring.activeKeyId,
+    activeKeyCreatedAt: activeKey ? activeKey.createdAt : '',
+    keyCount: keyring.keys.size,
+    recoveryKeyCreatedAt: logEncryptionService.getRecoveryKeyCreatedAt(),
+    lockedLines
+  };
+}
+
+/**
+ * Replaces the data key and re-encrypts the live log and every archive with the new one
+ * Refused while any lines are locked, since retiring the old keys would make them unreadable for good
+ * @returns Promise resolving to the rotation result
+ * @throws Error if lines are locked or the keychain can't be updated
+ */
+export async function rotateEncryptionKey(): Promise<KeyRotationResult> {
+  const { keyring, lockedLines } = await loadActiveLog();
+  const lockedArchives = listArchives()
+    .filter(archive => archive.format === 'jsonl' && logStore.readLogFile(archive.path, keyring).lockedLines.length > 0);
+  
+  if (lockedLines > 0 || lockedArchives.length > 0) {
+    throw new Error('Some log entries are encrypted with a key that is missing from the keychain. Restore it with your recovery key before rotating.');
+  }
+  
+  const rotated = await logEncryptionService.beginKeyRotation();
+  
+  // No awaits from here until every file is rewritten, so nothing is appended or archived in between
+  let filesRewritten = 0;
+  let entriesReencrypted = 0;
+  const filePaths = [getPromptLogPath(), ...listArchives().filter(archive => archive.format === 'jsonl').map(archive => archive.path)];
+  
+  for (const filePath of filePaths) {
+    if (!fs.existsSync(filePath)) continue;
+    
+    const { entries, lockedLines: locked } = logStore.recoverLogFile(filePath, rotated);
+    logStore.writeLogFile(filePath, entries, rotated, locked);
+    filesRewritten++;
+    entriesReencrypted += entries.length;
+  }
+  activeLogCache = null;
+  
+  const recoveryKeyUpdated = await logEncryptionService.retireInactiveKeys();
+  console.log(`Re-encrypted ${entriesReencrypted} entries in ${filesRewritten} file(s) with key ${rotated.activeKeyId}`);
+  
+  return { activeKeyId: rotated.activeKeyId, filesRewritten, entriesReencrypted, recoveryKeyUpdated };
+}
+
+/**
+ * Restores lost data keys with the recovery key, unlocking entries written with them
+ * @param recoveryKey - The recovery key as shown when it was exported
+ * @returns Promise resolving to the number of restored keys and unlocked lines
+ * @throws Error if there is no key backup or the recovery key doesn't match it
+ */
+export async function restoreEncryptionKeys(recoveryKey: string): Promise<KeyRestoreResult> {
+  const before = (await loadActiveLog()).lockedLines;
+  const restoredKeys = await logEncryptionService.restoreFromRecoveryKey(recoveryKey);
+  const after = (await loadActiveLog()).lockedLines;
+  
+  return { restoredKeys, unlockedLines: before - after };
+}
+
+/**
+ * Gets every entry of the live log and, optionally, the JSONL archives, tagged with where it is stored
+ * @param includeArchives - Whether to include archived entries
+ * @returns Promise resolving to the history entries
+ */
+async function getHistoryEntries(includeArchives: boolean): Promise<HistoryEntry[]> {
+  const tag = (entries: LogEntry[], location: string): HistoryEntry[] =>
+    entries.filter((entry): entry is LogEntry & { id: string } => !!entry.id).map(entry => ({ ...entry, location }));
+  
+  const history = tag((await loadActiveLog()).entries, 'live');
+  if (!includeArchives) return history;
+  
+  for (const archive of listArchives()) {
+    if (archive.format !== 'jsonl') continue;
+    try {
+      history.push(...tag(await loadArchiveEntries(archive), archive.filename));
+    } catch (error) {
+      console.error(`Failed to read archive ${archive.filename}:`, error);
+    }
+  }
+  return history;
+}
+
+/**
+ * Searches captured prompts in the live log and archives for the history browser
+ * @param query - Search text, filters and page
+ * @returns Promise resolving to the page of matching entries, newest first
+ */
+export async function searchHistory(query: HistoryQuery): Promise<HistoryPage> {
+  const entries = await getHistoryEntries(query.includeArchives !== false);
+  return buildHistoryPage(entries, query);
+}
+
+/**
+ * Rewrites the live log and every JSONL archive that holds one of the given entries
+ * @param ids - IDs of the entries to change
+ * @param transform - Returns the entries to keep, given a file's entries
+ * @returns Promise resolving to the total number of entries removed
+ */
+async function rewriteHistoryEntries(ids: Set<string>, transform: (entries: LogEntry[]) => LogEntry[]): Promise<number> {
+  let removed = 0;
+  const holds = (entries: LogEntry[]) => entries.some(entry => entry.id && ids.has(entry.id));
+  
+  if (holds((await loadActiveLog()).entries)) {
+    const { before, after } = await rewriteLogEntries(null, transform);
+    removed += before - after;
+  }
+  for (const archive of listArchives()) {
+    if (archive.format !== 'jsonl' || !holds(await loadArchiveEntries(archive))) continue;
+    const { before, after } = await rewriteLogEntries(archive, transform);
+    removed += before - after;
+  }
+  return removed;
+}
+
+/**
+ * Deletes entries from the live log and archives
+ * @param ids - IDs of the entries to delete
+ * @returns Promise resolving to the number of entries deleted
+ */
+export async function deleteLogEntries(ids: string[]): Promise<number> {
+  const idSet = new Set(ids);
+  const deleted = await rewriteHistoryEntries(idSet, entries => entries.filter(entry => !entry.id || !idSet.has(entry.id)));
+  console.log(`Deleted ${deleted} log entries`);
+  return deleted;
+}
+
+/**
+ * Excludes entries from analysis, or includes them again, without deleting them
+ * @param ids - IDs of the entries to change
+ * @param excluded - Whether the entries should be left out of analysis
+ * @returns Promise resolving to the number of entries changed
+ */
+export async function setEntriesExcludedFromAnalysis(ids: string[], excluded: boolean): Promise<number> {
+  const idSet = new Set(ids);
+  let changed = 0;
+  
+  await rewriteHistoryEntries(idSet, entries => entries.map(entry => {
+    if (!entry.id || !idSet.has(entry.id) || !!entry.excludedFromAnalysis === excluded) return entry;
+    changed++;
+    return { ...entry, excludedFromAnalysis: excluded ? true : undefined };
+  }));
+  
+  console.log(`${excluded ? 'Excluded' : 'Included'} ${changed} log entries ${excluded ? 'from' : 'in'} analysis`);
+  return changed;
+}
+
+/**
+ * Reads a JSON export file
+ * @param filePath - Path to the file
+ * @returns The parsed JSON
+ * @throws Error if the file isn't valid JSON
+ */
+function readJsonExport(filePath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`${path.basename(filePath)} is not a valid JSON export`);
+  }
+}
+
+/**
+ * Reads the chat rows of Cursor's `state.vscdb` with the sqlite3 command-line tool
+ * Tables a Cursor version doesn't have are skipped, so global and workspace databases of any version can be imported
+ * @param dbPath - Path to the database
+ * @returns Promise resolving to the key-value rows holding chats
+ * @throws Error if sqlite3 isn't installed or the file isn't a database
+ */
+async function readCursorStateRows(dbPath: string): Promise<CursorStateRow[]> {
+  const queries = [
+    `SELECT key, CAST(value AS TEXT) AS value FROM ItemTable WHERE key IN ('aiService.prompts', 'workbench.panel.aichat.view.aichat.chatdata')`,
+    `SELECT key, CAST(value AS TEXT) AS value FROM cursorDiskKV WHERE key LIKE 'composerData:%' OR key LIKE 'bubbleId:%'`
+  ];
+  const rows: CursorStateRow[] = [];
+  
+  for (const query of queries) {
+    try {
+      const { stdout } = await execFileAsync('sqlite3', ['-readonly', '-json', dbPath, query], { maxBuffer: 512 * 1024 * 1024 });
+      if (stdout.trim()) rows.push(...JSON.parse(stdout));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('no such table')) continue;
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error('Importing Cursor history needs the sqlite3 command-line tool');
+      }
+      throw new Error(`${path.basename(dbPath)} is not a readable Cursor database`);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Names the shell a history file belongs to, from its filename
+ * @param filePath - Path to the history file
+ * @returns `zsh`, `fish` or `bash`
+ */
+function getShellName(filePath: string): string {
+  const filename = path.basename(filePath).toLowerCase();
+  if (filename.includes('zsh')) return 'zsh';
+  if (filename.includes('fish')) return 'fish';
+  return 'bash';
+}
+
+// One adapter per import format: reads the file and normalizes what it finds into prompts
+const importAdapters: Record<ImportFormat, (filePath: string) => Promise<ImportParseResult>> = {
+  chatgpt: async filePath => parseChatGptExport(readJsonExport(filePath)),
+  claude: async filePath => parseClaudeExport(readJsonExport(filePath)),
+  cursor: async filePath => parseCursorState(await readCursorStateRows(filePath)),
+  shell: async filePath => parseShellHistory(fs.readFileSync(filePath, 'utf8'), getShellName(filePath))
+};
+
+/**
+ * Imports prompt history from another tool into the live log
+ * Prompts are redacted like captured ones and tagged with their source; prompts already in the log or archives
+ * (or repeated within the file) are skipped. Prompts the export has no time for get the file's modification time.
+ * Entries keep their original time for display and record the import time, which analysis and retention age them from
+ * @param format - The export format
+ * @param filePath - Path to the export file
+ * @returns Promise resolving to counts of what was found, imported and skipped
+ * @throws Error if the file can't be read or isn't in the given format
+ */
+export async function importPromptHistory(format: ImportFormat, filePath: string): Promise<ImportReport> {
+  const adapter = importAdapters[format];
+  if (!adapter) {
+    throw new Error(`Unknown import format: ${format}`);
+  }
+  if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  
+  const { prompts, skipped } = await adapter(filePath);
+  const fileTime = fs.statSync(filePath).mtime;
+  const importedAt = new Date().toISOString();
+  const importSessionId = `import_${format}_${importedAt}`;
+  const report: ImportReport = { format, filePath, found: prompts.length, imported: 0, duplicates: 0, skipped, redacted: 0 };
+  
+  const known = buildDuplicateIndex(await getHistoryEntries(true));
+  const imported: LogEntry[] = [];
+  
+  for (const prompt of prompts) {
+    const entry = createLogEntry(prompt.text, prompt.windowTitle, prompt.processName, {
+      source: 'import',
+      importFormat: format,
+      sessionId: prompt.conversationId ? `import_${format}_${prompt.conversationId}` : importSessionId,
+      flushReason: 'submit'
+    }, prompt.timestamp || fileTime);
+    
+    if (!entry) {
+      report.skipped++;
+      continue;
+    }
+    
+    const time = prompt.timestamp ? prompt.timestamp.getTime() : NaN;
+    if (isDuplicatePrompt(known, entry.text, time)) {
+      report.duplicates++;
+      continue;
+    }
+    
+    addToDuplicateIndex(known, entry.text, time);
+    imported.push(logStore.withEntryId({ ...entry, importedAt }));
+    if (entry.redactions) report.redacted++;
+  }
+  
+  if (imported.length > 0) {
+    imported.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const logPath = getPromptLogPath();
+    
+    if (fs.existsSync(logPath)) {
+      await rewriteLogEntries(null, entries => [...entries, ...imported]);
+    } else {
+      ensureDirectoriesExist();
+      logStore.writeLogFile(logPath, imported, (await loadActiveLog()).keyring);
+      activeLogCache = null;
+    }
+  }
+  
+  report.imported = imported.length;
+  console.log(
+    `Imported ${report.imported} of ${report.found} ${format} prompts from ${path.basename(filePath)} ` +
+    `(${report.duplicates} duplicates, ${report.skipped} skipped, ${report.redacted} redacted)`
+  );
+  return report;
+}
@@ -0,0 +1,339 @@
+/**
+ * @file Tests for monitoring's focus and target-matching state transitions, driven by the fake window source
+ * @module monitoring-service.test
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as monitoringService from './monitoring-service';
+import * as settingsService from './settings-service';
+import { createFakeWindowSource, FakeWindowSource } from './fake-window-source';
+import { createVirtualClock, VirtualClock } from '../utils/virtual-clock';
+import { getBuiltInLayouts, KeyboardLayout } from '../utils/keyboard-layouts';
+import type { CaptureMetadata } from './logging-service';
+import type { CaptureTargetRule } from '../../common/types/capture-target';
+import type { KeystrokeEvent } from '../utils/keystroke-decoder';
+
+// Settings and logs go to a throwaway directory instead of the app's userData
+vi.mock('electron', async () => {
+  const os = await import('os');
+  const path = await import('path');
+  const fs = await import('fs');
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'dryprompt-monitoring-'));
+  return {
+    app: { getPath: () => userData },
+    clipboard: { readText: () => '' }
+  };
+});
+// The native modules stay out of tests: no focus polling, and no keychain access for the log encryption key
+vi.mock('active-win', () => ({ default: async (): Promise<undefined> => undefined }));
+vi.mock('keytar', () => {
+  const passwords = new Map<string, string>();
+  return {
+    getPassword: async (service: string, account: string) => passwords.get(`${service}/${account}`) ?? null,
+    setPassword: async (service: string, account: string, password: string) => { passwords.set(`${service}/${account}`, password); },
+    deletePassword: async (service: string, account: string) => passwords.delete(`${service}/${account}`)
+  };
+});
+
+const START_TIME = Date.UTC(2025, 0, 6, 9, 0, 0);
+const ENTER = 28;
+
+const CURSOR_RULE: CaptureTargetRule = {
+  id: 'cursor',
+  name: 'Cursor',
+  enabled: true,
+  processPattern: '^Cursor$',
+  minTextLength: 10,
+  submitKeys: ['Enter']
+};
+
+const CHATGPT_RULE: CaptureTargetRule = {
+  id: 'chatgpt',
+  name: 'ChatGPT in Safari',
+  enabled: true,
+  processPattern: '^Safari$',
+  windowTitleInclude: 'ChatGPT',
+  windowTitleExclude: 'Settings',
+  minTextLength: 10,
+  submitKeys: ['Enter']
+};
+
+const CURSOR = { processName: 'Cursor', windowTitle: 'parser.ts — dry-prompt' };
+const CHATGPT = { processName: 'Safari', windowTitle: 'ChatGPT' };
+const CHATGPT_SETTINGS = { processName: 'Safari', windowTitle: 'ChatGPT Settings' };
+const SAFARI_OTHER = { processName: 'Safari', windowTitle: 'News' };
+const FINDER = { processName: 'Finder', windowTitle: 'Downloads' };
+
+const usLayout = getBuiltInLayouts().find(layout => layout.id === 'us') as KeyboardLayout;
+
+/**
+ * Builds the keydown events that type a string on the U.S. layout
+ * @param text - Letters, digits, punctuation and spaces
+ * @returns The keydown events
+ */
+function keystrokesFor(text: string): KeystrokeEvent[] {
+  return Array.from(text).map(character => {
+    for (const [layer, shiftKey] of [[usLayout.layers.base, false], [usLayout.layers.shift, true]] as const) {
+      const keycode = Object.keys(layer).map(Number).find(code => layer[code] === character);
+      if (keycode !== undefined) return { keycode, shiftKey };
+    }
+    throw new Error(`Can't type ${character} on the U.S. layout`);
+  });
+}
+
+describe('monitoring focus transitions', () => {
+  let clock: VirtualClock;
+  let windowSource: FakeWindowSource;
+  let logged: Array<{ text: string; windowTitle?: string; processName?: string; metadata?: CaptureMetadata }>;
+
+  /**
+   * Types text into the focused window, one keystroke per 100ms of virtual time
+   * @param text - The text to type
+   */
+  async function type(text: string): Promise<void> {
+    for (const event of keystrokesFor(text)) {
+      await clock.advanceBy(100);
+      monitoringService.injectKeyEvent('keydown', event);
+    }
+  }
+
+  beforeEach(() => {
+    clock = createVirtualClock(START_TIME);
+    windowSource = createFakeWindowSource();
+    logged = [];
+
+    monitoringService.configureCaptureEnvironment({
+      clock,
+      keyboardInput: 'injected',
+      keyboardLayout: usLayout,
+      captureTargets: [CURSOR_RULE, CHATGPT_RULE],
+      privacySettings: { schedule: { enabled: false, windows: [] }, excludedWindowTitles: ['*Private*'] },
+      logSink: async (text, windowTitle, processName, metadata) => {
+        logged.push({ text, windowTitle, processName, metadata });
+      }
+    });
+    monitoringService.setWindowSource(windowSource);
+  });
+
+  afterEach(() => {
+    monitoringService.stopMonitoring();
+    monitoringService.setWindowSource(null);
+    monitoringService.resetCaptureEnvironment();
+  });
+
+  it('starts the window source and stays inactive until a target has focus', async () => {
+    monitoringService.startMonitoring();
+    expect(windowSource.isRunning()).toBe(true);
+
+    await windowSource.focus(FINDER);
+
+    const status = monitoringService.getMonitoringStatus();
+    expect(status.isRunning).toBe(true);
+    expect(status.isTargetActive).toBe(false);
+    expect(status.keyboardListenerActive).toBe(false);
+    expect(status.captureMode).toBe('disabled');
+  });
+
+  it('enables capture when a target app gains focus', async () => {
+    monitoringService.startMonitoring();
+    await windowSource.focus(CURSOR);
+
+    const status = monitoringService.getMonitoringStatus();
+    expect(status.isTargetActive).toBe(true);
+    expect(status.keyboardListenerActive).toBe(true);
+    expect(status.captureMode).toBe('replay');
+    expect(status.matchedTarget).toEqual({
+      ruleId: 'cursor',
+      ruleName: 'Cursor',
+      processName: 'Cursor',
+      windowTitle: CURSOR.windowTitle
+    });
+  });
+
+  it('reports a window focused before monitoring started once the source starts', async () => {
+    windowSource = createFakeWindowSource({ initialWindow: CURSOR });
+    monitoringService.setWindowSource(windowSource);
+
+    monitoringService.startMonitoring();
+    await clock.advanceBy(0);
+
+    expect(monitoringService.getMonitoringStatus().isTargetActive).toBe(true);
+  });
+
+  it('matches window titles against the include and exclude patterns', async () => {
+    monitoringService.startMonitoring();
+
+    await windowSource.focus(SAFARI_OTHER);
+    expect(monitoringService.getMonitoringStatus().isTargetActive).toBe(false);
+
+    await windowSource.focus(CHATGPT);
+    expect(monitoringService.getMonitoringStatus().matchedTarget?.ruleId).toBe('chatgpt');
+
+    await windowSource.focus(CHATGPT_SETTINGS);
+    expect(monitoringService.getMonitoringStatus().isTargetActive).toBe(false);
+  });
+
+  it('logs the buffer and disables capture when the target loses focus', async () => {
+    monitoringService.startMonitoring();
+    await windowSource.focus(CURSOR);
+    await type('Explain how the parser handles nested arrays');
+
+    await windowSource.focus(FINDER);
+
+    expect(logged).toHaveLength(1);
+    expect(logged[0]).toMatchObject({
+      text: 'Explain how the parser handles nested arrays',
+      windowTitle: CURSOR.windowTitle,
+      processName: 'Cursor',
+      metadata: { source: 'keyboard', flushReason: 'focus-loss' }
+    });
+
+    const status = monitoringService.getMonitoringStatus();
+    expect(status.isTargetActive).toBe(false);
+    expect(status.keyboardListenerActive).toBe(false);
+    expect(status.matchedTarget).toBeUndefined();
+  });
+
+  it('ignores keystrokes while no target has focus', async () => {
+    monitoringService.startMonitoring();
+    await windowSource.focus(FINDER);
+    await type('Explain how the parser handles nested arrays');
+
+    await windowSource.focus(CURSOR);
+    await windowSource.focus(FINDER);
+
+    expect(logged).toEqual([]);
+  });
+
+  it('flushes under the old rule when focus moves straight to another target', async () => {
+    monitoringService.startMonitoring();
+    await windowSource.focus(CURSOR);
+    await type('Refactor this function to use async await');
+
+    await windowSource.focus(CHATGPT);
+
+    expect(logged).toHaveLength(1);
+    expect(logged[0].processName).toBe('Cursor');
+    expect(logged[0].metadata?.flushReason).toBe('target-switch');
+
+    const status = monitoringService.getMonitoringStatus();
+    expect(status.isTargetActive).toBe(true);
+    expect(status.matchedTarget?.ruleId).toBe('chatgpt');
+  });
+
+  it('logs on a submit key without waiting for focus to change', async () => {
+    monitoringService.startMonitoring();
+    await windowSource.focus(CURSOR);
+    await type('Write unit tests for the date helpers');
+    monitoringService.injectKeyEvent('keydown', { keycode: ENTER });
+    await clock.advanceBy(100);
+
+    expect(logged.map(entry => entry.metadata?.flushReason)).toEqual(['submit']);
+    expect(monitoringService.getMonitoringStatus().isTargetActive).toBe(true);
+  });
+
+  it('stops capturing in windows whose title is excluded', async () => {
+    monitoringService.startMonitoring();
+    await windowSource.focus(CURSOR);
+    await type('Summarize the open pull requests for me');
+
+    await windowSource.focus({ processName: 'Cursor', windowTitle: 'Private notes' });
+
+    const status = monitoringService.getMonitoringStatus();
+    expect(status.windowExcluded).toBe(true);
+    expect(status.isTargetActive).toBe(false);
+    expect(logged.map(entry => entry.metadata?.flushReason)).toEqual(['focus-loss']);
+  });
+
+  it('treats losing every window like focusing a non-target app', async () => {
+    monitoringService.startMonitoring();
+    await windowSource.focus(CURSOR);
+    await windowSource.focus(null);
+
+    expect(monitoringService.getMonitoringStatus().isTargetActive).toBe(false);
+  });
+
+  it('stops the window source and disables capture when monitoring stops', async () => {
+    monitoringService.startMonitoring();
+    await windowSource.focus(CURSOR);
+
+    monitoringService.stopMonitoring();
+    await new Promise(resolve => setImmediate(resolve)); // Capture is disabled asynchronously
+
+    const status = monitoringService.getMonitoringStatus();
+    expect(windowSource.isRunning()).toBe(false);
+    expect(status.isRunning).toBe(false);
+    expect(status.isTargetActive).toBe(false);
+    expect(status.captureMode).toBe('disabled');
+  });
+});
+
+describe('manual capture pause', () => {
+  const HOUR = 60 * 60 * 1000;
+  let clock: VirtualClock;
+
+  beforeEach(() => {
+    clock = createVirtualClock(START_TIME);
+
+    // Manual pauses only apply to live input, so these tests keep uiohook as the input without starting monitoring
+    monitoringService.configureCaptureEnvironment({
+      clock,
+      keyboardInput: 'uiohook',
+      privacySettings: { schedule: { enabled: false, windows: [] }, excludedWindowTitles: [] }
+    });
+  });
+
+  afterEach(async () => {
+    await monitoringService.resumeCapture();
+    monitoringService.resetCaptureEnvironment();
+  });
+
+  it('saves a pause and clears it on resume', async () => {
+    await monitoringService.pauseCapture('1h');
+    expect(settingsService.getCapturePause()).toEqual({ until: new Date(START_TIME + HOUR).toISOString() });
+
+    await monitoringService.pauseCapture('indefinite');
+    expect(settingsService.getCapturePause()).toEqual({ until: null });
+
+    await monitoringService.resumeCapture();
+    expect(settingsService.getCapturePause()).toBeNull();
+  });
+
+  it.each([
+    ['a timed pause', new Date(START_TIME + HOUR).toISOString()],
+    ['a pause until resumed', null]
+  ])('restores %s saved before a restart', async (_name, until) => {
+    settingsService.saveCapturePause({ until });
+
+    const status = await monitoringService.restoreCapturePause();
+
+    expect(status).toEqual({ paused: true, reason: 'manual', resumesAt: until });
+    expect(monitoringService.getPauseStatus()).toEqual(status);
+  });
+
+  it('resumes on time after restoring a timed pause, and forgets it', async () => {
+    settingsService.saveCapturePause({ until: new Date(START_TIME + 15 * 60 * 1000).toISOString() });
+    await monitoringService.restoreCapturePause();
+
+    await clock.advanceBy(15 * 60 * 1000);
+
+    expect(monitoringService.getPauseStatus()).toEqual({ paused: false });
+    expect(settingsService.getCapturePause()).toBeNull();
+  });
+
+  it.each([
+    ['ended while the app was closed', new Date(START_TIME - HOUR).toISOString()],
+    ['has an unreadable end time', 'tomorrow']
+  ])('drops a saved pause that %s', async (_name, until) => {
+    settingsService.updateSetting('capturePause', { until });
+
+    const status = await monitoringService.restoreCapturePause();
+
+    expect(status).toEqual({ paused: false });
+    expect(settingsService.getCapturePause()).toBeNull();
+  });
+
+  it('leaves capture running when no pause was saved', async () => {
+    expect(await monitoringService.restoreCapturePause()).toEqual({ paused: false });
+  });
+});
@@ -1,10 +1,28 @@
 /**
- * @file Manages precision monitoring of target application (Cursor.app) and text input capture
+ * @file Manages precision monitoring of configured target applications and text input capture
  * @module monitoring-service
  */
 
-import activeWin from 'active-win';
 import * as loggingService from './logging-service';
+import * as settingsService from './settings-service';
+import * as keyboardLayoutService from './keyboard-layout-service';
+import * as clipboardMonitor from './clipboard-monitor';
+import * as promptClassifier from './prompt-classifier-service';
+import * as captureRecorder from './capture-recorder';
+import { createPollingWindowSource, WindowSource, WindowFocusEvent, WindowInfo } from './window-source';
+import { systemClock, Clock } from '../utils/virtual-clock';
+import { touchSession, CaptureSessionState } from '../utils/capture-session';
+import { isWithinSchedule, findExcludedTitlePattern, getPauseEndTime } from '../utils/capture-policy';
+import type { ClipboardOrigin } from './clipboard-monitor';
+import { decodeKeystroke, KeystrokeEvent } from '../utils/keystroke-decoder';
+import { createTextBuffer, insertText, applyEditCommand, getEditCommand, bufferToText, countUnknownSpans, TextBuffer, EditCommand } from '../utils/text-buffer';
+import type { KeyboardLayout } from '../utils/keyboard-layouts';
+import { findRuleForWindow, matchesKeyChord, DEFAULT_NEWLINE_KEYS } from '../utils/target-matcher';
+import type { CaptureTargetRule, MatchedTargetInfo } from '../../common/types/capture-target';
+import type { ClassifierSettings, PromptClassification } from '../../common/types/prompt-classifier';
+import type { CaptureMetadata } from './logging-service';
+import type { FlushReason } from '../../common/types/capture-session';
+import type { CapturePauseStatus, PauseDuration, PrivacySettings } from '../../common/types/capture-privacy';
 
 // Dynamically import uiohook-napi with error handling
 let uIOhook: any = null;
@@ -20,78 +38,54 @@ try {
   uiohookAvailable = false;
 }
 
-// Virtual keycode to character mapping for uiohook-napi
-// This maps the virtual key codes to their corresponding characters
-const KEYCODE_TO_CHAR: { [key: number]: string } = {
-  // Letters (A-Z)
-  30: 'a', 48: 'b', 46: 'c', 32: 'd', 18: 'e', 33: 'f', 34: 'g', 35: 'h',
-  23: 'i', 36: 'j', 37: 'k', 38: 'l', 50: 'm', 49: 'n', 24: 'o', 25: 'p',
-  16: 'q', 19: 'r', 31: 's', 20: 't', 22: 'u', 47: 'v', 17: 'w', 45: 'x',
-  21: 'y', 44: 'z',
-  
-  // Numbers (0-9)
-  11: '1', 2: '2', 3: '3', 4: '4', 5: '5', 6: '6', 7: '7', 8: '8', 9: '9', 10: '0',
-  
-  // Special characters
-  57: ' ',  // Space
-  12: '-', 13: '=', 26: '[', 27: ']', 43: '\\', 39: ';', 40: "'", 41: '`',
-  51: ',', 52: '.', 53: '/', 
-  
-  // Shifted numbers (symbols)
-  // These would need modifier key detection
-};
-
-// Shifted character mapping (when Shift is held)
-const SHIFTED_KEYCODE_TO_CHAR: { [key: number]: string } = {
-  // Letters become uppercase
-  30: 'A', 48: 'B', 46: 'C', 32: 'D', 18: 'E', 33: 'F', 34: 'G', 35: 'H',
-  23: 'I', 36: 'J', 37: 'K', 38: 'L', 50: 'M', 49: 'N', 24: 'O', 25: 'P',
-  16: 'Q', 19: 'R', 31: 'S', 20: 'T', 22: 'U', 47: 'V', 17: 'W', 45: 'X',
-  21: 'Y', 44: 'Z',
-  
-  // Shifted numbers become symbols
-  11: '!', 2: '@', 3: '#', 4: '$', 5: '%', 6: '^', 7: '&', 8: '*', 9: '(', 10: ')',
-  
-  // Shifted special characters
-  57: ' ',  // Space remains space
-  12: '_', 13: '+', 26: '{', 27: '}', 43: '|', 39: ':', 40: '"', 41: '~',
-  51: '<', 52: '>', 53: '?',
-};
-
-/**
- * Converts a virtual keycode and modifier state to the actual character
- * @param keycode - The virtual keycode from uiohook-napi
- * @param shiftKey - Whether shift is pressed
- * @returns The character or null if not mappable
- */
-function keycodeToChar(keycode: number, shiftKey: boolean): string | null {
-  const mapping = shiftKey ? SHIFTED_KEYCODE_TO_CHAR : KEYCODE_TO_CHAR;
-  return mapping[keycode] || null;
+// How text is being captured while a target is active
+export type CaptureMode = 'uiohook' | 'clipboard' | 'replay' | 'disabled';
+
+// Receives captured text (the prompt log by default)
+export type CaptureLogSink = (text: string, windowTitle?: string, processName?: string, metadata?: CaptureMetadata) => Promise<void>;
+
+// Dependencies the capture engine runs against; replay swaps these for deterministic versions
+export interface CaptureEnvironment {
+  clock: Clock;
+  logSink: CaptureLogSink;
+  keyboardInput: 'uiohook' | 'injected';  // 'injected' skips the native hook; events arrive via injectKeyEvent
+  keyboardLayout?: KeyboardLayout;        // Fixed layout instead of resolving from settings
+  captureTargets?: CaptureTargetRule[];   // Fixed target rules instead of reading settings
+  privacySettings?: PrivacySettings;      // Fixed schedule and exclusions instead of reading settings
+  classifierSettings?: ClassifierSettings; // Fixed prompt filter settings instead of reading settings
 }
 
 // Monitoring state
 interface MonitoringState {
   isRunning: boolean;
-  processCheckInterval?: NodeJS.Timeout;
-  activeWindowCheckInterval?: NodeJS.Timeout;
+  windowSource?: WindowSource;
+  unsubscribeFocus?: () => void;
   targetProcessName: string;
   lastActiveWindow?: string;
+  activeRule?: CaptureTargetRule;
   isTargetActive: boolean;
   keyboardListenerActive: boolean;
-  currentTextBuffer: string;
+  captureMode: CaptureMode;
+  textBuffer: TextBuffer;
+  keyboardLayout?: KeyboardLayout;
+  pendingDeadKey: string | null;
   lastKeypressTime: number;
-  screenRecordingErrorLogged: boolean;
-  lastErrorLogTime?: number;
+  composeStartedAt: number | null;   // First keystroke of the text in the buffer
+  keystrokeCount: number;            // Characters typed into the buffer, including deleted ones
+  editCount: number;                 // Deletes, cuts, pastes, undos and redos since the buffer was cleared
+  session: CaptureSessionState | null;
+  manualPause: { until: number | null } | null;  // Set from the tray; until is null for "until resumed"
+  pauseStatus: CapturePauseStatus;
+  windowExcluded: boolean;           // The focused target window matches a title exclusion
+  monitoringGeneration: number;      // Bumped on every start so timers from an earlier run stop
 }
 
-// Configuration constants
-const PROCESS_CHECK_INTERVAL = 10000; // 10 seconds
-const ACTIVE_WINDOW_CHECK_INTERVAL = 1000; // 1 second
-const TARGET_PROCESS_NAMES = ['Cursor', 'Cursor.app']; // Both possible process names
-
 // Configuration constants
 const TEXT_BUFFER_TIMEOUT = 3000; // 3 seconds of inactivity before processing buffer
-const MIN_TEXT_LENGTH = 10; // Minimum text length to consider for logging
+const MIN_TEXT_LENGTH = 10; // Default minimum text length when no target rule is active
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000; // 30 minutes without capture activity starts a new session
+const POLICY_CHECK_INTERVAL = 60 * 1000; // How often schedules and pause expiry are re-checked while monitoring
+const TEXT_EDIT_COMMANDS: EditCommand['type'][] = ['delete', 'cut', 'paste', 'undo', 'redo']; // Commands counted as edits (moves and selections aren't)
 
 // Global state
 let state: MonitoringState = {
@@ -99,159 +93,202 @@ let state: MonitoringState = {
   targetProcessName: 'Cursor',
   isTargetActive: false,
   keyboardListenerActive: false,
-  currentTextBuffer: '',
+  captureMode: 'disabled',
+  textBuffer: createTextBuffer(),
+  pendingDeadKey: null,
   lastKeypressTime: 0,
-  screenRecordingErrorLogged: false
+  composeStartedAt: null,
+  keystrokeCount: 0,
+  editCount: 0,
+  session: null,
+  manualPause: null,
+  pauseStatus: { paused: false },
+  windowExcluded: false,
+  monitoringGeneration: 0
+};
+
+// Callbacks notified when capture is paused or resumed
+const pauseChangeCallbacks: Array<(status: CapturePauseStatus) => void> = [];
+
+// Window source used by the next startMonitoring call (defaults to polling active-win)
+let configuredWindowSource: WindowSource | null = null;
+
+const DEFAULT_ENVIRONMENT: CaptureEnvironment = {
+  clock: systemClock,
+  logSink: loggingService.logTextInput,
+  keyboardInput: 'uiohook'
 };
 
+let environment: CaptureEnvironment = DEFAULT_ENVIRONMENT;
+
 /**
- * Checks if the target process (Cursor) is currently running
- * @returns Promise resolving to boolean indicating if process is running
+ * Handles focus changes reported by the window source
+ * @param event - The focus change event
  */
-async function isTargetProcessRunning(): Promise<boolean> {
-  try {
-    const window = await activeWin();
-    
-    if (!window) {
-      return false;
-    }
-    
-    // Check if the owner name matches any of our target process names
-    const processName = window.owner?.name || '';
-    const isRunning = TARGET_PROCESS_NAMES.some(target => 
-      processName.toLowerCase().includes(target.toLowerCase())
-    );
-    
-    if (isRunning) {
-      console.log(`Target process detected: ${processName}`);
-    }
-    
-    return isRunning;
-    
-  } catch (error: any) {
-    // Handle permission errors gracefully
-    const stdout = error?.stdout || '';
-    const stderr = error?.stderr || '';
-    
-    if (stdout.includes('screen recording permission') || stderr.includes('screen recording permission')) {
-      // Only log this error once, not repeatedly
-      if (!state.screenRecordingErrorLogged) {
-        console.log('Screen recording permission required - monitoring paused');
-        state.screenRecordingErrorLogged = true;
-      }
-      return false;
-    }
-    
-    if (stdout.includes('accessibility permission')) {
-      console.log('Accessibility permission required - monitoring paused');
-      return false;
-    }
-    
-    // For other errors, only log occasionally to avoid spam
-    const now = Date.now();
-    if (!state.lastErrorLogTime || (now - state.lastErrorLogTime) > 30000) { // Log at most once per 30 seconds
-      console.error('Error checking for target process:', error);
-      state.lastErrorLogTime = now;
-    }
-    
-    return false;
-  }
+async function handleFocusChange(event: WindowFocusEvent): Promise<void> {
+  const window = event.current;
+  
+  // Excluded windows are never recorded, not even by title
+  const isExcluded = window !== null && findExcludedTitlePattern(window.windowTitle, getPrivacySettings().excludedWindowTitles) !== null;
+  captureRecorder.recordFocusEvent(isExcluded ? null : window, environment.clock.now());
+  
+  await refreshCapturePolicy(window);
 }
 
 /**
- * Checks if a target application window is currently active/focused
- * @returns Promise resolving to boolean indicating if target window is active
+ * Re-evaluates pauses, the schedule and window exclusions for the focused window
+ * Enables capture when an allowed target window has focus and flushes/disables it otherwise
+ * @param window - The focused window, or null
  */
-async function isTargetWindowActive(): Promise<boolean> {
-  try {
-    const window = await activeWin();
-    
-    if (!window) {
-      return false;
-    }
-    
-    const processName = window.owner?.name || '';
-    const windowTitle = window.title || '';
-    
-    // Check if this is a Cursor window
-    const isTargetWindow = TARGET_PROCESS_NAMES.some(target => 
-      processName.toLowerCase().includes(target.toLowerCase())
-    );
-    
-    if (isTargetWindow) {
-      // Update state tracking
-      if (state.lastActiveWindow !== windowTitle) {
-        state.lastActiveWindow = windowTitle;
-        console.log(`Target window active: ${windowTitle}`);
-      }
-      return true;
-    }
-    
-    return false;
-    
-  } catch (error: any) {
-    // Handle permission errors gracefully (same logic as isTargetProcessRunning)
-    const stdout = error?.stdout || '';
-    const stderr = error?.stderr || '';
-    
-    if (stdout.includes('screen recording permission') || stderr.includes('screen recording permission')) {
-      // Don't log repeatedly - already logged in isTargetProcessRunning
-      return false;
-    }
-    
-    if (stdout.includes('accessibility permission')) {
-      // Don't log repeatedly
-      return false;
+async function refreshCapturePolicy(window: WindowInfo | null): Promise<void> {
+  const now = environment.clock.now();
+  updatePauseStatus(now);
+  
+  // Check the focused window against the configured rules (process + title filters)
+  const matchedRule = window
+    ? findRuleForWindow(window.processName, window.windowTitle, environment.captureTargets || settingsService.getCaptureTargets())
+    : null;
+  const excludedPattern = window && matchedRule
+    ? findExcludedTitlePattern(window.windowTitle, getPrivacySettings().excludedWindowTitles)
+    : null;
+  
+  if (excludedPattern && !state.windowExcluded) {
+    console.log(`Window title matches exclusion "${excludedPattern}" - not capturing`);
+  }
+  state.windowExcluded = excludedPattern !== null;
+  
+  const captureRule = matchedRule && !excludedPattern && !state.pauseStatus.paused ? matchedRule : null;
+  const isActive = captureRule !== null;
+  
+  // Focus moved directly between two target apps - flush under the old rule and window before switching
+  if (captureRule && state.isTargetActive && state.activeRule && captureRule.id !== state.activeRule.id) {
+    console.log(`Target rule changed: ${state.activeRule.name} -> ${captureRule.name}`);
+    await processTextBuffer('target-switch');
+    state.activeRule = captureRule;
+  }
+  
+  if (window && captureRule) {
+    // Update state tracking
+    state.targetProcessName = window.processName;
+    if (state.lastActiveWindow !== window.windowTitle) {
+      state.lastActiveWindow = window.windowTitle;
+      console.log(`Target window active: ${window.windowTitle} (rule: ${captureRule.name})`);
     }
+  }
+  
+  if (isActive !== state.isTargetActive) {
+    state.isTargetActive = isActive;
     
-    // For other errors, only log occasionally to avoid spam
-    const now = Date.now();
-    if (!state.lastErrorLogTime || (now - state.lastErrorLogTime) > 30000) { // Log at most once per 30 seconds
-      console.error('Error checking active window:', error);
-      state.lastErrorLogTime = now;
+    if (captureRule) {
+      console.log('Target window is now active - enabling text capture');
+      state.activeRule = captureRule;
+      await enableTextCapture();
+    } else if (state.pauseStatus.paused) {
+      console.log(`Capture paused (${state.pauseStatus.reason}) - discarding buffer and disabling text capture`);
+      await disableTextCapture(null);
+      state.activeRule = undefined;
+    } else {
+      console.log('Target window is no longer active - disabling text capture');
+      await disableTextCapture('focus-loss');
+      state.activeRule = undefined;
     }
-    
-    return false;
   }
 }
 
 /**
- * Handles the coarse-grained process monitoring
- * Checks periodically if Cursor is running at all
+ * Gets the privacy settings in effect (fixed ones during replay)
+ * @returns The privacy settings
+ */
+function getPrivacySettings(): PrivacySettings {
+  return environment.privacySettings || settingsService.getPrivacySettings();
+}
+
+/**
+ * Gets the prompt filter settings in effect (fixed ones during replay)
+ * @returns The classifier settings
+ */
+function getClassifierSettings(): ClassifierSettings {
+  return environment.classifierSettings || settingsService.getClassifierSettings();
+}
+
+/**
+ * Works out whether capture is paused at a given time
+ * Manual pauses only apply to live input, so replays aren't affected by them
+ * @param now - The current time in milliseconds
+ * @returns The pause status
  */
-async function handleProcessCheck(): Promise<void> {
-  const isRunning = await isTargetProcessRunning();
+function evaluatePauseStatus(now: number): CapturePauseStatus {
+  const manualPause = state.manualPause;
+  const manualPauseActive = manualPause !== null &&
+    environment.keyboardInput === 'uiohook' &&
+    (manualPause.until === null || now < manualPause.until);
+  
+  if (manualPause && manualPauseActive) {
+    return {
+      paused: true,
+      reason: 'manual',
+      resumesAt: manualPause.until === null ? null : new Date(manualPause.until).toISOString()
+    };
+  }
   
-  if (isRunning && !state.activeWindowCheckInterval) {
-    // Start fine-grained window monitoring
-    console.log('Target process detected, starting active window monitoring');
-    startActiveWindowMonitoring();
-  } else if (!isRunning && state.activeWindowCheckInterval) {
-    // Stop fine-grained monitoring
-    console.log('Target process not running, stopping active window monitoring');
-    stopActiveWindowMonitoring();
+  if (!isWithinSchedule(getPrivacySettings().schedule, new Date(now))) {
+    return { paused: true, reason: 'schedule' };
+  }
+  
+  return { paused: false };
+}
+
+/**
+ * Saves the manual pause to settings so it survives a restart
+ * Only live input is saved; replays don't touch the user's pause
+ */
+function persistManualPause(): void {
+  if (environment.keyboardInput !== 'uiohook') return;
+
+  const pause = state.manualPause;
+  try {
+    settingsService.saveCapturePause(pause && { until: pause.until === null ? null : new Date(pause.until).toISOString() });
+  } catch (error) {
+    console.error('Failed to save the capture pause:', error);
   }
 }
 
 /**
- * Handles fine-grained active window monitoring
- * Only runs when we know the target process is running
+ * Updates the pause status, clearing an expired manual pause and notifying listeners on change
+ * @param now - The current time in milliseconds
  */
-async function handleActiveWindowCheck(): Promise<void> {
-  const isActive = await isTargetWindowActive();
+function updatePauseStatus(now: number): void {
+  if (state.manualPause && state.manualPause.until !== null && now >= state.manualPause.until) {
+    console.log('Manual capture pause ended');
+    state.manualPause = null;
+    persistManualPause();
+  }
   
-  if (isActive !== state.isTargetActive) {
-    state.isTargetActive = isActive;
-    
-    if (isActive) {
-      console.log('Target window is now active - enabling text capture');
-      // TODO: Enable keyboard listener when iohook is available
-      await enableTextCapture();
-    } else {
-      console.log('Target window is no longer active - disabling text capture');
-      await disableTextCapture();
+  const previous = state.pauseStatus;
+  const next = evaluatePauseStatus(now);
+  state.pauseStatus = next;
+  
+  if (previous.paused === next.paused && previous.reason === next.reason && previous.resumesAt === next.resumesAt) return;
+  
+  pauseChangeCallbacks.forEach(callback => {
+    try {
+      callback(next);
+    } catch (error) {
+      console.error('Error in pause change callback:', error);
     }
-  }
+  });
+}
+
+/**
+ * Re-checks the schedule and pause expiry at a fixed interval for as long as this monitoring run lasts
+ * @param generation - The monitoring run the check belongs to
+ */
+function schedulePolicyCheck(generation: number): void {
+  environment.clock.setTimeout(async () => {
+    if (!state.isRunning || state.monitoringGeneration !== generation) return;
+    await refreshCapturePolicy(state.windowSource ? state.windowSource.getCurrentWindow() : null);
+    schedulePolicyCheck(generation);
+  }, POLICY_CHECK_INTERVAL);
 }
 
 /**
@@ -262,15 +299,29 @@ async function enableTextCapture(): Promise<void> {
     return; // Already active
   }
 
+  if (environment.keyboardInput === 'injected') {
+    state.keyboardLayout = environment.keyboardLayout || await keyboardLayoutService.resolveActiveLayout();
+    state.pendingDeadKey = null;
+    state.keyboardListenerActive = true;
+    state.captureMode = 'replay';
+    resetTextBuffer();
+    state.lastKeypressTime = environment.clock.now();
+    return;
+  }
+
   if (!uiohookAvailable) {
-    console.log('Keyboard capture not available (uiohook-napi not loaded), using fallback mode');
-    await enableFallbackCapture();
+    console.log('Keyboard capture not available (uiohook-napi not loaded), using clipboard capture');
+    enableClipboardCapture();
     return;
   }
 
   try {
     console.log('Enabling keyboard capture for target window');
     
+    // Resolve the keyboard layout before any keystrokes arrive
+    state.keyboardLayout = await keyboardLayoutService.resolveActiveLayout();
+    state.pendingDeadKey = null;
+    
     // Register event handlers before starting
     uIOhook.on('keydown', handleKeydown);
     uIOhook.on('keyup', handleKeyup);
@@ -279,58 +330,70 @@ async function enableTextCapture(): Promise<void> {
     uIOhook.start();
     
     state.keyboardListenerActive = true;
-    state.currentTextBuffer = '';
-    state.lastKeypressTime = Date.now();
+    state.captureMode = 'uiohook';
+    resetTextBuffer();
+    state.lastKeypressTime = environment.clock.now();
     
     console.log('Keyboard capture enabled successfully');
     
   } catch (error) {
     console.error('Failed to enable keyboard capture:', error);
-    console.log('Falling back to alternative capture method');
-    await enableFallbackCapture();
+    console.log('Falling back to clipboard capture');
+    enableClipboardCapture();
   }
 }
 
 /**
- * Enables fallback capture mode when iohook is not available
+ * Enables clipboard capture when keyboard capture is not available
+ * Text copied in (or brought into) the target app is logged if it looks like a prompt
  */
-async function enableFallbackCapture(): Promise<void> {
-  console.log('Using fallback capture mode - logging sample data periodically');
+function enableClipboardCapture(): void {
+  console.log('Using clipboard capture mode');
   
   state.keyboardListenerActive = true;
-  state.currentTextBuffer = '';
-  
-  // For now, we'll simulate some typical prompts that users might type
-  // In a real implementation, this could be replaced with clipboard monitoring
-  // or other alternative capture methods
-  
-  setTimeout(async () => {
-    if (state.isTargetActive && state.keyboardListenerActive) {
-      const fallbackPrompts = [
-        'Explain how this function works',
-        'Review this code for bugs',
-        'Help me debug this issue',
-        'What does this code do?',
-        'Can you optimize this function?'
-      ];
-      
-      const randomPrompt = fallbackPrompts[Math.floor(Math.random() * fallbackPrompts.length)];
-      
-      await loggingService.logTextInput(
-        randomPrompt,
-        state.lastActiveWindow,
-        state.targetProcessName
-      );
-      
-      console.log(`Fallback capture logged: "${randomPrompt}"`);
-    }
-  }, 10000); // Log a sample prompt every 10 seconds when active
+  state.captureMode = 'clipboard';
+  resetTextBuffer();
+  
+  clipboardMonitor.startClipboardWatch(handleClipboardChange);
+}
+
+/**
+ * Logs clipboard text captured while a target app is focused
+ * @param text - The new clipboard text
+ * @param origin - Whether it was copied in the target app or brought over from another app
+ */
+async function handleClipboardChange(text: string, origin: ClipboardOrigin): Promise<void> {
+  if (!state.isTargetActive) return;
+  
+  const textToLog = text.trim();
+  const minTextLength = state.activeRule?.minTextLength ?? MIN_TEXT_LENGTH;
+  
+  const classification = promptClassifier.classifyPrompt(textToLog, minTextLength, getClassifierSettings());
+  
+  if (!shouldLogClassification(classification)) {
+    console.log(`Clipboard text filtered out (not prompt-like, ${textToLog.length} characters)`);
+    return;
+  }
+  
+  try {
+    const session = markSessionActivity(environment.clock.now());
+    await environment.logSink(
+      textToLog,
+      state.lastActiveWindow,
+      state.targetProcessName,
+      { source: 'clipboard', clipboardOrigin: origin, classification, sessionId: session.id, flushReason: 'clipboard' }
+    );
+    console.log(`✅ Clipboard capture logged (${origin}, ${textToLog.length} characters)`);
+  } catch (error) {
+    console.error('Error logging clipboard text:', error);
+  }
 }
 
 /**
  * Disables keyboard capture when target window is not active
+ * @param reason - Why capture is ending, recorded on any text still in the buffer; null discards the buffer (pauses)
  */
-async function disableTextCapture(): Promise<void> {
+async function disableTextCapture(reason: FlushReason | null): Promise<void> {
   if (!state.keyboardListenerActive) {
     return; // Already disabled
   }
@@ -338,13 +401,17 @@ async function disableTextCapture(): Promise<void> {
   try {
     console.log('Disabling keyboard capture');
     
-    // Process any remaining text in buffer before disabling (if using real capture)
-    if (uiohookAvailable) {
-      await processTextBuffer(true); // Force process any remaining text before disabling
+    // Process any remaining text in buffer before disabling (if capturing keystrokes and not pausing)
+    if (reason && (state.captureMode === 'uiohook' || state.captureMode === 'replay')) {
+      await processTextBuffer(reason); // Force process any remaining text before disabling
+    } else if (!reason && state.textBuffer.cells.length > 0) {
+      console.log(`Discarding ${state.textBuffer.cells.length} buffered characters`);
     }
     
-    // Only try to cleanup uiohook if it's available
-    if (uiohookAvailable && uIOhook) {
+    clipboardMonitor.stopClipboardWatch();
+    
+    // Only try to cleanup uiohook if it was started
+    if (state.captureMode === 'uiohook' && uIOhook) {
       try {
         // Remove event listeners
         uIOhook.off('keydown', handleKeydown);
@@ -358,7 +425,8 @@ async function disableTextCapture(): Promise<void> {
     }
     
     state.keyboardListenerActive = false;
-    state.currentTextBuffer = '';
+    state.captureMode = 'disabled';
+    resetTextBuffer();
     
     console.log('Keyboard capture disabled successfully');
     
@@ -366,7 +434,8 @@ async function disableTextCapture(): Promise<void> {
     console.error('Error disabling keyboard capture:', error);
     // Force reset state even if cleanup fails
     state.keyboardListenerActive = false;
-    state.currentTextBuffer = '';
+    state.captureMode = 'disabled';
+    resetTextBuffer();
   }
 }
 
@@ -375,43 +444,78 @@ async function disableTextCapture(): Promise<void> {
  * @param event - The keydown event from uiohook-napi
  */
 function handleKeydown(event: any): void {
-  if (!uiohookAvailable) return;
+  if (!isCapturingKeystrokes() || !state.keyboardLayout) return;
   
   try {
-    const now = Date.now();
+    const now = environment.clock.now();
+    captureRecorder.recordKeyEvent('keydown', event, now);
     
     // Handle printable characters for text input using proper keycode mapping
     const keycode = event.keycode;
     
     if (keycode) {
-      // Try to convert keycode to character using our mapping
-      const char = keycodeToChar(keycode, event.shiftKey || false);
+      const submitKeys = state.activeRule?.submitKeys || ['Enter'];
       
-      if (char) {
-        console.log(`Captured character: "${char}"`);
-        state.currentTextBuffer += char;
+      // Submit chords for the active target app process the buffer immediately
+      if (matchesKeyChord(event, submitKeys)) {
+        console.log('Submit key pressed, processing buffer immediately');
+        environment.clock.setTimeout(() => processTextBuffer('submit'), 100); // Force process on submit
+        return;
+      }
+      
+      // Newline chords (Shift/Option+Enter, or plain Enter where it doesn't submit) continue a multi-line prompt
+      const isNewline = matchesKeyChord(event, state.activeRule?.newlineKeys || DEFAULT_NEWLINE_KEYS);
+      
+      // Editing keys and modifier chords (Cmd+A, Option+Backspace, arrows...) edit the buffer instead of typing
+      const command = isNewline ? null : getEditCommand(event, state.keyboardLayout.layers.base[keycode]);
+      
+      if (command) {
+        if (command.type === 'ignore') return; // Shortcuts like Cmd+S produce no text
+        
+        // Backspace on a pending dead key only cancels the accent
+        const cancelsDeadKey = command.type === 'delete' && command.direction === 'backward' && state.pendingDeadKey !== null;
+        state.pendingDeadKey = null;
         state.lastKeypressTime = now;
+        if (cancelsDeadKey) return;
         
-        // Schedule buffer processing if this is the first character after a pause
-        if (state.currentTextBuffer.length === 1) {
-          setTimeout(() => processTextBuffer(false), TEXT_BUFFER_TIMEOUT); // Auto process with timeout check
+        if (TEXT_EDIT_COMMANDS.includes(command.type)) {
+          markComposeActivity(now);
+          state.editCount++;
         }
+        state.textBuffer = applyEditCommand(state.textBuffer, command);
+        console.log(`Edit command: ${command.type}, buffer length: ${state.textBuffer.cells.length}`);
+        
+        // Pasting into an empty buffer starts a new prompt just like typing does
+        if (command.type === 'paste' && state.textBuffer.cells.length === 1) {
+          environment.clock.setTimeout(() => processTextBuffer('timeout'), TEXT_BUFFER_TIMEOUT);
+        }
+        return;
       }
-      // Handle Enter key - process current buffer
-      else if (keycode === 28) { // Enter key (virtual keycode)
-        console.log('Enter key pressed, processing buffer immediately');
-        setTimeout(() => processTextBuffer(true), 100); // Force process on Enter
-      }
-      // Handle Backspace
-      else if (keycode === 14 && state.currentTextBuffer.length > 0) { // Backspace (virtual keycode)
-        console.log('Backspace pressed');
-        state.currentTextBuffer = state.currentTextBuffer.slice(0, -1);
+      
+      // Decode the keystroke using the active layout (handles Option/AltGr layers and dead keys)
+      const decoded = isNewline
+        ? { text: '\n', pendingDeadKey: null }
+        : decodeKeystroke(state.keyboardLayout, event, state.pendingDeadKey);
+      const char = decoded.text;
+      state.pendingDeadKey = decoded.pendingDeadKey;
+      
+      if (char) {
+        const wasEmpty = state.textBuffer.cells.length === 0;
+        state.textBuffer = insertText(state.textBuffer, char);
+        console.log(`Captured character, buffer length: ${state.textBuffer.cells.length}`);
         state.lastKeypressTime = now;
+        markComposeActivity(now);
+        state.keystrokeCount++;
+        
+        // Schedule buffer processing if this is the first character after a pause
+        if (wasEmpty) {
+          environment.clock.setTimeout(() => processTextBuffer('timeout'), TEXT_BUFFER_TIMEOUT); // Auto process with timeout check
+        }
       }
       // Handle other special keys that might indicate end of input
       else if ([15, 1].includes(keycode)) { // Tab, Escape (virtual keycodes)
         console.log(`Special key pressed: ${keycode}, processing buffer`);
-        setTimeout(() => processTextBuffer(true), 100); // Force process on special keys
+        environment.clock.setTimeout(() => processTextBuffer('special-key'), 100); // Force process on special keys
       }
       // Note: We can add back debug logging for unmapped keys if needed
       // else {
@@ -428,9 +532,10 @@ function handleKeydown(event: any): void {
  * @param event - The keyup event from uiohook-napi
  */
 function handleKeyup(event: any): void {
-  if (!uiohookAvailable) return;
+  if (!isCapturingKeystrokes()) return;
   
   try {
+    captureRecorder.recordKeyEvent('keyup', event, environment.clock.now());
     // For now, we primarily use keydown events for text capture
     // This handler can be extended for future keyup-specific functionality
     // console.log('Key released:', event.keycode);
@@ -439,138 +544,253 @@ function handleKeyup(event: any): void {
   }
 }
 
+/**
+ * Checks whether keystrokes are currently being captured (live hook or injected replay)
+ * @returns Whether keyboard events should be handled
+ */
+function isCapturingKeystrokes(): boolean {
+  return state.captureMode === 'uiohook' || state.captureMode === 'replay';
+}
+
+/**
+ * Clears the text buffer along with the metrics collected while composing it
+ */
+function resetTextBuffer(): void {
+  state.textBuffer = createTextBuffer();
+  state.composeStartedAt = null;
+  state.keystrokeCount = 0;
+  state.editCount = 0;
+}
+
+/**
+ * Records typing or editing in the buffer, starting the compose timer and keeping the session alive
+ * @param now - Time of the keystroke in milliseconds
+ */
+function markComposeActivity(now: number): void {
+  if (state.composeStartedAt === null) state.composeStartedAt = now;
+  markSessionActivity(now);
+}
+
+/**
+ * Attributes capture activity to the current session, starting a new one after a long idle gap
+ * @param now - Time of the activity in milliseconds
+ * @returns The current session
+ */
+function markSessionActivity(now: number): CaptureSessionState {
+  state.session = touchSession(state.session, now, SESSION_IDLE_TIMEOUT);
+  return state.session;
+}
+
 /**
  * Processes the current text buffer and logs meaningful text
- * @param forceProcess - If true, bypass timeout check and process immediately
+ * Anything but a timeout flushes immediately; timeouts wait until typing has paused
+ * @param reason - What triggered the flush, recorded on the log entry
  */
-async function processTextBuffer(forceProcess: boolean = false): Promise<void> {
-  console.log(`Processing buffer: "${state.currentTextBuffer}" (length: ${state.currentTextBuffer.length}), forced: ${forceProcess}`);
+async function processTextBuffer(reason: FlushReason): Promise<void> {
+  const forceProcess = reason !== 'timeout';
+  const bufferText = bufferToText(state.textBuffer);
+  console.log(`Processing buffer (length: ${bufferText.length}), reason: ${reason}`);
+  
+  const minTextLength = state.activeRule?.minTextLength ?? MIN_TEXT_LENGTH;
   
-  if (!state.currentTextBuffer || state.currentTextBuffer.trim().length < MIN_TEXT_LENGTH) {
-    console.log(`Buffer too short: ${state.currentTextBuffer.trim().length} < ${MIN_TEXT_LENGTH}`);
-    state.currentTextBuffer = '';
+  if (!bufferText || bufferText.trim().length < minTextLength) {
+    console.log(`Buffer too short: ${bufferText.trim().length} < ${minTextLength}`);
+    resetTextBuffer();
     return;
   }
 
   // Check if enough time has passed since last keypress (unless forced)
   if (!forceProcess) {
-    const timeSinceLastKey = Date.now() - state.lastKeypressTime;
+    const timeSinceLastKey = environment.clock.now() - state.lastKeypressTime;
     console.log(`Time since last key: ${timeSinceLastKey}ms (threshold: ${TEXT_BUFFER_TIMEOUT}ms)`);
     
     if (timeSinceLastKey < TEXT_BUFFER_TIMEOUT) {
       console.log('Still typing, waiting longer...');
-      return; // Still typing, wait longer
+      environment.clock.setTimeout(() => processTextBuffer('timeout'), TEXT_BUFFER_TIMEOUT - timeSinceLastKey); // Check again once typing pauses
+      return;
     }
   } else {
     console.log('Force processing - bypassing timeout check');
   }
 
   try {
-    const textToLog = state.currentTextBuffer.trim();
-    console.log(`Checking if prompt-like: "${textToLog}"`);
+    const textToLog = bufferText.trim();
+    const unknownSpans = countUnknownSpans(state.textBuffer);
+    if (unknownSpans > 0) {
+      console.log(`Buffer contains ${unknownSpans} pasted span(s) recorded as placeholders`);
+    }
     
-    // Only log if it looks like a meaningful prompt or command
-    if (isLikelyPrompt(textToLog)) {
-      console.log(`Logging captured text: "${textToLog}"`);
-      await loggingService.logTextInput(
+    // Snapshot the compose metrics, then clear the buffer before logging so keys typed during the write start a fresh prompt
+    const session = markSessionActivity(environment.clock.now());
+    const metadata: CaptureMetadata = {
+      source: 'keyboard',
+      sessionId: session.id,
+      flushReason: reason,
+      typingDurationMs: state.composeStartedAt === null ? 0 : state.lastKeypressTime - state.composeStartedAt,
+      keystrokeCount: state.keystrokeCount,
+      editCount: state.editCount
+    };
+    resetTextBuffer();
+    const classification = promptClassifier.classifyPrompt(textToLog, minTextLength, getClassifierSettings());
+    
+    // Only log if it looks like a meaningful prompt or command (or rejected text is kept for tuning)
+    if (shouldLogClassification(classification)) {
+      console.log(`Logging captured text (${reason}, ${textToLog.length} characters)`);
+      await environment.logSink(
         textToLog,
         state.lastActiveWindow,
-        state.targetProcessName
+        state.targetProcessName,
+        { ...metadata, classification }
       );
-      console.log(`✅ Successfully logged: "${textToLog.substring(0, 50)}${textToLog.length > 50 ? '...' : ''}"`);
+      console.log(`✅ Successfully logged ${textToLog.length} characters`);
     } else {
-      console.log(`Text filtered out (not prompt-like): "${textToLog}"`);
+      console.log(`Text filtered out (not prompt-like, ${textToLog.length} characters)`);
     }
     
-    // Clear the buffer
-    state.currentTextBuffer = '';
-    
   } catch (error) {
     console.error('Error processing text buffer:', error);
-    state.currentTextBuffer = ''; // Clear buffer even on error
+    resetTextBuffer(); // Clear buffer even on error
   }
 }
 
 /**
- * Determines if text looks like a prompt or command worth logging
- * @param text - The text to analyze
- * @returns Whether the text appears to be a meaningful prompt
+ * Decides whether a classified text should be written to the log
+ * Rejected text is only kept (and excluded from analysis) when the user opted in for tuning
+ * @param classification - The classifier decision
+ * @returns Whether to log the text
  */
-function isLikelyPrompt(text: string): boolean {
-  // Filter out very short text
-  if (text.length < MIN_TEXT_LENGTH) {
-    return false;
+function shouldLogClassification(classification: PromptClassification): boolean {
+  return classification.accepted || getClassifierSettings().keepRejected;
+}
+
+/**
+ * Overrides the capture engine's clock, log sink, keyboard input, layout, target rules or filter settings
+ * Used by capture replay to run the real capture logic deterministically
+ * @param overrides - The dependencies to replace
+ * @throws Error if monitoring is running
+ */
+export function configureCaptureEnvironment(overrides: Partial<CaptureEnvironment>): void {
+  if (state.isRunning) {
+    throw new Error('Cannot change the capture environment while monitoring is running');
   }
-  
-  // Filter out text that's just repetitive characters
-  const uniqueChars = new Set(text.toLowerCase()).size;
-  if (uniqueChars < 4) {
-    console.log(`Prompt filter: rejected "${text}" (too few unique characters: ${uniqueChars})`);
-    return false;
+  environment = { ...environment, ...overrides };
+}
+
+/**
+ * Restores the live capture environment (system clock, prompt log, uiohook)
+ */
+export function resetCaptureEnvironment(): void {
+  environment = DEFAULT_ENVIRONMENT;
+}
+
+/**
+ * Feeds a keyboard event to the capture engine as if uiohook had delivered it
+ * Only has an effect while capture is active with injected keyboard input
+ * @param type - keydown or keyup
+ * @param event - The keyboard event
+ */
+export function injectKeyEvent(type: 'keydown' | 'keyup', event: KeystrokeEvent): void {
+  if (state.captureMode !== 'replay') return;
+  if (type === 'keydown') handleKeydown(event);
+  else handleKeyup(event);
+}
+
+/**
+ * Pauses capture for a while; text typed so far is discarded rather than logged
+ * @param duration - How long to pause
+ * @returns Promise resolving to the new pause status
+ */
+export async function pauseCapture(duration: PauseDuration): Promise<CapturePauseStatus> {
+  const now = environment.clock.now();
+  const until = getPauseEndTime(duration, new Date(now));
+  state.manualPause = { until };
+  persistManualPause();
+  console.log(`Capture paused ${until === null ? 'until resumed' : `until ${new Date(until).toLocaleString()}`}`);
+  
+  scheduleManualPauseEnd(now);
+  await refreshCapturePolicy(state.windowSource ? state.windowSource.getCurrentWindow() : null);
+  return state.pauseStatus;
+}
+
+/**
+ * Restores the manual pause saved before the app last quit, dropping it if it has ended since
+ * @returns Promise resolving to the restored pause status
+ */
+export async function restoreCapturePause(): Promise<CapturePauseStatus> {
+  const saved = settingsService.getCapturePause();
+  if (saved) {
+    const until = saved.until === null ? null : new Date(saved.until).getTime() || 0; // An unreadable end time counts as ended
+    state.manualPause = { until };
+    console.log(`Restored capture pause ${until === null ? 'until resumed' : `until ${new Date(until).toLocaleString()}`}`);
+    scheduleManualPauseEnd(environment.clock.now());
   }
   
-  // Look for prompt-like patterns
-  const promptIndicators = [
-    'explain', 'describe', 'how', 'what', 'why', 'create', 'generate',
-    'write', 'make', 'build', 'show', 'tell me', 'can you', 'please',
-    'review', 'check', 'debug', 'fix', 'help', 'analyze', 'refactor',
-    'implement', 'add', 'remove', 'update', 'modify', 'optimize',
-    'convert', 'translate', 'format', 'validate', 'test', 'document'
-  ];
-  
-  const lowerText = text.toLowerCase();
-  const hasPromptIndicator = promptIndicators.some(indicator => 
-    lowerText.includes(indicator)
-  );
-  
-  // Also accept text that ends with question marks or colons (common in prompts)
-  const hasPromptEnding = /[?:]$/.test(text.trim());
-  
-  // Accept text that looks like a command or instruction
-  const looksLikeCommand = /^(add|create|make|build|fix|update|remove|delete|show|display|list|find|search|get|set)\s+/i.test(text.trim());
-  
-  const isPromptLike = hasPromptIndicator || hasPromptEnding || looksLikeCommand;
-  
-  if (isPromptLike) {
-    console.log(`Prompt filter: accepted "${text.substring(0, 50)}..." (matched criteria)`);
-  } else {
-    console.log(`Prompt filter: rejected "${text.substring(0, 50)}..." (no prompt indicators)`);
-  }
+  await refreshCapturePolicy(state.windowSource ? state.windowSource.getCurrentWindow() : null);
+  return state.pauseStatus;
+}
+
+/**
+ * Resumes on time at the end of a timed manual pause, even if the interval check is a minute away (or monitoring isn't running)
+ * @param now - The current time in milliseconds
+ */
+function scheduleManualPauseEnd(now: number): void {
+  const until = state.manualPause?.until;
+  if (until === null || until === undefined || until <= now) return;
+  environment.clock.setTimeout(() => refreshCapturePolicy(state.windowSource ? state.windowSource.getCurrentWindow() : null), until - now);
+}
+
+/**
+ * Ends a manual pause (the schedule may still keep capture paused)
+ * @returns Promise resolving to the new pause status
+ */
+export async function resumeCapture(): Promise<CapturePauseStatus> {
+  state.manualPause = null;
+  persistManualPause();
+  console.log('Capture resumed');
   
-  return isPromptLike;
+  await refreshCapturePolicy(state.windowSource ? state.windowSource.getCurrentWindow() : null);
+  return state.pauseStatus;
 }
 
 /**
- * Starts the fine-grained active window monitoring
+ * Gets the current pause status
+ * @returns Whether capture is paused, why, and until when
  */
-function startActiveWindowMonitoring(): void {
-  if (state.activeWindowCheckInterval) {
-    return; // Already running
-  }
+export function getPauseStatus(): CapturePauseStatus {
+  return evaluatePauseStatus(environment.clock.now());
+}
+
+/**
+ * Registers a callback for pause changes (manual pauses, resumes and schedule boundaries)
+ * @param callback - Function to call with the new pause status
+ * @returns Function to unregister the callback
+ */
+export function onCapturePauseChange(callback: (status: CapturePauseStatus) => void): () => void {
+  pauseChangeCallbacks.push(callback);
   
-  state.activeWindowCheckInterval = setInterval(
-    handleActiveWindowCheck,
-    ACTIVE_WINDOW_CHECK_INTERVAL
-  );
+  return () => {
+    const index = pauseChangeCallbacks.indexOf(callback);
+    if (index > -1) {
+      pauseChangeCallbacks.splice(index, 1);
+    }
+  };
 }
 
 /**
- * Stops the fine-grained active window monitoring
+ * Sets the window source used by the next startMonitoring call
+ * Lets development tools and replay drive monitoring with a scripted source instead of active-win
+ * @param source - The window source, or null to restore the default polling source
  */
-function stopActiveWindowMonitoring(): void {
-  if (state.activeWindowCheckInterval) {
-    clearInterval(state.activeWindowCheckInterval);
-    state.activeWindowCheckInterval = undefined;
+export function setWindowSource(source: WindowSource | null): void {
+  if (state.isRunning) {
+    throw new Error('Cannot change the window source while monitoring is running');
   }
-  
-  // Ensure text capture is disabled
-  disableTextCapture();
-  state.isTargetActive = false;
+  configuredWindowSource = source;
 }
 
 /**
  * Starts the monitoring engine
- * Begins with coarse-grained process monitoring
+ * Subscribes to focus changes from the window source
  */
 export function startMonitoring(): void {
   if (state.isRunning) {
@@ -581,20 +801,17 @@ export function startMonitoring(): void {
   console.log('Starting precision monitoring engine');
   
   state.isRunning = true;
-  
-  // Start coarse-grained process monitoring
-  state.processCheckInterval = setInterval(
-    handleProcessCheck,
-    PROCESS_CHECK_INTERVAL
-  );
-  
-  // Do an initial check immediately
-  handleProcessCheck();
+  state.monitoringGeneration++;
+  updatePauseStatus(environment.clock.now());
+  state.windowSource = configuredWindowSource || createPollingWindowSource();
+  state.unsubscribeFocus = state.windowSource.onFocusChange(handleFocusChange);
+  state.windowSource.start();
+  schedulePolicyCheck(state.monitoringGeneration);
 }
 
 /**
  * Stops the monitoring engine
- * Cleans up all monitoring intervals and disables text capture
+ * Stops the window source and disables text capture
  */
 export function stopMonitoring(): void {
   if (!state.isRunning) {
@@ -606,20 +823,23 @@ export function stopMonitoring(): void {
   
   state.isRunning = false;
   
-  // Clear coarse-grained monitoring
-  if (state.processCheckInterval) {
-    clearInterval(state.processCheckInterval);
-    state.processCheckInterval = undefined;
+  // Stop focus tracking
+  if (state.unsubscribeFocus) {
+    state.unsubscribeFocus();
+    state.unsubscribeFocus = undefined;
   }
-  
-  // Clear fine-grained monitoring
-  stopActiveWindowMonitoring();
-  
-  // Ensure keyboard capture is disabled
-  if (state.keyboardListenerActive) {
-    disableTextCapture();
+  if (state.windowSource) {
+    state.windowSource.stop();
+    state.windowSource = undefined;
   }
   
+  // Ensure text capture is disabled
+  disableTextCapture('monitoring-stopped');
+  state.isTargetActive = false;
+  state.activeRule = undefined;
+  state.windowExcluded = false;
+  state.session = null;
+  
   console.log('Monitoring engine stopped');
 }
 
@@ -632,26 +852,33 @@ export function getMonitoringStatus(): {
   isTargetActive: boolean;  
   lastActiveWindow?: string;
   targetProcessName: string;
+  matchedTarget?: MatchedTargetInfo;
   keyboardListenerActive: boolean;
   textBufferLength: number;
   uiohookAvailable: boolean;
-  captureMode: 'uiohook' | 'fallback' | 'disabled';
+  captureMode: CaptureMode;
+  pause: CapturePauseStatus;
+  windowExcluded: boolean;
 } {
-  let captureMode: 'uiohook' | 'fallback' | 'disabled' = 'disabled';
-  
-  if (state.keyboardListenerActive) {
-    captureMode = uiohookAvailable ? 'uiohook' : 'fallback';
-  }
+  const matchedTarget = state.activeRule ? {
+    ruleId: state.activeRule.id,
+    ruleName: state.activeRule.name,
+    processName: state.targetProcessName,
+    windowTitle: state.lastActiveWindow || ''
+  } : undefined;
   
   return {
     isRunning: state.isRunning,
     isTargetActive: state.isTargetActive,
     lastActiveWindow: state.lastActiveWindow,
     targetProcessName: state.targetProcessName,
+    matchedTarget,
     keyboardListenerActive: state.keyboardListenerActive,
-    textBufferLength: state.currentTextBuffer.length,
+    textBufferLength: bufferToText(state.textBuffer).length,
     uiohookAvailable,
-    captureMode
+    captureMode: state.captureMode,
+    pause: getPauseStatus(),
+    windowExcluded: state.windowExcluded
   };
 }
 
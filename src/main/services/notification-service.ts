@@ -6,11 +6,13 @@
 import { Notification } from 'electron';
 import * as supabaseService from './supabase-service';
 import { createEditDialog } from './edit-dialog-window';
+import type { TemplatePlaceholder } from '../../common/types/prompt-template';
 
 // Interface for suggestion data
 interface SuggestionData {
   trigger: string;
   replacement: string;
+  placeholders?: TemplatePlaceholder[]; // Set when the replacement is a template
   sourceTexts: string[];
   confidence: number;
   suggestionId?: string; // Supabase record ID for tracking user feedback
@@ -79,6 +81,15 @@ export async function showSuggestionNotification(
   console.log(`✅ Shown suggestion notification: ${suggestion.trigger}`);
 }
 
+/**
+ * Opens the edit dialog for a suggestion directly, e.g. from the cluster explorer
+ * @param suggestion - The suggestion data
+ * @returns Promise resolving when the dialog is open
+ */
+export async function openSuggestionEditor(suggestion: SuggestionData): Promise<void> {
+  await handleOpenEditor(suggestion, {});
+}
+
 /**
  * Handles opening the editor for review and manual copy/paste
  * @param suggestion - The suggestion data
@@ -349,13 +360,13 @@ export function showAnalysisCompleteNotification(count: number): void {
  * Shows a notification when monitoring starts
  * @param captureMode - The type of capture being used
  */
-export function showMonitoringStartedNotification(captureMode?: 'uiohook' | 'fallback' | 'disabled'): void {
-  let body = 'DryPrompt is now monitoring your Cursor usage to learn your typing patterns.';
+export function showMonitoringStartedNotification(captureMode?: 'uiohook' | 'clipboard' | 'replay' | 'disabled'): void {
+  let body = 'DryPrompt is now monitoring your target apps to learn your typing patterns.';
   
-  if (captureMode === 'fallback') {
-    body = 'DryPrompt is monitoring Cursor activity. Using fallback mode for text capture.';
+  if (captureMode === 'clipboard') {
+    body = 'DryPrompt is monitoring your target apps. Keyboard capture is unavailable, so prompts are captured from the clipboard.';
   } else if (captureMode === 'uiohook') {
-    body = 'DryPrompt is monitoring your Cursor usage with full keyboard capture enabled.';
+    body = 'DryPrompt is monitoring your target apps with full keyboard capture enabled.';
   }
   
   const notification = new Notification({
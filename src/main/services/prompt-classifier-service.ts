@@ -0,0 +1,59 @@
+/**
+ * @file Classifies captured text as prompt or noise using the rules and language packs in settings
+ * @module prompt-classifier-service
+ */
+
+import * as settingsService from './settings-service';
+import { getBuiltInLanguagePacks } from '../utils/classifier-language-packs';
+import { createBuiltInRules, createCustomRule, classifyText, explainClassification, ClassifierRule } from '../utils/prompt-classifier';
+import type { ClassifierSettings, LanguagePack, PromptClassification } from '../../common/types/prompt-classifier';
+
+/**
+ * Gets every available language pack; custom packs override built-ins with the same ID
+ * @param settings - Classifier settings holding the custom packs (defaults to the saved settings)
+ * @returns Array of language packs
+ */
+export function getAvailableLanguagePacks(settings: ClassifierSettings = settingsService.getClassifierSettings()): LanguagePack[] {
+  const packsById = new Map<string, LanguagePack>();
+
+  for (const pack of [...getBuiltInLanguagePacks(), ...settings.customLanguagePacks]) {
+    packsById.set(pack.id, pack);
+  }
+
+  return Array.from(packsById.values());
+}
+
+/**
+ * Builds the active rule set from settings (built-in rules for the selected packs plus custom rules)
+ * @param settings - The classifier settings
+ * @returns Array of compiled classifier rules
+ */
+function getActiveRules(settings: ClassifierSettings): ClassifierRule[] {
+  const packs = getAvailableLanguagePacks(settings).filter(pack => settings.languagePacks.includes(pack.id));
+
+  const customRules = settings.customRules
+    .map(createCustomRule)
+    .filter((rule): rule is ClassifierRule => rule !== null);
+
+  return [...createBuiltInRules(packs), ...customRules];
+}
+
+/**
+ * Classifies captured text and logs the explanation
+ * @param text - The captured text
+ * @param minTextLength - Minimum length required by the active target rule
+ * @param settings - Classifier settings to apply (defaults to the saved settings; replay passes the recorded ones)
+ * @returns The decision with its score and reasons
+ */
+export function classifyPrompt(
+  text: string,
+  minTextLength: number,
+  settings: ClassifierSettings = settingsService.getClassifierSettings()
+): PromptClassification {
+  const classification = classifyText(text, getActiveRules(settings), { threshold: settings.threshold, minTextLength });
+
+  // Only the length and the rule descriptions: the text itself hasn't been redacted yet
+  console.log(`Prompt filter (${text.length} characters): ${explainClassification(classification)}`);
+
+  return classification;
+}
@@ -0,0 +1,233 @@
+/**
+ * @file Append-only JSONL storage for prompt log files, with per-line encryption, atomic rewrites and corruption recovery
+ * @module prompt-log-store
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { decryptLogLine, encryptLogLine, isEncryptedLogLine, LogKeyring } from '../utils/log-crypto';
+import type { LogEntry } from '../../common/types/log-entry';
+
+// Result of reading a log file
+export interface LogFileContents {
+  entries: LogEntry[];
+  corruptLines: string[];  // Lines that aren't valid entries (torn writes, manual edits, failed authentication)
+  lockedLines: string[];   // Encrypted lines whose key isn't in the keyring, kept as-is until it's restored
+  plaintextCount: number;  // Entries stored unencrypted (written before encryption at rest)
+}
+
+/**
+ * Checks that a parsed line looks like a log entry
+ * @param value - The parsed JSON value
+ * @returns Whether the value is a log entry
+ */
+function isLogEntry(value: unknown): value is LogEntry {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<LogEntry>;
+  return typeof candidate.text === 'string' && typeof candidate.timestamp === 'string';
+}
+
+/**
+ * Parses JSONL log content, decrypting encrypted lines and setting aside lines that can't be read
+ * Unencrypted entries are still accepted so older logs can be read and migrated
+ * @param content - The file content
+ * @param keyring - Keys for decrypting lines
+ * @returns The entries, corrupt and locked lines, in file order
+ */
+export function parseLogContent(content: string, keyring: LogKeyring): LogFileContents {
+  const contents: LogFileContents = { entries: [], corruptLines: [], lockedLines: [], plaintextCount: 0 };
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+
+    try {
+      const parsed = JSON.parse(line);
+
+      if (isEncryptedLogLine(parsed)) {
+        const decrypted = decryptLogLine(parsed, keyring);
+        if (decrypted === null) {
+          contents.lockedLines.push(line);
+          continue;
+        }
+        const entry = JSON.parse(decrypted);
+        if (isLogEntry(entry)) contents.entries.push(entry);
+        else contents.corruptLines.push(line);
+      } else if (isLogEntry(parsed)) {
+        contents.entries.push(parsed);
+        contents.plaintextCount++;
+      } else {
+        contents.corruptLines.push(line);
+      }
+    } catch (error) {
+      contents.corruptLines.push(line);
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Serializes entries as encrypted JSONL
+ * @param entries - The entries to serialize
+ * @param keyring - Keys for encrypting lines (the active key is used)
+ * @returns One encrypted line per entry, newline terminated
+ */
+function serializeEntries(entries: LogEntry[], keyring: LogKeyring): string {
+  return entries.map(entry => `${encryptLogLine(JSON.stringify(entry), keyring)}\n`).join('');
+}
+
+/**
+ * Reads a JSONL log file
+ * @param filePath - Path to the log file
+ * @param keyring - Keys for decrypting lines
+ * @returns The entries, corrupt and locked lines (empty if the file doesn't exist)
+ */
+export function readLogFile(filePath: string, keyring: LogKeyring): LogFileContents {
+  if (!fs.existsSync(filePath)) {
+    return { entries: [], corruptLines: [], lockedLines: [], plaintextCount: 0 };
+  }
+  return parseLogContent(fs.readFileSync(filePath, 'utf8'), keyring);
+}
+
+/**
+ * Gives an entry an ID if it doesn't have one yet
+ * @param entry - The entry
+ * @returns The entry with an ID
+ */
+export function withEntryId(entry: LogEntry): LogEntry {
+  if (entry.id) return entry;
+  return { ...entry, id: randomUUID() };
+}
+
+/**
+ * Encrypts and appends one entry to a log file as a single write, then flushes it to disk
+ * If the previous write was torn by a crash, the partial line is terminated first so it can't swallow this one
+ * @param filePath - Path to the log file
+ * @param entry - The entry to append
+ * @param keyring - Keys for encrypting the line
+ * @returns The stored entry (with its ID)
+ */
+export function appendLogEntry(filePath: string, entry: LogEntry, keyring: LogKeyring): LogEntry {
+  const stored = withEntryId(entry);
+  const fd = fs.openSync(filePath, 'a+');
+
+  try {
+    const { size } = fs.fstatSync(fd);
+    let prefix = '';
+
+    if (size > 0) {
+      const lastByte = Buffer.alloc(1);
+      fs.readSync(fd, lastByte, 0, 1, size - 1);
+      if (lastByte[0] !== 0x0a) prefix = '\n';
+    }
+
+    fs.writeSync(fd, `${prefix}${encryptLogLine(JSON.stringify(stored), keyring)}\n`);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return stored;
+}
+
+/**
+ * Replaces a log file's contents atomically (write to a temporary file, flush, rename)
+ * @param filePath - Path to the log file
+ * @param entries - The complete list of entries, encrypted with the keyring's active key
+ * @param keyring - Keys for encrypting lines
+ * @param lockedLines - Encrypted lines that can't be decrypted right now, written back unchanged ahead of the entries
+ */
+export function writeLogFile(filePath: string, entries: LogEntry[], keyring: LogKeyring, lockedLines: string[] = []): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+
+  try {
+    fs.writeSync(fd, lockedLines.map(line => `${line}\n`).join('') + serializeEntries(entries, keyring));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Reads a log file, moves any corrupt lines into a quarantine file next to it, encrypts unencrypted entries
+ * and gives every entry an ID
+ * Corrupt lines are never dropped: they are appended to `<name>.corrupt` for manual recovery.
+ * Locked lines stay in the file so they can be read again once their key is restored
+ * @param filePath - Path to the log file
+ * @param keyring - Keys for decrypting and encrypting lines
+ * @returns The valid entries, how many lines were quarantined or encrypted, and the locked lines
+ */
+export function recoverLogFile(
+  filePath: string,
+  keyring: LogKeyring
+): { entries: LogEntry[]; quarantined: number; encrypted: number; lockedLines: string[] } {
+  const contents = readLogFile(filePath, keyring);
+  const { corruptLines, lockedLines, plaintextCount } = contents;
+  const missingIds = contents.entries.some(entry => !entry.id);
+  const entries = missingIds ? contents.entries.map(withEntryId) : contents.entries;
+
+  if (corruptLines.length > 0) {
+    const quarantinePath = `${filePath}.corrupt`;
+    fs.appendFileSync(quarantinePath, corruptLines.map(line => `${line}\n`).join(''));
+    console.warn(`Moved ${corruptLines.length} corrupt line(s) from ${path.basename(filePath)} to ${path.basename(quarantinePath)}`);
+  }
+
+  if (corruptLines.length > 0 || plaintextCount > 0 || missingIds) {
+    writeLogFile(filePath, entries, keyring, lockedLines);
+    if (plaintextCount > 0) console.log(`Encrypted ${plaintextCount} unencrypted entries in ${path.basename(filePath)}`);
+  }
+
+  return { entries, quarantined: corruptLines.length, encrypted: plaintextCount, lockedLines };
+}
+
+/**
+ * Reads a legacy JSON-array log file (the format used before JSONL)
+ * @param filePath - Path to the JSON file
+ * @returns The entries
+ * @throws Error if the file isn't a JSON array
+ */
+export function readLegacyLogFile(filePath: string): LogEntry[] {
+  const data = fs.readFileSync(filePath, 'utf8');
+  if (!data.trim()) return [];
+
+  const parsed = JSON.parse(data);
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${path.basename(filePath)} is not a JSON array`);
+  }
+
+  return parsed.filter(isLogEntry);
+}
+
+/**
+ * Migrates a legacy JSON-array log into an encrypted JSONL log
+ * Migrated entries go before anything already in the JSONL file, and the plaintext legacy file is deleted once
+ * they are safely written; a legacy file that can't be parsed is kept as `.unreadable` so nothing is lost
+ * @param legacyPath - Path to the legacy JSON file
+ * @param filePath - Path to the JSONL log file
+ * @param keyring - Keys for encrypting lines
+ * @returns Number of entries migrated
+ */
+export function migrateLegacyLogFile(legacyPath: string, filePath: string, keyring: LogKeyring): number {
+  if (!fs.existsSync(legacyPath)) return 0;
+
+  let legacyEntries: LogEntry[];
+  try {
+    legacyEntries = readLegacyLogFile(legacyPath);
+  } catch (error) {
+    const unreadablePath = `${legacyPath}.unreadable`;
+    fs.renameSync(legacyPath, unreadablePath);
+    console.error(`Could not migrate ${path.basename(legacyPath)}; kept as ${path.basename(unreadablePath)}:`, error);
+    return 0;
+  }
+
+  const { entries, lockedLines } = recoverLogFile(filePath, keyring);
+  writeLogFile(filePath, [...legacyEntries.map(withEntryId), ...entries], keyring, lockedLines);
+  fs.unlinkSync(legacyPath);
+
+  console.log(`Migrated ${legacyEntries.length} entries from ${path.basename(legacyPath)} to ${path.basename(filePath)}`);
+  return legacyEntries.length;
+}
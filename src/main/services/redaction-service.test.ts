@@ -0,0 +1,115 @@
+/**
+ * @file Tests for custom redaction rules and redacting log entries with the saved settings
+ * @module redaction-service.test
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as redactionService from './redaction-service';
+import * as settingsService from './settings-service';
+import type { RedactionRule, RedactionSettings } from '../../common/types/redaction';
+
+// Settings go to a throwaway directory instead of the app's userData
+vi.mock('electron', async () => {
+  const os = await import('os');
+  const path = await import('path');
+  const fs = await import('fs');
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'dryprompt-redaction-'));
+  return {
+    app: { getPath: () => userData }
+  };
+});
+
+/**
+ * Builds redaction settings with only the given custom rules on top of the built-ins
+ * @param customRules - Custom rules
+ * @param fields - Other settings to override
+ * @returns The settings
+ */
+function settingsWith(customRules: RedactionRule[], fields: Partial<RedactionSettings> = {}): RedactionSettings {
+  return { enabled: true, disabledDetectors: [], customRules, ...fields };
+}
+
+const TICKET_RULE: RedactionRule = { id: 'ticket', name: 'Ticket ID', pattern: 'PROJ-\\d+', enabled: true };
+
+describe('custom rules', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ['no flags', undefined],
+    ['flags without g', 'm'],
+    ['flags that already include g', 'g'],
+    ['g among other flags', 'gm']
+  ])('replaces every match with %s', (_name, flags) => {
+    const result = redactionService.redact('Fix PROJ-12, then PROJ-345', settingsWith([{ ...TICKET_RULE, flags }]));
+
+    expect(result).toEqual({ text: 'Fix [REDACTED_TICKET_ID], then [REDACTED_TICKET_ID]', counts: { ticket: 2 } });
+  });
+
+  it('honours extra flags such as case-insensitivity', () => {
+    const result = redactionService.redact('Fix proj-12 and PROJ-13', settingsWith([{ ...TICKET_RULE, flags: 'i' }]));
+
+    expect(result.text).toBe('Fix [REDACTED_TICKET_ID] and [REDACTED_TICKET_ID]');
+  });
+
+  it('runs after the built-in detectors, so it sees their placeholders instead of the secrets', () => {
+    const rule: RedactionRule = { id: 'host', name: 'Internal host', pattern: '\\w+\\.corp\\.example\\.com', enabled: true };
+
+    const result = redactionService.redact('Mail ops@db1.corp.example.com or open build.corp.example.com', settingsWith([rule]));
+
+    expect(result).toEqual({ text: 'Mail [REDACTED_EMAIL] or open [REDACTED_INTERNAL_HOST]', counts: { email: 1, host: 1 } });
+  });
+
+  it('skips disabled rules and rules with an invalid pattern', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const rules: RedactionRule[] = [
+      { ...TICKET_RULE, enabled: false },
+      { id: 'broken', name: 'Broken', pattern: '(unclosed', enabled: true },
+      { id: 'secret', name: 'Secret', pattern: 'hunter2', enabled: true }
+    ];
+
+    const result = redactionService.redact('PROJ-1 uses hunter2', settingsWith(rules));
+
+    expect(result).toEqual({ text: 'PROJ-1 uses [REDACTED_SECRET]', counts: { secret: 1 } });
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('leaves switched-off built-in detectors out', () => {
+    const result = redactionService.redact('Ping 10.0.0.1 as jane@example.com', settingsWith([], { disabledDetectors: ['ip-address'] }));
+
+    expect(result.text).toBe('Ping 10.0.0.1 as [REDACTED_EMAIL]');
+  });
+
+  it('changes nothing when redaction is off', () => {
+    const text = 'Fix PROJ-12 for jane@example.com';
+
+    expect(redactionService.redact(text, settingsWith([TICKET_RULE], { enabled: false }))).toEqual({ text, counts: {} });
+  });
+});
+
+describe('redactEntries', () => {
+  it('redacts copies of the entries with the saved settings and adds up the counts', () => {
+    settingsService.saveRedactionSettings(settingsWith([TICKET_RULE]));
+    const entries = [
+      { text: 'Fix PROJ-12 reported by jane@example.com', windowTitle: 'Jira' },
+      { text: 'Nothing to hide here', windowTitle: 'Cursor' },
+      { text: 'PROJ-13 and PROJ-14 fail on 10.0.0.1 with sk-abcdefghijklmnopqrstuvwx', windowTitle: 'Terminal' }
+    ];
+
+    const result = redactionService.redactEntries(entries);
+
+    expect(result.entries).toEqual([
+      { text: 'Fix [REDACTED_TICKET_ID] reported by [REDACTED_EMAIL]', windowTitle: 'Jira' },
+      { text: 'Nothing to hide here', windowTitle: 'Cursor' },
+      { text: '[REDACTED_TICKET_ID] and [REDACTED_TICKET_ID] fail on [REDACTED_IP] with [REDACTED_API_KEY]', windowTitle: 'Terminal' }
+    ]);
+    expect(result.counts).toEqual({ ticket: 3, email: 1, 'ip-address': 1, 'api-key': 1 });
+    expect(result.total).toBe(6);
+    expect(entries[0].text).toBe('Fix PROJ-12 reported by jane@example.com');
+  });
+
+  it('reports nothing for no entries', () => {
+    expect(redactionService.redactEntries([])).toEqual({ entries: [], counts: {}, total: 0 });
+  });
+});
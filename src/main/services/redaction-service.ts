@@ -0,0 +1,80 @@
+/**
+ * @file Applies the configured secret/PII redaction rules to captured text and log entries
+ * @module redaction-service
+ */
+
+import * as settingsService from './settings-service';
+import {
+  getBuiltInDetectors,
+  buildPlaceholder,
+  redactText,
+  mergeRedactionCounts,
+  countRedactions,
+  RedactionDetector,
+  RedactionResult
+} from '../utils/redaction';
+import type { RedactionCounts, RedactionRule, RedactionSettings } from '../../common/types/redaction';
+
+/**
+ * Compiles a user-defined rule into a detector
+ * @param rule - The custom redaction rule
+ * @returns The detector, or null if the pattern is invalid
+ */
+function compileCustomRule(rule: RedactionRule): RedactionDetector | null {
+  try {
+    const flags = Array.from(new Set(`${rule.flags || ''}g`)).join('');
+    return {
+      type: rule.id,
+      placeholder: buildPlaceholder(rule.name),
+      pattern: new RegExp(rule.pattern, flags)
+    };
+  } catch (error) {
+    console.warn(`Skipping redaction rule "${rule.name}" with invalid pattern:`, error);
+    return null;
+  }
+}
+
+/**
+ * Gets the active detectors from settings (enabled built-ins followed by enabled custom rules)
+ * @param settings - Redaction settings (defaults to the saved settings)
+ * @returns Array of detectors, empty if redaction is turned off
+ */
+export function getActiveDetectors(settings: RedactionSettings = settingsService.getRedactionSettings()): RedactionDetector[] {
+  if (!settings.enabled) return [];
+
+  const builtIns = getBuiltInDetectors().filter(detector => !settings.disabledDetectors.includes(detector.type));
+  const customs = settings.customRules
+    .filter(rule => rule.enabled)
+    .map(compileCustomRule)
+    .filter((detector): detector is RedactionDetector => detector !== null);
+
+  return [...builtIns, ...customs];
+}
+
+/**
+ * Redacts a single piece of text with the configured rules
+ * @param text - The text to redact
+ * @param settings - Redaction settings to apply (defaults to the saved settings)
+ * @returns The redacted text and per-type counts
+ */
+export function redact(text: string, settings?: RedactionSettings): RedactionResult {
+  return redactText(text, getActiveDetectors(settings));
+}
+
+/**
+ * Redacts the text of every log entry, e.g. right before it is sent to a network service
+ * @param entries - Log entries to redact
+ * @returns Redacted copies of the entries and the combined counts
+ */
+export function redactEntries<T extends { text: string }>(entries: T[]): { entries: T[]; counts: RedactionCounts; total: number } {
+  const detectors = getActiveDetectors();
+  let counts: RedactionCounts = {};
+
+  const redactedEntries = entries.map(entry => {
+    const result = redactText(entry.text, detectors);
+    counts = mergeRedactionCounts(counts, result.counts);
+    return { ...entry, text: result.text };
+  });
+
+  return { entries: redactedEntries, counts, total: countRedactions(counts) };
+}
@@ -0,0 +1,189 @@
+/**
+ * @file Applies retention policies to the prompt log and its archives on startup, on a schedule and on demand
+ * @module retention-service
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as loggingService from './logging-service';
+import * as settingsService from './settings-service';
+import { applyEntryRetention, getRetentionCutoff, selectArchivesToDelete } from '../utils/retention';
+import type { RetentionRunReport, RetentionTrigger } from '../../common/types/retention';
+
+// How often the schedule checks whether a run is due
+const RETENTION_CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const MAX_STORED_REPORTS = 20;
+
+let retentionTimer: NodeJS.Timeout | null = null;
+let runningRetention: Promise<RetentionRunReport> | null = null;
+
+// Get the path to the stored run reports (counts and archive names only, never captured text)
+const getReportsPath = (): string => {
+  return path.join(app.getPath('userData'), 'retention-reports.json');
+};
+
+/**
+ * Gets the reports of recent retention runs
+ * @returns Run reports, newest first
+ */
+export function getRetentionReports(): RetentionRunReport[] {
+  const reportsPath = getReportsPath();
+  if (!fs.existsSync(reportsPath)) return [];
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(reportsPath, 'utf8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to read retention reports:', error);
+    return [];
+  }
+}
+
+/**
+ * Stores a run report, keeping only the most recent ones
+ * @param report - The report to add
+ */
+function saveRetentionReport(report: RetentionRunReport): void {
+  try {
+    const reports = [report, ...getRetentionReports()].slice(0, MAX_STORED_REPORTS);
+    fs.writeFileSync(getReportsPath(), JSON.stringify(reports, null, 2));
+  } catch (error) {
+    console.error('Failed to save retention report:', error);
+  }
+}
+
+/**
+ * Applies the retention settings once
+ * Archives older than the age limit are deleted outright, then the live log and remaining archives have old
+ * entries deleted or stripped of their text, and finally the oldest archives go until the size and count limits hold
+ * @param trigger - What started the run
+ * @returns Promise resolving to the report of what was purged
+ */
+async function applyRetention(trigger: RetentionTrigger): Promise<RetentionRunReport> {
+  const settings = settingsService.getRetentionSettings();
+  const now = new Date();
+  const report: RetentionRunReport = {
+    ranAt: now.toISOString(),
+    trigger,
+    entriesDeleted: 0,
+    entriesStripped: 0,
+    archivesDeleted: [],
+    bytesFreed: 0,
+    errors: []
+  };
+
+  const deleteArchive = async (archive: loggingService.ArchiveInfo): Promise<void> => {
+    try {
+      report.bytesFreed += await loggingService.deleteArchive(archive);
+      report.archivesDeleted.push(archive.filename);
+    } catch (error) {
+      report.errors.push(`${archive.filename}: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+    }
+  };
+
+  // Archives are created after everything in them was captured, so one older than the cutoff can go whole
+  const deleteBefore = getRetentionCutoff(settings.maxAgeDays, now);
+  for (const archive of await loggingService.getArchiveInfo()) {
+    if (deleteBefore !== null && archive.created.getTime() < deleteBefore) {
+      await deleteArchive(archive);
+    }
+  }
+
+  if (settings.maxAgeDays !== null || settings.textMaxAgeDays !== null) {
+    const archives = (await loggingService.getArchiveInfo()).filter(archive => archive.format === 'jsonl');
+
+    for (const archive of [null, ...archives]) {
+      try {
+        let stripped = 0;
+        const { before, after, bytesFreed } = await loggingService.rewriteLogEntries(archive, entries => {
+          const result = applyEntryRetention(entries, settings, now);
+          stripped = result.stripped;
+          return result.entries;
+        });
+
+        report.entriesDeleted += before - after;
+        report.entriesStripped += stripped;
+        report.bytesFreed += bytesFreed;
+        if (archive && after === 0 && before > 0) report.archivesDeleted.push(archive.filename);
+      } catch (error) {
+        report.errors.push(`${archive ? archive.filename : 'prompt log'}: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+      }
+    }
+  }
+
+  const archives = await loggingService.getArchiveInfo();
+  const toDelete = new Set(selectArchivesToDelete(archives, settings, loggingService.getActiveLogSize()));
+  for (const archive of archives) {
+    if (toDelete.has(archive.filename)) await deleteArchive(archive);
+  }
+
+  return report;
+}
+
+/**
+ * Runs retention, or joins the run already in progress
+ * @param trigger - What started the run
+ * @returns Promise resolving to the run report
+ */
+export async function runRetention(trigger: RetentionTrigger): Promise<RetentionRunReport> {
+  if (runningRetention) return runningRetention;
+
+  runningRetention = applyRetention(trigger);
+  try {
+    const report = await runningRetention;
+    saveRetentionReport(report);
+
+    console.log(
+      `Retention (${trigger}): deleted ${report.entriesDeleted} entries and ${report.archivesDeleted.length} archives, ` +
+      `stripped text from ${report.entriesStripped} entries, freed ${report.bytesFreed} bytes` +
+      (report.errors.length > 0 ? ` (${report.errors.length} errors)` : '')
+    );
+    return report;
+  } finally {
+    runningRetention = null;
+  }
+}
+
+/**
+ * Checks whether a scheduled run is due, based on the last stored report
+ * @returns Whether retention should run now
+ */
+function isRetentionDue(): boolean {
+  const { enabled, intervalHours } = settingsService.getRetentionSettings();
+  if (!enabled) return false;
+
+  const [lastReport] = getRetentionReports();
+  return !lastReport || Date.now() - new Date(lastReport.ranAt).getTime() >= intervalHours * 60 * 60 * 1000;
+}
+
+/**
+ * Runs retention now and then whenever the configured interval has passed
+ * Does nothing if retention is switched off; the schedule picks up settings changes on its next check
+ */
+export function startRetentionSchedule(): void {
+  if (retentionTimer) {
+    console.log('Retention already scheduled');
+    return;
+  }
+
+  if (settingsService.getRetentionSettings().enabled) {
+    runRetention('startup').catch(error => console.error('Startup retention failed:', error));
+  }
+
+  retentionTimer = setInterval(() => {
+    if (!isRetentionDue()) return;
+    runRetention('schedule').catch(error => console.error('Scheduled retention failed:', error));
+  }, RETENTION_CHECK_INTERVAL_MS);
+}
+
+/**
+ * Stops the retention schedule
+ */
+export function stopRetentionSchedule(): void {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+    console.log('Stopped retention schedule');
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * @file Manages persisted user preferences stored as JSON in the user data directory
+ * @module settings-service
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CaptureTargetRule } from '../../common/types/capture-target';
+import type { RedactionSettings } from '../../common/types/redaction';
+import type { ClassifierSettings } from '../../common/types/prompt-classifier';
+import type { AnalysisSettings } from '../../common/types/analysis-settings';
+import type { ManualCapturePause, PrivacySettings } from '../../common/types/capture-privacy';
+import type { RetentionSettings } from '../../common/types/retention';
+import type { LlmProviderId, SynthesisSettings } from '../../common/types/llm-provider';
+import { validateScheduleWindow } from '../utils/capture-policy';
+import { validateRetentionSettings } from '../utils/retention';
+
+// Shape of the persisted settings file
+export interface AppSettings {
+  captureTargets: CaptureTargetRule[];
+  keyboardLayout: string;        // Layout ID used to decode keystrokes, or 'auto' to follow macOS
+  redaction: RedactionSettings;
+  classifier: ClassifierSettings;
+  analysis: AnalysisSettings;
+  privacy: PrivacySettings;
+  capturePause: ManualCapturePause | null;  // Manual pause from the tray, restored at startup
+  retention: RetentionSettings;
+  synthesis: SynthesisSettings;
+}
+
+// Default applications DryPrompt knows how to capture from (only Cursor is enabled out of the box)
+const DEFAULT_CAPTURE_TARGETS: CaptureTargetRule[] = [
+  {
+    id: 'cursor',
+    name: 'Cursor',
+    enabled: true,
+    processPattern: '^cursor(\\.app)?$',
+    minTextLength: 10,
+    submitKeys: ['Enter', 'Cmd+Enter']
+  },
+  {
+    id: 'vscode',
+    name: 'Visual Studio Code',
+    enabled: false,
+    processPattern: '^(code|visual studio code)$',
+    minTextLength: 10,
+    submitKeys: ['Enter', 'Cmd+Enter']
+  },
+  {
+    id: 'zed',
+    name: 'Zed',
+    enabled: false,
+    processPattern: '^zed$',
+    minTextLength: 10,
+    submitKeys: ['Cmd+Enter']
+  },
+  {
+    id: 'chatgpt',
+    name: 'ChatGPT',
+    enabled: false,
+    processPattern: '^chatgpt$',
+    minTextLength: 10,
+    submitKeys: ['Enter']
+  },
+  {
+    id: 'terminal',
+    name: 'Terminal',
+    enabled: false,
+    processPattern: '^terminal$',
+    minTextLength: 15,
+    submitKeys: ['Enter', 'Shift+Enter'],
+    newlineKeys: []
+  },
+  {
+    id: 'iterm',
+    name: 'iTerm2',
+    enabled: false,
+    processPattern: '^iterm2?$',
+    minTextLength: 15,
+    submitKeys: ['Enter', 'Shift+Enter'],
+    newlineKeys: []
+  },
+  {
+    id: 'warp',
+    name: 'Warp',
+    enabled: false,
+    processPattern: '^warp$',
+    minTextLength: 15,
+    submitKeys: ['Enter']
+  }
+];
+
+const DEFAULT_SETTINGS: AppSettings = {
+  captureTargets: DEFAULT_CAPTURE_TARGETS,
+  keyboardLayout: 'auto',
+  redaction: {
+    enabled: true,
+    disabledDetectors: [],
+    customRules: []
+  },
+  classifier: {
+    threshold: 2,
+    languagePacks: ['en'],
+    customLanguagePacks: [],
+    customRules: [],
+    keepRejected: false
+  },
+  analysis: {
+    submittedOnly: false,
+    windowDays: 14,
+    embeddingProvider: 'openai',
+    clusteringAlgorithm: 'dbscan',
+    clusterEpsilon: null,
+    clusterMinPoints: 3
+  },
+  privacy: {
+    schedule: {
+      enabled: false,
+      windows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }]
+    },
+    excludedWindowTitles: ['*.env', '.env.*', 'secrets', '*.pem', 'id_rsa']
+  },
+  capturePause: null,
+  retention: {
+    enabled: false, // Deletes captured data, so it only runs on its own once the user opts in
+    maxAgeDays: 90,
+    maxTotalSizeMb: 100,
+    textMaxAgeDays: null,
+    maxArchives: null,
+    intervalHours: 24
+  },
+  synthesis: {
+    provider: 'openai',
+    providers: {
+      openai: { model: 'gpt-4o', temperature: 0.3 },
+      'openai-compatible': { model: 'llama3.1', temperature: 0.3, baseUrl: 'http://localhost:11434/v1' },
+      anthropic: { model: 'claude-3-5-sonnet-latest', temperature: 0.3 },
+      mock: { model: 'mock', temperature: 0 }
+    }
+  }
+};
+
+// In-memory copy of the settings file, loaded lazily
+let cachedSettings: AppSettings | null = null;
+
+// Get the path to the settings file
+const getSettingsPath = (): string => {
+  return path.join(app.getPath('userData'), 'settings.json');
+};
+
+/**
+ * Loads settings from disk, filling in defaults for any missing section
+ * @returns The merged settings object
+ */
+function loadSettings(): AppSettings {
+  const settingsPath = getSettingsPath();
+
+  if (!fs.existsSync(settingsPath)) {
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  try {
+    const data = fs.readFileSync(settingsPath, 'utf8');
+    const stored = data.trim() ? JSON.parse(data) : {};
+    return { ...DEFAULT_SETTINGS, ...stored };
+  } catch (error) {
+    // Keep the unreadable file untouched so the user can recover it; run with defaults
+    console.error('Failed to read settings file, using defaults:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+/**
+ * Gets the current settings
+ * @returns The full settings object
+ */
+export function getSettings(): AppSettings {
+  if (!cachedSettings) {
+    cachedSettings = loadSettings();
+  }
+  return cachedSettings;
+}
+
+/**
+ * Gets a single settings section
+ * @param key - The settings section to read
+ * @returns The value of that section
+ */
+export function getSetting<K extends keyof AppSettings>(key: K): AppSettings[K] {
+  return getSettings()[key];
+}
+
+/**
+ * Replaces a single settings section and persists the result
+ * @param key - The settings section to write
+ * @param value - The new value for that section
+ * @throws Error if the settings file cannot be written
+ */
+export function updateSetting<K extends keyof AppSettings>(key: K, value: AppSettings[K]): void {
+  const updatedSettings = { ...getSettings(), [key]: value };
+
+  try {
+    const settingsPath = getSettingsPath();
+    fs.mkdirSync(path.dirname(settingsPath), { recursive: true });
+    fs.writeFileSync(settingsPath, JSON.stringify(updatedSettings, null, 2));
+    cachedSettings = updatedSettings;
+    console.log(`Settings updated: ${String(key)}`);
+  } catch (error) {
+    console.error('Failed to save settings:', error);
+    throw new Error('Failed to save settings file');
+  }
+}
+
+/**
+ * Gets the configured capture target applications
+ * @returns Array of capture target rules
+ */
+export function getCaptureTargets(): CaptureTargetRule[] {
+  return getSetting('captureTargets');
+}
+
+/**
+ * Saves the capture target applications
+ * @param targets - The full list of capture target rules
+ * @throws Error if a rule is missing required fields
+ */
+export function saveCaptureTargets(targets: CaptureTargetRule[]): void {
+  for (const target of targets) {
+    if (!target.id || !target.processPattern) {
+      throw new Error('Capture target rules require an id and a process pattern');
+    }
+  }
+  updateSetting('captureTargets', targets);
+}
+
+/**
+ * Gets the redaction settings
+ * @returns The redaction settings
+ */
+export function getRedactionSettings(): RedactionSettings {
+  return getSetting('redaction');
+}
+
+/**
+ * Saves the redaction settings
+ * @param redaction - The full redaction settings
+ * @throws Error if a custom rule is missing fields or has an invalid pattern
+ */
+export function saveRedactionSettings(redaction: RedactionSettings): void {
+  for (const rule of redaction.customRules) {
+    if (!rule.id || !rule.name || !rule.pattern) {
+      throw new Error('Redaction rules require an id, a name and a pattern');
+    }
+    try {
+      new RegExp(rule.pattern, rule.flags);
+    } catch (error) {
+      throw new Error(`Invalid pattern for redaction rule "${rule.name}"`);
+    }
+  }
+  updateSetting('redaction', redaction);
+}
+
+/**
+ * Gets the prompt classifier settings
+ * @returns The classifier settings
+ */
+export function getClassifierSettings(): ClassifierSettings {
+  return getSetting('classifier');
+}
+
+/**
+ * Saves the prompt classifier settings
+ * @param classifier - The full classifier settings
+ * @throws Error if a custom rule is missing fields or has an invalid pattern
+ */
+export function saveClassifierSettings(classifier: ClassifierSettings): void {
+  for (const rule of classifier.customRules) {
+    if (!rule.id || !rule.name || typeof rule.weight !== 'number') {
+      throw new Error('Classifier rules require an id, a name and a numeric weight');
+    }
+    if (rule.type === 'regex') {
+      try {
+        new RegExp(rule.pattern || '', rule.flags);
+      } catch (error) {
+        throw new Error(`Invalid pattern for classifier rule "${rule.name}"`);
+      }
+    }
+  }
+  updateSetting('classifier', classifier);
+}
+
+/**
+ * Gets the analysis settings
+ * @returns The analysis settings
+ */
+export function getAnalysisSettings(): AnalysisSettings {
+  // Settings files saved before the analysis window existed don't have it
+  return { ...DEFAULT_SETTINGS.analysis, ...getSetting('analysis') };
+}
+
+/**
+ * Saves the analysis settings
+ * @param analysis - The full analysis settings
+ * @throws Error if a setting has the wrong type or value
+ */
+export function saveAnalysisSettings(analysis: AnalysisSettings): void {
+  if (typeof analysis.submittedOnly !== 'boolean') {
+    throw new Error('Analysis setting submittedOnly must be true or false');
+  }
+  if (!Number.isInteger(analysis.windowDays) || analysis.windowDays < 1 || analysis.windowDays > 365) {
+    throw new Error('Analysis window must be a whole number of days between 1 and 365');
+  }
+  if (analysis.embeddingProvider !== 'openai' && analysis.embeddingProvider !== 'local') {
+    throw new Error('Embedding provider must be "openai" or "local"');
+  }
+  if (!['dbscan', 'hdbscan', 'agglomerative'].includes(analysis.clusteringAlgorithm)) {
+    throw new Error('Clustering algorithm must be "dbscan", "hdbscan" or "agglomerative"');
+  }
+  if (analysis.clusterEpsilon !== null &&
+      (typeof analysis.clusterEpsilon !== 'number' || !(analysis.clusterEpsilon > 0 && analysis.clusterEpsilon < 1))) {
+    throw new Error('Cluster epsilon must be a cosine distance between 0 and 1, or null to pick it automatically');
+  }
+  if (!Number.isInteger(analysis.clusterMinPoints) || analysis.clusterMinPoints < 2 || analysis.clusterMinPoints > 50) {
+    throw new Error('Minimum cluster size must be a whole number between 2 and 50');
+  }
+  updateSetting('analysis', analysis);
+}
+
+/**
+ * Gets the privacy settings (capture schedule and window title exclusions)
+ * @returns The privacy settings
+ */
+export function getPrivacySettings(): PrivacySettings {
+  return getSetting('privacy');
+}
+
+/**
+ * Saves the privacy settings
+ * @param privacy - The full privacy settings
+ * @throws Error if a schedule window or exclusion pattern is invalid
+ */
+export function savePrivacySettings(privacy: PrivacySettings): void {
+  for (const window of privacy.schedule.windows) {
+    const error = validateScheduleWindow(window);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+  if (privacy.schedule.enabled && privacy.schedule.windows.length === 0) {
+    throw new Error('An enabled capture schedule needs at least one window');
+  }
+  if (privacy.excludedWindowTitles.some(pattern => typeof pattern !== 'string')) {
+    throw new Error('Window title exclusions must be text patterns');
+  }
+  updateSetting('privacy', privacy);
+}
+
+/**
+ * Gets the manual capture pause saved before the app last quit
+ * @returns The pause, or null if capture wasn't paused
+ */
+export function getCapturePause(): ManualCapturePause | null {
+  return getSetting('capturePause');
+}
+
+/**
+ * Saves the manual capture pause
+ * @param pause - The pause, or null once capture is resumed
+ * @throws Error if the end time isn't a valid date
+ */
+export function saveCapturePause(pause: ManualCapturePause | null): void {
+  if (pause && pause.until !== null && isNaN(new Date(pause.until).getTime())) {
+    throw new Error('A capture pause must end at a valid time, or null to last until resumed');
+  }
+  updateSetting('capturePause', pause);
+}
+
+/**
+ * Gets the retention settings for captured prompt data
+ * @returns The retention settings
+ */
+export function getRetentionSettings(): RetentionSettings {
+  return getSetting('retention');
+}
+
+/**
+ * Saves the retention settings
+ * @param retention - The full retention settings
+ * @throws Error if a limit is invalid
+ */
+export function saveRetentionSettings(retention: RetentionSettings): void {
+  if (typeof retention.enabled !== 'boolean') {
+    throw new Error('Retention setting enabled must be true or false');
+  }
+  const error = validateRetentionSettings(retention);
+  if (error) {
+    throw new Error(error);
+  }
+  updateSetting('retention', retention);
+}
+
+/**
+ * Gets the synthesis provider settings
+ * @returns The synthesis settings, with defaults for any provider missing from the file
+ */
+export function getSynthesisSettings(): SynthesisSettings {
+  const synthesis = getSetting('synthesis');
+  return { ...synthesis, providers: { ...DEFAULT_SETTINGS.synthesis.providers, ...synthesis.providers } };
+}
+
+/**
+ * Saves the synthesis provider settings
+ * @param synthesis - The full synthesis settings
+ * @throws Error if the provider is unknown or a provider's model, temperature or URL is invalid
+ */
+export function saveSynthesisSettings(synthesis: SynthesisSettings): void {
+  const providerIds = Object.keys(DEFAULT_SETTINGS.synthesis.providers) as LlmProviderId[];
+  if (!providerIds.includes(synthesis.provider)) {
+    throw new Error(`Unknown synthesis provider: ${synthesis.provider}`);
+  }
+
+  for (const id of providerIds) {
+    const config = synthesis.providers?.[id];
+    if (!config || typeof config.model !== 'string' || !config.model.trim()) {
+      throw new Error(`The ${id} provider needs a model name`);
+    }
+    if (typeof config.temperature !== 'number' || !isFinite(config.temperature) || config.temperature < 0 || config.temperature > 2) {
+      throw new Error(`The ${id} provider's temperature must be between 0 and 2`);
+    }
+    if (config.baseUrl !== undefined && config.baseUrl !== '' && !/^https?:\/\/\S+$/.test(config.baseUrl)) {
+      throw new Error(`The ${id} provider's base URL must start with http:// or https://`);
+    }
+  }
+  if (!synthesis.providers['openai-compatible'].baseUrl) {
+    throw new Error('The OpenAI-compatible provider needs a base URL');
+  }
+
+  updateSetting('synthesis', synthesis);
+}
+
@@ -5,6 +5,7 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from 'dotenv';
+import type { TemplatePlaceholder } from '../../common/types/prompt-template';
 
 // Load environment variables from .env file
 config();
@@ -16,6 +17,8 @@ interface SuggestionRecord {
   replacement: string;
   source_texts: string[];
   confidence: number;
+  cluster_id?: string; // Local cluster the suggestion was synthesized from
+  placeholders?: TemplatePlaceholder[]; // Set when the replacement is a template
   status: 'pending' | 'accepted' | 'rejected';
   created_at?: string;
   updated_at?: string;
@@ -94,6 +97,8 @@ export async function storeSuggestion(suggestion: {
   replacement: string;
   sourceTexts: string[];
   confidence: number;
+  clusterId?: string;
+  placeholders?: TemplatePlaceholder[];
 }): Promise<string | null> {
   if (!isSupabaseAvailable()) {
     console.log('Supabase not available, skipping suggestion storage');
@@ -106,6 +111,8 @@ export async function storeSuggestion(suggestion: {
       replacement: suggestion.replacement,
       source_texts: suggestion.sourceTexts,
       confidence: suggestion.confidence,
+      ...(suggestion.clusterId ? { cluster_id: suggestion.clusterId } : {}),
+      ...(suggestion.placeholders ? { placeholders: suggestion.placeholders } : {}),
       status: 'pending'
     };
     
@@ -8,19 +8,49 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { AppState } from './app-controller';
 import { createThreeLineIcon } from '../utils/icon-generator';
+import type { CapturePauseStatus, PauseDuration } from '../../common/types/capture-privacy';
+
+// Callback functions for menu actions
+export interface TrayCallbacks {
+  openSettings: () => void;
+  openHistory: () => void;
+  openTuner: () => void;
+  openExplorer: () => void;
+  tryDemo: () => void;
+  runAnalysis: () => void;
+  quit: () => void;
+  requestPermission?: () => void;
+  openTextReplacementsOnly: () => void;
+  openConsole: () => void;
+  pauseCapture?: (duration: PauseDuration) => void;
+  resumeCapture?: () => void;
+}
+
+// Icons exist for each app state, plus a paused variant of the idle icon
+type TrayIcon = AppState | 'paused';
 
 let tray: Tray | null = null;
 let currentState: AppState = 'starting';
+let pauseStatus: CapturePauseStatus = { paused: false };
 
 // Icon cache to avoid reloading
-const iconCache = new Map<AppState, Electron.NativeImage>();
+const iconCache = new Map<TrayIcon, Electron.NativeImage>();
 
 /**
- * Loads an icon for a specific state from the assets directory
+ * Picks the icon for a state, showing the paused icon while capture is paused and nothing else is going on
  * @param state - The application state
+ * @returns The icon to show
+ */
+function getTrayIcon(state: AppState): TrayIcon {
+  return state === 'idle' && pauseStatus.paused ? 'paused' : state;
+}
+
+/**
+ * Loads an icon for a specific state from the assets directory
+ * @param state - The application state (or the paused variant)
  * @returns Native image for the tray
  */
-function loadIcon(state: AppState): Electron.NativeImage {
+function loadIcon(state: TrayIcon): Electron.NativeImage {
   // Check cache first
   if (iconCache.has(state)) {
     return iconCache.get(state)!;
@@ -49,10 +79,10 @@ function loadIcon(state: AppState): Electron.NativeImage {
 
 /**
  * Creates a fallback icon programmatically if file loading fails
- * @param state - The application state
+ * @param state - The application state (or the paused variant)
  * @returns Native image for the tray
  */
-function createFallbackIcon(state: AppState): Electron.NativeImage {
+function createFallbackIcon(state: TrayIcon): Electron.NativeImage {
   // For most states, use the standard three-line icon
   if (state === 'idle' || state === 'starting' || state === 'configuration-needed' || state === 'permission-needed') {
     return createThreeLineIcon(16);
@@ -98,6 +128,13 @@ function createFallbackIcon(state: AppState): Electron.NativeImage {
       }
       break;
       
+    case 'paused':
+      // Two vertical bars
+      for (let y = 4; y < 12; y++) {
+        [5, 6, 9, 10].forEach(x => setPixel(x, y));
+      }
+      break;
+      
     default:
       // Use the standard three-line icon for any unhandled states
       return createThreeLineIcon(16);
@@ -119,6 +156,7 @@ function createFallbackIcon(state: AppState): Electron.NativeImage {
  */
 function getStatusText(state: AppState, isAnalyzing: boolean): string {
   if (isAnalyzing) return 'Status: Analyzing...';
+  if (state === 'idle' && pauseStatus.paused) return 'Status: Capture paused';
   
   switch (state) {
     case 'starting': return 'Status: Starting...';
@@ -131,6 +169,54 @@ function getStatusText(state: AppState, isAnalyzing: boolean): string {
   }
 }
 
+/**
+ * Describes the current pause for the menu
+ * @param status - The pause status
+ * @returns Human-readable pause text
+ */
+function getPauseText(status: CapturePauseStatus): string {
+  if (status.reason === 'schedule') return 'Paused outside capture schedule';
+  if (!status.resumesAt) return 'Paused until you resume';
+
+  const resumesAt = new Date(status.resumesAt);
+  const isToday = resumesAt.toDateString() === new Date().toDateString();
+  const time = resumesAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `Paused until ${isToday ? time : `tomorrow ${time}`}`;
+}
+
+/**
+ * Creates the Pause submenu, or a Resume item while paused manually
+ * @param callbacks - Callback functions for menu actions
+ * @returns Menu items to add
+ */
+function createPauseMenuItems(callbacks: TrayCallbacks): Electron.MenuItemConstructorOptions[] {
+  const { pauseCapture, resumeCapture } = callbacks;
+  if (!pauseCapture || !resumeCapture) return [];
+
+  const items: Electron.MenuItemConstructorOptions[] = [];
+
+  if (pauseStatus.paused) {
+    items.push({ label: getPauseText(pauseStatus), enabled: false });
+  }
+
+  if (pauseStatus.reason === 'manual') {
+    items.push({ label: 'Resume Capture', click: () => resumeCapture() });
+  } else {
+    items.push({
+      label: 'Pause Capture',
+      submenu: [
+        { label: 'For 15 Minutes', click: () => pauseCapture('15m') },
+        { label: 'For 1 Hour', click: () => pauseCapture('1h') },
+        { label: 'Until Tomorrow', click: () => pauseCapture('tomorrow') },
+        { type: 'separator' },
+        { label: 'Until I Resume (Incognito)', click: () => pauseCapture('indefinite') }
+      ]
+    });
+  }
+
+  return items;
+}
+
 /**
  * Creates the context menu based on current state
  * @param state - Current application state
@@ -141,15 +227,7 @@ function getStatusText(state: AppState, isAnalyzing: boolean): string {
 function createContextMenu(
   state: AppState, 
   isAnalyzing: boolean,
-  callbacks: {
-    openSettings: () => void;
-    tryDemo: () => void;
-    runAnalysis: () => void;
-    quit: () => void;
-    requestPermission?: () => void;
-    openTextReplacementsOnly: () => void;
-    openConsole: () => void;
-  }
+  callbacks: TrayCallbacks
 ): Menu {
   const menuTemplate: Electron.MenuItemConstructorOptions[] = [
     {
@@ -174,6 +252,27 @@ function createContextMenu(
     click: callbacks.openSettings,
   });
 
+  // Captured prompt history (always available, so earlier captures can be reviewed or deleted)
+  menuTemplate.push({
+    label: 'Prompt History...',
+    click: callbacks.openHistory,
+  });
+
+  // Clustering tuner (always available; it shows a notice until an analysis has cached embeddings)
+  menuTemplate.push({
+    label: 'Clustering Tuner...',
+    click: callbacks.openTuner,
+  });
+
+  // Cluster explorer (always available, like the tuner)
+  menuTemplate.push({
+    label: 'Cluster Explorer...',
+    click: callbacks.openExplorer,
+  });
+
+  // Privacy pause (always available, so capture can be paused before it starts)
+  menuTemplate.push(...createPauseMenuItems(callbacks));
+
   // Permission request (only when needed)
   if (state === 'permission-needed' && callbacks.requestPermission) {
     menuTemplate.push({
@@ -236,15 +335,7 @@ function createContextMenu(
  * @param callbacks - Callback functions for menu actions
  * @returns Whether tray was created successfully
  */
-export function initializeTray(callbacks: {
-  openSettings: () => void;
-  tryDemo: () => void;
-  runAnalysis: () => void;
-  quit: () => void;
-  requestPermission?: () => void;
-  openTextReplacementsOnly: () => void;
-  openConsole: () => void;
-}): boolean {
+export function initializeTray(callbacks: TrayCallbacks): boolean {
   if (tray) {
     console.log('Tray already initialized');
     return true;
@@ -282,15 +373,7 @@ export function initializeTray(callbacks: {
 export function updateTray(
   state: AppState, 
   isAnalyzing: boolean,
-  callbacks: {
-    openSettings: () => void;
-    tryDemo: () => void;
-    runAnalysis: () => void;
-    quit: () => void;
-    requestPermission?: () => void;
-    openTextReplacementsOnly: () => void;
-    openConsole: () => void;
-  }
+  callbacks: TrayCallbacks
 ): void {
   if (!tray) {
     console.warn('Tray not initialized, cannot update');
@@ -306,7 +389,7 @@ export function updateTray(
   
   try {
     // Update icon
-    const icon = loadIcon(state);
+    const icon = loadIcon(getTrayIcon(state));
     tray.setImage(icon);
     
     // Update menu
@@ -333,15 +416,7 @@ export function updateTray(
 export function forceUpdateTray(
   state: AppState, 
   isAnalyzing: boolean,
-  callbacks: {
-    openSettings: () => void;
-    tryDemo: () => void;
-    runAnalysis: () => void;
-    quit: () => void;
-    requestPermission?: () => void;
-    openTextReplacementsOnly: () => void;
-    openConsole: () => void;
-  }
+  callbacks: TrayCallbacks
 ): void {
   if (!tray) {
     console.warn('Tray not initialized, cannot update');
@@ -349,7 +424,10 @@ export function forceUpdateTray(
   }
 
   try {
-    // Update menu (analyzing status might have changed)
+    // Update icon (pause status might have changed)
+    tray.setImage(loadIcon(getTrayIcon(state)));
+    
+    // Update menu (analyzing or pause status might have changed)
     const menu = createContextMenu(state, isAnalyzing, callbacks);
     tray.setContextMenu(menu);
     
@@ -362,6 +440,14 @@ export function forceUpdateTray(
   }
 }
 
+/**
+ * Sets the capture pause status shown in the icon and menu (call forceUpdateTray afterwards)
+ * @param status - The current pause status
+ */
+export function setPauseStatus(status: CapturePauseStatus): void {
+  pauseStatus = status;
+}
+
 /**
  * Cleans up the tray (call on app quit)
  */
@@ -0,0 +1,191 @@
+/**
+ * @file Window-source abstraction that reports focus changes, with a polling implementation backed by active-win
+ * @module window-source
+ */
+
+import activeWin from 'active-win';
+
+// The focused window as seen by monitoring
+export interface WindowInfo {
+  processName: string;
+  windowTitle: string;
+}
+
+// Emitted whenever the focused process or window title changes
+export interface WindowFocusEvent {
+  current: WindowInfo | null;   // null when no window could be read (nothing focused or permission missing)
+  previous: WindowInfo | null;
+}
+
+// Focus listeners may be async; sources wait for them before emitting the next event
+export type WindowFocusListener = (event: WindowFocusEvent) => void | Promise<void>;
+
+// Anything that can tell monitoring which window is focused
+export interface WindowSource {
+  start: () => void;
+  stop: () => void;
+  isRunning: () => boolean;
+  getCurrentWindow: () => WindowInfo | null;
+  onFocusChange: (listener: WindowFocusListener) => () => void; // Returns an unsubscribe function
+}
+
+// Options for the polling source
+export interface PollingWindowSourceOptions {
+  intervalMs?: number;
+  readActiveWindow?: () => Promise<WindowInfo | null>; // Override for the active-win lookup
+}
+
+const DEFAULT_POLL_INTERVAL = 1000; // 1 second
+const ERROR_LOG_INTERVAL = 30000; // Log unexpected errors at most once per 30 seconds
+
+/**
+ * Checks whether two window snapshots describe the same focused window
+ * @param a - First window
+ * @param b - Second window
+ * @returns Whether process and title match
+ */
+export function isSameWindow(a: WindowInfo | null, b: WindowInfo | null): boolean {
+  if (!a || !b) return a === b;
+  return a.processName === b.processName && a.windowTitle === b.windowTitle;
+}
+
+/**
+ * Creates the listener registry shared by window source implementations
+ * Events are delivered to listeners in order, one at a time
+ * @returns Functions to subscribe listeners and emit events
+ */
+export function createFocusEmitter(): {
+  subscribe: (listener: WindowFocusListener) => () => void;
+  emit: (event: WindowFocusEvent) => Promise<void>;
+} {
+  const listeners = new Set<WindowFocusListener>();
+
+  return {
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit: async event => {
+      for (const listener of Array.from(listeners)) {
+        try {
+          await listener(event);
+        } catch (error) {
+          console.error('Error in window focus listener:', error);
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Gets the output a failed active-win call captured from its helper process
+ * @param error - The caught error (child process errors carry stdout and stderr)
+ * @param stream - The output to read
+ * @returns The output, or an empty string if the error has none
+ */
+function getErrorOutput(error: unknown, stream: 'stdout' | 'stderr'): string {
+  if (typeof error !== 'object' || error === null) return '';
+  const output = (error as Partial<Record<typeof stream, unknown>>)[stream];
+  return typeof output === 'string' ? output : '';
+}
+
+/**
+ * Reads the focused window with active-win, handling permission errors in one place
+ * @param errorState - Tracks which errors have already been logged
+ * @returns Promise resolving to the focused window, or null if it can't be read
+ */
+async function readActiveWindowWithPermissions(errorState: { screenRecordingLogged: boolean; lastErrorLogTime: number }): Promise<WindowInfo | null> {
+  try {
+    const window = await activeWin();
+
+    if (!window) {
+      return null;
+    }
+
+    return {
+      processName: window.owner?.name || '',
+      windowTitle: window.title || ''
+    };
+
+  } catch (error: unknown) {
+    // Handle permission errors gracefully
+    const stdout = getErrorOutput(error, 'stdout');
+    const stderr = getErrorOutput(error, 'stderr');
+
+    if (stdout.includes('screen recording permission') || stderr.includes('screen recording permission')) {
+      // Only log this error once, not repeatedly
+      if (!errorState.screenRecordingLogged) {
+        console.log('Screen recording permission required - monitoring paused');
+        errorState.screenRecordingLogged = true;
+      }
+      return null;
+    }
+
+    if (stdout.includes('accessibility permission')) {
+      return null;
+    }
+
+    // For other errors, only log occasionally to avoid spam
+    const now = Date.now();
+    if (now - errorState.lastErrorLogTime > ERROR_LOG_INTERVAL) {
+      console.error('Error reading active window:', error);
+      errorState.lastErrorLogTime = now;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Creates a window source that polls the focused window and emits focus-change events
+ * @param options - Poll interval and an optional window reader override
+ * @returns The polling window source
+ */
+export function createPollingWindowSource(options: PollingWindowSourceOptions = {}): WindowSource {
+  const intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL;
+  const errorState = { screenRecordingLogged: false, lastErrorLogTime: 0 };
+  const readActiveWindow = options.readActiveWindow || (() => readActiveWindowWithPermissions(errorState));
+  const emitter = createFocusEmitter();
+
+  let pollInterval: NodeJS.Timeout | undefined;
+  let currentWindow: WindowInfo | null = null;
+  let isPolling = false;
+
+  // Skip a tick rather than overlap when a previous poll (or its listeners) is still running
+  const poll = async (): Promise<void> => {
+    if (isPolling) return;
+    isPolling = true;
+
+    try {
+      const window = await readActiveWindow();
+
+      if (!isSameWindow(window, currentWindow)) {
+        const previous = currentWindow;
+        currentWindow = window;
+        await emitter.emit({ current: window, previous });
+      }
+    } finally {
+      isPolling = false;
+    }
+  };
+
+  return {
+    start: () => {
+      if (pollInterval) return;
+      pollInterval = setInterval(poll, intervalMs);
+      poll(); // Do an initial check immediately
+    },
+    stop: () => {
+      if (pollInterval) {
+        clearInterval(pollInterval);
+        pollInterval = undefined;
+      }
+      currentWindow = null;
+    },
+    isRunning: () => pollInterval !== undefined,
+    getCurrentWindow: () => currentWindow,
+    onFocusChange: emitter.subscribe
+  };
+}
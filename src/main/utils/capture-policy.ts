@@ -0,0 +1,132 @@
+/**
+ * @file Utility for evaluating capture schedules, window title exclusions and pause durations
+ * @module capture-policy
+ */
+
+import type { CaptureSchedule, CaptureScheduleWindow, PauseDuration } from '../../common/types/capture-privacy';
+
+// Compiled glob cache so title patterns aren't recompiled on every focus change
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Parses a 'HH:MM' time into minutes after midnight
+ * @param time - The time string
+ * @returns Minutes after midnight, or null if the time is invalid
+ */
+export function parseScheduleTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Checks whether a moment falls inside a schedule window
+ * Windows whose end is before their start run past midnight into the next day
+ * @param window - The schedule window
+ * @param date - The moment to check (local time)
+ * @returns Whether the moment is inside the window
+ */
+function isWithinWindow(window: CaptureScheduleWindow, date: Date): boolean {
+  const start = parseScheduleTime(window.start);
+  const end = parseScheduleTime(window.end);
+  if (start === null || end === null) return false;
+
+  const day = date.getDay();
+  const minute = date.getHours() * 60 + date.getMinutes();
+
+  if (start <= end) {
+    return window.days.includes(day) && minute >= start && minute < end;
+  }
+
+  // Overnight window: the evening part belongs to today, the early-morning part to yesterday's window
+  const yesterday = (day + 6) % 7;
+  return (window.days.includes(day) && minute >= start) ||
+    (window.days.includes(yesterday) && minute < end);
+}
+
+/**
+ * Checks whether capture is allowed by the schedule at a given moment
+ * @param schedule - The capture schedule
+ * @param date - The moment to check
+ * @returns Whether capture is allowed (always true for a disabled schedule)
+ */
+export function isWithinSchedule(schedule: CaptureSchedule, date: Date): boolean {
+  if (!schedule.enabled) return true;
+  return schedule.windows.some(window => isWithinWindow(window, date));
+}
+
+/**
+ * Compiles a window title glob into a case-insensitive regex that matches anywhere in the title
+ * @param pattern - The glob, e.g. '*.env' or 'secrets'
+ * @returns The compiled regex
+ */
+function compileGlob(pattern: string): RegExp {
+  const cached = globCache.get(pattern);
+  if (cached) return cached;
+
+  const source = pattern
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  const compiled = new RegExp(source, 'i');
+
+  globCache.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * Finds the first exclusion pattern matching a window title
+ * @param windowTitle - The focused window title
+ * @param patterns - Glob patterns from the privacy settings
+ * @returns The matching pattern, or null
+ */
+export function findExcludedTitlePattern(windowTitle: string, patterns: string[]): string | null {
+  if (!windowTitle) return null;
+  return patterns.find(pattern => pattern.trim() && compileGlob(pattern.trim()).test(windowTitle)) || null;
+}
+
+/**
+ * Works out when a manual pause ends
+ * @param duration - The requested pause duration
+ * @param now - The current time
+ * @returns The end time in milliseconds, or null for a pause that lasts until resumed
+ */
+export function getPauseEndTime(duration: PauseDuration, now: Date): number | null {
+  switch (duration) {
+    case '15m':
+      return now.getTime() + 15 * 60 * 1000;
+    case '1h':
+      return now.getTime() + 60 * 60 * 1000;
+    case 'tomorrow': {
+      const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+      return tomorrow.getTime();
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validates a schedule window
+ * @param window - The window to check
+ * @returns An error message, or null if the window is valid
+ */
+export function validateScheduleWindow(window: CaptureScheduleWindow): string | null {
+  if (!Array.isArray(window.days) || window.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return 'Schedule days must be numbers from 0 (Sunday) to 6 (Saturday)';
+  }
+  const start = parseScheduleTime(window.start || '');
+  const end = parseScheduleTime(window.end || '');
+  if (start === null || end === null) {
+    return 'Schedule times must use the HH:MM format';
+  }
+  if (start === end) {
+    return 'Schedule windows must start and end at different times';
+  }
+  return null;
+}
@@ -0,0 +1,73 @@
+/**
+ * @file Capture session tracking and per-session summaries of log entries
+ * @module capture-session
+ */
+
+import type { LogEntry } from '../../common/types/log-entry';
+import type { CaptureSessionSummary } from '../../common/types/capture-session';
+
+// The session capture activity is currently attributed to
+export interface CaptureSessionState {
+  id: string;
+  startedAt: number;
+  lastActivityAt: number;
+}
+
+/**
+ * Builds the ID of a session from its start time
+ * IDs derive from the (possibly virtual) clock so replays produce the same sessions
+ * @param startedAt - Session start in milliseconds since the epoch
+ * @returns The session ID
+ */
+export function createSessionId(startedAt: number): string {
+  return `session_${new Date(startedAt).toISOString()}`;
+}
+
+/**
+ * Records capture activity, starting a new session if there is none or the last one went idle
+ * @param session - The current session, or null
+ * @param now - Time of the activity in milliseconds
+ * @param idleTimeoutMs - Idle gap after which activity starts a new session
+ * @returns The session the activity belongs to
+ */
+export function touchSession(session: CaptureSessionState | null, now: number, idleTimeoutMs: number): CaptureSessionState {
+  if (!session || now - session.lastActivityAt > idleTimeoutMs) {
+    return { id: createSessionId(now), startedAt: now, lastActivityAt: now };
+  }
+  return { ...session, lastActivityAt: Math.max(session.lastActivityAt, now) };
+}
+
+/**
+ * Groups log entries by session and summarizes each session
+ * Entries captured before sessions existed are left out
+ * @param entries - Log entries in any order
+ * @returns Session summaries, newest first
+ */
+export function summarizeSessions(entries: LogEntry[]): CaptureSessionSummary[] {
+  const sessions = new Map<string, CaptureSessionSummary>();
+
+  for (const entry of entries) {
+    if (!entry.sessionId) continue;
+
+    const summary = sessions.get(entry.sessionId) || {
+      id: entry.sessionId,
+      startedAt: entry.timestamp,
+      endedAt: entry.timestamp,
+      entryCount: 0,
+      submittedCount: 0,
+      processNames: [],
+      typingDurationMs: 0
+    };
+
+    if (entry.timestamp < summary.startedAt) summary.startedAt = entry.timestamp;
+    if (entry.timestamp > summary.endedAt) summary.endedAt = entry.timestamp;
+    summary.entryCount++;
+    if (entry.flushReason === 'submit') summary.submittedCount++;
+    if (entry.processName && !summary.processNames.includes(entry.processName)) summary.processNames.push(entry.processName);
+    summary.typingDurationMs += entry.typingDurationMs || 0;
+
+    sessions.set(entry.sessionId, summary);
+  }
+
+  return [...sessions.values()].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
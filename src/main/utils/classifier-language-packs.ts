@@ -0,0 +1,89 @@
+/**
+ * @file Built-in keyword packs used by the prompt classifier
+ * @module classifier-language-packs
+ */
+
+import type { LanguagePack } from '../../common/types/prompt-classifier';
+
+const BUILT_IN_LANGUAGE_PACKS: LanguagePack[] = [
+  {
+    id: 'en',
+    name: 'English',
+    keywords: [
+      'explain', 'describe', 'how', 'what', 'why', 'create', 'generate',
+      'write', 'make', 'build', 'show', 'tell me', 'can you', 'please',
+      'review', 'check', 'debug', 'fix', 'help', 'analyze', 'refactor',
+      'implement', 'add', 'remove', 'update', 'modify', 'optimize',
+      'convert', 'translate', 'format', 'validate', 'test', 'document'
+    ],
+    imperativeVerbs: [
+      'add', 'create', 'make', 'build', 'fix', 'update', 'remove', 'delete', 'show',
+      'display', 'list', 'find', 'search', 'get', 'set', 'write', 'explain', 'refactor',
+      'rename', 'move', 'convert', 'summarize', 'review', 'implement'
+    ]
+  },
+  {
+    id: 'es',
+    name: 'Español',
+    keywords: [
+      'explica', 'describe', 'cómo', 'como', 'qué', 'por qué', 'crea', 'genera',
+      'escribe', 'haz', 'muestra', 'puedes', 'por favor', 'revisa', 'arregla',
+      'corrige', 'ayuda', 'ayúdame', 'analiza', 'implementa', 'añade', 'agrega',
+      'elimina', 'actualiza', 'optimiza', 'convierte', 'traduce', 'documenta'
+    ],
+    imperativeVerbs: [
+      'añade', 'agrega', 'crea', 'haz', 'arregla', 'corrige', 'actualiza', 'elimina',
+      'borra', 'muestra', 'lista', 'busca', 'escribe', 'explica', 'revisa', 'implementa'
+    ]
+  },
+  {
+    id: 'fr',
+    name: 'Français',
+    keywords: [
+      'explique', 'décris', 'comment', 'quoi', 'pourquoi', 'crée', 'génère',
+      'écris', 'fais', 'montre', 'peux-tu', 'pouvez-vous', "s'il te plaît",
+      'stp', 'vérifie', 'corrige', 'aide', 'aide-moi', 'analyse', 'implémente',
+      'ajoute', 'supprime', 'mets à jour', 'optimise', 'convertis', 'traduis', 'documente'
+    ],
+    imperativeVerbs: [
+      'ajoute', 'crée', 'fais', 'corrige', 'supprime', 'affiche', 'montre', 'liste',
+      'cherche', 'écris', 'explique', 'vérifie', 'implémente', 'renomme', 'déplace'
+    ]
+  },
+  {
+    id: 'de',
+    name: 'Deutsch',
+    keywords: [
+      'erkläre', 'erklär', 'beschreibe', 'wie', 'was', 'warum', 'erstelle', 'generiere',
+      'schreibe', 'schreib', 'mach', 'zeige', 'zeig', 'kannst du', 'bitte', 'prüfe',
+      'überprüfe', 'behebe', 'hilf', 'analysiere', 'implementiere', 'füge', 'entferne',
+      'aktualisiere', 'optimiere', 'konvertiere', 'übersetze', 'dokumentiere'
+    ],
+    imperativeVerbs: [
+      'füge', 'erstelle', 'mach', 'behebe', 'aktualisiere', 'entferne', 'lösche', 'zeige',
+      'zeig', 'liste', 'suche', 'schreibe', 'erkläre', 'prüfe', 'implementiere', 'benenne'
+    ]
+  },
+  {
+    id: 'pt',
+    name: 'Português',
+    keywords: [
+      'explique', 'explica', 'descreva', 'como', 'o que', 'por que', 'porque', 'crie',
+      'gere', 'escreva', 'faça', 'mostre', 'você pode', 'pode', 'por favor', 'revise',
+      'corrija', 'ajude', 'me ajude', 'analise', 'implemente', 'adicione', 'remova',
+      'atualize', 'otimize', 'converta', 'traduza', 'documente'
+    ],
+    imperativeVerbs: [
+      'adicione', 'crie', 'faça', 'corrija', 'atualize', 'remova', 'apague', 'mostre',
+      'liste', 'busque', 'escreva', 'explique', 'revise', 'implemente', 'renomeie'
+    ]
+  }
+];
+
+/**
+ * Gets the built-in language packs
+ * @returns Array of language packs shipped with the app
+ */
+export function getBuiltInLanguagePacks(): LanguagePack[] {
+  return BUILT_IN_LANGUAGE_PACKS;
+}
@@ -0,0 +1,81 @@
+/**
+ * @file Clustering tuner computations: distances between the loaded prompts and re-clustering them with given parameters
+ * @module clustering-tuner
+ */
+
+import { buildDistanceMatrix, computeClusteringQuality, resolveClusteringOptions } from '../workflow/clustering-algorithms';
+import type { ClusteringTunerCluster, ClusteringTunerParams, ClusteringTunerResult } from '../../common/types/clustering';
+
+const SAMPLE_TEXTS = 5;          // Prompts shown per cluster
+const NOISE_SAMPLES = 50;
+
+// The loaded prompts and their distances, kept between re-clusterings
+export interface TunerData {
+  texts: string[];
+  vectors: number[][];
+  distances: Float64Array[];
+}
+
+/**
+ * Builds the tuner's dataset, computing the pairwise distances once for every later re-clustering
+ * @param texts - The prompts
+ * @param vectors - Their embeddings, in the same order
+ * @returns The dataset
+ */
+export function createTunerData(texts: string[], vectors: number[][]): TunerData {
+  return { texts, vectors, distances: buildDistanceMatrix(vectors) };
+}
+
+/**
+ * Summarizes a cluster: its mean similarity to the centroid and its most typical prompts
+ * @param indices - Indices of the cluster's points
+ * @param loaded - The loaded dataset
+ * @returns The cluster as shown in the tuner
+ */
+function describeCluster(indices: number[], loaded: TunerData): ClusteringTunerCluster {
+  const dimensions = loaded.vectors[indices[0]].length;
+  const centroid = new Array(dimensions).fill(0);
+  for (const index of indices) {
+    loaded.vectors[index].forEach((value, d) => { centroid[d] += value / indices.length; });
+  }
+
+  const [centroidDistances] = buildDistanceMatrix([centroid, ...indices.map(index => loaded.vectors[index])]);
+  const ranked = indices
+    .map((index, position) => ({ text: loaded.texts[index], similarity: 1 - centroidDistances[position + 1] }))
+    .sort((a, b) => b.similarity - a.similarity);
+
+  return {
+    size: indices.length,
+    texts: ranked.slice(0, SAMPLE_TEXTS).map(point => point.text),
+    similarity: ranked.reduce((sum, point) => sum + point.similarity, 0) / ranked.length
+  };
+}
+
+/**
+ * Clusters the loaded embeddings with the given parameters
+ * @param loaded - The dataset
+ * @param params - Algorithm, epsilon (null for automatic) and minimum cluster size
+ * @returns Clusters, noise and quality metrics
+ */
+export function clusterTunerData(loaded: TunerData, params: ClusteringTunerParams): ClusteringTunerResult {
+  const started = Date.now();
+  const options = resolveClusteringOptions(
+    { clusteringAlgorithm: params.algorithm, clusterEpsilon: params.epsilon, clusterMinPoints: params.minPoints },
+    loaded.vectors,
+    loaded.distances
+  );
+  const groups = options.algorithm.cluster(loaded.vectors, options, loaded.distances).sort((a, b) => b.length - a.length);
+
+  const clustered = new Set(groups.flat());
+  const noise = loaded.texts.filter((_, index) => !clustered.has(index));
+
+  return {
+    epsilon: options.epsilon,
+    epsilonSource: options.epsilonSource,
+    clusters: groups.map(group => describeCluster(group, loaded)),
+    noise: noise.slice(0, NOISE_SAMPLES),
+    noiseCount: noise.length,
+    quality: computeClusteringQuality(loaded.vectors, groups, loaded.distances),
+    durationMs: Date.now() - started
+  };
+}
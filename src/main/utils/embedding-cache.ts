@@ -0,0 +1,124 @@
+/**
+ * @file Keys, vector encoding and eviction for the embedding cache
+ * @module embedding-cache
+ */
+
+import { createHash } from 'crypto';
+
+// A cached vector (stored without the text it was computed from)
+export interface EmbeddingCacheEntry {
+  vector: string;       // Float32 values, base64-encoded
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+// Which vectors are interchangeable: the same text only has the same embedding under the same provider, model and size
+export interface EmbeddingCacheScope {
+  id: string;
+  model: string;
+  dimensions: number;
+}
+
+// Lookup and storage of one scope's vectors, as used while embedding
+export interface EmbeddingCache {
+  get: (text: string) => number[] | null;
+  set: (text: string, embedding: number[]) => void;
+}
+
+// Eviction limits
+export interface EmbeddingCacheLimits {
+  maxEntries: number;
+  maxUnusedMs: number;  // Entries not used for this long are dropped
+}
+
+/**
+ * Normalizes text before hashing, so prompts that differ only in surrounding or repeated whitespace share an entry
+ * Case and punctuation are kept because they change what a model embeds
+ * @param text - The text
+ * @returns Normalized text
+ */
+export function normalizeEmbeddingText(text: string): string {
+  return text.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Gets the prefix shared by every key of a scope
+ * @param scope - Provider, model and dimensions
+ * @returns The prefix, e.g. `openai:text-embedding-3-small:1536`
+ */
+export function getEmbeddingScopeKey(scope: EmbeddingCacheScope): string {
+  return `${scope.id}:${scope.model}:${scope.dimensions}`;
+}
+
+/**
+ * Hashes a text the way the cache identifies it
+ * @param text - The text
+ * @returns SHA-256 hex digest of the normalized text
+ */
+export function hashEmbeddingText(text: string): string {
+  return createHash('sha256').update(normalizeEmbeddingText(text)).digest('hex');
+}
+
+/**
+ * Gets the cache key of a text
+ * @param scope - Provider, model and dimensions
+ * @param text - The text that is embedded
+ * @returns Key made of the scope and a SHA-256 hash of the normalized text
+ */
+export function getEmbeddingCacheKey(scope: EmbeddingCacheScope, text: string): string {
+  return `${getEmbeddingScopeKey(scope)}:${hashEmbeddingText(text)}`;
+}
+
+/**
+ * Encodes a vector for storage; float32 halves the size of the file and is far more precise than cosine similarity needs
+ * @param vector - The embedding
+ * @returns Base64 of its float32 values
+ */
+export function encodeEmbedding(vector: number[]): string {
+  return Buffer.from(Float32Array.from(vector).buffer).toString('base64');
+}
+
+/**
+ * Decodes a stored vector
+ * @param encoded - Base64 from encodeEmbedding
+ * @returns The embedding
+ */
+export function decodeEmbedding(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.length / 4)));
+}
+
+/**
+ * Removes entries that haven't been used for too long, then the least recently used ones until the entry limit holds
+ * @param entries - Cache entries by key (changed in place)
+ * @param limits - Eviction limits
+ * @param now - Current time in milliseconds
+ * @returns Number of entries removed
+ */
+export function evictEmbeddingCacheEntries(
+  entries: Record<string, EmbeddingCacheEntry>,
+  limits: EmbeddingCacheLimits,
+  now: number
+): number {
+  let evicted = 0;
+
+  for (const [key, entry] of Object.entries(entries)) {
+    if (now - entry.lastUsedAt > limits.maxUnusedMs) {
+      delete entries[key];
+      evicted++;
+    }
+  }
+
+  const keys = Object.keys(entries);
+  if (keys.length > limits.maxEntries) {
+    keys
+      .sort((a, b) => entries[a].lastUsedAt - entries[b].lastUsedAt)
+      .slice(0, keys.length - limits.maxEntries)
+      .forEach(key => {
+        delete entries[key];
+        evicted++;
+      });
+  }
+
+  return evicted;
+}
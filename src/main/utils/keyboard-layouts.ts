@@ -0,0 +1,172 @@
+/**
+ * @file Built-in keyboard layout definitions and helpers for normalizing loadable layout files
+ * @module keyboard-layouts
+ */
+
+import type { KeyboardLayout, KeyLayer, LayerName } from '../../common/types/keyboard-layout';
+
+export type { KeyboardLayout, KeyLayer, LayerName };
+
+// Layer definition as written in a layout file: four row strings or an explicit keycode map
+export type LayerDefinition = string[] | { [keycode: string]: string };
+
+// Raw layout definition as stored in built-ins or user JSON files
+export interface LayoutDefinition {
+  id: string;
+  name: string;
+  layers: { base: LayerDefinition; shift: LayerDefinition; option?: LayerDefinition; shiftOption?: LayerDefinition };
+  deadKeys?: { [layer in LayerName]?: number[] };
+  compositions?: { [deadChar: string]: { [char: string]: string } };
+}
+
+// uiohook-napi keycodes for each physical row, left to right
+const ROW_KEYCODES: number[][] = [
+  [41, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13],     // ` 1 2 3 4 5 6 7 8 9 0 - =
+  [16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 43], // q w e r t y u i o p [ ] \
+  [30, 31, 32, 33, 34, 35, 36, 37, 38, 39, 40],    // a s d f g h j k l ; '
+  [44, 45, 46, 47, 48, 49, 50, 51, 52, 53]         // z x c v b n m , . /
+];
+
+// Keys that produce the same character on every layout (space and the numeric keypad)
+const SHARED_KEYS: KeyLayer = {
+  57: ' ',
+  82: '0', 79: '1', 80: '2', 81: '3', 75: '4', 76: '5', 77: '6', 71: '7', 72: '8', 73: '9',
+  55: '*', 78: '+', 74: '-', 83: '.', 3637: '/'
+};
+
+const BUILT_IN_LAYOUTS: LayoutDefinition[] = [
+  {
+    id: 'us',
+    name: 'U.S. (QWERTY)',
+    layers: {
+      base: ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./'],
+      shift: ['~!@#$%^&*()_+', 'QWERTYUIOP{}|', 'ASDFGHJKL:"', 'ZXCVBNM<>?'],
+      option: ['`¡™£¢∞§¶•ªº–≠', 'œ∑´®†¥¨ˆøπ“‘«', 'åß∂ƒ©˙∆˚¬…æ', 'Ω≈ç√∫˜µ≤≥÷'],
+      shiftOption: ['`⁄€‹›ﬁﬂ‡°·‚—±', 'Œ„´‰ˇÁ¨ˆØ∏”’»', 'ÅÍÎÏ˝ÓÔ\uF8FFÒÚÆ', '¸˛Ç◊ı˜Â¯˘¿']
+    },
+    deadKeys: { option: [41, 18, 22, 23, 49] } // ` e u i n
+  },
+  {
+    id: 'gb',
+    name: 'British',
+    layers: {
+      base: ['§1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./'],
+      shift: ['±!@£$%^&*()_+', 'QWERTYUIOP{}|', 'ASDFGHJKL:"', 'ZXCVBNM<>?'],
+      option: { '3': '€', '4': '#', '18': '´', '22': '¨', '23': 'ˆ', '49': '˜' }
+    },
+    deadKeys: { option: [18, 22, 23, 49] } // e u i n
+  },
+  {
+    id: 'fr-azerty',
+    name: 'French (AZERTY)',
+    layers: {
+      base: ['@&é"\'(§è!çà)-', 'azertyuiop^$`', 'qsdfghjklmù', 'wxcvbn,;:='],
+      shift: ['#1234567890°_', 'AZERTYUIOP¨*£', 'QSDFGHJKLM%', 'WXCVBN?./+'],
+      option: { '6': '{', '12': '}', '49': '~' },
+      shiftOption: { '6': '[', '12': ']', '38': '|', '52': '\\' }
+    },
+    deadKeys: { base: [26, 43], shift: [26], option: [49] }
+  },
+  {
+    id: 'de-qwertz',
+    name: 'German (QWERTZ)',
+    layers: {
+      base: ['^1234567890ß´', 'qwertzuiopü+#', 'asdfghjklöä', 'yxcvbnm,.-'],
+      shift: ['°!"§$%&/()=?`', 'QWERTZUIOPÜ*\'', 'ASDFGHJKLÖÄ', 'YXCVBNM;:_'],
+      option: { '6': '[', '7': ']', '8': '|', '9': '{', '10': '}', '11': '≠', '18': '€', '38': '@', '49': '~' },
+      shiftOption: { '8': '\\' }
+    },
+    deadKeys: { base: [41, 13], shift: [13], option: [49] }
+  },
+  {
+    id: 'dvorak',
+    name: 'Dvorak',
+    layers: {
+      base: ['`1234567890[]', "',.pyfgcrl/=\\", 'aoeuidhtns-', ';qjkxbmwvz'],
+      shift: ['~!@#$%^&*(){}', '"<>PYFGCRL?+|', 'AOEUIDHTNS_', ':QJKXBMWVZ']
+    }
+  },
+  {
+    id: 'colemak',
+    name: 'Colemak',
+    layers: {
+      base: ['`1234567890-=', 'qwfpgjluy;[]\\', "arstdhneio'", 'zxcvbkm,./'],
+      shift: ['~!@#$%^&*()_+', 'QWFPGJLUY:{}|', 'ARSTDHNEIO"', 'ZXCVBKM<>?']
+    }
+  }
+];
+
+/**
+ * Converts a layer definition (row strings or keycode map) into a keycode lookup table
+ * @param definition - The layer as written in the layout file
+ * @param includeSharedKeys - Whether to add space and keypad characters
+ * @returns The normalized layer
+ * @throws Error if a row string does not match the physical row length
+ */
+function normalizeLayer(definition: LayerDefinition, includeSharedKeys: boolean): KeyLayer {
+  const layer: KeyLayer = includeSharedKeys ? { ...SHARED_KEYS } : {};
+
+  if (Array.isArray(definition)) {
+    definition.forEach((row, rowIndex) => {
+      const keycodes = ROW_KEYCODES[rowIndex];
+      const characters = Array.from(row); // Split by code point, not UTF-16 unit
+
+      if (!keycodes || characters.length !== keycodes.length) {
+        throw new Error(`Layout row ${rowIndex + 1} must contain ${keycodes ? keycodes.length : 0} characters`);
+      }
+
+      characters.forEach((character, index) => {
+        layer[keycodes[index]] = character;
+      });
+    });
+  } else {
+    for (const [keycode, character] of Object.entries(definition)) {
+      layer[Number(keycode)] = character;
+    }
+  }
+
+  return layer;
+}
+
+/**
+ * Validates and normalizes a raw layout definition
+ * @param definition - The layout definition (built-in or parsed from JSON)
+ * @returns The normalized keyboard layout
+ * @throws Error if the definition is missing required fields or has malformed rows
+ */
+export function normalizeLayout(definition: LayoutDefinition): KeyboardLayout {
+  if (!definition || !definition.id || !definition.layers?.base || !definition.layers?.shift) {
+    throw new Error('Keyboard layout must define an id and base/shift layers');
+  }
+
+  const { layers } = definition;
+
+  return {
+    id: definition.id,
+    name: definition.name || definition.id,
+    layers: {
+      base: normalizeLayer(layers.base, true),
+      shift: normalizeLayer(layers.shift, true),
+      option: layers.option ? normalizeLayer(layers.option, false) : undefined,
+      shiftOption: layers.shiftOption ? normalizeLayer(layers.shiftOption, false) : undefined
+    },
+    deadKeys: definition.deadKeys || {},
+    compositions: definition.compositions || {}
+  };
+}
+
+/**
+ * Gets the keycodes of the character keys on the four main rows
+ * @returns Array of keycodes that produce text on every layout
+ */
+export function getCharacterKeycodes(): number[] {
+  return ROW_KEYCODES.flat();
+}
+
+/**
+ * Gets all built-in layouts, normalized
+ * @returns Array of keyboard layouts shipped with the app
+ */
+export function getBuiltInLayouts(): KeyboardLayout[] {
+  return BUILT_IN_LAYOUTS.map(normalizeLayout);
+}
@@ -0,0 +1,197 @@
+/**
+ * @file Tests for decoding synthetic uiohook-napi keystroke streams through each built-in layout
+ * @module keystroke-decoder.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { decodeKeystroke, KeystrokeEvent } from './keystroke-decoder';
+import { getBuiltInLayouts, KeyboardLayout, normalizeLayout } from './keyboard-layouts';
+
+// uiohook-napi keycodes of the modifier keys
+const SHIFT = 42;
+const CTRL = 29;
+const ALT = 56;
+const META = 3675;
+
+// Physical keys named by their U.S. QWERTY label, so a stream reads as the keys pressed rather than the text produced
+const US_KEY_ROWS = ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./'];
+const ROW_KEYCODES = [
+  [41, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13],
+  [16, 17, 18, 19, 20, 21, 22, 23, 24, 25, 26, 27, 43],
+  [30, 31, 32, 33, 34, 35, 36, 37, 38, 39, 40],
+  [44, 45, 46, 47, 48, 49, 50, 51, 52, 53]
+];
+const KEYCODES = new Map<string, number>(
+  US_KEY_ROWS.flatMap((row, rowIndex) => Array.from(row).map((label, index) => [label, ROW_KEYCODES[rowIndex][index]]))
+);
+KEYCODES.set(' ', 57);
+
+type Modifier = 'shift' | 'option' | 'altGr' | 'cmd' | 'ctrl';
+
+/**
+ * Builds the keydown events uiohook reports for pressing keys with modifiers held
+ * The modifier keys' own keydowns come first, as they do from the hook
+ * @param labels - Physical keys by U.S. label
+ * @param modifiers - Modifiers held while pressing them
+ * @returns The events
+ */
+function press(labels: string, ...modifiers: Modifier[]): KeystrokeEvent[] {
+  const flags = {
+    shiftKey: modifiers.includes('shift'),
+    altKey: modifiers.includes('option') || modifiers.includes('altGr'),
+    ctrlKey: modifiers.includes('ctrl') || modifiers.includes('altGr'),
+    metaKey: modifiers.includes('cmd')
+  };
+  const modifierEvents: KeystrokeEvent[] = [
+    ...(flags.shiftKey ? [{ keycode: SHIFT, shiftKey: true }] : []),
+    ...(flags.ctrlKey ? [{ keycode: CTRL, ctrlKey: true }] : []),
+    ...(flags.altKey ? [{ keycode: ALT, altKey: true }] : []),
+    ...(flags.metaKey ? [{ keycode: META, metaKey: true }] : [])
+  ];
+
+  return [
+    ...modifierEvents,
+    ...Array.from(labels).map(label => {
+      const keycode = KEYCODES.get(label);
+      if (keycode === undefined) throw new Error(`No physical key labelled ${label}`);
+      return { keycode, ...flags };
+    })
+  ];
+}
+
+/**
+ * Decodes a stream of keystrokes the way monitoring does, carrying the pending dead key along
+ * @param layout - The layout
+ * @param events - The keydown events
+ * @returns The text typed
+ */
+function typeStream(layout: KeyboardLayout, events: KeystrokeEvent[]): string {
+  let text = '';
+  let pendingDeadKey: string | null = null;
+  for (const event of events) {
+    const result = decodeKeystroke(layout, event, pendingDeadKey);
+    text += result.text || '';
+    pendingDeadKey = result.pendingDeadKey;
+  }
+  return text;
+}
+
+const layouts = new Map(getBuiltInLayouts().map(layout => [layout.id, layout]));
+
+/**
+ * Gets a built-in layout
+ * @param id - Layout ID
+ * @returns The layout
+ */
+function layout(id: string): KeyboardLayout {
+  const found = layouts.get(id);
+  if (!found) throw new Error(`No built-in layout ${id}`);
+  return found;
+}
+
+// One row per keystroke stream: the layout, what was pressed and the text it must produce
+const STREAMS: Array<{ layout: string; description: string; events: KeystrokeEvent[]; expected: string }> = [
+  // U.S.
+  { layout: 'us', description: 'plain letters and space', events: press('hi there'), expected: 'hi there' },
+  { layout: 'us', description: 'shifted letters and symbols', events: [...press('h', 'shift'), ...press('i'), ...press('1', 'shift')], expected: 'Hi!' },
+  { layout: 'us', description: 'an Option layer character', events: press('2', 'option'), expected: '™' },
+  { layout: 'us', description: 'Option+E dead key then e', events: [...press('e', 'option'), ...press('e')], expected: 'é' },
+  { layout: 'us', description: 'Option+U dead key then o', events: [...press('u', 'option'), ...press('o')], expected: 'ö' },
+  { layout: 'us', description: 'Option+N dead key then N', events: [...press('n', 'option'), ...press('n', 'shift')], expected: 'Ñ' },
+  { layout: 'us', description: 'dead key then space', events: [...press('e', 'option'), ...press(' ')], expected: '´' },
+  { layout: 'us', description: 'dead key pressed twice', events: press('ee', 'option'), expected: '´' },
+  { layout: 'us', description: 'dead key with no precomposed form', events: [...press('e', 'option'), ...press('q')], expected: '´q' },
+  { layout: 'us', description: 'a different dead key flushes the first', events: [...press('e', 'option'), ...press('u', 'option'), ...press('a')], expected: '´ä' },
+  { layout: 'us', description: 'Cmd shortcuts type nothing', events: [...press('c', 'cmd'), ...press('v', 'cmd')], expected: '' },
+  { layout: 'us', description: 'a shortcut cancels a pending dead key', events: [...press('e', 'option'), ...press('a', 'cmd'), ...press('e')], expected: 'e' },
+
+  // British
+  { layout: 'gb', description: 'shifted number row', events: press('23', 'shift'), expected: '@£' },
+  { layout: 'gb', description: 'section sign key', events: [...press('`'), ...press('`', 'shift')], expected: '§±' },
+  { layout: 'gb', description: 'Option layer hash and euro', events: press('32', 'option'), expected: '#€' },
+  { layout: 'gb', description: 'Option+U dead key then u', events: [...press('u', 'option'), ...press('u')], expected: 'ü' },
+
+  // German
+  { layout: 'de-qwertz', description: 'Y and Z swapped', events: press('yz'), expected: 'zy' },
+  { layout: 'de-qwertz', description: 'umlaut and sharp s keys', events: [...press(";'-"), ...press(';', 'shift')], expected: 'öäßÖ' },
+  { layout: 'de-qwertz', description: 'AltGr layer', events: press('l5', 'altGr'), expected: '@[' },
+  { layout: 'de-qwertz', description: 'AltGr+N tilde dead key then n', events: [...press('n', 'altGr'), ...press('n')], expected: 'ñ' },
+  { layout: 'de-qwertz', description: 'circumflex dead key then o', events: press('`o'), expected: 'ô' },
+  { layout: 'de-qwertz', description: 'acute dead key then e', events: press('=e'), expected: 'é' },
+  { layout: 'de-qwertz', description: 'shifted grave dead key then a', events: [...press('=', 'shift'), ...press('a')], expected: 'à' },
+  { layout: 'de-qwertz', description: 'Ctrl alone is not AltGr', events: press('l', 'ctrl'), expected: '' },
+
+  // French
+  { layout: 'fr-azerty', description: 'A/Q and Z/W swapped', events: press('qwaz'), expected: 'azqw' },
+  { layout: 'fr-azerty', description: 'unshifted number row symbols', events: press('1234'), expected: '&é"\'' },
+  { layout: 'fr-azerty', description: 'shifted number row digits', events: press('1234', 'shift'), expected: '1234' },
+  { layout: 'fr-azerty', description: 'circumflex dead key then e', events: press('[e'), expected: 'ê' },
+  { layout: 'fr-azerty', description: 'shifted diaeresis dead key then i', events: [...press('[', 'shift'), ...press('i')], expected: 'ï' },
+  { layout: 'fr-azerty', description: 'grave dead key then a', events: press('\\q'), expected: 'à' },
+  { layout: 'fr-azerty', description: 'circumflex with no precomposed form', events: press('[x'), expected: '^x' },
+  { layout: 'fr-azerty', description: 'AltGr braces', events: press('5-', 'altGr'), expected: '{}' },
+
+  // Dvorak and Colemak
+  { layout: 'dvorak', description: 'physical keys remapped', events: press('jdpps'), expected: 'hello' },
+  { layout: 'dvorak', description: 'shifted punctuation', events: press('qw', 'shift'), expected: '"<' },
+  { layout: 'colemak', description: 'physical keys remapped', events: press('hkuu;'), expected: 'hello' },
+  { layout: 'colemak', description: 'Colemak has no Option layer', events: press('e', 'option'), expected: '' }
+];
+
+describe('decodeKeystroke', () => {
+  it.each(STREAMS)('$layout: $description', ({ layout: id, events, expected }) => {
+    expect(typeStream(layout(id), events)).toBe(expected);
+  });
+
+  it('keeps a pending dead key across modifier keydowns', () => {
+    const us = layout('us');
+    const pending = decodeKeystroke(us, { keycode: 18, altKey: true }, null);
+    expect(pending).toEqual({ text: null, pendingDeadKey: '´' });
+    expect(decodeKeystroke(us, { keycode: SHIFT, shiftKey: true }, '´')).toEqual({ text: null, pendingDeadKey: '´' });
+    expect(decodeKeystroke(us, { keycode: 18, shiftKey: true }, '´')).toEqual({ text: 'É', pendingDeadKey: null });
+  });
+
+  it('cancels a pending dead key on keys that produce no text', () => {
+    // Backspace
+    expect(decodeKeystroke(layout('us'), { keycode: 14 }, '´')).toEqual({ text: null, pendingDeadKey: null });
+  });
+
+  it('decodes the numeric keypad the same on every layout', () => {
+    for (const builtIn of layouts.values()) {
+      expect(typeStream(builtIn, [{ keycode: 79 }, { keycode: 83 }, { keycode: 80 }])).toBe('1.2');
+    }
+  });
+});
+
+describe('loadable layouts', () => {
+  const custom = normalizeLayout({
+    id: 'custom',
+    name: 'Custom',
+    layers: {
+      base: US_KEY_ROWS,
+      shift: { '30': 'Å' },
+      option: { '18': '^' }
+    },
+    deadKeys: { option: [18] },
+    compositions: { '^': { e: 'ē' } }
+  });
+
+  it('accepts a keycode map instead of row strings', () => {
+    expect(typeStream(custom, press('a', 'shift'))).toBe('Å');
+  });
+
+  it('uses the layout\'s compositions before the default accent table', () => {
+    expect(typeStream(custom, [...press('e', 'option'), ...press('e')])).toBe('ē');
+    expect(typeStream(custom, [...press('e', 'option'), ...press('a')])).toBe('â');
+  });
+
+  it('rejects rows that don\'t match the physical row length', () => {
+    expect(() => normalizeLayout({ id: 'short', name: 'Short', layers: { base: ['abc'], shift: ['ABC'] } }))
+      .toThrow('Layout row 1 must contain 13 characters');
+  });
+
+  it('requires base and shift layers', () => {
+    expect(() => normalizeLayout({ id: 'empty', name: 'Empty', layers: { base: US_KEY_ROWS } } as never))
+      .toThrow('Keyboard layout must define an id and base/shift layers');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @file Utility for decoding uiohook-napi keystrokes into text using a keyboard layout
+ * @module keystroke-decoder
+ */
+
+import type { KeyboardLayout, KeyLayer, LayerName } from './keyboard-layouts';
+
+// Keyboard event fields needed for decoding
+export interface KeystrokeEvent {
+  keycode: number;
+  shiftKey?: boolean;
+  altKey?: boolean;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+}
+
+// Result of decoding a single keystroke
+export interface DecodeResult {
+  text: string | null;             // Characters to append to the buffer, or null if none
+  pendingDeadKey: string | null;   // Dead key waiting for the next keystroke
+}
+
+// Modifier keycodes that must not cancel a pending dead key (Shift, Ctrl, Alt, Meta, CapsLock)
+const MODIFIER_KEYCODES = [42, 54, 29, 3613, 56, 3640, 3675, 3676, 58];
+
+// Combining marks used to compose accented characters for each dead key
+const DEAD_KEY_MARKS: { [deadChar: string]: string } = {
+  '`': '\u0300',  // grave
+  '´': '\u0301',  // acute
+  '^': '\u0302',  // circumflex
+  'ˆ': '\u0302',
+  '~': '\u0303',  // tilde
+  '˜': '\u0303',
+  '¨': '\u0308',  // diaeresis
+  '˚': '\u030A',  // ring
+  'ˇ': '\u030C',  // caron
+  '¸': '\u0327'   // cedilla
+};
+
+/**
+ * Picks the active modifier layer for a keystroke
+ * Option (macOS) and AltGr (reported as Ctrl+Alt) select the option layers
+ * @param layout - The keyboard layout
+ * @param event - The keystroke event
+ * @returns The layer name and table, or null for Cmd/Ctrl shortcuts that produce no text
+ */
+function selectLayer(layout: KeyboardLayout, event: KeystrokeEvent): { name: LayerName; layer: KeyLayer } | null {
+  const isAltGr = Boolean(event.altKey && event.ctrlKey);
+
+  if (event.metaKey || (event.ctrlKey && !isAltGr)) {
+    return null;
+  }
+
+  if (event.altKey) {
+    const name: LayerName = event.shiftKey ? 'shiftOption' : 'option';
+    const layer = layout.layers[name];
+    return layer ? { name, layer } : null;
+  }
+
+  return event.shiftKey
+    ? { name: 'shift', layer: layout.layers.shift }
+    : { name: 'base', layer: layout.layers.base };
+}
+
+/**
+ * Composes a dead key with the following character
+ * @param layout - The keyboard layout (for composition overrides)
+ * @param deadChar - The pending dead key character
+ * @param character - The character typed after the dead key
+ * @returns The composed text
+ */
+function composeDeadKey(layout: KeyboardLayout, deadChar: string, character: string): string {
+  const override = layout.compositions[deadChar]?.[character];
+  if (override) return override;
+
+  // Dead key followed by space produces the accent on its own
+  if (character === ' ') return deadChar;
+
+  const mark = DEAD_KEY_MARKS[deadChar];
+  if (mark) {
+    const composed = (character + mark).normalize('NFC');
+    if (Array.from(composed).length === 1) return composed;
+  }
+
+  // No precomposed form exists - emit both characters as the OS would
+  return deadChar + character;
+}
+
+/**
+ * Decodes a keystroke into text, handling modifier layers and dead-key composition
+ * @param layout - The keyboard layout in use
+ * @param event - The keydown event from uiohook-napi
+ * @param pendingDeadKey - A dead key typed on the previous keystroke, if any
+ * @returns The produced text and the new pending dead key
+ */
+export function decodeKeystroke(
+  layout: KeyboardLayout,
+  event: KeystrokeEvent,
+  pendingDeadKey: string | null
+): DecodeResult {
+  // Modifier presses on their own keep any pending dead key alive
+  if (MODIFIER_KEYCODES.includes(event.keycode)) {
+    return { text: null, pendingDeadKey };
+  }
+
+  const selected = selectLayer(layout, event);
+  const character = selected ? selected.layer[event.keycode] : undefined;
+
+  // Shortcuts and non-printable keys produce no text and cancel a pending dead key
+  if (!selected || character === undefined) {
+    return { text: null, pendingDeadKey: null };
+  }
+
+  const isDeadKey = layout.deadKeys[selected.name]?.includes(event.keycode) || false;
+
+  if (isDeadKey) {
+    if (!pendingDeadKey) {
+      return { text: null, pendingDeadKey: character };
+    }
+    // Pressing a dead key twice emits the accent; a different dead key flushes the first one
+    return pendingDeadKey === character
+      ? { text: character, pendingDeadKey: null }
+      : { text: pendingDeadKey, pendingDeadKey: character };
+  }
+
+  if (pendingDeadKey) {
+    return { text: composeDeadKey(layout, pendingDeadKey, character), pendingDeadKey: null };
+  }
+
+  return { text: character, pendingDeadKey: null };
+}
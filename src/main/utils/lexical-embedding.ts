@@ -0,0 +1,93 @@
+/**
+ * @file Local lexical embeddings: hashed word and character n-gram vectors that need no model or network
+ * @module lexical-embedding
+ */
+
+export const LEXICAL_EMBEDDING_DIMENSIONS = 1024;
+
+// Character n-gram sizes taken from each word (with boundary markers), so typos and inflections still overlap
+const CHAR_NGRAM_SIZES = [3, 4, 5];
+
+// Weight per feature kind: whole words and word pairs carry more meaning than any single character n-gram
+const FEATURE_WEIGHTS: Record<string, number> = {
+  w: 2,   // Word
+  b: 1.5, // Word pair
+  c: 1    // Character n-gram
+};
+
+/**
+ * Normalizes text before tokenizing: lowercase, accents removed, digits folded together and
+ * punctuation turned into spaces (redaction placeholders such as `[REDACTED_EMAIL]` keep their letters)
+ * @param text - The text
+ * @returns Normalized text
+ */
+export function normalizeLexicalText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\d+/g, '0')
+    .replace(/[^\p{L}\p{N}_]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ * @param value - The string
+ * @returns Unsigned hash
+ */
+function hashFeature(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Counts the features of normalized text
+ * @param normalized - Text from normalizeLexicalText
+ * @returns Count per feature; each feature starts with its kind (`w:`, `b:` or `c:`)
+ */
+function extractFeatures(normalized: string): Map<string, number> {
+  const features = new Map<string, number>();
+  const add = (feature: string) => features.set(feature, (features.get(feature) || 0) + 1);
+  const words = normalized.split(' ').filter(Boolean);
+
+  words.forEach((word, index) => {
+    add(`w:${word}`);
+    if (index > 0) add(`b:${words[index - 1]} ${word}`);
+
+    const padded = `<${word}>`;
+    for (const size of CHAR_NGRAM_SIZES) {
+      for (let start = 0; start + size <= padded.length; start++) {
+        add(`c:${padded.slice(start, start + size)}`);
+      }
+    }
+  });
+
+  return features;
+}
+
+/**
+ * Embeds text as a hashed, L2-normalized bag of word and character n-grams
+ * Each feature is hashed into one of `dimensions` buckets with a hashed sign, so collisions tend to cancel out
+ * rather than add up. Counts are dampened (1 + log) so a word repeated many times doesn't dominate. The result
+ * is deterministic and independent of the other texts, so vectors from different runs can be compared
+ * @param text - The text to embed
+ * @param dimensions - Vector length
+ * @returns Unit-length vector (all zeros if the text has no letters or digits)
+ */
+export function embedLexical(text: string, dimensions: number = LEXICAL_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array(dimensions).fill(0);
+
+  for (const [feature, count] of extractFeatures(normalizeLexicalText(text))) {
+    const hash = hashFeature(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * FEATURE_WEIGHTS[feature[0]] * (1 + Math.log(count));
+  }
+
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return magnitude === 0 ? vector : vector.map(value => value / magnitude);
+}
@@ -0,0 +1,360 @@
+/**
+ * @file AES-256-GCM encryption of prompt log lines, data keyrings and recovery-key wrapping
+ * @module log-crypto
+ */
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+
+const CIPHER = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const LINE_VERSION = 1;
+const RECOVERY_INFO = 'dryprompt-log-recovery-v1';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// A data key used to encrypt log lines
+export interface LogDataKey {
+  id: string;
+  key: Buffer;        // 256-bit AES key
+  createdAt: string;  // ISO timestamp
+}
+
+// Every data key that can decrypt the log, and the one new lines are encrypted with
+export interface LogKeyring {
+  activeKeyId: string;
+  keys: Map<string, LogDataKey>;
+}
+
+// One encrypted log line, stored as JSON so the log stays line-oriented
+export interface EncryptedLogLine {
+  v: number;
+  kid: string;  // ID of the data key
+  iv: string;   // Base64
+  tag: string;  // Base64 GCM authentication tag
+  ct: string;   // Base64 ciphertext
+}
+
+// The keyring encrypted with a key derived from the recovery key, kept next to the log
+export interface WrappedKeyring {
+  version: number;
+  salt: string;       // Base64 HKDF salt
+  iv: string;
+  tag: string;
+  ciphertext: string;
+  createdAt: string;  // When the recovery key was exported
+}
+
+// Keyring as stored in the keychain
+interface SerializedKeyring {
+  version: number;
+  activeKeyId: string;
+  keys: Record<string, { key: string; createdAt: string }>;
+}
+
+/**
+ * Encrypts and authenticates a buffer
+ * @param key - 256-bit key
+ * @param plaintext - The data to encrypt
+ * @param aad - Additional data bound to the ciphertext
+ * @returns The IV, tag and ciphertext
+ */
+function seal(key: Buffer, plaintext: Buffer, aad: string): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+/**
+ * Decrypts a buffer sealed with `seal`
+ * @param key - 256-bit key
+ * @param iv - The IV
+ * @param tag - The authentication tag
+ * @param ciphertext - The ciphertext
+ * @param aad - The additional data used when sealing
+ * @returns The plaintext
+ * @throws Error if the key is wrong or the data was modified
+ */
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer, aad: string): Buffer {
+  const decipher = createDecipheriv(CIPHER, key, iv);
+  decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Additional data for a log line, so a line can't be passed off as encrypted under another key
+ * @param keyId - The data key ID
+ * @returns The additional data
+ */
+function lineAad(keyId: string): string {
+  return `dryprompt-log:v${LINE_VERSION}:${keyId}`;
+}
+
+/**
+ * Creates a random data key
+ * @returns The data key
+ */
+export function createDataKey(): LogDataKey {
+  return {
+    id: randomBytes(8).toString('hex'),
+    key: randomBytes(KEY_BYTES),
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Creates a keyring with a single new data key
+ * @returns The keyring
+ */
+export function createKeyring(): LogKeyring {
+  const dataKey = createDataKey();
+  return { activeKeyId: dataKey.id, keys: new Map([[dataKey.id, dataKey]]) };
+}
+
+/**
+ * Gets the key new lines are encrypted with
+ * @param keyring - The keyring
+ * @returns The active data key
+ * @throws Error if the active key is missing from the keyring
+ */
+export function getActiveKey(keyring: LogKeyring): LogDataKey {
+  const dataKey = keyring.keys.get(keyring.activeKeyId);
+  if (!dataKey) {
+    throw new Error(`Active log key ${keyring.activeKeyId} is missing from the keyring`);
+  }
+  return dataKey;
+}
+
+/**
+ * Serializes a keyring for the keychain
+ * @param keyring - The keyring
+ * @returns JSON string
+ */
+export function serializeKeyring(keyring: LogKeyring): string {
+  const serialized: SerializedKeyring = { version: 1, activeKeyId: keyring.activeKeyId, keys: {} };
+  for (const dataKey of keyring.keys.values()) {
+    serialized.keys[dataKey.id] = { key: dataKey.key.toString('base64'), createdAt: dataKey.createdAt };
+  }
+  return JSON.stringify(serialized);
+}
+
+/**
+ * Parses a keyring serialized with serializeKeyring
+ * @param data - JSON string
+ * @returns The keyring
+ * @throws Error if the data isn't a valid keyring
+ */
+export function parseKeyring(data: string): LogKeyring {
+  const parsed = JSON.parse(data) as Partial<SerializedKeyring>;
+  if (!parsed || typeof parsed.activeKeyId !== 'string' || !parsed.keys || typeof parsed.keys !== 'object') {
+    throw new Error('Stored log keyring is malformed');
+  }
+
+  const keys = new Map<string, LogDataKey>();
+  for (const [id, stored] of Object.entries(parsed.keys)) {
+    const key = Buffer.from(stored.key, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Stored log key ${id} has the wrong length`);
+    }
+    keys.set(id, { id, key, createdAt: stored.createdAt });
+  }
+
+  const keyring = { activeKeyId: parsed.activeKeyId, keys };
+  getActiveKey(keyring);
+  return keyring;
+}
+
+/**
+ * Adds keys from one keyring that are missing from another
+ * @param target - The keyring to update in place (its active key is kept)
+ * @param source - The keyring to take keys from
+ * @returns Number of keys added
+ */
+export function mergeKeyrings(target: LogKeyring, source: LogKeyring): number {
+  let added = 0;
+  for (const dataKey of source.keys.values()) {
+    if (target.keys.has(dataKey.id)) continue;
+    target.keys.set(dataKey.id, dataKey);
+    added++;
+  }
+  return added;
+}
+
+/**
+ * Checks whether a parsed log line is an encrypted one
+ * @param value - The parsed JSON value
+ * @returns Whether the value is an encrypted line
+ */
+export function isEncryptedLogLine(value: unknown): value is EncryptedLogLine {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<EncryptedLogLine>;
+  return typeof candidate.kid === 'string' &&
+    typeof candidate.iv === 'string' &&
+    typeof candidate.tag === 'string' &&
+    typeof candidate.ct === 'string';
+}
+
+/**
+ * Encrypts one log line with the keyring's active key
+ * @param plaintext - The serialized entry
+ * @param keyring - The keyring
+ * @returns The encrypted line (without a trailing newline)
+ */
+export function encryptLogLine(plaintext: string, keyring: LogKeyring): string {
+  const dataKey = getActiveKey(keyring);
+  const { iv, tag, ciphertext } = seal(dataKey.key, Buffer.from(plaintext, 'utf8'), lineAad(dataKey.id));
+  const line: EncryptedLogLine = {
+    v: LINE_VERSION,
+    kid: dataKey.id,
+    iv: iv.toString('base64'),
+    tag: tag.toString('base64'),
+    ct: ciphertext.toString('base64')
+  };
+  return JSON.stringify(line);
+}
+
+/**
+ * Decrypts one log line
+ * @param line - The encrypted line
+ * @param keyring - The keyring
+ * @returns The serialized entry, or null if the line's key isn't in the keyring
+ * @throws Error if the line fails authentication (corrupted or tampered with)
+ */
+export function decryptLogLine(line: EncryptedLogLine, keyring: LogKeyring): string | null {
+  const dataKey = keyring.keys.get(line.kid);
+  if (!dataKey) return null;
+
+  return open(
+    dataKey.key,
+    Buffer.from(line.iv, 'base64'),
+    Buffer.from(line.tag, 'base64'),
+    Buffer.from(line.ct, 'base64'),
+    lineAad(line.kid)
+  ).toString('utf8');
+}
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32
+ * @param bytes - The bytes
+ * @returns Base32 string
+ */
+function encodeBase32(bytes: Buffer): string {
+  let output = '';
+  let bits = 0;
+  let value = 0;
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+
+  return output;
+}
+
+/**
+ * Decodes unpadded base32, ignoring dashes, spaces and case
+ * @param text - Base32 string
+ * @returns The bytes
+ * @throws Error if the text contains characters outside the alphabet
+ */
+function decodeBase32(text: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of text.toUpperCase().replace(/[\s-]/g, '')) {
+    const digit = BASE32_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error('Recovery key contains invalid characters');
+    }
+    value = ((value << 5) | digit) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Creates a new recovery key for the user to keep
+ * @returns The recovery key, as dash-separated groups of four base32 characters
+ */
+export function createRecoveryKey(): string {
+  return encodeBase32(randomBytes(KEY_BYTES)).match(/.{1,4}/g)?.join('-') ?? '';
+}
+
+/**
+ * Derives the key that wraps the keyring from a recovery key
+ * @param recoveryKey - The recovery key as shown to the user
+ * @param salt - The salt stored with the wrapped keyring
+ * @returns 256-bit wrapping key
+ * @throws Error if the recovery key is malformed
+ */
+export function deriveWrappingKey(recoveryKey: string, salt: Buffer): Buffer {
+  const secret = decodeBase32(recoveryKey);
+  if (secret.length !== KEY_BYTES) {
+    throw new Error('Recovery key has the wrong length');
+  }
+  return Buffer.from(hkdfSync('sha256', secret, salt, RECOVERY_INFO, KEY_BYTES));
+}
+
+/**
+ * Creates a salt for deriving a wrapping key
+ * @returns Random salt
+ */
+export function createRecoverySalt(): Buffer {
+  return randomBytes(16);
+}
+
+/**
+ * Encrypts a keyring with a wrapping key
+ * @param keyring - The keyring
+ * @param wrappingKey - Key derived from the recovery key
+ * @param salt - The salt the wrapping key was derived with
+ * @param createdAt - When the recovery key was exported
+ * @returns The wrapped keyring
+ */
+export function wrapKeyring(keyring: LogKeyring, wrappingKey: Buffer, salt: Buffer, createdAt: string): WrappedKeyring {
+  const { iv, tag, ciphertext } = seal(wrappingKey, Buffer.from(serializeKeyring(keyring), 'utf8'), RECOVERY_INFO);
+  return {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: tag.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+    createdAt
+  };
+}
+
+/**
+ * Decrypts a wrapped keyring
+ * @param wrapped - The wrapped keyring
+ * @param wrappingKey - Key derived from the recovery key
+ * @returns The keyring
+ * @throws Error if the wrapping key doesn't match
+ */
+export function unwrapKeyring(wrapped: WrappedKeyring, wrappingKey: Buffer): LogKeyring {
+  let data: Buffer;
+  try {
+    data = open(
+      wrappingKey,
+      Buffer.from(wrapped.iv, 'base64'),
+      Buffer.from(wrapped.tag, 'base64'),
+      Buffer.from(wrapped.ciphertext, 'base64'),
+      RECOVERY_INFO
+    );
+  } catch (error) {
+    throw new Error('Recovery key does not match the saved key backup');
+  }
+  return parseKeyring(data.toString('utf8'));
+}
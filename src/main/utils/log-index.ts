@@ -0,0 +1,110 @@
+/**
+ * @file In-memory time and app index over prompt log entries for range queries
+ * @module log-index
+ */
+
+import type { LogEntry, LogQuery } from '../../common/types/log-entry';
+
+// Entry positions sorted by capture time
+interface TimeIndex {
+  times: number[];      // Sorted timestamps in milliseconds
+  positions: number[];  // Entry position in the log for each timestamp
+}
+
+// Index over one log file's entries
+export interface LogIndex {
+  all: TimeIndex;
+  byProcess: Map<string, TimeIndex>; // Keyed by lowercased process name
+}
+
+/**
+ * Finds the first slot whose time is not less than (or, with `after`, greater than) a time
+ * @param times - Sorted timestamps
+ * @param time - The time to look up
+ * @param after - Whether to skip past equal times
+ * @returns The slot index
+ */
+function findSlot(times: number[], time: number, after = false): number {
+  let low = 0;
+  let high = times.length;
+
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (times[middle] < time || (after && times[middle] === time)) low = middle + 1;
+    else high = middle;
+  }
+
+  return low;
+}
+
+/**
+ * Inserts a position into a time index, keeping it sorted (entries with equal times stay in log order)
+ * @param timeIndex - The time index to update in place
+ * @param time - The entry timestamp in milliseconds
+ * @param position - The entry position in the log
+ */
+function insertIntoTimeIndex(timeIndex: TimeIndex, time: number, position: number): void {
+  const slot = findSlot(timeIndex.times, time, true);
+  timeIndex.times.splice(slot, 0, time);
+  timeIndex.positions.splice(slot, 0, position);
+}
+
+/**
+ * Creates an empty index
+ * @returns The index
+ */
+export function createLogIndex(): LogIndex {
+  return { all: { times: [], positions: [] }, byProcess: new Map() };
+}
+
+/**
+ * Adds an entry to an index in place
+ * Appends arrive in time order, so this is usually a push; imported or replayed entries are slotted in
+ * @param index - The index to update
+ * @param entry - The log entry
+ * @param position - The entry position in the log
+ */
+export function indexLogEntry(index: LogIndex, entry: LogEntry, position: number): void {
+  const time = Date.parse(entry.timestamp);
+  if (Number.isNaN(time)) return;
+
+  insertIntoTimeIndex(index.all, time, position);
+
+  if (entry.processName) {
+    const key = entry.processName.toLowerCase();
+    const processIndex = index.byProcess.get(key) || { times: [], positions: [] };
+    insertIntoTimeIndex(processIndex, time, position);
+    index.byProcess.set(key, processIndex);
+  }
+}
+
+/**
+ * Builds an index over a list of entries
+ * @param entries - Log entries in file order
+ * @returns The index
+ */
+export function buildLogIndex(entries: LogEntry[]): LogIndex {
+  const index = createLogIndex();
+  entries.forEach((entry, position) => indexLogEntry(index, entry, position));
+  return index;
+}
+
+/**
+ * Looks up the positions of entries matching a query
+ * @param index - The index
+ * @param query - Time range, app, order and limit
+ * @returns Matching entry positions in the requested time order
+ */
+export function queryLogIndex(index: LogIndex, query: LogQuery): number[] {
+  const timeIndex = query.processName
+    ? index.byProcess.get(query.processName.toLowerCase())
+    : index.all;
+  if (!timeIndex) return [];
+
+  const start = query.from ? findSlot(timeIndex.times, Date.parse(query.from)) : 0;
+  const end = query.to ? findSlot(timeIndex.times, Date.parse(query.to)) : timeIndex.times.length;
+  const positions = timeIndex.positions.slice(start, Math.max(start, end));
+
+  if (query.order === 'desc') positions.reverse();
+  return query.limit !== undefined ? positions.slice(0, Math.max(0, query.limit)) : positions;
+}
@@ -0,0 +1,91 @@
+/**
+ * @file Projects embeddings onto their two principal components, for plotting
+ * @module pca-projection
+ */
+
+const MAX_ITERATIONS = 100;
+const CONVERGENCE = 1e-9;
+
+// Plane coordinates of each vector, with the share of the variance each axis keeps
+export interface PlaneProjection {
+  points: Array<[number, number]>;
+  explainedVariance: [number, number];
+}
+
+/**
+ * Dot product of two vectors of the same length
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns The dot product
+ */
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Finds the dominant principal component of centered rows by power iteration on XᵀX, without forming it
+ * @param rows - Centered vectors
+ * @param dimensions - Vector length
+ * @param orthogonalTo - Components already found; the result is kept orthogonal to them
+ * @returns Unit-length component (all zeros if the rows have no variance left)
+ */
+function findComponent(rows: number[][], dimensions: number, orthogonalTo: number[][]): number[] {
+  // Deterministic start that isn't orthogonal to typical data, so the same vectors always give the same plot
+  let component = Array.from({ length: dimensions }, (_, d) => 1 + (d % 7) / 7);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    for (const other of orthogonalTo) {
+      const overlap = dot(component, other);
+      component = component.map((value, d) => value - overlap * other[d]);
+    }
+
+    const next = new Array(dimensions).fill(0);
+    for (const row of rows) {
+      const projection = dot(row, component);
+      for (let d = 0; d < dimensions; d++) next[d] += projection * row[d];
+    }
+
+    const magnitude = Math.sqrt(dot(next, next));
+    if (magnitude === 0) return next;
+
+    const normalized = next.map(value => value / magnitude);
+    const change = normalized.reduce((sum, value, d) => sum + Math.abs(value - component[d]), 0);
+    component = normalized;
+    if (change < CONVERGENCE) break;
+  }
+
+  return component;
+}
+
+/**
+ * Projects vectors onto the plane of their first two principal components (PCA)
+ * Deterministic and linear, so distances between far-apart groups stay meaningful, unlike t-SNE or UMAP
+ * @param vectors - Vectors of equal length
+ * @returns Coordinates per vector and the explained variance ratio of each axis
+ */
+export function projectToPlane(vectors: number[][]): PlaneProjection {
+  if (vectors.length === 0) {
+    return { points: [], explainedVariance: [0, 0] };
+  }
+
+  const dimensions = vectors[0].length;
+  const mean = new Array(dimensions).fill(0);
+  for (const vector of vectors) {
+    vector.forEach((value, d) => { mean[d] += value / vectors.length; });
+  }
+  const rows = vectors.map(vector => vector.map((value, d) => value - mean[d]));
+
+  const first = findComponent(rows, dimensions, []);
+  const second = findComponent(rows, dimensions, [first]);
+  const points = rows.map((row): [number, number] => [dot(row, first), dot(row, second)]);
+
+  const totalVariance = rows.reduce((sum, row) => sum + dot(row, row), 0);
+  const axisVariance = (axis: 0 | 1) => points.reduce((sum, point) => sum + point[axis] * point[axis], 0);
+
+  return {
+    points,
+    explainedVariance: totalVariance === 0 ? [0, 0] : [axisVariance(0) / totalVariance, axisVariance(1) / totalVariance]
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * @file Weighted-rule classifier that decides whether captured text is a prompt and explains why
+ * @module prompt-classifier
+ */
+
+import type {
+  ClassifierRuleConfig,
+  ClassificationReason,
+  LanguagePack,
+  PromptClassification
+} from '../../common/types/prompt-classifier';
+
+// A compiled rule: returns a short explanation when it matches, or null
+export interface ClassifierRule {
+  id: string;
+  weight: number;
+  test: (text: string) => string | null;
+}
+
+// Options for a single classification
+export interface ClassifyOptions {
+  threshold: number;
+  minTextLength: number;
+}
+
+// Minimum number of distinct characters before text is considered at all
+const MIN_UNIQUE_CHARS = 4;
+
+/**
+ * Escapes a string for use inside a regular expression
+ * @param value - The literal text
+ * @returns The escaped pattern
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds a case-insensitive whole-word matcher for a list of keywords
+ * Uses Unicode letter boundaries so accented words (e.g. "añade") match correctly
+ * @param keywords - Keywords or short phrases
+ * @returns A function returning the keywords found in a text
+ */
+function createKeywordMatcher(keywords: string[]): (text: string) => string[] {
+  const patterns = Array.from(new Set(keywords.map(keyword => keyword.trim().toLowerCase()).filter(Boolean)))
+    .map(keyword => ({ keyword, pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}])`, 'iu') }));
+
+  return (text: string) => patterns.filter(({ pattern }) => pattern.test(text)).map(({ keyword }) => keyword);
+}
+
+/**
+ * Creates the built-in weighted rules for the given language packs
+ * @param packs - Active language packs
+ * @returns Array of classifier rules
+ */
+export function createBuiltInRules(packs: LanguagePack[]): ClassifierRule[] {
+  const findKeywords = createKeywordMatcher(packs.flatMap(pack => pack.keywords));
+  const verbs = Array.from(new Set(packs.flatMap(pack => pack.imperativeVerbs.map(verb => verb.toLowerCase()))));
+
+  return [
+    {
+      id: 'prompt-keyword',
+      weight: 2,
+      test: text => {
+        const found = findKeywords(text);
+        return found.length > 0 ? `contains ${found.slice(0, 3).map(word => `"${word}"`).join(', ')}` : null;
+      }
+    },
+    {
+      id: 'imperative-start',
+      weight: 2,
+      test: text => {
+        const firstWord = text.trim().split(/\s+/)[0].toLowerCase().replace(/[^\p{L}\p{N}-]/gu, '');
+        return verbs.includes(firstWord) ? `starts with instruction "${firstWord}"` : null;
+      }
+    },
+    {
+      id: 'question-ending',
+      weight: 2,
+      test: text => /[?:]$/.test(text.trim()) || /^[¿]/.test(text.trim()) ? 'phrased as a question or lead-in' : null
+    },
+    {
+      id: 'sentence-length',
+      weight: 1,
+      test: text => {
+        const words = text.trim().split(/\s+/).length;
+        return words >= 4 ? `${words} words` : null;
+      }
+    },
+    {
+      id: 'code-like',
+      weight: -2,
+      test: text => {
+        const symbols = (text.match(/[{}[\]();=<>$&|]/g) || []).length;
+        return symbols / text.length > 0.15 ? 'mostly code symbols' : null;
+      }
+    },
+    {
+      id: 'url-or-path-only',
+      weight: -3,
+      test: text => /^(https?:\/\/\S+|[~.]?\/\S+)$/.test(text.trim()) ? 'just a URL or file path' : null
+    }
+  ];
+}
+
+/**
+ * Compiles a user-defined rule
+ * @param config - The rule configuration from settings
+ * @returns The compiled rule, or null if it is disabled or invalid
+ */
+export function createCustomRule(config: ClassifierRuleConfig): ClassifierRule | null {
+  if (!config.enabled) return null;
+
+  if (config.type === 'keywords') {
+    const findKeywords = createKeywordMatcher(config.keywords || []);
+    return {
+      id: config.id,
+      weight: config.weight,
+      test: text => {
+        const found = findKeywords(text);
+        return found.length > 0 ? `${config.name}: contains "${found[0]}"` : null;
+      }
+    };
+  }
+
+  try {
+    const pattern = new RegExp(config.pattern || '', (config.flags || '').replace(/g/g, '')); // Stateless test()
+    return {
+      id: config.id,
+      weight: config.weight,
+      test: text => pattern.test(text) ? `${config.name}: matches pattern` : null
+    };
+  } catch (error) {
+    console.warn(`Skipping classifier rule "${config.name}" with invalid pattern:`, error);
+    return null;
+  }
+}
+
+/**
+ * Scores text against the rules and decides whether it is a prompt
+ * Very short or repetitive text is rejected before scoring
+ * @param text - The captured text
+ * @param rules - Compiled classifier rules
+ * @param options - Threshold and minimum length
+ * @returns The decision with its score and the reasons behind it
+ */
+export function classifyText(text: string, rules: ClassifierRule[], options: ClassifyOptions): PromptClassification {
+  const reject = (ruleId: string, description: string): PromptClassification => ({
+    accepted: false,
+    score: 0,
+    threshold: options.threshold,
+    reasons: [{ ruleId, description, weight: 0 }]
+  });
+
+  if (text.length < options.minTextLength) {
+    return reject('min-length', `shorter than ${options.minTextLength} characters`);
+  }
+
+  const uniqueChars = new Set(text.toLowerCase()).size;
+  if (uniqueChars < MIN_UNIQUE_CHARS) {
+    return reject('low-variety', `only ${uniqueChars} distinct characters`);
+  }
+
+  const reasons: ClassificationReason[] = [];
+
+  for (const rule of rules) {
+    const description = rule.test(text);
+    if (description !== null) {
+      reasons.push({ ruleId: rule.id, description, weight: rule.weight });
+    }
+  }
+
+  const score = reasons.reduce((sum, reason) => sum + reason.weight, 0);
+
+  return {
+    accepted: score >= options.threshold,
+    score,
+    threshold: options.threshold,
+    reasons
+  };
+}
+
+/**
+ * Formats a decision as a one-line explanation
+ * @param classification - The classifier decision
+ * @returns Human-readable summary of the score and reasons
+ */
+export function explainClassification(classification: PromptClassification): string {
+  const verdict = classification.accepted ? 'accepted' : 'rejected';
+  const reasons = classification.reasons
+    .map(reason => `${reason.description} (${reason.weight >= 0 ? '+' : ''}${reason.weight})`)
+    .join('; ');
+  return `${verdict}, score ${classification.score}/${classification.threshold}${reasons ? `: ${reasons}` : ''}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * @file Filtering and paging of prompt history entries for the history browser
+ * @module prompt-history
+ */
+
+import { summarizeSessions } from './capture-session';
+import type { HistoryEntry, HistoryPage, HistoryQuery } from '../../common/types/prompt-history';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Checks whether an entry passes the history filters
+ * @param entry - The history entry
+ * @param query - The filters
+ * @returns Whether the entry matches
+ */
+export function matchesHistoryQuery(entry: HistoryEntry, query: HistoryQuery): boolean {
+  if (query.processName && (entry.processName || '').toLowerCase() !== query.processName.toLowerCase()) return false;
+  if (query.sessionId && entry.sessionId !== query.sessionId) return false;
+  if (query.from && entry.timestamp < new Date(query.from).toISOString()) return false;
+  if (query.to && entry.timestamp >= new Date(query.to).toISOString()) return false;
+
+  const windowTitle = (entry.windowTitle || '').toLowerCase();
+  if (query.windowTitle && !windowTitle.includes(query.windowTitle.toLowerCase())) return false;
+
+  if (query.text) {
+    const haystack = `${entry.text.toLowerCase()}\n${windowTitle}`;
+    const terms = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.every(term => haystack.includes(term))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Filters, sorts and pages history entries
+ * @param entries - Every history entry (live log and archives)
+ * @param query - The filters and page
+ * @returns The page of matches, newest first, with the app names and sessions found in all entries
+ */
+export function buildHistoryPage(entries: HistoryEntry[], query: HistoryQuery): HistoryPage {
+  const matches = entries
+    .filter(entry => matchesHistoryQuery(entry, query))
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+  const offset = Math.max(0, query.offset || 0);
+  const limit = query.limit && query.limit > 0 ? query.limit : DEFAULT_PAGE_SIZE;
+  const processNames = [...new Set(entries.map(entry => entry.processName).filter((name): name is string => !!name))]
+    .sort((a, b) => a.localeCompare(b));
+
+  return {
+    entries: matches.slice(offset, offset + limit),
+    total: matches.length,
+    processNames,
+    sessions: summarizeSessions(entries)
+  };
+}
@@ -0,0 +1,349 @@
+/**
+ * @file Parsers that turn ChatGPT, Claude, Cursor and shell history exports into prompts, and import de-duplication
+ * @module prompt-import
+ */
+
+import type { LogEntry } from '../../common/types/log-entry';
+
+// Same text within this long of an existing entry is the same prompt seen twice, not a repeat
+const DUPLICATE_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+const MIN_SHELL_COMMAND_LENGTH = 15;
+
+// One prompt read from an export, before redaction
+export interface ImportedPrompt {
+  text: string;
+  timestamp: Date | null;     // Null when the export doesn't record when it was sent
+  processName: string;
+  windowTitle?: string;       // Conversation title, if the export has one
+  conversationId?: string;    // Groups the prompts of one conversation into a session
+}
+
+// What a parser found in an export
+export interface ImportParseResult {
+  prompts: ImportedPrompt[];
+  skipped: number;            // Empty or too short to be a prompt
+}
+
+// Texts and send times of known prompts, for de-duplicating imports
+// Repeating a prompt is exactly what analysis looks for, so the same text only counts as a duplicate when it was
+// sent within a few minutes of the known one, or has no time to compare (e.g. captured live and then imported)
+export interface DuplicateIndex {
+  times: Map<string, number[]>;  // Milliseconds per duplicate key; NaN for untimed prompts
+}
+
+// Loosely typed JSON object from an export
+type JsonObject = Record<string, unknown>;
+
+// A row of Cursor's `state.vscdb` key-value tables
+export interface CursorStateRow {
+  key: string;
+  value: string | null;
+}
+
+/**
+ * Narrows a JSON value to an object
+ * @param value - The value
+ * @returns The object, or null if the value isn't one
+ */
+function asObject(value: unknown): JsonObject | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : null;
+}
+
+/**
+ * Narrows a JSON value to a string
+ * @param value - The value
+ * @returns The string, or undefined if the value isn't a non-empty string
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Narrows a JSON value to a list of objects
+ * @param value - The value
+ * @returns The objects in the list (anything else is dropped), or an empty list
+ */
+function asObjectList(value: unknown): JsonObject[] {
+  return Array.isArray(value) ? value.map(asObject).filter((item): item is JsonObject => item !== null) : [];
+}
+
+/**
+ * Converts an export's timestamp (seconds, milliseconds or an ISO string) into a date
+ * @param value - The raw timestamp
+ * @returns The date, or null if it's missing or invalid
+ */
+export function parseImportTimestamp(value: unknown): Date | null {
+  let date: Date | null = null;
+  if (typeof value === 'number' && isFinite(value) && value > 0) {
+    date = new Date(value < 1e12 ? value * 1000 : value);
+  } else if (typeof value === 'string' && value.trim()) {
+    date = /^\d+(\.\d+)?$/.test(value.trim()) ? parseImportTimestamp(Number(value)) : new Date(value);
+  }
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * Adds a prompt to a parse result, counting it as skipped if there's no text
+ * @param result - The parse result to add to
+ * @param prompt - The prompt
+ */
+function addPrompt(result: ImportParseResult, prompt: ImportedPrompt): void {
+  if (prompt.text.trim()) result.prompts.push({ ...prompt, text: prompt.text.trim() });
+  else result.skipped++;
+}
+
+/**
+ * Reads the text parts of a ChatGPT message, leaving out images and other attachments
+ * @param content - The message's `content`
+ * @returns The text
+ */
+function getChatGptMessageText(content: unknown): string {
+  const { parts, text } = asObject(content) || {};
+  if (!Array.isArray(parts)) return asString(text) || '';
+
+  return parts
+    .map(part => asString(part) || asString(asObject(part)?.text) || '')
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Parses a ChatGPT data export (`conversations.json`), keeping the messages the user wrote
+ * @param data - The parsed JSON
+ * @returns The prompts, in conversation order
+ * @throws Error if the data isn't a list of conversations
+ */
+export function parseChatGptExport(data: unknown): ImportParseResult {
+  if (!Array.isArray(data)) {
+    throw new Error('ChatGPT export should be a list of conversations (conversations.json)');
+  }
+
+  const result: ImportParseResult = { prompts: [], skipped: 0 };
+  for (const conversation of asObjectList(data)) {
+    const mapping = asObject(conversation.mapping);
+    if (!mapping) continue;
+    const conversationTime = parseImportTimestamp(conversation.create_time);
+
+    // The mapping is a tree of message nodes (edits branch it); every user message in it is a prompt that was sent
+    const messages = Object.values(mapping)
+      .map(node => asObject(asObject(node)?.message))
+      .filter((message): message is JsonObject => !!message && asObject(message.author)?.role === 'user')
+      .sort((a, b) => (Number(a.create_time) || 0) - (Number(b.create_time) || 0));
+
+    for (const message of messages) {
+      addPrompt(result, {
+        text: getChatGptMessageText(message.content),
+        timestamp: parseImportTimestamp(message.create_time) || conversationTime,
+        processName: 'ChatGPT',
+        windowTitle: asString(conversation.title),
+        conversationId: asString(conversation.conversation_id) || asString(conversation.id)
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Parses a Claude data export (`conversations.json`), keeping the messages the user wrote
+ * @param data - The parsed JSON
+ * @returns The prompts, in conversation order
+ * @throws Error if the data isn't a list of conversations
+ */
+export function parseClaudeExport(data: unknown): ImportParseResult {
+  if (!Array.isArray(data)) {
+    throw new Error('Claude export should be a list of conversations (conversations.json)');
+  }
+
+  const result: ImportParseResult = { prompts: [], skipped: 0 };
+  for (const conversation of asObjectList(data)) {
+    const conversationTime = parseImportTimestamp(conversation.created_at);
+
+    for (const message of asObjectList(conversation.chat_messages)) {
+      if (message.sender !== 'human') continue;
+
+      // Newer exports keep the text in content blocks, older ones in `text`
+      const blockText = asObjectList(message.content)
+        .filter(block => block.type === 'text')
+        .map(block => asString(block.text))
+        .filter(Boolean)
+        .join('\n');
+
+      addPrompt(result, {
+        text: blockText || asString(message.text) || '',
+        timestamp: parseImportTimestamp(message.created_at) || conversationTime,
+        processName: 'Claude',
+        windowTitle: asString(conversation.name),
+        conversationId: asString(conversation.uuid)
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Parses rows read from Cursor's `state.vscdb`
+ * Handles the old chat panel (`workbench.panel.aichat...chatdata`), the prompt list (`aiService.prompts`),
+ * and composer conversations (`composerData:*`, with their messages inline or as `bubbleId:*` rows)
+ * @param rows - Rows from `ItemTable` and `cursorDiskKV`
+ * @returns The prompts
+ */
+export function parseCursorState(rows: CursorStateRow[]): ImportParseResult {
+  const result: ImportParseResult = { prompts: [], skipped: 0 };
+  const values = new Map<string, unknown>();
+  for (const row of rows) {
+    try {
+      if (row.value) values.set(row.key, JSON.parse(row.value));
+    } catch {
+      result.skipped++;
+    }
+  }
+
+  for (const tab of asObjectList(asObject(values.get('workbench.panel.aichat.view.aichat.chatdata'))?.tabs)) {
+    for (const bubble of asObjectList(tab.bubbles)) {
+      if (bubble.type !== 'user') continue;
+      addPrompt(result, {
+        text: asString(bubble.text) || asString(bubble.rawText) || '',
+        timestamp: parseImportTimestamp(tab.lastSendTime),
+        processName: 'Cursor',
+        windowTitle: asString(tab.chatTitle),
+        conversationId: asString(tab.tabId)
+      });
+    }
+  }
+
+  for (const [key, value] of values) {
+    const composer = key.startsWith('composerData:') ? asObject(value) : null;
+    if (!composer) continue;
+
+    // Older versions store messages inline; newer ones list headers and keep each message in its own bubble row
+    const composerId = asString(composer.composerId) || key.slice('composerData:'.length);
+    const messages = Array.isArray(composer.conversation)
+      ? asObjectList(composer.conversation)
+      : asObjectList(asObjectList(composer.fullConversationHeadersOnly)
+        .map(header => values.get(`bubbleId:${composerId}:${asString(header.bubbleId)}`)));
+
+    for (const message of messages) {
+      if (message.type !== 1) continue; // 1 is a user message, 2 the assistant
+      addPrompt(result, {
+        text: asString(message.text) || '',
+        timestamp: parseImportTimestamp(message.createdAt) || parseImportTimestamp(composer.createdAt),
+        processName: 'Cursor',
+        windowTitle: asString(composer.name),
+        conversationId: composerId
+      });
+    }
+  }
+
+  // The prompt list repeats prompts from the conversations above without times, so it only adds ones they don't have
+  const known = new Set(result.prompts.map(prompt => prompt.text));
+  for (const item of asObjectList(values.get('aiService.prompts'))) {
+    const text = (asString(item.text) || '').trim();
+    if (known.has(text)) continue;
+    known.add(text);
+    addPrompt(result, { text, timestamp: null, processName: 'Cursor' });
+  }
+
+  return result;
+}
+
+/**
+ * Parses a shell history file in zsh extended, bash (with or without `#<time>` lines) or fish format
+ * Short commands (`ls`, `cd ..`) are skipped; what's left is usually the long, repeated commands worth a shortcut
+ * @param content - The history file contents
+ * @param shell - Name recorded as the entry's app, e.g. `zsh`
+ * @returns The commands, in file order
+ */
+export function parseShellHistory(content: string, shell: string): ImportParseResult {
+  const result: ImportParseResult = { prompts: [], skipped: 0 };
+  const add = (text: string, timestamp: Date | null): void => {
+    if (text.trim().length < MIN_SHELL_COMMAND_LENGTH) result.skipped++;
+    else addPrompt(result, { text, timestamp, processName: shell });
+  };
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+  // fish: `- cmd: <command>` followed by `  when: <seconds>`
+  if (lines.some(line => line.startsWith('- cmd: '))) {
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].startsWith('- cmd: ')) continue;
+      const when = lines[i + 1] && lines[i + 1].match(/^\s+when:\s*(\d+)/);
+      const command = lines[i].slice('- cmd: '.length).replace(/\\n/g, '\n').replace(/\\\\/g, '\\');
+      add(command, when ? parseImportTimestamp(Number(when[1])) : null);
+    }
+    return result;
+  }
+
+  let timestamp: Date | null = null;
+  let pending: string | null = null;
+  for (const line of lines) {
+    // A trailing backslash continues a multi-line command; it's kept, as it's part of what was typed
+    if (pending !== null) {
+      pending += `\n${line}`;
+    } else {
+      const extended = line.match(/^: (\d+):\d+;(.*)$/); // zsh EXTENDED_HISTORY
+      const bashTime = line.match(/^#(\d{9,})$/);        // bash HISTTIMEFORMAT
+      if (bashTime) {
+        timestamp = parseImportTimestamp(Number(bashTime[1]));
+        continue;
+      }
+      if (extended) timestamp = parseImportTimestamp(Number(extended[1]));
+      pending = extended ? extended[2] : line;
+    }
+
+    if (pending.endsWith('\\')) continue;
+    if (pending.trim()) add(pending, timestamp);
+    pending = null;
+    timestamp = null;
+  }
+  if (pending !== null && pending.trim()) add(pending, timestamp);
+
+  return result;
+}
+
+/**
+ * Key under which two prompts count as the same text (case and whitespace are ignored)
+ * @param text - Redacted prompt text
+ * @returns The key
+ */
+export function getDuplicateKey(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Builds a duplicate index from existing entries
+ * @param entries - Entries already in the log and archives
+ * @returns The index
+ */
+export function buildDuplicateIndex(entries: LogEntry[]): DuplicateIndex {
+  const index: DuplicateIndex = { times: new Map() };
+  for (const entry of entries) {
+    if (entry.text) addToDuplicateIndex(index, entry.text, new Date(entry.timestamp).getTime());
+  }
+  return index;
+}
+
+/**
+ * Records a prompt in a duplicate index
+ * @param index - The index
+ * @param text - Redacted prompt text
+ * @param time - When it was sent, or NaN if unknown
+ */
+export function addToDuplicateIndex(index: DuplicateIndex, text: string, time: number): void {
+  const key = getDuplicateKey(text);
+  const times = index.times.get(key);
+  if (times) times.push(time);
+  else index.times.set(key, [time]);
+}
+
+/**
+ * Checks whether a prompt is already in a duplicate index
+ * @param index - The index
+ * @param text - Redacted prompt text
+ * @param time - When it was sent, or NaN if unknown
+ * @returns Whether the prompt is a duplicate
+ */
+export function isDuplicatePrompt(index: DuplicateIndex, text: string, time: number): boolean {
+  const times = index.times.get(getDuplicateKey(text));
+  if (!times) return false;
+  if (isNaN(time)) return true;
+  return times.some(known => isNaN(known) || Math.abs(known - time) <= DUPLICATE_WINDOW_MS);
+}
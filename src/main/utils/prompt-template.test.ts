@@ -0,0 +1,126 @@
+/**
+ * @file Tests for finding the variable parts of similar prompts and filling templates in per export target
+ * @module prompt-template.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { fillTemplate, findVariableParts, getTemplatePlaceholderNames } from './prompt-template';
+import type { TemplateExportTarget, TemplatePlaceholder } from '../../common/types/prompt-template';
+
+// One row per cluster of prompts: the placeholders they must give
+const CLUSTERS: Array<{ description: string; texts: string[]; expected: TemplatePlaceholder[] }> = [
+  {
+    description: 'function names in backticks',
+    texts: ['explain `parseConfig`', 'explain `loadUser`'],
+    expected: [{ name: 'function', values: ['parseConfig', 'loadUser'] }]
+  },
+  {
+    description: 'calls and camelCase identifiers',
+    texts: ['Why does fetchUser() return null', 'Why does saveOrder() return null', 'Why does retryCount stay at zero'],
+    expected: [{ name: 'function', values: ['fetchUser', 'saveOrder', 'retryCount'] }]
+  },
+  {
+    description: 'file paths',
+    texts: ['Fix the lint warnings in src/config.ts', 'Fix the lint warnings in src/user.ts'],
+    expected: [{ name: 'file', values: ['src/config.ts', 'src/user.ts'] }]
+  },
+  {
+    description: 'a file in backticks is a file, not a function',
+    texts: ['Review `parser.ts` for bugs', 'Review `lexer.ts` for bugs'],
+    expected: [{ name: 'file', values: ['parser.ts', 'lexer.ts'] }]
+  },
+  {
+    description: 'error messages after a colon',
+    texts: ['Why do I get TypeError: x is undefined', 'Why do I get TypeError: cannot read length'],
+    expected: [{ name: 'error', values: ['x is undefined', 'cannot read length'] }]
+  },
+  {
+    description: 'quoted error messages',
+    texts: ['Fix the error "connection refused"', 'Fix the error "timed out"'],
+    expected: [{ name: 'error', values: ['connection refused', 'timed out'] }]
+  },
+  {
+    description: 'other quoted values',
+    texts: ['Translate "good morning" into French', 'Translate "thank you" into French'],
+    expected: [{ name: 'value', values: ['good morning', 'thank you'] }]
+  },
+  {
+    description: 'several kinds of detail at once',
+    texts: ['Add tests for `parseConfig` in config.ts', 'Add tests for `loadUser` in users.ts'],
+    expected: [
+      { name: 'file', values: ['config.ts', 'users.ts'] },
+      { name: 'function', values: ['parseConfig', 'loadUser'] }
+    ]
+  },
+  {
+    description: 'values ordered by how often they were seen',
+    texts: ['explain `loadUser`', 'explain `parseConfig`', 'explain `parseConfig`', 'explain `saveUser`'],
+    expected: [{ name: 'function', values: ['parseConfig', 'loadUser', 'saveUser'] }]
+  },
+  {
+    description: 'at most five values kept',
+    texts: ['a', 'b', 'c', 'd', 'e', 'f'].map(suffix => `explain \`load${suffix.toUpperCase()}\``),
+    expected: [{ name: 'function', values: ['loadA', 'loadB', 'loadC', 'loadD', 'loadE'] }]
+  },
+  {
+    description: 'a detail every prompt shares stays fixed text',
+    texts: ['explain `parseConfig` briefly', 'explain `parseConfig` in depth'],
+    expected: []
+  },
+  {
+    description: 'a detail fewer than half of the prompts mention is ignored',
+    texts: ['explain `parseConfig`', 'explain `loadUser`', 'what is a monad', 'what is a functor', 'summarize this thread'],
+    expected: []
+  },
+  {
+    description: 'a single prompt has nothing to compare with',
+    texts: ['explain `parseConfig`'],
+    expected: []
+  },
+  {
+    description: 'prompts without details',
+    texts: ['summarize this thread', 'summarize this email'],
+    expected: []
+  }
+];
+
+describe('findVariableParts', () => {
+  it.each(CLUSTERS)('$description', ({ texts, expected }) => {
+    expect(findVariableParts(texts)).toEqual(expected);
+  });
+});
+
+describe('getTemplatePlaceholderNames', () => {
+  it('lists each placeholder once, in order of first use', () => {
+    expect(getTemplatePlaceholderNames('Compare {file} with {other_file}, then fix {file}')).toEqual(['file', 'other_file']);
+  });
+
+  it('ignores braces that aren\'t placeholder names', () => {
+    expect(getTemplatePlaceholderNames('Return {} or {Name} or { file } or {1st}')).toEqual([]);
+  });
+});
+
+const TEMPLATE = 'Explain how {function} works in {file}';
+
+// One row per template, values and export target: the filled text and the placeholders still missing
+const FILLS: Array<{ description: string; template: string; values: Record<string, string>; target: TemplateExportTarget; text: string; missing: string[] }> = [
+  { description: 'every placeholder filled', template: TEMPLATE, values: { function: 'parseConfig', file: 'config.ts' }, target: 'text-replacement', text: 'Explain how parseConfig works in config.ts', missing: [] },
+  { description: 'every placeholder filled', template: TEMPLATE, values: { function: 'parseConfig', file: 'config.ts' }, target: 'clipboard', text: 'Explain how parseConfig works in config.ts', missing: [] },
+  { description: 'one placeholder without a value', template: TEMPLATE, values: { function: 'parseConfig' }, target: 'text-replacement', text: 'Explain how parseConfig works in {file}', missing: ['file'] },
+  { description: 'one placeholder without a value', template: TEMPLATE, values: { function: 'parseConfig' }, target: 'clipboard', text: 'Explain how parseConfig works in {file}', missing: [] },
+  { description: 'no values at all', template: TEMPLATE, values: {}, target: 'text-replacement', text: TEMPLATE, missing: ['function', 'file'] },
+  { description: 'no values at all', template: TEMPLATE, values: {}, target: 'clipboard', text: TEMPLATE, missing: [] },
+  { description: 'blank values count as missing', template: TEMPLATE, values: { function: '  ', file: '' }, target: 'text-replacement', text: TEMPLATE, missing: ['function', 'file'] },
+  { description: 'values are trimmed', template: TEMPLATE, values: { function: ' loadUser ', file: 'users.ts\n' }, target: 'clipboard', text: 'Explain how loadUser works in users.ts', missing: [] },
+  { description: 'a repeated placeholder is filled everywhere', template: 'Rename {name} and every use of {name}', values: { name: 'userId' }, target: 'text-replacement', text: 'Rename userId and every use of userId', missing: [] },
+  { description: 'values for unknown placeholders are ignored', template: 'Summarize this thread', values: { file: 'config.ts' }, target: 'text-replacement', text: 'Summarize this thread', missing: [] }
+];
+
+describe('fillTemplate', () => {
+  it.each(FILLS)('$target: $description', ({ template, values, target, text, missing }) => {
+    const filled = fillTemplate(template, values, target);
+    expect(filled.text).toBe(text);
+    expect(filled.missing).toEqual(missing);
+    expect(filled.placeholders).toEqual(getTemplatePlaceholderNames(template));
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @file Parameterized templates: finding the parts that vary between similar prompts and filling placeholders in
+ * @module prompt-template
+ */
+
+import type { FilledTemplate, TemplateExportTarget, TemplatePlaceholder } from '../../common/types/prompt-template';
+
+// `{name}`: lowercase letters, digits and underscores, starting with a letter
+const PLACEHOLDER_PATTERN = /\{([a-z][a-z0-9_]{0,30})\}/g;
+
+const MAX_VALUES = 5; // Seen values kept per placeholder
+
+// Kinds of detail that typically vary between otherwise identical prompts, tried in this order; a value
+// claimed by an earlier kind isn't counted again (a file name in backticks is a file, not a function)
+const VARIABLE_PARTS: Array<{ name: string; pattern: RegExp }> = [
+  // Error messages: quoted after "error" or "exception" (TypeError etc. too), or the rest of the line after a colon
+  { name: 'error', pattern: /\b\w*(?:error|exception)\b(?::\s*|\s+)["'`]([^"'`\n]{4,120})["'`]|\b\w*(?:error|exception):\s*([^\n]{4,120})/i },
+  // File names and paths with an extension
+  { name: 'file', pattern: /(?:^|[\s`'"(])((?:[\w.-]+\/)*[\w-]+\.[a-z][a-z0-9]{0,4})(?=$|[\s`'"),:;?!]|\.\s)/i },
+  // Code identifiers: in backticks, called with (), or camelCase/snake_case
+  { name: 'function', pattern: /`([A-Za-z_$][\w$.]*)(?:\(\))?`|\b([A-Za-z_$][\w$]*)\(\)|\b([a-z]+[A-Z][\w$]*|[a-z]+_[a-z0-9_]+)\b/ },
+  // Anything else in quotes
+  { name: 'value', pattern: /["“]([^"”\n]{2,60})["”]/ }
+];
+
+/**
+ * Lists the placeholders of a template
+ * @param template - Replacement text with `{name}` placeholders
+ * @returns Placeholder names in order of first use, without duplicates
+ */
+export function getTemplatePlaceholderNames(template: string): string[] {
+  return [...new Set([...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Finds the details that vary between similar prompts, such as the file, function or error message they mention
+ * A kind of detail counts when at least half of the prompts (and at least two) mention one, with at least two
+ * different values between them; otherwise the prompts share it and it belongs in the fixed text
+ * @param texts - The cluster's prompts
+ * @returns A placeholder per varying kind of detail, with the values seen
+ */
+export function findVariableParts(texts: string[]): TemplatePlaceholder[] {
+  const counts = VARIABLE_PARTS.map(() => new Map<string, number>());
+  const mentions = VARIABLE_PARTS.map(() => 0);
+
+  for (const text of texts) {
+    const claimed = new Set<string>();
+    VARIABLE_PARTS.forEach(({ pattern }, kind) => {
+      const match = text.match(pattern);
+      const value = match?.slice(1).find(group => group !== undefined)?.trim();
+      if (!value || claimed.has(value)) return;
+
+      claimed.add(value);
+      mentions[kind]++;
+      counts[kind].set(value, (counts[kind].get(value) || 0) + 1);
+    });
+  }
+
+  return VARIABLE_PARTS
+    .map(({ name }, kind) => ({
+      name,
+      mentions: mentions[kind],
+      values: [...counts[kind].entries()].sort((a, b) => b[1] - a[1]).map(([value]) => value)
+    }))
+    .filter(part => part.mentions >= Math.max(2, texts.length / 2) && part.values.length >= 2)
+    .map(({ name, values }) => ({ name, values: values.slice(0, MAX_VALUES) }));
+}
+
+/**
+ * Fills a template in for an export target
+ * @param template - Replacement text with `{name}` placeholders
+ * @param values - Value per placeholder name (blank values count as missing)
+ * @param target - Where the text goes
+ * @returns The filled text, the template's placeholders and any the target still needs a value for
+ */
+export function fillTemplate(template: string, values: Record<string, string>, target: TemplateExportTarget): FilledTemplate {
+  const placeholders = getTemplatePlaceholderNames(template);
+  const valueOf = (name: string) => (values[name] || '').trim();
+  const unfilled = placeholders.filter(name => !valueOf(name));
+
+  return {
+    text: template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => valueOf(name) || placeholder),
+    placeholders,
+    missing: target === 'text-replacement' ? unfilled : []
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * @file Utility for detecting secrets and PII in text and replacing them with typed placeholders
+ * @module redaction
+ */
+
+import { isIPv6 } from 'net';
+import type { RedactionCounts } from '../../common/types/redaction';
+
+// A compiled detector: every match of the pattern (that passes validation) becomes the placeholder
+export interface RedactionDetector {
+  type: string;
+  placeholder: string;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+// Result of redacting a piece of text
+export interface RedactionResult {
+  text: string;
+  counts: RedactionCounts;
+}
+
+/**
+ * Checks a candidate card number with the Luhn checksum
+ * @param match - The matched digits, possibly separated by spaces or dashes
+ * @returns Whether the number passes the checksum
+ */
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Checks an IP address candidate. IPv4 matches are exact already; IPv6 candidates (which also
+ * catch times and MAC addresses) must parse as an address, e.g. fe80::1 or ::ffff:192.0.2.1
+ * @param match - The matched address
+ * @returns Whether the match is an IP address
+ */
+function isIpAddress(match: string): boolean {
+  return !match.includes(':') || (isIPv6(match) && /[0-9a-f]/i.test(match));
+}
+
+// An IPv4 address, shared by the plain and the IPv4-mapped IPv6 forms
+const IPV4 = '(?:(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\.){3}(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)';
+
+// Built-in detectors, most specific first so broader patterns don't split a token
+const BUILT_IN_DETECTORS: RedactionDetector[] = [
+  {
+    type: 'jwt',
+    placeholder: '[REDACTED_JWT]',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g
+  },
+  {
+    type: 'api-key',
+    placeholder: '[REDACTED_API_KEY]',
+    pattern: /\bsk-[A-Za-z0-9_-]{20,}/g // OpenAI (sk-, sk-proj-) and Anthropic (sk-ant-) style keys
+  },
+  {
+    type: 'aws-access-key',
+    placeholder: '[REDACTED_AWS_KEY]',
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[A-Z0-9]{16}\b/g
+  },
+  {
+    type: 'aws-secret-key',
+    placeholder: '[REDACTED_AWS_SECRET]',
+    pattern: /(?<=aws_secret_access_key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi
+  },
+  {
+    type: 'email',
+    placeholder: '[REDACTED_EMAIL]',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+  },
+  {
+    type: 'credit-card',
+    placeholder: '[REDACTED_CARD]',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: passesLuhn
+  },
+  {
+    type: 'ip-address',
+    placeholder: '[REDACTED_IP]',
+    pattern: new RegExp(`\\b${IPV4}\\b|(?<![0-9a-z:])(?:[0-9a-f]{0,4}:){2,7}(?:${IPV4}|[0-9a-f]{0,4})(?![0-9a-z:])`, 'gi'),
+    validate: isIpAddress
+  }
+];
+
+/**
+ * Gets the built-in detectors
+ * @returns Array of built-in redaction detectors
+ */
+export function getBuiltInDetectors(): RedactionDetector[] {
+  return BUILT_IN_DETECTORS;
+}
+
+/**
+ * Builds the placeholder for a custom rule from its name
+ * @param name - The rule name
+ * @returns A placeholder such as [REDACTED_TICKET_ID]
+ */
+export function buildPlaceholder(name: string): string {
+  const label = name.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return `[REDACTED_${label || 'CUSTOM'}]`;
+}
+
+/**
+ * Replaces every detector match in the text with its placeholder
+ * @param text - The text to redact
+ * @param detectors - Detectors to apply, in order
+ * @returns The redacted text and per-type counts
+ */
+export function redactText(text: string, detectors: RedactionDetector[]): RedactionResult {
+  const counts: RedactionCounts = {};
+  let redacted = text;
+
+  for (const detector of detectors) {
+    detector.pattern.lastIndex = 0;
+    redacted = redacted.replace(detector.pattern, match => {
+      if (!match || (detector.validate && !detector.validate(match))) return match;
+      counts[detector.type] = (counts[detector.type] || 0) + 1;
+      return detector.placeholder;
+    });
+  }
+
+  return { text: redacted, counts };
+}
+
+/**
+ * Adds one set of redaction counts into another
+ * @param total - The running totals
+ * @param counts - Counts to add
+ * @returns The combined counts
+ */
+export function mergeRedactionCounts(total: RedactionCounts, counts: RedactionCounts): RedactionCounts {
+  const merged = { ...total };
+  for (const [type, count] of Object.entries(counts)) {
+    merged[type] = (merged[type] || 0) + count;
+  }
+  return merged;
+}
+
+/**
+ * Sums all redaction counts
+ * @param counts - Per-type counts
+ * @returns Total number of redactions
+ */
+export function countRedactions(counts: RedactionCounts): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
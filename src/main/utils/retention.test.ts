@@ -0,0 +1,185 @@
+/**
+ * @file Tests for the retention rules: age cutoffs, text-only purges, archive counts and the size budget
+ * @module retention.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  applyEntryRetention,
+  getEntryAgeTime,
+  getRetentionCutoff,
+  selectArchivesToDelete,
+  stripEntryText,
+  validateRetentionSettings,
+  RetainedArchive
+} from './retention';
+import type { LogEntry } from '../../common/types/log-entry';
+import type { RetentionSettings } from '../../common/types/retention';
+
+const NOW = new Date(Date.UTC(2025, 5, 30, 12, 0, 0));
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+// Every limit switched off; each test turns on the ones it checks
+const NO_LIMITS: RetentionSettings = {
+  enabled: true,
+  maxAgeDays: null,
+  maxTotalSizeMb: null,
+  textMaxAgeDays: null,
+  maxArchives: null,
+  intervalHours: 24
+};
+
+/**
+ * Builds a log entry captured some days before NOW
+ * @param daysAgo - Age of the entry
+ * @param fields - Extra fields
+ * @returns The entry
+ */
+function entryFrom(daysAgo: number, fields: Partial<LogEntry> = {}): LogEntry {
+  return {
+    timestamp: new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString(),
+    text: `Prompt from ${daysAgo} days ago`,
+    windowTitle: 'parser.ts — dry-prompt',
+    processName: 'Cursor',
+    keystrokeCount: 42,
+    ...fields
+  };
+}
+
+/**
+ * Builds an archive created some days before NOW
+ * @param daysAgo - Age of the archive
+ * @param sizeMb - Size in megabytes
+ * @returns The archive
+ */
+function archiveFrom(daysAgo: number, sizeMb: number): RetainedArchive {
+  return { filename: `archive-${daysAgo}d.jsonl`, size: sizeMb * MB, created: new Date(NOW.getTime() - daysAgo * DAY_MS) };
+}
+
+describe('getRetentionCutoff', () => {
+  it('subtracts the age limit from now', () => {
+    expect(getRetentionCutoff(30, NOW)).toBe(NOW.getTime() - 30 * DAY_MS);
+  });
+
+  it('has no cutoff when the limit is off', () => {
+    expect(getRetentionCutoff(null, NOW)).toBeNull();
+  });
+});
+
+describe('applyEntryRetention', () => {
+  // One row per entry age and settings: what happens to the entry
+  const AGES: Array<{ description: string; entry: LogEntry; settings: Partial<RetentionSettings>; outcome: 'kept' | 'deleted' | 'stripped' }> = [
+    { description: 'younger than the age limit', entry: entryFrom(89), settings: { maxAgeDays: 90 }, outcome: 'kept' },
+    { description: 'exactly at the age limit', entry: entryFrom(90), settings: { maxAgeDays: 90 }, outcome: 'kept' },
+    { description: 'older than the age limit', entry: entryFrom(91), settings: { maxAgeDays: 90 }, outcome: 'deleted' },
+    { description: 'any age without limits', entry: entryFrom(5000), settings: {}, outcome: 'kept' },
+    { description: 'older than the text age only', entry: entryFrom(40), settings: { maxAgeDays: 90, textMaxAgeDays: 30 }, outcome: 'stripped' },
+    { description: 'older than both limits', entry: entryFrom(100), settings: { maxAgeDays: 90, textMaxAgeDays: 30 }, outcome: 'deleted' },
+    { description: 'younger than the text age', entry: entryFrom(10), settings: { textMaxAgeDays: 30 }, outcome: 'kept' },
+    {
+      description: 'imported long ago but sent longer ago',
+      entry: entryFrom(400, { source: 'import', importedAt: new Date(NOW.getTime() - 10 * DAY_MS).toISOString() }),
+      settings: { maxAgeDays: 90, textMaxAgeDays: 30 },
+      outcome: 'kept'
+    },
+    {
+      description: 'imported before the age limit',
+      entry: entryFrom(400, { source: 'import', importedAt: new Date(NOW.getTime() - 100 * DAY_MS).toISOString() }),
+      settings: { maxAgeDays: 90 },
+      outcome: 'deleted'
+    }
+  ];
+
+  it.each(AGES)('$description: $outcome', ({ entry, settings, outcome }) => {
+    const result = applyEntryRetention([entry], { ...NO_LIMITS, ...settings }, NOW);
+
+    expect(result.deleted).toBe(outcome === 'deleted' ? 1 : 0);
+    expect(result.stripped).toBe(outcome === 'stripped' ? 1 : 0);
+    expect(result.entries).toEqual(
+      outcome === 'deleted' ? [] : [outcome === 'stripped' ? stripEntryText(entry, NOW) : entry]
+    );
+  });
+
+  it('keeps the order of the remaining entries', () => {
+    const entries = [entryFrom(120), entryFrom(60), entryFrom(20), entryFrom(1)];
+    const result = applyEntryRetention(entries, { ...NO_LIMITS, maxAgeDays: 90, textMaxAgeDays: 30 }, NOW);
+
+    expect(result.entries.map(entry => entry.timestamp)).toEqual(entries.slice(1).map(entry => entry.timestamp));
+    expect(result).toMatchObject({ deleted: 1, stripped: 1 });
+  });
+
+  it('doesn\'t count an entry whose text is already gone as stripped again', () => {
+    const purged = stripEntryText(entryFrom(40), new Date(NOW.getTime() - 5 * DAY_MS));
+    const result = applyEntryRetention([purged], { ...NO_LIMITS, textMaxAgeDays: 30 }, NOW);
+
+    expect(result.stripped).toBe(0);
+    expect(result.entries).toEqual([purged]);
+  });
+});
+
+describe('stripEntryText', () => {
+  it('deletes the text and window title but keeps the time, app and stats', () => {
+    const entry = entryFrom(40, { classification: { accepted: true, score: 3, threshold: 2, reasons: [] } });
+    const stripped = stripEntryText(entry, NOW);
+
+    expect(stripped).toEqual({
+      ...entry,
+      text: '',
+      windowTitle: undefined,
+      textPurgedAt: NOW.toISOString()
+    });
+  });
+
+  it('keeps the first purge time', () => {
+    const stripped = stripEntryText(entryFrom(40), NOW);
+    expect(stripEntryText(stripped, new Date(NOW.getTime() + DAY_MS))).toBe(stripped);
+  });
+});
+
+describe('getEntryAgeTime', () => {
+  it('ages captured entries from their timestamp and imported ones from their import', () => {
+    const captured = entryFrom(3);
+    const imported = entryFrom(400, { importedAt: NOW.toISOString() });
+
+    expect(getEntryAgeTime(captured)).toBe(NOW.getTime() - 3 * DAY_MS);
+    expect(getEntryAgeTime(imported)).toBe(NOW.getTime());
+  });
+});
+
+describe('selectArchivesToDelete', () => {
+  const ARCHIVES = [archiveFrom(10, 20), archiveFrom(40, 30), archiveFrom(25, 10), archiveFrom(70, 5)];
+
+  // One row per limit: the archives that must go, oldest first
+  const LIMITS: Array<{ description: string; settings: Partial<RetentionSettings>; activeLogMb: number; expected: string[] }> = [
+    { description: 'no limits', settings: {}, activeLogMb: 50, expected: [] },
+    { description: 'within the size budget', settings: { maxTotalSizeMb: 100 }, activeLogMb: 35, expected: [] },
+    { description: 'over the size budget by the oldest archive', settings: { maxTotalSizeMb: 100 }, activeLogMb: 40, expected: ['archive-70d.jsonl'] },
+    { description: 'over the size budget by several archives', settings: { maxTotalSizeMb: 50 }, activeLogMb: 10, expected: ['archive-70d.jsonl', 'archive-40d.jsonl'] },
+    { description: 'a live log larger than the budget on its own', settings: { maxTotalSizeMb: 10 }, activeLogMb: 15, expected: ['archive-70d.jsonl', 'archive-40d.jsonl', 'archive-25d.jsonl', 'archive-10d.jsonl'] },
+    { description: 'over the archive count', settings: { maxArchives: 2 }, activeLogMb: 0, expected: ['archive-70d.jsonl', 'archive-40d.jsonl'] },
+    { description: 'at the archive count', settings: { maxArchives: 4 }, activeLogMb: 0, expected: [] },
+    { description: 'count and size together', settings: { maxArchives: 3, maxTotalSizeMb: 45 }, activeLogMb: 0, expected: ['archive-70d.jsonl', 'archive-40d.jsonl'] }
+  ];
+
+  it.each(LIMITS)('$description', ({ settings, activeLogMb, expected }) => {
+    expect(selectArchivesToDelete(ARCHIVES, { ...NO_LIMITS, ...settings }, activeLogMb * MB)).toEqual(expected);
+  });
+});
+
+describe('validateRetentionSettings', () => {
+  const CASES: Array<{ settings: Partial<RetentionSettings>; error: string | null }> = [
+    { settings: { maxAgeDays: 90, maxTotalSizeMb: 100 }, error: null },
+    { settings: { maxAgeDays: 90, textMaxAgeDays: 30, maxArchives: 5 }, error: null },
+    { settings: { maxAgeDays: 0 }, error: 'Maximum age must be a positive number or left empty' },
+    { settings: { maxTotalSizeMb: -1 }, error: 'Maximum size must be a positive number or left empty' },
+    { settings: { textMaxAgeDays: Infinity }, error: 'Text age must be a positive number or left empty' },
+    { settings: { maxArchives: 2.5 }, error: 'Maximum archives must be a whole number' },
+    { settings: { intervalHours: 0.5 }, error: 'Retention interval must be at least 1 hour' },
+    { settings: { maxAgeDays: 30, textMaxAgeDays: 30 }, error: 'Text age must be shorter than the maximum age, or entries are deleted before their text is' }
+  ];
+
+  it.each(CASES)('$settings -> $error', ({ settings, error }) => {
+    expect(validateRetentionSettings({ ...NO_LIMITS, ...settings })).toBe(error);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @file Retention rules for prompt log entries and archives: age limits, text stripping and size limits
+ * @module retention
+ */
+
+import type { LogEntry } from '../../common/types/log-entry';
+import type { RetentionSettings } from '../../common/types/retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Entries left after applying retention to one log file
+export interface EntryRetentionResult {
+  entries: LogEntry[];
+  deleted: number;
+  stripped: number;
+}
+
+// The parts of an archive retention needs to pick archives to delete
+export interface RetainedArchive {
+  filename: string;
+  size: number;
+  created: Date;
+}
+
+/**
+ * Gets the time an entry ages from
+ * Imported entries keep their original timestamp for display, but count as new from the day they were imported
+ * @param entry - The entry
+ * @returns Time in milliseconds
+ */
+export function getEntryAgeTime(entry: LogEntry): number {
+  return new Date(entry.importedAt || entry.timestamp).getTime();
+}
+
+/**
+ * Converts an age limit into a cutoff time
+ * @param days - The age limit in days, or null if it's switched off
+ * @param now - The current time
+ * @returns Cutoff in milliseconds (anything older is affected), or null
+ */
+export function getRetentionCutoff(days: number | null, now: Date): number | null {
+  return days === null ? null : now.getTime() - days * DAY_MS;
+}
+
+/**
+ * Deletes the captured text of an entry, keeping its time, app, classification and capture stats
+ * @param entry - The entry
+ * @param now - The current time
+ * @returns The stripped entry
+ */
+export function stripEntryText(entry: LogEntry, now: Date): LogEntry {
+  if (entry.textPurgedAt) return entry;
+  return { ...entry, text: '', windowTitle: undefined, textPurgedAt: now.toISOString() };
+}
+
+/**
+ * Applies the age limits to the entries of one log file
+ * @param entries - The entries, in file order
+ * @param settings - The retention settings
+ * @param now - The current time
+ * @returns The remaining entries and what was deleted or stripped
+ */
+export function applyEntryRetention(entries: LogEntry[], settings: RetentionSettings, now: Date): EntryRetentionResult {
+  const deleteBefore = getRetentionCutoff(settings.maxAgeDays, now);
+  const stripBefore = getRetentionCutoff(settings.textMaxAgeDays, now);
+  const result: EntryRetentionResult = { entries: [], deleted: 0, stripped: 0 };
+
+  for (const entry of entries) {
+    const time = getEntryAgeTime(entry);
+
+    if (deleteBefore !== null && time < deleteBefore) {
+      result.deleted++;
+    } else if (stripBefore !== null && time < stripBefore && !entry.textPurgedAt) {
+      result.entries.push(stripEntryText(entry, now));
+      result.stripped++;
+    } else {
+      result.entries.push(entry);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Picks archives to delete by count and total size, oldest first
+ * The live log is never deleted by size, but counts toward the total
+ * @param archives - The archives
+ * @param settings - The retention settings
+ * @param activeLogSize - Size of the live log in bytes
+ * @returns Filenames of the archives to delete
+ */
+export function selectArchivesToDelete(archives: RetainedArchive[], settings: RetentionSettings, activeLogSize: number): string[] {
+  const oldestFirst = [...archives].sort((a, b) => a.created.getTime() - b.created.getTime());
+  const maxBytes = settings.maxTotalSizeMb === null ? null : settings.maxTotalSizeMb * 1024 * 1024;
+  let remaining = oldestFirst.length;
+  let totalBytes = oldestFirst.reduce((sum, archive) => sum + archive.size, activeLogSize);
+  const selected: string[] = [];
+
+  for (const archive of oldestFirst) {
+    const overCount = settings.maxArchives !== null && remaining > settings.maxArchives;
+    const overSize = maxBytes !== null && totalBytes > maxBytes;
+    if (!overCount && !overSize) break;
+
+    selected.push(archive.filename);
+    remaining--;
+    totalBytes -= archive.size;
+  }
+
+  return selected;
+}
+
+/**
+ * Checks retention settings for invalid limits
+ * @param settings - The retention settings
+ * @returns An error message, or null if the settings are valid
+ */
+export function validateRetentionSettings(settings: RetentionSettings): string | null {
+  const limits: Array<[string, number | null]> = [
+    ['Maximum age', settings.maxAgeDays],
+    ['Maximum size', settings.maxTotalSizeMb],
+    ['Text age', settings.textMaxAgeDays],
+    ['Maximum archives', settings.maxArchives]
+  ];
+
+  for (const [name, value] of limits) {
+    if (value !== null && (typeof value !== 'number' || !isFinite(value) || value <= 0)) {
+      return `${name} must be a positive number or left empty`;
+    }
+  }
+  if (settings.maxArchives !== null && !Number.isInteger(settings.maxArchives)) {
+    return 'Maximum archives must be a whole number';
+  }
+  if (typeof settings.intervalHours !== 'number' || !isFinite(settings.intervalHours) || settings.intervalHours < 1) {
+    return 'Retention interval must be at least 1 hour';
+  }
+  if (settings.maxAgeDays !== null && settings.textMaxAgeDays !== null && settings.textMaxAgeDays >= settings.maxAgeDays) {
+    return 'Text age must be shorter than the maximum age, or entries are deleted before their text is';
+  }
+  return null;
+}
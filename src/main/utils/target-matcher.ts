@@ -0,0 +1,173 @@
+/**
+ * @file Utility for matching focused windows and key chords against capture target rules
+ * @module target-matcher
+ */
+
+import type { CaptureTargetRule } from '../../common/types/capture-target';
+
+// Keyboard event fields needed to evaluate a key chord
+export interface KeyChordEvent {
+  keycode: number;
+  metaKey?: boolean;
+  ctrlKey?: boolean;
+  altKey?: boolean;
+  shiftKey?: boolean;
+}
+
+// Parsed representation of a key chord such as 'Cmd+Enter'
+interface KeyChord {
+  keycodes: number[];
+  metaKey: boolean;
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}
+
+// Named keys that may appear in a submit chord, mapped to uiohook-napi keycodes
+const CHORD_KEYCODES: { [name: string]: number[] } = {
+  enter: [28, 3612],   // Return and numpad Enter
+  return: [28, 3612],
+  tab: [15],
+  escape: [1],
+  esc: [1],
+  space: [57]
+};
+
+// Chords that insert a line break when a rule doesn't list its own; submit chords take precedence
+export const DEFAULT_NEWLINE_KEYS = ['Enter', 'Shift+Enter', 'Option+Enter', 'Shift+Option+Enter'];
+
+// Modifier aliases accepted in chord strings
+const MODIFIER_ALIASES: { [name: string]: 'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey' } = {
+  cmd: 'metaKey',
+  command: 'metaKey',
+  meta: 'metaKey',
+  ctrl: 'ctrlKey',
+  control: 'ctrlKey',
+  alt: 'altKey',
+  option: 'altKey',
+  opt: 'altKey',
+  shift: 'shiftKey'
+};
+
+// Compiled regex cache so rules aren't recompiled on every poll
+const regexCache = new Map<string, RegExp | null>();
+
+/**
+ * Compiles a case-insensitive regex, caching the result and tolerating invalid patterns
+ * @param pattern - The regex source
+ * @returns The compiled regex, or null if the pattern is invalid
+ */
+function compilePattern(pattern: string): RegExp | null {
+  const cached = regexCache.get(pattern);
+  if (cached !== undefined) return cached;
+
+  let compiled: RegExp | null = null;
+  try {
+    compiled = new RegExp(pattern, 'i');
+  } catch (error) {
+    console.warn(`Invalid capture target pattern "${pattern}":`, error);
+  }
+
+  regexCache.set(pattern, compiled);
+  return compiled;
+}
+
+/**
+ * Finds the first enabled rule whose process pattern matches a process name
+ * @param processName - The window owner name reported by active-win
+ * @param rules - The configured capture target rules
+ * @returns The matching rule or null
+ */
+export function findRuleForProcess(processName: string, rules: CaptureTargetRule[]): CaptureTargetRule | null {
+  if (!processName) return null;
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    const processRegex = compilePattern(rule.processPattern);
+    if (processRegex && processRegex.test(processName)) {
+      return rule;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the first enabled rule matching both the process name and the window title filters
+ * @param processName - The window owner name reported by active-win
+ * @param windowTitle - The focused window title
+ * @param rules - The configured capture target rules
+ * @returns The matching rule or null
+ */
+export function findRuleForWindow(
+  processName: string,
+  windowTitle: string,
+  rules: CaptureTargetRule[]
+): CaptureTargetRule | null {
+  if (!processName) return null;
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    const processRegex = compilePattern(rule.processPattern);
+    if (!processRegex || !processRegex.test(processName)) continue;
+
+    if (rule.windowTitleInclude) {
+      const includeRegex = compilePattern(rule.windowTitleInclude);
+      if (!includeRegex || !includeRegex.test(windowTitle)) continue;
+    }
+
+    if (rule.windowTitleExclude) {
+      const excludeRegex = compilePattern(rule.windowTitleExclude);
+      if (excludeRegex && excludeRegex.test(windowTitle)) continue;
+    }
+
+    return rule;
+  }
+
+  return null;
+}
+
+/**
+ * Parses a chord string such as 'Cmd+Enter' into keycodes and required modifiers
+ * @param chord - The chord string
+ * @returns The parsed chord, or null if it names an unknown key
+ */
+function parseKeyChord(chord: string): KeyChord | null {
+  const parts = chord.split('+').map(part => part.trim().toLowerCase()).filter(Boolean);
+  const parsed: KeyChord = { keycodes: [], metaKey: false, ctrlKey: false, altKey: false, shiftKey: false };
+
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part];
+    if (modifier) {
+      parsed[modifier] = true;
+    } else if (CHORD_KEYCODES[part]) {
+      parsed.keycodes = CHORD_KEYCODES[part];
+    } else {
+      console.warn(`Unknown key in submit chord "${chord}": ${part}`);
+      return null;
+    }
+  }
+
+  return parsed.keycodes.length > 0 ? parsed : null;
+}
+
+/**
+ * Checks whether a keyboard event matches any of the given chords exactly
+ * @param event - The keyboard event
+ * @param chords - Chord strings such as 'Enter' or 'Cmd+Enter'
+ * @returns Whether the event matches one of the chords
+ */
+export function matchesKeyChord(event: KeyChordEvent, chords: string[]): boolean {
+  return chords.some(chordString => {
+    const chord = parseKeyChord(chordString);
+    if (!chord) return false;
+
+    return chord.keycodes.includes(event.keycode) &&
+      chord.metaKey === Boolean(event.metaKey) &&
+      chord.ctrlKey === Boolean(event.ctrlKey) &&
+      chord.altKey === Boolean(event.altKey) &&
+      chord.shiftKey === Boolean(event.shiftKey);
+  });
+}
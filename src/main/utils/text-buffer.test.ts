@@ -0,0 +1,257 @@
+/**
+ * @file Tests for the capture text buffer: caret moves, selections, deletes and undo
+ * @module text-buffer.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  applyEditCommand,
+  bufferToText,
+  countUnknownSpans,
+  createTextBuffer,
+  getEditCommand,
+  insertText,
+  EditCommand,
+  EditKeyEvent,
+  TextBuffer
+} from './text-buffer';
+
+// uiohook-napi keycodes of the keys under test
+const BACKSPACE = 14;
+const DELETE = 3667;
+const LEFT = 57419;
+const RIGHT = 57421;
+const UP = 57416;
+const DOWN = 57424;
+const HOME = 3655;
+const END = 3663;
+const KEY_Z = 44;
+
+// A step of a typing script: text typed at the caret, or an edit command
+type Step = string | EditCommand;
+
+const LEFT_CHAR: EditCommand = { type: 'move', direction: 'left', unit: 'char', extend: false };
+const BACKSPACE_CHAR: EditCommand = { type: 'delete', direction: 'backward', unit: 'char' };
+const UNDO: EditCommand = { type: 'undo' };
+const REDO: EditCommand = { type: 'redo' };
+
+/**
+ * Builds a buffer from text marked with its caret (|) and selection anchor (^)
+ * @param marked - E.g. "hel|lo" or "^hel|lo"
+ * @returns The buffer, without undo history
+ */
+function bufferFrom(marked: string): TextBuffer {
+  const caret = marked.replace('^', '').indexOf('|');
+  const anchorIndex = marked.replace('|', '').indexOf('^');
+  const cells = Array.from(marked.replace('|', '').replace('^', ''));
+  return { ...createTextBuffer(), cells, caret, anchor: anchorIndex === -1 ? null : anchorIndex };
+}
+
+/**
+ * Renders a buffer with its caret (|) and selection anchor (^) marked
+ * @param buffer - The text buffer
+ * @returns The marked text
+ */
+function marked(buffer: TextBuffer): string {
+  const cells = [...buffer.cells];
+  const marks: Array<[number, string]> = [[buffer.caret, '|']];
+  if (buffer.anchor !== null && buffer.anchor !== buffer.caret) marks.push([buffer.anchor, '^']);
+  for (const [index, mark] of marks.sort((a, b) => b[0] - a[0])) cells.splice(index, 0, mark);
+  return bufferToText({ ...buffer, cells });
+}
+
+/**
+ * Runs a typing script against a buffer
+ * @param steps - Text to type and commands to apply, in order
+ * @param buffer - The starting buffer
+ * @returns The resulting buffer
+ */
+function run(steps: Step[], buffer: TextBuffer = createTextBuffer()): TextBuffer {
+  return steps.reduce((current, step) => typeof step === 'string' ? insertText(current, step) : applyEditCommand(current, step), buffer);
+}
+
+/**
+ * Types text one character at a time, as the key hook delivers it
+ * @param text - The text to type
+ * @returns One step per character
+ */
+function typed(text: string): Step[] {
+  return Array.from(text);
+}
+
+describe('getEditCommand', () => {
+  it.each<[string, EditKeyEvent, string | undefined, EditCommand | null]>([
+    ['Backspace', { keycode: BACKSPACE }, undefined, { type: 'delete', direction: 'backward', unit: 'char' }],
+    ['Option+Backspace', { keycode: BACKSPACE, altKey: true }, undefined, { type: 'delete', direction: 'backward', unit: 'word' }],
+    ['Cmd+Backspace', { keycode: BACKSPACE, metaKey: true }, undefined, { type: 'delete', direction: 'backward', unit: 'line' }],
+    ['Delete', { keycode: DELETE }, undefined, { type: 'delete', direction: 'forward', unit: 'char' }],
+    ['Left', { keycode: LEFT }, undefined, { type: 'move', direction: 'left', unit: 'char', extend: false }],
+    ['Shift+Option+Right', { keycode: RIGHT, shiftKey: true, altKey: true }, undefined, { type: 'move', direction: 'right', unit: 'word', extend: true }],
+    ['Cmd+Left', { keycode: LEFT, metaKey: true }, undefined, { type: 'move', direction: 'left', unit: 'line', extend: false }],
+    ['Up', { keycode: UP }, undefined, { type: 'move', direction: 'up', unit: 'char', extend: false }],
+    ['Cmd+Down', { keycode: DOWN, metaKey: true }, undefined, { type: 'move', direction: 'down', unit: 'document', extend: false }],
+    ['Home', { keycode: HOME }, undefined, { type: 'move', direction: 'left', unit: 'line', extend: false }],
+    ['Shift+End', { keycode: END, shiftKey: true }, undefined, { type: 'move', direction: 'right', unit: 'line', extend: true }],
+    ['Cmd+A', { keycode: 30, metaKey: true }, 'a', { type: 'selectAll' }],
+    ['Cmd+V', { keycode: 47, metaKey: true }, 'v', { type: 'paste' }],
+    ['Cmd+X', { keycode: 45, metaKey: true }, 'x', { type: 'cut' }],
+    ['Cmd+Z', { keycode: KEY_Z, metaKey: true }, 'z', { type: 'undo' }],
+    ['Cmd+Shift+Z', { keycode: KEY_Z, metaKey: true, shiftKey: true }, 'Z', { type: 'redo' }],
+    ['Cmd+S', { keycode: 31, metaKey: true }, 's', { type: 'ignore' }],
+    ['Ctrl+A', { keycode: 30, ctrlKey: true }, 'a', { type: 'move', direction: 'left', unit: 'line', extend: false }],
+    ['Ctrl+E', { keycode: 18, ctrlKey: true }, 'e', { type: 'move', direction: 'right', unit: 'line', extend: false }],
+    ['Ctrl+H', { keycode: 35, ctrlKey: true }, 'h', { type: 'delete', direction: 'backward', unit: 'char' }],
+    ['Ctrl+D', { keycode: 32, ctrlKey: true }, 'd', { type: 'delete', direction: 'forward', unit: 'char' }],
+    ['Ctrl+K', { keycode: 37, ctrlKey: true }, 'k', { type: 'delete', direction: 'forward', unit: 'line' }],
+    ['Ctrl+C', { keycode: 46, ctrlKey: true }, 'c', { type: 'ignore' }],
+    ['AltGr+Q', { keycode: 16, ctrlKey: true, altKey: true }, 'q', null],
+    ['a plain letter', { keycode: 30 }, 'a', null]
+  ])('maps %s', (_name, event, baseCharacter, expected) => {
+    expect(getEditCommand(event, baseCharacter)).toEqual(expected);
+  });
+});
+
+describe('caret moves', () => {
+  it.each<[string, string, EditCommand, string]>([
+    ['left by a character', 'hello|', LEFT_CHAR, 'hell|o'],
+    ['left at the start', '|hello', LEFT_CHAR, '|hello'],
+    ['right by a character', 'he|llo', { type: 'move', direction: 'right', unit: 'char', extend: false }, 'hel|lo'],
+    ['left by a word over punctuation', 'call foo.bar(|', { type: 'move', direction: 'left', unit: 'word', extend: false }, 'call foo.|bar('],
+    ['right by a word', '|  hello world', { type: 'move', direction: 'right', unit: 'word', extend: false }, '  hello| world'],
+    ['to the line start', 'one\ntw|o', { type: 'move', direction: 'left', unit: 'line', extend: false }, 'one\n|two'],
+    ['to the line end', 'o|ne\ntwo', { type: 'move', direction: 'right', unit: 'line', extend: false }, 'one|\ntwo'],
+    ['up, keeping the column', 'abcd\nef|gh', { type: 'move', direction: 'up', unit: 'char', extend: false }, 'ab|cd\nefgh'],
+    ['up onto a shorter line', 'ab\nefg|h', { type: 'move', direction: 'up', unit: 'char', extend: false }, 'ab|\nefgh'],
+    ['up from the first line', 'ab|cd', { type: 'move', direction: 'up', unit: 'char', extend: false }, '|abcd'],
+    ['down onto a shorter line', 'abc|d\nef', { type: 'move', direction: 'down', unit: 'char', extend: false }, 'abcd\nef|'],
+    ['down from the last line', 'ab|cd', { type: 'move', direction: 'down', unit: 'char', extend: false }, 'abcd|'],
+    ['to the document start', 'one\ntw|o', { type: 'move', direction: 'up', unit: 'document', extend: false }, '|one\ntwo'],
+    ['to the document end', 'o|ne\ntwo', { type: 'move', direction: 'down', unit: 'document', extend: false }, 'one\ntwo|'],
+    ['left, collapsing a selection to its start', 'a^bcd|e', LEFT_CHAR, 'a|bcde'],
+    ['right, collapsing a selection to its end', 'a|bcd^e', { type: 'move', direction: 'right', unit: 'char', extend: false }, 'abcd|e'],
+    ['by a word, dropping a selection', 'one ^two|', { type: 'move', direction: 'left', unit: 'word', extend: false }, 'one |two'],
+    ['extending a new selection', 'hello|', { type: 'move', direction: 'left', unit: 'word', extend: true }, '|hello^'],
+    ['extending across the anchor', 'ab^c|d', { type: 'move', direction: 'left', unit: 'line', extend: true }, '|ab^cd']
+  ])('moves %s', (_name, start, command, expected) => {
+    expect(marked(applyEditCommand(bufferFrom(start), command))).toBe(expected);
+  });
+
+  it('selects everything', () => {
+    expect(marked(applyEditCommand(bufferFrom('he|llo'), { type: 'selectAll' }))).toBe('^hello|');
+  });
+});
+
+describe('deletes', () => {
+  it.each<[string, string, EditCommand, string]>([
+    ['a character backward', 'hello|', BACKSPACE_CHAR, 'hell|'],
+    ['nothing at the start', '|hello', BACKSPACE_CHAR, '|hello'],
+    ['a character forward', 'he|llo', { type: 'delete', direction: 'forward', unit: 'char' }, 'he|lo'],
+    ['nothing forward at the end', 'hello|', { type: 'delete', direction: 'forward', unit: 'char' }, 'hello|'],
+    ['a word backward', 'hello wor|', { type: 'delete', direction: 'backward', unit: 'word' }, 'hello |'],
+    ['a word backward over trailing spaces', 'hello world  |', { type: 'delete', direction: 'backward', unit: 'word' }, 'hello |'],
+    ['a word backward inside a word', 'hello wo|rld', { type: 'delete', direction: 'backward', unit: 'word' }, 'hello |rld'],
+    ['a word forward', 'hello| world!', { type: 'delete', direction: 'forward', unit: 'word' }, 'hello|!'],
+    ['to the line start', 'one\ntw|o', { type: 'delete', direction: 'backward', unit: 'line' }, 'one\n|o'],
+    ['to the line end', 'o|ne\ntwo', { type: 'delete', direction: 'forward', unit: 'line' }, 'o|\ntwo'],
+    ['a newline backward', 'one\n|two', BACKSPACE_CHAR, 'one|two'],
+    ['the selection instead of a character', 'a^bcd|e', BACKSPACE_CHAR, 'a|e'],
+    ['the selection instead of a line', 'a|bcd^e', { type: 'delete', direction: 'forward', unit: 'line' }, 'a|e']
+  ])('deletes %s', (_name, start, command, expected) => {
+    expect(marked(applyEditCommand(bufferFrom(start), command))).toBe(expected);
+  });
+});
+
+describe('selection replacement', () => {
+  it.each<[string, string, Step, string]>([
+    ['typing over a selection', 'say ^hello| there', 'bye', 'say bye| there'],
+    ['typing over a backward selection', 'say |hello^ there', 'X', 'say X| there'],
+    ['pasting over a selection', 'say ^hello|', { type: 'paste' }, 'say [pasted]|'],
+    ['cutting a selection', 'say ^hello| there', { type: 'cut' }, 'say | there'],
+    ['cutting without a selection', 'say hel|lo', { type: 'cut' }, 'say hel|lo']
+  ])('handles %s', (_name, start, step, expected) => {
+    expect(marked(run([step], bufferFrom(start)))).toBe(expected);
+  });
+
+  it('replaces everything after select all', () => {
+    const buffer = run([...typed('first draft'), { type: 'selectAll' }, ...typed('second')]);
+
+    expect(marked(buffer)).toBe('second|');
+  });
+
+  it('keeps pasted spans as single cells', () => {
+    const buffer = run(['Fix ', { type: 'paste' }, ' and ', { type: 'paste' }, LEFT_CHAR, BACKSPACE_CHAR]);
+
+    expect(bufferToText(buffer)).toBe('Fix [pasted] and[pasted]');
+    expect(countUnknownSpans(buffer)).toBe(2);
+  });
+});
+
+describe('undo', () => {
+  it('undoes a typing run as one step, and pastes separately', () => {
+    const buffer = run([...typed('hello '), { type: 'paste' }, ...typed(' world')]);
+
+    const undone = [1, 2, 3].map(count => marked(run(Array(count).fill(UNDO), buffer)));
+
+    expect(undone).toEqual(['hello [pasted]|', 'hello |', '|']);
+  });
+
+  it('undoes a run of backspaces as one step', () => {
+    const buffer = run([...typed('hello world'), BACKSPACE_CHAR, BACKSPACE_CHAR, BACKSPACE_CHAR, UNDO]);
+
+    expect(marked(buffer)).toBe('hello world|');
+  });
+
+  it('starts a new step when the caret moves between edits', () => {
+    const buffer = run([...typed('helo'), LEFT_CHAR, 'l', UNDO]);
+
+    expect(marked(buffer)).toBe('hel|o');
+  });
+
+  it('starts a new step when deleting switches direction', () => {
+    const buffer = run([...typed('abcdef'), LEFT_CHAR, LEFT_CHAR, BACKSPACE_CHAR, { type: 'delete', direction: 'forward', unit: 'char' }, UNDO]);
+
+    expect(marked(buffer)).toBe('abc|ef');
+  });
+
+  it('restores a selection that typing replaced', () => {
+    const buffer = run([...typed('hello'), { type: 'selectAll' }, ...typed('bye'), UNDO]);
+
+    expect(marked(buffer)).toBe('^hello|');
+  });
+
+  it('restores text that was cut', () => {
+    const buffer = run([...typed('keep this'), { type: 'move', direction: 'left', unit: 'word', extend: true }, { type: 'cut' }, UNDO]);
+
+    expect(marked(buffer)).toBe('keep |this^');
+  });
+
+  it('redoes what was undone until the next edit', () => {
+    const steps: Step[] = [...typed('hello'), ' ', { type: 'paste' }, UNDO, UNDO];
+
+    expect(marked(run([...steps, REDO]))).toBe('hello |');
+    expect(marked(run([...steps, REDO, REDO]))).toBe('hello [pasted]|');
+    expect(marked(run([...steps, '!', REDO]))).toBe('!|');
+  });
+
+  it('ignores redo with nothing undone', () => {
+    expect(marked(run([...typed('hello'), REDO]))).toBe('hello|');
+  });
+
+  it('clears the buffer when undo goes back past its first edit', () => {
+    const buffer = run([UNDO], bufferFrom('text typed before capture|'));
+
+    expect(buffer).toEqual(createTextBuffer());
+  });
+
+  it('records no step for an edit that changes nothing', () => {
+    const buffer = run([BACKSPACE_CHAR, { type: 'cut' }, ...typed('hi'), { type: 'delete', direction: 'forward', unit: 'word' }]);
+
+    expect(buffer.undoStack).toHaveLength(1);
+  });
+
+  it('keeps the most recent 100 steps', () => {
+    const steps = Array.from({ length: 150 }, (_, index): Step[] => [String(index % 10), LEFT_CHAR]).flat();
+
+    expect(run(steps).undoStack).toHaveLength(100);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * @file Editable text buffer model with a caret, selection and unknown (pasted) spans
+ * @module text-buffer
+ */
+
+// Marker cell standing in for pasted content we can't observe
+export const UNKNOWN_SPAN = '\u0000';
+
+// How unknown spans are rendered in logged text
+export const UNKNOWN_SPAN_PLACEHOLDER = '[pasted]';
+
+// Buffer contents and caret; one cell per character so the caret maps cleanly onto text
+export interface TextBufferState {
+  cells: string[];
+  caret: number;
+  anchor: number | null; // Selection anchor; the selection spans anchor..caret
+}
+
+// Kind of edit that extends the open undo step when repeated, like a text field's typing runs
+export type UndoGroup = 'typing' | 'delete-backward' | 'delete-forward' | null;
+
+// Immutable buffer state with the undo history of the edits made since it was created
+export interface TextBuffer extends TextBufferState {
+  undoStack: TextBufferState[]; // State before each undo step, oldest first
+  redoStack: TextBufferState[]; // States undone since the last edit, most recently undone last
+  undoGroup: UndoGroup;         // Open undo step; caret moves and other edits close it
+}
+
+// Granularity of caret movement and deletion
+export type EditUnit = 'char' | 'word' | 'line' | 'document';
+
+// Editing operations derived from keystrokes
+export type EditCommand =
+  | { type: 'delete'; direction: 'backward' | 'forward'; unit: EditUnit }
+  | { type: 'move'; direction: 'left' | 'right' | 'up' | 'down'; unit: EditUnit; extend: boolean }
+  | { type: 'selectAll' }
+  | { type: 'paste' }
+  | { type: 'cut' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'ignore' };
+
+// Keyboard event fields needed to derive an edit command
+export interface EditKeyEvent {
+  keycode: number;
+  shiftKey?: boolean;
+  altKey?: boolean;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+}
+
+// uiohook-napi keycodes for editing and navigation keys
+const KEY_BACKSPACE = 14;
+const KEY_DELETE = 3667;
+const KEY_LEFT = 57419;
+const KEY_RIGHT = 57421;
+const KEY_UP = 57416;
+const KEY_DOWN = 57424;
+const KEY_HOME = 3655;
+const KEY_END = 3663;
+
+// Undo steps kept per buffer; older ones are dropped
+const MAX_UNDO_STEPS = 100;
+
+/**
+ * Creates an empty text buffer
+ * @returns A new empty buffer
+ */
+export function createTextBuffer(): TextBuffer {
+  return { cells: [], caret: 0, anchor: null, undoStack: [], redoStack: [], undoGroup: null };
+}
+
+/**
+ * Renders the buffer as text, replacing unknown spans with a placeholder
+ * @param buffer - The text buffer
+ * @returns The buffer contents as a string
+ */
+export function bufferToText(buffer: TextBuffer): string {
+  return buffer.cells.map(cell => cell === UNKNOWN_SPAN ? UNKNOWN_SPAN_PLACEHOLDER : cell).join('');
+}
+
+/**
+ * Counts the unknown (pasted) spans in the buffer
+ * @param buffer - The text buffer
+ * @returns Number of unknown spans
+ */
+export function countUnknownSpans(buffer: TextBuffer): number {
+  return buffer.cells.filter(cell => cell === UNKNOWN_SPAN).length;
+}
+
+/**
+ * Gets the ordered selection range, or null if nothing is selected
+ * @param buffer - The text buffer
+ * @returns The [start, end) range of the selection
+ */
+function getSelection(buffer: TextBufferState): [number, number] | null {
+  if (buffer.anchor === null || buffer.anchor === buffer.caret) return null;
+  return buffer.anchor < buffer.caret ? [buffer.anchor, buffer.caret] : [buffer.caret, buffer.anchor];
+}
+
+/**
+ * Removes a range of cells and places the caret at its start
+ * @param buffer - The text buffer
+ * @param start - First cell to remove
+ * @param end - Cell after the last one to remove
+ * @returns The updated contents
+ */
+function removeRange(buffer: TextBufferState, start: number, end: number): TextBufferState {
+  return {
+    cells: [...buffer.cells.slice(0, start), ...buffer.cells.slice(end)],
+    caret: start,
+    anchor: null
+  };
+}
+
+/**
+ * Deletes the current selection, if any
+ * @param buffer - The text buffer
+ * @returns The updated contents
+ */
+function deleteSelection(buffer: TextBufferState): TextBufferState {
+  const selection = getSelection(buffer);
+  return selection ? removeRange(buffer, selection[0], selection[1]) : { cells: buffer.cells, caret: buffer.caret, anchor: null };
+}
+
+/**
+ * Inserts cells at the caret, replacing any selection
+ * @param buffer - The text buffer
+ * @param cells - Cells to insert
+ * @returns The updated contents
+ */
+function insertCells(buffer: TextBufferState, cells: string[]): TextBufferState {
+  const cleared = deleteSelection(buffer);
+  return {
+    cells: [...cleared.cells.slice(0, cleared.caret), ...cells, ...cleared.cells.slice(cleared.caret)],
+    caret: cleared.caret + cells.length,
+    anchor: null
+  };
+}
+
+/**
+ * Gets the contents and caret of a buffer without its history
+ * @param buffer - The text buffer
+ * @returns The state an undo step restores
+ */
+function toState(buffer: TextBufferState): TextBufferState {
+  return { cells: buffer.cells, caret: buffer.caret, anchor: buffer.anchor };
+}
+
+/**
+ * Applies edited contents to the buffer, recording an undo step unless the edit extends the open one
+ * @param buffer - The buffer before the edit
+ * @param edited - The contents after the edit
+ * @param group - Kind of edit, or null for edits that are always their own step (paste, cut, deleting a selection)
+ * @returns The updated buffer
+ */
+function commitEdit(buffer: TextBuffer, edited: TextBufferState, group: UndoGroup): TextBuffer {
+  const changed = edited.cells.length !== buffer.cells.length || edited.cells.some((cell, index) => cell !== buffer.cells[index]);
+  if (!changed) return { ...buffer, ...edited };
+
+  // Replacing a selection starts a new step even in the middle of a typing run
+  const extendsStep = group !== null && group === buffer.undoGroup && !getSelection(buffer);
+  const undoStack = extendsStep ? buffer.undoStack : [...buffer.undoStack, toState(buffer)].slice(-MAX_UNDO_STEPS);
+  return { ...edited, undoStack, redoStack: [], undoGroup: group };
+}
+
+/**
+ * Inserts typed text at the caret, replacing any selection
+ * @param buffer - The text buffer
+ * @param text - The text to insert
+ * @returns The updated buffer
+ */
+export function insertText(buffer: TextBuffer, text: string): TextBuffer {
+  return commitEdit(buffer, insertCells(buffer, Array.from(text)), 'typing');
+}
+
+/**
+ * Checks whether a cell is part of a word for Option+arrow / Option+Backspace semantics
+ * @param cell - The cell to check
+ * @returns Whether the cell is a word character
+ */
+function isWordCell(cell: string): boolean {
+  return /[\p{L}\p{N}_]/u.test(cell);
+}
+
+/**
+ * Finds the caret position after moving one unit in a direction
+ * @param cells - The buffer cells
+ * @param position - The starting caret position
+ * @param direction - Movement direction
+ * @param unit - Movement granularity
+ * @returns The new caret position
+ */
+function findBoundary(cells: string[], position: number, direction: 'left' | 'right' | 'up' | 'down', unit: EditUnit): number {
+  const lineStart = (index: number): number => {
+    let start = index;
+    while (start > 0 && cells[start - 1] !== '\n') start--;
+    return start;
+  };
+  const lineEnd = (index: number): number => {
+    let end = index;
+    while (end < cells.length && cells[end] !== '\n') end++;
+    return end;
+  };
+
+  if (unit === 'document') {
+    return direction === 'left' || direction === 'up' ? 0 : cells.length;
+  }
+
+  if (direction === 'up' || direction === 'down') {
+    const column = position - lineStart(position);
+    if (direction === 'up') {
+      const currentStart = lineStart(position);
+      if (currentStart === 0) return 0;
+      const previousStart = lineStart(currentStart - 1);
+      return Math.min(previousStart + column, currentStart - 1);
+    }
+    const currentEnd = lineEnd(position);
+    if (currentEnd === cells.length) return cells.length;
+    const nextStart = currentEnd + 1;
+    return Math.min(nextStart + column, lineEnd(nextStart));
+  }
+
+  if (unit === 'line') {
+    return direction === 'left' ? lineStart(position) : lineEnd(position);
+  }
+
+  if (unit === 'word') {
+    let index = position;
+    if (direction === 'left') {
+      while (index > 0 && !isWordCell(cells[index - 1])) index--;
+      while (index > 0 && isWordCell(cells[index - 1])) index--;
+    } else {
+      while (index < cells.length && !isWordCell(cells[index])) index++;
+      while (index < cells.length && isWordCell(cells[index])) index++;
+    }
+    return index;
+  }
+
+  return direction === 'left' ? Math.max(0, position - 1) : Math.min(cells.length, position + 1);
+}
+
+/**
+ * Applies an edit command to the buffer
+ * @param buffer - The text buffer
+ * @param command - The edit command to apply
+ * @returns The updated buffer
+ */
+export function applyEditCommand(buffer: TextBuffer, command: EditCommand): TextBuffer {
+  switch (command.type) {
+    case 'selectAll':
+      return { ...buffer, anchor: 0, caret: buffer.cells.length, undoGroup: null };
+
+    case 'paste':
+      return commitEdit(buffer, insertCells(buffer, [UNKNOWN_SPAN]), null);
+
+    case 'cut':
+      return commitEdit(buffer, deleteSelection(buffer), null);
+
+    case 'undo': {
+      // Steps follow macOS text fields (typing runs and runs of deletes are one step each); other editors
+      // may group differently. Undoing past the buffer's first edit reaches text we never saw, so it resets
+      const previous = buffer.undoStack[buffer.undoStack.length - 1];
+      if (!previous) return createTextBuffer();
+      return {
+        ...previous,
+        undoStack: buffer.undoStack.slice(0, -1),
+        redoStack: [...buffer.redoStack, toState(buffer)],
+        undoGroup: null
+      };
+    }
+
+    case 'redo': {
+      const next = buffer.redoStack[buffer.redoStack.length - 1];
+      if (!next) return { ...buffer, undoGroup: null };
+      return {
+        ...next,
+        undoStack: [...buffer.undoStack, toState(buffer)],
+        redoStack: buffer.redoStack.slice(0, -1),
+        undoGroup: null
+      };
+    }
+
+    case 'delete': {
+      if (getSelection(buffer)) return commitEdit(buffer, deleteSelection(buffer), null);
+      const target = findBoundary(buffer.cells, buffer.caret, command.direction === 'backward' ? 'left' : 'right', command.unit);
+      const edited = command.direction === 'backward'
+        ? removeRange(buffer, target, buffer.caret)
+        : removeRange(buffer, buffer.caret, target);
+      return commitEdit(buffer, edited, command.direction === 'backward' ? 'delete-backward' : 'delete-forward');
+    }
+
+    case 'move': {
+      const selection = getSelection(buffer);
+
+      // Plain left/right with a selection collapses it to the matching edge
+      if (selection && !command.extend && command.unit === 'char' && (command.direction === 'left' || command.direction === 'right')) {
+        return { ...buffer, caret: command.direction === 'left' ? selection[0] : selection[1], anchor: null, undoGroup: null };
+      }
+
+      const caret = findBoundary(buffer.cells, buffer.caret, command.direction, command.unit);
+      const anchor = command.extend ? (buffer.anchor ?? buffer.caret) : null;
+      return { ...buffer, caret, anchor, undoGroup: null };
+    }
+
+    default:
+      return buffer;
+  }
+}
+
+/**
+ * Derives the edit command for a keystroke, if it is an editing key or a modifier chord
+ * @param event - The keydown event
+ * @param baseCharacter - The unmodified character for the key on the active layout (for Cmd+letter chords)
+ * @returns The edit command, or null if the key should be decoded as text
+ */
+export function getEditCommand(event: EditKeyEvent, baseCharacter?: string): EditCommand | null {
+  const extend = Boolean(event.shiftKey);
+  const modifierUnit: EditUnit = event.metaKey ? 'line' : event.altKey ? 'word' : 'char';
+
+  switch (event.keycode) {
+    case KEY_BACKSPACE:
+      return { type: 'delete', direction: 'backward', unit: modifierUnit };
+    case KEY_DELETE:
+      return { type: 'delete', direction: 'forward', unit: modifierUnit };
+    case KEY_LEFT:
+      return { type: 'move', direction: 'left', unit: modifierUnit, extend };
+    case KEY_RIGHT:
+      return { type: 'move', direction: 'right', unit: modifierUnit, extend };
+    case KEY_UP:
+      return { type: 'move', direction: 'up', unit: event.metaKey ? 'document' : 'char', extend };
+    case KEY_DOWN:
+      return { type: 'move', direction: 'down', unit: event.metaKey ? 'document' : 'char', extend };
+    case KEY_HOME:
+      return { type: 'move', direction: 'left', unit: 'line', extend };
+    case KEY_END:
+      return { type: 'move', direction: 'right', unit: 'line', extend };
+  }
+
+  const key = (baseCharacter || '').toLowerCase();
+
+  if (event.metaKey) {
+    if (key === 'a') return { type: 'selectAll' };
+    if (key === 'v') return { type: 'paste' };
+    if (key === 'x') return { type: 'cut' };
+    if (key === 'z') return event.shiftKey ? { type: 'redo' } : { type: 'undo' };
+    return { type: 'ignore' }; // Other Cmd chords never produce text
+  }
+
+  // AltGr is reported as Ctrl+Alt and produces text, so only bare Ctrl chords are commands
+  if (event.ctrlKey && !event.altKey) {
+    // Emacs-style bindings honoured by macOS text fields
+    if (key === 'a') return { type: 'move', direction: 'left', unit: 'line', extend: false };
+    if (key === 'e') return { type: 'move', direction: 'right', unit: 'line', extend: false };
+    if (key === 'h') return { type: 'delete', direction: 'backward', unit: 'char' };
+    if (key === 'd') return { type: 'delete', direction: 'forward', unit: 'char' };
+    if (key === 'k') return { type: 'delete', direction: 'forward', unit: 'line' };
+    return { type: 'ignore' };
+  }
+
+  return null;
+}
@@ -0,0 +1,67 @@
+/**
+ * @file Clock abstraction for the capture engine, with a deterministic virtual clock for replay
+ * @module virtual-clock
+ */
+
+// Timer callbacks may be async; the virtual clock waits for them
+export type TimerCallback = () => void | Promise<void>;
+
+// Time source and timer scheduling used by monitoring
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: TimerCallback, ms: number) => void;
+}
+
+// Virtual clock that only moves when advanced
+export interface VirtualClock extends Clock {
+  advanceTo: (time: number) => Promise<void>;
+  advanceBy: (ms: number) => Promise<void>;
+  pendingTimers: () => number;
+}
+
+// Wall-clock implementation used during live capture
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => {
+    setTimeout(callback, ms);
+  }
+};
+
+/**
+ * Creates a virtual clock starting at the given time
+ * Timers fire in due-time order (ties in scheduling order) as the clock is advanced,
+ * and each callback is awaited before the next one runs
+ * @param startTime - Initial clock time in milliseconds since the epoch
+ * @returns The virtual clock
+ */
+export function createVirtualClock(startTime: number): VirtualClock {
+  let currentTime = startTime;
+  let sequence = 0;
+  let timers: Array<{ due: number; order: number; callback: TimerCallback }> = [];
+
+  const advanceTo = async (time: number): Promise<void> => {
+    for (;;) {
+      const next = timers
+        .filter(timer => timer.due <= time)
+        .sort((a, b) => a.due - b.due || a.order - b.order)[0];
+
+      if (!next) break;
+
+      timers = timers.filter(timer => timer !== next);
+      currentTime = Math.max(currentTime, next.due);
+      await next.callback();
+    }
+
+    currentTime = Math.max(currentTime, time);
+  };
+
+  return {
+    now: () => currentTime,
+    setTimeout: (callback, ms) => {
+      timers.push({ due: currentTime + Math.max(0, ms), order: sequence++, callback });
+    },
+    advanceTo,
+    advanceBy: ms => advanceTo(currentTime + ms),
+    pendingTimers: () => timers.length
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * @file Worker thread running the clustering tuner's distance matrix and clustering, and the explorer's PCA, off the main process
+ * @module clustering-worker
+ */
+
+import { parentPort } from 'worker_threads';
+import { clusterTunerData, createTunerData, TunerData } from '../utils/clustering-tuner';
+import { projectToPlane, PlaneProjection } from '../utils/pca-projection';
+import type { ClusteringTunerParams, ClusteringTunerResult } from '../../common/types/clustering';
+
+// Work the main process can hand to the worker
+export type ClusteringWorkerTask =
+  | { type: 'load-tuner'; texts: string[]; vectors: number[][] }
+  | { type: 'run-tuner'; params: ClusteringTunerParams }
+  | { type: 'project'; vectors: number[][] };
+
+// What each task resolves to
+export interface ClusteringWorkerResults {
+  'load-tuner': number;              // Number of prompts loaded
+  'run-tuner': ClusteringTunerResult;
+  'project': PlaneProjection;
+}
+
+// A task tagged with the ID its response is matched by
+export type ClusteringWorkerRequest = ClusteringWorkerTask & { requestId: number };
+
+// The worker's answer to one request
+export interface ClusteringWorkerResponse {
+  requestId: number;
+  result?: ClusteringWorkerResults[keyof ClusteringWorkerResults];
+  error?: string;
+}
+
+// The tuner's prompts and distances stay in the worker between re-clusterings
+let tunerData: TunerData | null = null;
+
+/**
+ * Runs one task
+ * @param task - The task
+ * @returns The task's result
+ * @throws Error if the tuner is run before a dataset is loaded
+ */
+function runTask(task: ClusteringWorkerTask): ClusteringWorkerResults[keyof ClusteringWorkerResults] {
+  switch (task.type) {
+    case 'load-tuner':
+      tunerData = task.texts.length > 0 ? createTunerData(task.texts, task.vectors) : null;
+      return task.texts.length;
+    case 'run-tuner':
+      if (!tunerData) {
+        throw new Error('No cached embeddings loaded; run an analysis first');
+      }
+      return clusterTunerData(tunerData, task.params);
+    case 'project':
+      return projectToPlane(task.vectors);
+  }
+}
+
+parentPort?.on('message', (request: ClusteringWorkerRequest) => {
+  let response: ClusteringWorkerResponse;
+  try {
+    response = { requestId: request.requestId, result: runTask(request) };
+  } catch (error) {
+    response = { requestId: request.requestId, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(response);
+});
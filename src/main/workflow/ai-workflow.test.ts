@@ -0,0 +1,95 @@
+/**
+ * @file Runs the analysis workflow end to end with local embeddings and the mock synthesis provider
+ * @module ai-workflow.test
+ */
+
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { runAnalysisWorkflow } from './ai-workflow';
+import * as loggingService from '../services/logging-service';
+import * as settingsService from '../services/settings-service';
+
+// Settings, logs and the cluster store go to a throwaway directory instead of the app's userData
+vi.mock('electron', async () => {
+  const os = await import('os');
+  const path = await import('path');
+  const fs = await import('fs');
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'dryprompt-workflow-'));
+  return {
+    app: { getPath: () => userData }
+  };
+});
+// No keychain access for the log encryption key
+vi.mock('keytar', () => {
+  const passwords = new Map<string, string>();
+  return {
+    getPassword: async (service: string, account: string) => passwords.get(`${service}/${account}`) ?? null,
+    setPassword: async (service: string, account: string, password: string) => { passwords.set(`${service}/${account}`, password); },
+    deletePassword: async (service: string, account: string) => passwords.delete(`${service}/${account}`)
+  };
+});
+
+// One repeated pattern that varies in the function and file, plus unrelated prompts
+const PROMPTS = [
+  'Write unit tests for the parseConfig function in config.ts',
+  'Write unit tests for the loadUser function in users.ts',
+  'Write unit tests for the formatDate function in dates.ts',
+  'Write unit tests for the sendEmail function in mailer.ts',
+  'Summarize the release notes for the next version',
+  'Translate this paragraph into Spanish please'
+];
+
+describe('runAnalysisWorkflow', () => {
+  beforeAll(async () => {
+    // Without Supabase credentials the workflow runs without persistence
+    vi.stubEnv('SUPABASE_URL', '');
+    vi.stubEnv('SUPABASE_ANON_KEY', '');
+
+    settingsService.saveAnalysisSettings({ ...settingsService.getAnalysisSettings(), embeddingProvider: 'local' });
+    settingsService.saveSynthesisSettings({ ...settingsService.getSynthesisSettings(), provider: 'mock' });
+
+    for (const prompt of PROMPTS) {
+      await loggingService.logTextInput(prompt, 'parser.ts — dry-prompt', 'Cursor', { source: 'keyboard', flushReason: 'submit' });
+    }
+  });
+
+  it('clusters the logged prompts and synthesizes a template with the mock provider', async () => {
+    const result = await runAnalysisWorkflow();
+
+    expect(result.errors).toEqual([]);
+    expect(result.stepResults?.embedding).toMatchObject({ provider: 'local', count: PROMPTS.length });
+    expect(result.stepResults?.clustering).toMatchObject({ clusterCount: 1, seeded: 1 });
+    expect(result.stepResults?.synthesis).toMatchObject({ provider: 'mock', suggestionCount: 1, storedInSupabase: 0 });
+
+    expect(result.suggestions).toHaveLength(1);
+    const [suggestion] = result.suggestions || [];
+    expect(suggestion.replacement).toBe('Write unit tests for the {function} function in {file}');
+    expect(suggestion.placeholders?.map(placeholder => placeholder.name)).toEqual(['function', 'file']);
+    expect(suggestion.placeholders?.[0].values).toEqual(expect.arrayContaining(['parseConfig', 'loadUser', 'formatDate', 'sendEmail']));
+    expect(suggestion.sourceTexts).toHaveLength(4);
+    expect(suggestion.trigger).toBeTruthy();
+    expect(suggestion.clusterId).toBeTruthy();
+  });
+
+  it('skips a run when nothing was logged since the last one', async () => {
+    const result = await runAnalysisWorkflow();
+
+    expect(result.errors).toEqual(['No new log entries since the last analysis']);
+    expect(result.suggestions).toBeUndefined();
+  });
+
+  it('reuses the stored suggestion when a new prompt joins a known cluster', async () => {
+    await loggingService.logTextInput(
+      'Write unit tests for the retryRequest function in http.ts',
+      'parser.ts — dry-prompt',
+      'Cursor',
+      { source: 'keyboard', flushReason: 'submit' }
+    );
+
+    const result = await runAnalysisWorkflow();
+
+    expect(result.errors).toEqual([]);
+    expect(result.stepResults?.loadLogEntries).toMatchObject({ count: PROMPTS.length + 1, newCount: 1 });
+    expect(result.stepResults?.clustering).toMatchObject({ clusterCount: 0, knownClusterCount: 1, assigned: 1 });
+    expect(result.suggestions).toBeUndefined();
+  });
+});
@@ -8,25 +8,35 @@ import { OpenAI } from '@langchain/openai';
 import * as keychainService from '../services/keychain-service';
 import * as loggingService from '../services/logging-service';
 import * as supabaseService from '../services/supabase-service';
+import * as redactionService from '../services/redaction-service';
+import * as settingsService from '../services/settings-service';
+import * as analysisProgressService from '../services/analysis-progress-service';
+import * as embeddingCacheService from '../services/embedding-cache-service';
+import * as clusterStoreService from '../services/cluster-store-service';
 import { embedTexts } from './embedding-node';
-import { clusterEmbeddings } from './clustering-node';
+import { createEmbeddingProvider } from './embedding-providers';
+import { getClusteringStats, selectClustersForSynthesis, updateClusterStore } from './clustering-node';
+import { resolveClusteringOptions } from './clustering-algorithms';
 import { synthesizeSuggestions } from './synthesis-node';
+import { createLlmProvider, type LlmProvider } from './llm-providers';
 import { generateShortcutTrigger } from '../utils/trigger-generator';
+import { getEmbeddingScopeKey, hashEmbeddingText } from '../utils/embedding-cache';
+import type { LogEntry } from '../../common/types/log-entry';
+import type { ClusterSuggestionLink } from '../../common/types/cluster-store';
+import type { TemplatePlaceholder } from '../../common/types/prompt-template';
 
 // Define the state interface for the workflow
 interface WorkflowState {
-  logEntries?: Array<{
-    timestamp: string;
-    text: string;
-    windowTitle?: string;
-    processName?: string;
-  }>;
+  logEntries?: LogEntry[];
+  newEntryIds?: string[]; // Entries no earlier analysis has processed
   embeddings?: Array<{
     text: string;
     embedding: number[];
     index: number;
   }>;
   clusters?: Array<{
+    id?: string; // Stored cluster ID
+    fingerprint?: string;
     texts: string[];
     centroid: number[];
     size: number;
@@ -34,8 +44,10 @@ interface WorkflowState {
   suggestions?: Array<{
     trigger: string;
     replacement: string;
+    placeholders?: TemplatePlaceholder[]; // Set when the replacement is a template
     sourceTexts: string[];
     confidence: number;
+    clusterId?: string;
     suggestionId?: string; // Supabase record ID
   }>;
   errors?: string[];
@@ -89,18 +101,21 @@ async function initializeWorkflowNode(state: WorkflowState): Promise<WorkflowSta
 }
 
 /**
- * Loads log entries from the local storage
+ * Loads the log entries in the analysis window from the live log and archives
+ * Entries processed by earlier runs are loaded too, so new prompts can join them in clusters, but the run
+ * is skipped when nothing is new
  * @param state - Current workflow state
- * @returns Updated state with log entries
+ * @returns Updated state with log entries and the IDs of the new ones
  */
 async function loadLogEntriesNode(state: WorkflowState): Promise<WorkflowState> {
   console.log('Loading log entries...');
   
   try {
-    const logEntries = await loggingService.getLogEntries();
+    const logEntries = await loggingService.getAnalysisEntries();
+    const { submittedOnly, windowDays } = settingsService.getAnalysisSettings();
     
     if (logEntries.length === 0) {
-      console.log('No log entries found');
+      console.log(`No log entries found in the last ${windowDays} days${submittedOnly ? ' (only submitted prompts are analyzed)' : ''}`);
       return {
         ...state,
         logEntries: [],
@@ -108,14 +123,30 @@ async function loadLogEntriesNode(state: WorkflowState): Promise<WorkflowState>
       };
     }
     
-    console.log(`Loaded ${logEntries.length} log entries`);
+    const processed = analysisProgressService.getProcessedEntryIds();
+    const newEntryIds = logEntries
+      .map(entry => entry.id)
+      .filter((id): id is string => !!id && !processed.has(id));
+    
+    if (newEntryIds.length === 0) {
+      console.log(`No new log entries since the last analysis (${logEntries.length} already processed)`);
+      return {
+        ...state,
+        logEntries: [],
+        newEntryIds,
+        errors: [...(state.errors || []), 'No new log entries since the last analysis']
+      };
+    }
+    
+    console.log(`Loaded ${logEntries.length} ${submittedOnly ? 'submitted ' : ''}log entries from the last ${windowDays} days (${newEntryIds.length} new)`);
     
     return {
       ...state,
       logEntries,
+      newEntryIds,
       stepResults: {
         ...state.stepResults,
-        loadLogEntries: { count: logEntries.length }
+        loadLogEntries: { count: logEntries.length, newCount: newEntryIds.length, windowDays, submittedOnly }
       }
     };
     
@@ -129,7 +160,41 @@ async function loadLogEntriesNode(state: WorkflowState): Promise<WorkflowState>
 }
 
 /**
- * Embeds the text entries using OpenAI embeddings
+ * Re-applies redaction to the loaded entries before any text leaves the machine
+ * Catches entries logged before a rule existed or with redaction turned off at the time
+ * @param state - Current workflow state
+ * @returns Updated state with redacted log entries
+ */
+async function redactionNode(state: WorkflowState): Promise<WorkflowState> {
+  console.log('Redacting log entries...');
+  
+  try {
+    const { entries, counts, total } = redactionService.redactEntries(state.logEntries || []);
+    
+    console.log(`Redacted ${total} secrets/PII matches before analysis`);
+    
+    return {
+      ...state,
+      logEntries: entries,
+      stepResults: {
+        ...state.stepResults,
+        redaction: { total, byType: counts }
+      }
+    };
+    
+  } catch (error) {
+    // Never continue to the network steps with unredacted text
+    console.error('Error redacting log entries:', error);
+    return {
+      ...state,
+      logEntries: [],
+      errors: [...(state.errors || []), `Failed to redact log entries: ${error}`]
+    };
+  }
+}
+
+/**
+ * Embeds the text entries with the provider selected in the analysis settings
  * @param state - Current workflow state
  * @returns Updated state with embeddings
  */
@@ -144,25 +209,39 @@ async function embeddingNode(state: WorkflowState): Promise<WorkflowState> {
   }
   
   try {
-    const apiKey = await keychainService.getApiKey();
+    const { embeddingProvider } = settingsService.getAnalysisSettings();
+    const apiKey = embeddingProvider === 'local' ? null : await keychainService.getApiKey();
     
-    if (!apiKey) {
+    if (embeddingProvider !== 'local' && !apiKey) {
       return {
         ...state,
         errors: [...(state.errors || []), 'No OpenAI API key found']
       };
     }
     
-    const embeddings = await embedTexts(state.logEntries, apiKey);
+    const provider = createEmbeddingProvider(embeddingProvider, apiKey);
+    const { embeddings, cacheHits, cacheMisses } = await embedTexts(
+      state.logEntries,
+      provider,
+      embeddingCacheService.getEmbeddingCache(provider)
+    );
+    embeddingCacheService.saveEmbeddingCache({ hits: cacheHits, misses: cacheMisses }, provider);
     
-    console.log(`Generated ${embeddings.length} embeddings`);
+    console.log(`Generated ${embeddings.length} embeddings with ${provider.model}`);
     
     return {
       ...state,
       embeddings,
       stepResults: {
         ...state.stepResults,
-        embedding: { count: embeddings.length }
+        embedding: {
+          count: embeddings.length,
+          provider: provider.id,
+          model: provider.model,
+          dimensions: provider.dimensions,
+          cacheHits,
+          cacheMisses
+        }
       }
     };
     
@@ -191,16 +270,63 @@ async function clusteringNode(state: WorkflowState): Promise<WorkflowState> {
   }
   
   try {
-    const clusters = await clusterEmbeddings(state.embeddings);
+    const { provider, model, dimensions } = state.stepResults?.embedding || {};
+    const scope = getEmbeddingScopeKey({ id: provider, model, dimensions });
+    
+    const newIds = new Set(state.newEntryIds || []);
+    const newTexts = new Set((state.logEntries || []).filter(entry => entry.id && newIds.has(entry.id)).map(entry => entry.text));
+    const points = state.embeddings
+      .filter(result => result.embedding.length > 0 && result.text.trim().length > 0)
+      .map(result => ({
+        key: hashEmbeddingText(result.text),
+        text: result.text,
+        embedding: result.embedding,
+        isNew: newTexts.has(result.text)
+      }));
     
-    console.log(`Found ${clusters.length} clusters`);
+    const options = resolveClusteringOptions(settingsService.getAnalysisSettings(), points.map(point => point.embedding));
+    console.log(`Clustering with ${options.algorithm.name}, epsilon ${options.epsilon.toFixed(3)} (${options.epsilonSource}), minPoints ${options.minPoints}`);
+    
+    // Assign this run's prompts to the clusters of earlier runs, so known patterns keep their ID and suggestion
+    const update = updateClusterStore(points, clusterStoreService.getStoredClusters(scope), options);
+    clusterStoreService.saveStoredClusters(scope, update.clusters);
+    
+    const clusters = selectClustersForSynthesis(update, options.minPoints);
+    const stats = getClusteringStats(
+      update.active.map(({ cluster, texts }) => ({ texts, centroid: cluster.centroid, size: texts.length })),
+      points.map((point, index) => ({ text: point.text, embedding: point.embedding, index }))
+    );
+    const knownClusterCount = update.active.filter(({ cluster }) => cluster.suggestion).length;
+    const unchangedClusterCount = update.active.filter(({ newTextCount }) => newTextCount === 0).length;
+    
+    console.log(`Found ${update.active.length} clusters (${update.seeded} new, ${knownClusterCount} with suggestions), ${clusters.length} to synthesize`);
+    if (stats.quality?.silhouette !== undefined && stats.quality.silhouette !== null) {
+      console.log(`Cluster quality: silhouette ${stats.quality.silhouette.toFixed(2)}, noise ${(stats.quality.noiseRatio * 100).toFixed(0)}%`);
+    }
     
     return {
       ...state,
       clusters,
       stepResults: {
         ...state.stepResults,
-        clustering: { clusterCount: clusters.length }
+        clustering: {
+          clusterCount: clusters.length,
+          activeClusterCount: update.active.length,
+          knownClusterCount,
+          unchangedClusterCount,
+          storedClusterCount: update.clusters.length,
+          assigned: update.assigned,
+          seeded: update.seeded,
+          merged: update.merged,
+          split: update.split,
+          algorithm: options.algorithm.id,
+          epsilon: options.epsilon,
+          epsilonSource: options.epsilonSource,
+          minPoints: options.minPoints,
+          silhouette: stats.quality?.silhouette ?? null,
+          intraClusterSimilarity: stats.quality?.intraClusterSimilarity ?? null,
+          noiseRatio: stats.quality?.noiseRatio ?? null
+        }
       }
     };
     
@@ -229,16 +355,20 @@ async function synthesisNode(state: WorkflowState): Promise<WorkflowState> {
   }
   
   try {
-    const apiKey = await keychainService.getApiKey();
+    const { provider: providerId, providers } = settingsService.getSynthesisSettings();
+    const apiKey = await keychainService.getProviderApiKey(providerId);
     
-    if (!apiKey) {
+    let llm: LlmProvider;
+    try {
+      llm = createLlmProvider(providerId, providers[providerId], apiKey);
+    } catch (error) {
       return {
         ...state,
-        errors: [...(state.errors || []), 'No OpenAI API key found']
+        errors: [...(state.errors || []), error instanceof Error ? error.message : String(error)]
       };
     }
     
-    const rawSuggestions = await synthesizeSuggestions(state.clusters, apiKey);
+    const rawSuggestions = await synthesizeSuggestions(state.clusters, llm);
     
     // Generate triggers for each suggestion and store in Supabase
     const suggestions = [];
@@ -256,7 +386,9 @@ async function synthesisNode(state: WorkflowState): Promise<WorkflowState> {
           trigger: suggestion.trigger,
           replacement: suggestion.replacement,
           sourceTexts: suggestion.sourceTexts,
-          confidence: suggestion.confidence
+          confidence: suggestion.confidence,
+          clusterId: suggestion.clusterId,
+          placeholders: suggestion.placeholders
         }) || undefined;
       }
       
@@ -268,6 +400,24 @@ async function synthesisNode(state: WorkflowState): Promise<WorkflowState> {
     
     console.log(`Generated ${suggestions.length} suggestions`);
     
+    // Link each suggestion to its cluster so later runs reuse it instead of synthesizing the pattern again
+    const links: Record<string, ClusterSuggestionLink> = {};
+    for (const suggestion of suggestions) {
+      if (!suggestion.clusterId) continue;
+      links[suggestion.clusterId] = {
+        trigger: suggestion.trigger,
+        replacement: suggestion.replacement,
+        placeholders: suggestion.placeholders,
+        confidence: suggestion.confidence,
+        suggestionId: suggestion.suggestionId,
+        synthesizedAt: new Date().toISOString()
+      };
+    }
+    clusterStoreService.recordClusterSuggestions(
+      state.clusters.map(cluster => cluster.id).filter((id): id is string => !!id),
+      links
+    );
+    
     return {
       ...state,
       suggestions,
@@ -275,6 +425,8 @@ async function synthesisNode(state: WorkflowState): Promise<WorkflowState> {
         ...state.stepResults,
         synthesis: { 
           suggestionCount: suggestions.length,
+          provider: llm.id,
+          model: llm.model,
           storedInSupabase: suggestions.filter(s => s.suggestionId).length
         }
       }
@@ -301,6 +453,13 @@ async function storeResultsNode(state: WorkflowState): Promise<WorkflowState> {
     const endTime = Date.now();
     const processingTime = state.startTime ? endTime - state.startTime : 0;
     
+    // Once clustering has run, the loaded entries count as processed; if an earlier step failed they stay new for the next run
+    if (state.clusters) {
+      analysisProgressService.saveProcessedEntryIds(
+        (state.logEntries || []).map(entry => entry.id).filter((id): id is string => !!id)
+      );
+    }
+    
     // Store analysis results if Supabase is available
     if (state.supabaseInitialized) {
       const success = await supabaseService.storeAnalysisResult({
@@ -344,11 +503,15 @@ async function storeResultsNode(state: WorkflowState): Promise<WorkflowState> {
  * @returns Next step name or END
  */
 function routeWorkflow(state: WorkflowState): string {
+  if (state.stepResults?.finalResults) return END;
+  
   // If there are critical errors, end the workflow
   if (state.errors && state.errors.length > 0) {
     const hasCriticalError = state.errors.some(error => 
-      error.includes('No OpenAI API key') ||
-      error.includes('No log entries found')
+      /No .+ API key found/.test(error) ||
+      error.includes('needs a base URL') ||
+      error.includes('No log entries found') ||
+      error.includes('No new log entries')
     );
     
     if (hasCriticalError) {
@@ -365,8 +528,10 @@ function routeWorkflow(state: WorkflowState): string {
     return 'storeResults';
   }
   
+  if (!state.stepResults?.redaction) return 'redaction';
   if (!state.embeddings) return 'embedding';
   if (!state.clusters) return 'clustering';
+  if (state.clusters.length === 0) return 'storeResults';
   if (!state.suggestions) return 'synthesis';
   if (!state.stepResults?.finalResults) return 'storeResults';
   
@@ -381,6 +546,7 @@ export function createWorkflowGraph(): StateGraph<WorkflowState> {
   const workflow = new StateGraph<WorkflowState>({
     channels: {
       logEntries: null,
+      newEntryIds: null,
       embeddings: null,
       clusters: null,
       suggestions: null,
@@ -394,6 +560,7 @@ export function createWorkflowGraph(): StateGraph<WorkflowState> {
   // Add nodes to the workflow
   workflow.addNode('initializeWorkflow', initializeWorkflowNode);
   workflow.addNode('loadLogEntries', loadLogEntriesNode);
+  workflow.addNode('redaction', redactionNode);
   workflow.addNode('embedding', embeddingNode);
   workflow.addNode('clustering', clusteringNode);
   workflow.addNode('synthesis', synthesisNode);
@@ -403,6 +570,7 @@ export function createWorkflowGraph(): StateGraph<WorkflowState> {
   workflow.addEdge(START, 'initializeWorkflow');
   workflow.addConditionalEdges('initializeWorkflow', routeWorkflow);
   workflow.addConditionalEdges('loadLogEntries', routeWorkflow);
+  workflow.addConditionalEdges('redaction', routeWorkflow);
   workflow.addConditionalEdges('embedding', routeWorkflow);
   workflow.addConditionalEdges('clustering', routeWorkflow);
   workflow.addConditionalEdges('synthesis', routeWorkflow);
@@ -0,0 +1,188 @@
+/**
+ * @file Tests for the clustering algorithms, automatic epsilon and quality metrics on small synthetic vector sets
+ * @module clustering-algorithms.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  buildDistanceMatrix,
+  computeClusteringQuality,
+  createClusteringAlgorithm,
+  resolveClusteringOptions,
+  selectEpsilonFromKDistance,
+  DEFAULT_EPSILON
+} from './clustering-algorithms';
+import type { ClusteringAlgorithmId } from '../../common/types/analysis-settings';
+
+const DIMENSIONS = 6;
+
+// Fixed offsets that spread a blob's points around its axis: cosine distances within a blob stay below 0.03, and
+// between blobs above 0.5
+const BLOB_OFFSETS = [[0, 0], [0.1, 0], [0, 0.1], [0.1, 0.1], [0.15, 0], [0, 0.15]];
+
+/**
+ * Builds a vector from its non-zero components
+ * @param components - Value per dimension index
+ * @returns The vector
+ */
+function vector(components: { [dimension: number]: number }): number[] {
+  return Array.from({ length: DIMENSIONS }, (_, dimension) => components[dimension] || 0);
+}
+
+/**
+ * Builds a tight blob of points around one axis, spread over the two following dimensions
+ * @param axis - The blob's axis
+ * @returns Its points
+ */
+function blob(axis: number): number[][] {
+  return BLOB_OFFSETS.map(([a, b]) => vector({ [axis]: 1, [(axis + 1) % 3]: a, [(axis + 2) % 3]: b }));
+}
+
+// Three blobs of six points (indices 0-5, 6-11, 12-17) and three outliers: one 0.29 from the first blob's axis and two
+// on axes of their own
+const BLOBS = [...blob(0), ...blob(1), ...blob(2)];
+const OUTLIERS = [vector({ 0: 1, 3: 1 }), vector({ 4: 1 }), vector({ 5: 1 })];
+const VECTORS = [...BLOBS, ...OUTLIERS];
+const EXPECTED_GROUPS = [[0, 1, 2, 3, 4, 5], [6, 7, 8, 9, 10, 11], [12, 13, 14, 15, 16, 17]];
+
+/**
+ * Sorts groups into a comparable form: indices ascending, groups by their first index
+ * @param groups - Indices per cluster
+ * @returns The sorted groups
+ */
+function normalize(groups: number[][]): number[][] {
+  return groups.map(group => [...group].sort((a, b) => a - b)).sort((a, b) => a[0] - b[0]);
+}
+
+describe('buildDistanceMatrix', () => {
+  it('measures cosine distance symmetrically', () => {
+    const matrix = buildDistanceMatrix([vector({ 0: 1 }), vector({ 0: 2 }), vector({ 1: 1 }), vector({ 0: -1 }), vector({}), vector({ 0: 1, 1: 1 })]);
+
+    expect(Array.from(matrix[0])).toEqual([0, 0, 1, 2, 1, expect.closeTo(1 - Math.SQRT1_2, 10)]);
+    matrix.forEach((row, i) => row.forEach((distance, j) => expect(distance).toBe(matrix[j][i])));
+  });
+});
+
+describe('clustering algorithms', () => {
+  it.each<ClusteringAlgorithmId>(['dbscan', 'agglomerative'])('%s finds the three blobs and leaves the outliers out', algorithmId => {
+    const groups = createClusteringAlgorithm(algorithmId).cluster(VECTORS, { epsilon: 0.1, minPoints: 3 });
+
+    expect(normalize(groups)).toEqual(EXPECTED_GROUPS);
+  });
+
+  it('hdbscan finds the three blobs, keeping the nearby outlier with its blob and leaving the far ones out', () => {
+    const groups = createClusteringAlgorithm('hdbscan').cluster(VECTORS, { epsilon: 0.1, minPoints: 3 });
+
+    expect(normalize(groups)).toEqual([[...EXPECTED_GROUPS[0], 18], EXPECTED_GROUPS[1], EXPECTED_GROUPS[2]]);
+  });
+
+  it.each<ClusteringAlgorithmId>(['dbscan', 'hdbscan', 'agglomerative'])('%s gives the same groups with a precomputed distance matrix', algorithmId => {
+    const algorithm = createClusteringAlgorithm(algorithmId);
+    const distances = buildDistanceMatrix(VECTORS);
+    const before = distances.map(row => Array.from(row));
+
+    const groups = algorithm.cluster(VECTORS, { epsilon: 0.1, minPoints: 3 }, distances);
+
+    expect(normalize(groups)).toEqual(normalize(algorithm.cluster(VECTORS, { epsilon: 0.1, minPoints: 3 })));
+    expect(distances.map(row => Array.from(row))).toEqual(before);
+  });
+
+  it.each<ClusteringAlgorithmId>(['dbscan', 'hdbscan', 'agglomerative'])('%s drops groups smaller than the minimum size', algorithmId => {
+    const groups = createClusteringAlgorithm(algorithmId).cluster(VECTORS, { epsilon: 0.1, minPoints: 8 });
+
+    expect(groups).toEqual([]);
+  });
+
+  it.each<ClusteringAlgorithmId>(['dbscan', 'hdbscan', 'agglomerative'])('%s finds nothing in fewer points than the minimum size', algorithmId => {
+    expect(createClusteringAlgorithm(algorithmId).cluster(BLOBS.slice(0, 2), { epsilon: 0.1, minPoints: 3 })).toEqual([]);
+  });
+
+  it('dbscan chains blobs through a point within epsilon of both, where average linkage keeps them apart', () => {
+    const vectors = [...blob(0), ...blob(1), vector({ 0: 1, 1: 1 })];
+
+    expect(normalize(createClusteringAlgorithm('dbscan').cluster(vectors, { epsilon: 0.35, minPoints: 3 })))
+      .toEqual([[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]]);
+    expect(createClusteringAlgorithm('agglomerative').cluster(vectors, { epsilon: 0.35, minPoints: 3 })).toHaveLength(2);
+  });
+
+  it('hdbscan keeps a lone group of similar prompts as one cluster', () => {
+    const groups = createClusteringAlgorithm('hdbscan').cluster([...blob(0), ...OUTLIERS.slice(1)], { epsilon: 0, minPoints: 3 });
+
+    expect(normalize(groups)).toEqual([[0, 1, 2, 3, 4, 5]]);
+  });
+
+  it('agglomerative merges nothing below the distances within a blob', () => {
+    expect(createClusteringAlgorithm('agglomerative').cluster(VECTORS, { epsilon: 0.001, minPoints: 2 })).toEqual([]);
+  });
+});
+
+describe('selectEpsilonFromKDistance', () => {
+  it('picks the distance the points of evenly spaced rings share with their neighbors', () => {
+    // Eight points around each of three axes; a point's first and second nearest neighbors are both 45 degrees round
+    const ring = (axis: number) => Array.from({ length: 8 }, (_, step) => vector({
+      [axis]: 1,
+      [(axis + 1) % 3]: 0.6 * Math.cos(step * Math.PI / 4),
+      [(axis + 2) % 3]: 0.6 * Math.sin(step * Math.PI / 4)
+    }));
+    const neighborDistance = 1 - (1 + 0.36 * Math.SQRT1_2) / 1.36;
+
+    const epsilon = selectEpsilonFromKDistance([...ring(0), ...ring(1), ...ring(2), ...OUTLIERS.slice(1)], 3);
+
+    expect(epsilon).toBeCloseTo(neighborDistance, 10);
+  });
+
+  it('keeps to the bottom of the automatic range for blobs tighter than that, which still separates them', () => {
+    const epsilon = selectEpsilonFromKDistance(VECTORS, 3) as number;
+
+    expect(epsilon).toBe(0.05);
+    expect(normalize(createClusteringAlgorithm('dbscan').cluster(VECTORS, { epsilon, minPoints: 3 }))).toEqual(EXPECTED_GROUPS);
+  });
+
+  it.each([
+    ['too few points', BLOBS.slice(0, 4), 3],
+    ['identical distances', Array.from({ length: 8 }, () => vector({ 0: 1 })), 3]
+  ])('finds no knee with %s', (_name, vectors, minPoints) => {
+    expect(selectEpsilonFromKDistance(vectors, minPoints)).toBeNull();
+  });
+});
+
+describe('resolveClusteringOptions', () => {
+  it.each<[string, number | null, number[][], number, string]>([
+    ['a manual epsilon', 0.25, VECTORS, 0.25, 'manual'],
+    ['the knee when epsilon is automatic', null, VECTORS, selectEpsilonFromKDistance(VECTORS, 3) as number, 'auto'],
+    ['the default when there is no knee', null, BLOBS.slice(0, 4), DEFAULT_EPSILON, 'default']
+  ])('uses %s', (_name, clusterEpsilon, vectors, epsilon, epsilonSource) => {
+    const options = resolveClusteringOptions({ clusteringAlgorithm: 'hdbscan', clusterEpsilon, clusterMinPoints: 3 }, vectors);
+
+    expect(options).toMatchObject({ epsilon, epsilonSource, minPoints: 3 });
+    expect(options.algorithm.id).toBe('hdbscan');
+  });
+});
+
+describe('computeClusteringQuality', () => {
+  it('scores the blobs as tight and well separated', () => {
+    const quality = computeClusteringQuality(VECTORS, EXPECTED_GROUPS);
+
+    expect(quality.silhouette).toBeGreaterThan(0.9);
+    expect(quality.intraClusterSimilarity).toBeGreaterThan(0.95);
+    expect(quality.noiseRatio).toBeCloseTo(3 / 21, 10);
+  });
+
+  it('gives a negative silhouette when the groups cut across the blobs', () => {
+    const mixed = [[0, 1, 2, 6, 7, 8], [3, 4, 5, 9, 10, 11]];
+
+    expect(computeClusteringQuality(VECTORS, mixed).silhouette).toBeLessThan(0);
+  });
+
+  it('has no silhouette with a single cluster', () => {
+    const quality = computeClusteringQuality(VECTORS, [EXPECTED_GROUPS[0]]);
+
+    expect(quality.silhouette).toBeNull();
+    expect(quality.intraClusterSimilarity).toBeGreaterThan(0.95);
+  });
+
+  it('reports only noise without clusters', () => {
+    expect(computeClusteringQuality(VECTORS, [])).toEqual({ silhouette: null, intraClusterSimilarity: null, noiseRatio: 1 });
+    expect(computeClusteringQuality([], [])).toEqual({ silhouette: null, intraClusterSimilarity: null, noiseRatio: 0 });
+  });
+});
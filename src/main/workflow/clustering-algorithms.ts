@@ -0,0 +1,459 @@
+/**
+ * @file Clustering algorithms (DBSCAN, HDBSCAN, agglomerative), automatic epsilon selection and cluster quality metrics
+ * @module clustering-algorithms
+ */
+
+import { DBSCAN } from 'density-clustering';
+import type { AnalysisSettings, ClusteringAlgorithmId } from '../../common/types/analysis-settings';
+import type { ClusteringQuality } from '../../common/types/clustering';
+
+// Used when epsilon is automatic but there are too few points to find a knee
+export const DEFAULT_EPSILON = 0.3;
+
+// Automatic epsilon stays in this range: below it only near-identical prompts group, above it unrelated ones do
+const AUTO_EPSILON_RANGE = { min: 0.05, max: 0.6 };
+
+// HDBSCAN never links prompts further apart than this, however sparse the rest of the data is
+const HDBSCAN_MAX_DISTANCE = 0.5;
+
+// Avoids infinite lambdas for identical prompts (distance 0)
+const MIN_HDBSCAN_DISTANCE = 1e-6;
+
+// Parameters shared by the algorithms
+export interface ClusteringParams {
+  epsilon: number;      // Cosine distance (1 - cosine similarity)
+  minPoints: number;    // Smallest group that counts as a cluster
+}
+
+// Groups vectors into clusters, leaving outliers out; callers that cluster the same vectors repeatedly can pass
+// their distance matrix so it is only computed once
+export interface ClusteringAlgorithm {
+  id: ClusteringAlgorithmId;
+  name: string;
+  usesEpsilon: boolean; // HDBSCAN finds its own density levels
+  cluster: (vectors: number[][], params: ClusteringParams, distances?: Float64Array[]) => number[][]; // Indices per cluster
+}
+
+// Algorithm and parameters for one run, with where epsilon came from
+export interface ClusteringOptions extends ClusteringParams {
+  algorithm: ClusteringAlgorithm;
+  epsilonSource: 'auto' | 'manual' | 'default';
+}
+
+/**
+ * Computes the cosine distance between every pair of vectors
+ * @param vectors - The vectors
+ * @returns Symmetric distance matrix
+ */
+export function buildDistanceMatrix(vectors: number[][]): Float64Array[] {
+  const norms = vectors.map(vector => Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)));
+  const matrix = vectors.map(() => new Float64Array(vectors.length));
+
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      let dot = 0;
+      for (let d = 0; d < vectors[i].length; d++) {
+        dot += vectors[i][d] * vectors[j][d];
+      }
+      const similarity = norms[i] === 0 || norms[j] === 0 ? 0 : dot / (norms[i] * norms[j]);
+      matrix[i][j] = matrix[j][i] = 1 - similarity;
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Gets each point's distance to its k-th nearest neighbor (not counting itself)
+ * @param matrix - Distance matrix
+ * @param k - Neighbor rank
+ * @returns Distance per point
+ */
+function getKDistances(matrix: Float64Array[], k: number): number[] {
+  return matrix.map((row, i) => {
+    const distances = Array.from(row).filter((_, j) => j !== i).sort((a, b) => a - b);
+    return distances[Math.min(k, distances.length) - 1];
+  });
+}
+
+/**
+ * Picks DBSCAN's epsilon at the knee of the sorted k-distance curve
+ * Points inside clusters have close k-th neighbors and outliers have far ones, so the sorted distances stay low and
+ * then climb steeply; the knee is the point furthest below the line from the first to the last distance
+ * @param vectors - The vectors to cluster
+ * @param minPoints - DBSCAN's minimum points (k is one less, since a point counts towards its own neighborhood)
+ * @param distances - Their distance matrix, if already computed
+ * @returns Epsilon within the automatic range, or null if there are too few points to find a knee
+ */
+export function selectEpsilonFromKDistance(vectors: number[][], minPoints: number, distances?: Float64Array[]): number | null {
+  const k = Math.max(1, minPoints - 1);
+  if (vectors.length < k + 3) return null;
+
+  const kDistances = getKDistances(distances || buildDistanceMatrix(vectors), k).sort((a, b) => a - b);
+  const first = kDistances[0];
+  const last = kDistances[kDistances.length - 1];
+  if (last - first < 1e-9) return null;
+
+  let kneeIndex = 0;
+  let largestGap = -Infinity;
+  kDistances.forEach((distance, index) => {
+    const gap = index / (kDistances.length - 1) - (distance - first) / (last - first);
+    if (gap > largestGap) {
+      largestGap = gap;
+      kneeIndex = index;
+    }
+  });
+
+  return Math.min(AUTO_EPSILON_RANGE.max, Math.max(AUTO_EPSILON_RANGE.min, kDistances[kneeIndex]));
+}
+
+/**
+ * Creates the DBSCAN algorithm (density-clustering), run on a precomputed distance matrix
+ * @returns The algorithm
+ */
+function createDBSCANAlgorithm(): ClusteringAlgorithm {
+  return {
+    id: 'dbscan',
+    name: 'DBSCAN',
+    usesEpsilon: true,
+    cluster: (vectors, { epsilon, minPoints }, distances) => {
+      if (vectors.length < minPoints) return [];
+
+      const matrix = distances || buildDistanceMatrix(vectors);
+      const dbscan = new DBSCAN();
+      return dbscan
+        .run(vectors.map((_, index) => [index]), epsilon, minPoints, (a: number[], b: number[]) => matrix[a[0]][b[0]])
+        .filter(group => group.length >= minPoints);
+    }
+  };
+}
+
+// A merge in the single-linkage tree; IDs below the point count are points, the rest are merges
+interface LinkageNode {
+  left: number;
+  right: number;
+  distance: number;
+  size: number;
+}
+
+// A cluster of HDBSCAN's condensed tree
+interface CondensedCluster {
+  node: number;         // Linkage node the cluster starts at
+  birthLambda: number;
+  stability: number;
+  children: number[];
+}
+
+/**
+ * Collects the points under a linkage node
+ * @param node - Node ID
+ * @param nodes - Merge nodes
+ * @param pointCount - Number of points
+ * @returns Point indices
+ */
+function collectPoints(node: number, nodes: LinkageNode[], pointCount: number): number[] {
+  const points: number[] = [];
+  const stack = [node];
+  while (stack.length > 0) {
+    const current = stack.pop() as number;
+    if (current < pointCount) {
+      points.push(current);
+    } else {
+      stack.push(nodes[current - pointCount].left, nodes[current - pointCount].right);
+    }
+  }
+  return points;
+}
+
+/**
+ * Runs HDBSCAN: mutual reachability distances, their minimum spanning tree, the condensed cluster tree and
+ * selection of the most stable clusters (excess of mass). Links longer than HDBSCAN_MAX_DISTANCE are cut first, and
+ * each resulting tree may be kept as a single cluster, so a lone group of similar prompts is still found
+ * @param vectors - The vectors
+ * @param minPoints - Minimum cluster size, also the neighbor count for core distances
+ * @param distances - Their distance matrix, if already computed
+ * @returns Indices of the points in each cluster
+ */
+function runHDBSCAN(vectors: number[][], minPoints: number, distances?: Float64Array[]): number[][] {
+  const n = vectors.length;
+  if (n < minPoints) return [];
+
+  const matrix = distances || buildDistanceMatrix(vectors);
+  const coreDistances = getKDistances(matrix, Math.max(1, minPoints - 1));
+  const reachability = (i: number, j: number) => Math.max(coreDistances[i], coreDistances[j], matrix[i][j]);
+
+  // Prim's algorithm over the dense mutual reachability graph
+  const edges: Array<{ a: number; b: number; distance: number }> = [];
+  const inTree = new Array(n).fill(false);
+  const bestDistance = new Array(n).fill(Infinity);
+  const bestFrom = new Array(n).fill(-1);
+  let current = 0;
+  inTree[0] = true;
+  for (let added = 1; added < n; added++) {
+    let next = -1;
+    for (let j = 0; j < n; j++) {
+      if (inTree[j]) continue;
+      const distance = reachability(current, j);
+      if (distance < bestDistance[j]) {
+        bestDistance[j] = distance;
+        bestFrom[j] = current;
+      }
+      if (next === -1 || bestDistance[j] < bestDistance[next]) next = j;
+    }
+    inTree[next] = true;
+    edges.push({ a: bestFrom[next], b: next, distance: bestDistance[next] });
+    current = next;
+  }
+
+  // Single-linkage tree from the edges, shortest first, leaving out links that are too long
+  const nodes: LinkageNode[] = [];
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const componentNode = Array.from({ length: n }, (_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const nodeSize = (node: number) => (node < n ? 1 : nodes[node - n].size);
+
+  for (const edge of edges.filter(e => e.distance <= HDBSCAN_MAX_DISTANCE).sort((x, y) => x.distance - y.distance)) {
+    const rootA = find(edge.a);
+    const rootB = find(edge.b);
+    const left = componentNode[rootA];
+    const right = componentNode[rootB];
+    nodes.push({ left, right, distance: edge.distance, size: nodeSize(left) + nodeSize(right) });
+    parent[rootB] = rootA;
+    componentNode[rootA] = n + nodes.length - 1;
+  }
+
+  const result: number[][] = [];
+  const treeRoots = [...new Set(Array.from({ length: n }, (_, i) => componentNode[find(i)]))];
+
+  for (const treeRoot of treeRoots) {
+    if (nodeSize(treeRoot) < minPoints) continue;
+
+    // Condense the tree: splits into two large enough parts start new clusters, smaller parts just fall out
+    const clusters: CondensedCluster[] = [{ node: treeRoot, birthLambda: 0, stability: 0, children: [] }];
+    const stack: Array<{ node: number; cluster: number }> = [{ node: treeRoot, cluster: 0 }];
+
+    while (stack.length > 0) {
+      const { node, cluster } = stack.pop() as { node: number; cluster: number };
+      if (node < n) continue;
+
+      const { left, right, distance, size } = nodes[node - n];
+      const lambda = 1 / Math.max(distance, MIN_HDBSCAN_DISTANCE);
+      const owner = clusters[cluster];
+      const leftLarge = nodeSize(left) >= minPoints;
+      const rightLarge = nodeSize(right) >= minPoints;
+
+      if (leftLarge && rightLarge) {
+        owner.stability += size * (lambda - owner.birthLambda);
+        for (const child of [left, right]) {
+          clusters.push({ node: child, birthLambda: lambda, stability: 0, children: [] });
+          owner.children.push(clusters.length - 1);
+          stack.push({ node: child, cluster: clusters.length - 1 });
+        }
+      } else if (leftLarge || rightLarge) {
+        owner.stability += nodeSize(leftLarge ? right : left) * (lambda - owner.birthLambda);
+        stack.push({ node: leftLarge ? left : right, cluster });
+      } else {
+        owner.stability += size * (lambda - owner.birthLambda);
+      }
+    }
+
+    // Excess of mass: keep a cluster unless its descendants are more stable together
+    const selected = new Array(clusters.length).fill(false);
+    const bestStability = new Array(clusters.length).fill(0);
+    for (let i = clusters.length - 1; i >= 0; i--) {
+      const childStability = clusters[i].children.reduce((sum, child) => sum + bestStability[child], 0);
+      if (clusters[i].children.length === 0 || clusters[i].stability >= childStability) {
+        selected[i] = true;
+        bestStability[i] = clusters[i].stability;
+      } else {
+        bestStability[i] = childStability;
+      }
+    }
+
+    const take = [0];
+    while (take.length > 0) {
+      const i = take.pop() as number;
+      if (selected[i]) {
+        result.push(collectPoints(clusters[i].node, nodes, n));
+      } else {
+        take.push(...clusters[i].children);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Creates the HDBSCAN algorithm
+ * @returns The algorithm
+ */
+function createHDBSCANAlgorithm(): ClusteringAlgorithm {
+  return {
+    id: 'hdbscan',
+    name: 'HDBSCAN',
+    usesEpsilon: false,
+    cluster: (vectors, { minPoints }, distances) => runHDBSCAN(vectors, minPoints, distances)
+  };
+}
+
+/**
+ * Runs average-linkage agglomerative clustering, merging the closest clusters until none are within epsilon
+ * @param vectors - The vectors
+ * @param params - Epsilon (largest average distance to merge at) and minimum cluster size
+ * @param matrix - Their distance matrix, if already computed (not changed)
+ * @returns Indices of the points in each cluster of at least minPoints
+ */
+function runAgglomerative(vectors: number[][], { epsilon, minPoints }: ClusteringParams, matrix?: Float64Array[]): number[][] {
+  const n = vectors.length;
+  if (n < minPoints) return [];
+
+  // Cluster-to-cluster distances are updated in place as clusters merge, so work on a copy
+  const distances = matrix ? matrix.map(row => Float64Array.from(row)) : buildDistanceMatrix(vectors);
+  const members: Array<number[] | null> = Array.from({ length: n }, (_, i) => [i]);
+
+  // Each cluster's nearest other cluster, refreshed for the rows a merge touches
+  const nearest = new Array<number>(n).fill(-1);
+  const refreshNearest = (i: number) => {
+    nearest[i] = -1;
+    for (let j = 0; j < n; j++) {
+      if (j !== i && members[j] && (nearest[i] === -1 || distances[i][j] < distances[i][nearest[i]])) nearest[i] = j;
+    }
+  };
+  for (let i = 0; i < n; i++) refreshNearest(i);
+
+  for (;;) {
+    let a = -1;
+    for (let i = 0; i < n; i++) {
+      if (members[i] && nearest[i] !== -1 && (a === -1 || distances[i][nearest[i]] < distances[a][nearest[a]])) a = i;
+    }
+    if (a === -1 || distances[a][nearest[a]] > epsilon) break;
+
+    // Merge b into a; average linkage distances follow the Lance-Williams update
+    const b = nearest[a];
+    const [sizeA, sizeB] = [(members[a] as number[]).length, (members[b] as number[]).length];
+    for (let k = 0; k < n; k++) {
+      if (!members[k] || k === a || k === b) continue;
+      distances[a][k] = distances[k][a] = (sizeA * distances[a][k] + sizeB * distances[b][k]) / (sizeA + sizeB);
+    }
+    members[a] = [...(members[a] as number[]), ...(members[b] as number[])];
+    members[b] = null;
+
+    for (let i = 0; i < n; i++) {
+      if (members[i] && (i === a || nearest[i] === a || nearest[i] === b)) refreshNearest(i);
+      else if (members[i] && distances[i][a] < distances[i][nearest[i]]) nearest[i] = a;
+    }
+  }
+
+  return members.filter((group): group is number[] => !!group && group.length >= minPoints);
+}
+
+/**
+ * Creates the agglomerative (average-linkage) algorithm
+ * @returns The algorithm
+ */
+function createAgglomerativeAlgorithm(): ClusteringAlgorithm {
+  return {
+    id: 'agglomerative',
+    name: 'Agglomerative (average linkage)',
+    usesEpsilon: true,
+    cluster: runAgglomerative
+  };
+}
+
+/**
+ * Creates a clustering algorithm
+ * @param algorithmId - The algorithm
+ * @returns The algorithm
+ */
+export function createClusteringAlgorithm(algorithmId: ClusteringAlgorithmId): ClusteringAlgorithm {
+  switch (algorithmId) {
+    case 'hdbscan':
+      return createHDBSCANAlgorithm();
+    case 'agglomerative':
+      return createAgglomerativeAlgorithm();
+    default:
+      return createDBSCANAlgorithm();
+  }
+}
+
+/**
+ * Resolves the clustering options of a run from the analysis settings
+ * Epsilon is also what new prompts must be within to join an existing cluster, so it is resolved for HDBSCAN too
+ * @param settings - The analysis settings
+ * @param vectors - The run's vectors, for automatic epsilon
+ * @param distances - Their distance matrix, if already computed
+ * @returns Algorithm, epsilon and minimum points
+ */
+export function resolveClusteringOptions(
+  settings: Pick<AnalysisSettings, 'clusteringAlgorithm' | 'clusterEpsilon' | 'clusterMinPoints'>,
+  vectors: number[][],
+  distances?: Float64Array[]
+): ClusteringOptions {
+  const algorithm = createClusteringAlgorithm(settings.clusteringAlgorithm);
+  const minPoints = settings.clusterMinPoints;
+
+  if (settings.clusterEpsilon !== null) {
+    return { algorithm, epsilon: settings.clusterEpsilon, minPoints, epsilonSource: 'manual' };
+  }
+
+  const autoEpsilon = selectEpsilonFromKDistance(vectors, minPoints, distances);
+  return autoEpsilon === null
+    ? { algorithm, epsilon: DEFAULT_EPSILON, minPoints, epsilonSource: 'default' }
+    : { algorithm, epsilon: autoEpsilon, minPoints, epsilonSource: 'auto' };
+}
+
+/**
+ * Measures cluster quality
+ * Silhouette compares each clustered point's mean distance to its own cluster with that to the nearest other cluster
+ * (near 1: tight and well separated; near 0 or below: clusters overlap)
+ * @param vectors - Every vector that was clustered
+ * @param groups - Indices of the vectors in each cluster
+ * @param distances - Their distance matrix, if already computed
+ * @returns Silhouette, intra-cluster similarity and noise ratio
+ */
+export function computeClusteringQuality(vectors: number[][], groups: number[][], distances?: Float64Array[]): ClusteringQuality {
+  const clusteredCount = groups.reduce((sum, group) => sum + group.length, 0);
+  const noiseRatio = vectors.length === 0 ? 0 : (vectors.length - clusteredCount) / vectors.length;
+  if (groups.length === 0) {
+    return { silhouette: null, intraClusterSimilarity: null, noiseRatio };
+  }
+
+  const matrix = distances || buildDistanceMatrix(vectors);
+  const meanDistance = (point: number, group: number[]) => {
+    const others = group.filter(other => other !== point);
+    return others.length === 0 ? 0 : others.reduce((sum, other) => sum + matrix[point][other], 0) / others.length;
+  };
+
+  let similaritySum = 0;
+  let pairCount = 0;
+  for (const group of groups) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        similaritySum += 1 - matrix[group[i]][group[j]];
+        pairCount++;
+      }
+    }
+  }
+
+  let silhouette: number | null = null;
+  if (groups.length >= 2) {
+    let silhouetteSum = 0;
+    for (const [groupIndex, group] of groups.entries()) {
+      for (const point of group) {
+        if (group.length === 1) continue; // Singletons score 0
+        const own = meanDistance(point, group);
+        const nearestOther = Math.min(...groups.filter((_, other) => other !== groupIndex).map(other => meanDistance(point, other)));
+        const scale = Math.max(own, nearestOther);
+        silhouetteSum += scale === 0 ? 0 : (nearestOther - own) / scale;
+      }
+    }
+    silhouette = silhouetteSum / clusteredCount;
+  }
+
+  return {
+    silhouette,
+    intraClusterSimilarity: pairCount === 0 ? null : similaritySum / pairCount,
+    noiseRatio
+  };
+}
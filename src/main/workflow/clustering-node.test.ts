@@ -0,0 +1,171 @@
+/**
+ * @file Tests for updating the persistent cluster store: membership, assignment, seeding, splits and merges
+ * @module clustering-node.test
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getClusterFingerprint, updateClusterStore, ClusterPoint } from './clustering-node';
+import { createClusteringAlgorithm, ClusteringOptions } from './clustering-algorithms';
+import type { ClusterSuggestionLink, StoredCluster } from '../../common/types/cluster-store';
+
+const OPTIONS: ClusteringOptions = { algorithm: createClusteringAlgorithm('dbscan'), epsilon: 0.1, minPoints: 3, epsilonSource: 'manual' };
+const EARLIER = '2025-06-01T09:00:00.000Z';
+const NOW = new Date('2025-06-30T12:00:00.000Z');
+
+const SUGGESTION: ClusterSuggestionLink = {
+  trigger: ';tests',
+  replacement: 'Write unit tests for {function}',
+  confidence: 0.9,
+  synthesizedAt: EARLIER
+};
+
+// Small fixed offsets so the points near an axis form a dense group (cosine distances below 0.02)
+const OFFSETS = [0, 0.05, 0.1, 0.15, 0.2, 0.08, 0.12, 0.03];
+
+/**
+ * Builds points near an axis
+ * @param prefix - Key prefix; keys are numbered from 1
+ * @param axis - The axis (0-3)
+ * @param count - Number of points
+ * @param isNew - Whether earlier analyses saw them
+ * @returns The points
+ */
+function pointsNear(prefix: string, axis: number, count: number, isNew = true): ClusterPoint[] {
+  return Array.from({ length: count }, (_, index) => {
+    const embedding = [0, 0, 0, 0];
+    embedding[axis] = 1;
+    embedding[(axis + 1) % 4] = OFFSETS[index % OFFSETS.length];
+    return { key: `${prefix}${index + 1}`, text: `Prompt ${prefix}${index + 1}`, embedding, isNew };
+  });
+}
+
+/**
+ * Builds a cluster from an earlier run
+ * @param id - Cluster ID
+ * @param memberKeys - Its prompts
+ * @param centroid - Its centroid then
+ * @param fields - Other fields
+ * @returns The stored cluster
+ */
+function storedCluster(id: string, memberKeys: string[], centroid: number[], fields: Partial<StoredCluster> = {}): StoredCluster {
+  return { id, fingerprint: getClusterFingerprint(memberKeys), centroid, memberKeys, createdAt: EARLIER, updatedAt: EARLIER, ...fields };
+}
+
+/**
+ * Gets the keys of a point list
+ * @param points - The points
+ * @returns Their keys
+ */
+function keysOf(points: ClusterPoint[]): string[] {
+  return points.map(point => point.key);
+}
+
+describe('updateClusterStore', () => {
+  it('keeps prompts in the clusters they belong to, whatever their embedding', () => {
+    const members = pointsNear('a', 0, 3, false);
+    const moved = { ...members[0], embedding: [0, 0, 1, 0] }; // E.g. a different embedding provider
+    const stored = [storedCluster('cluster-a', keysOf(members), [1, 0, 0, 0], { suggestion: SUGGESTION })];
+
+    const update = updateClusterStore([moved, members[1], members[2]], stored, OPTIONS, NOW);
+
+    expect(update).toMatchObject({ assigned: 0, seeded: 0, merged: 0, split: 0 });
+    expect(update.clusters).toHaveLength(1);
+    expect(update.clusters[0]).toMatchObject({ id: 'cluster-a', memberKeys: keysOf(members), suggestion: SUGGESTION, updatedAt: NOW.toISOString() });
+    expect(update.active).toEqual([{ cluster: update.clusters[0], texts: ['Prompt a1', 'Prompt a2', 'Prompt a3'], newTextCount: 0 }]);
+  });
+
+  it('adds a new prompt to the nearest cluster whose centroid is within epsilon', () => {
+    const stored = [
+      storedCluster('cluster-a', ['a1', 'a2', 'a3'], [1, 0, 0, 0]),
+      storedCluster('cluster-b', ['b1', 'b2', 'b3'], [1, 0.5, 0, 0])
+    ];
+    const near = { key: 'n1', text: 'Prompt n1', embedding: [1, 0.4, 0, 0], isNew: true }; // 0.07 from A, 0.003 from B
+    const far = { key: 'f1', text: 'Prompt f1', embedding: [0, 0, 1, 0], isNew: true };
+
+    const update = updateClusterStore([near, far], stored, OPTIONS, NOW);
+
+    expect(update).toMatchObject({ assigned: 1, seeded: 0, merged: 0, split: 0 });
+    expect(update.clusters.map(cluster => [cluster.id, cluster.memberKeys])).toEqual([
+      ['cluster-a', ['a1', 'a2', 'a3']],
+      ['cluster-b', ['b1', 'b2', 'b3', 'n1']]
+    ]);
+    expect(update.active.map(({ cluster, texts, newTextCount }) => [cluster.id, texts, newTextCount])).toEqual([['cluster-b', ['Prompt n1'], 1]]);
+    expect(update.clusters[1].centroid).toEqual([1, 0.4, 0, 0]);
+    expect(update.clusters[0].updatedAt).toBe(EARLIER);
+  });
+
+  it('seeds new clusters from dense groups of unassigned prompts', () => {
+    const points = [...pointsNear('c', 2, 4), ...pointsNear('x', 3, 2)];
+
+    const update = updateClusterStore(points, [], OPTIONS, NOW);
+
+    expect(update).toMatchObject({ assigned: 0, seeded: 1, merged: 0, split: 0 });
+    expect(update.clusters).toEqual([expect.objectContaining({
+      fingerprint: getClusterFingerprint(['c1', 'c2', 'c3', 'c4']),
+      memberKeys: ['c1', 'c2', 'c3', 'c4'],
+      createdAt: NOW.toISOString()
+    })]);
+    expect(update.active[0].texts).toEqual(['Prompt c1', 'Prompt c2', 'Prompt c3', 'Prompt c4']);
+  });
+
+  it('splits a cluster whose prompts form separate groups, leaving the ID and suggestion with the largest', () => {
+    const smaller = pointsNear('s', 1, 3);
+    const larger = pointsNear('l', 0, 5);
+    const stored = [storedCluster('cluster-a', [...keysOf(smaller), ...keysOf(larger)], [1, 0.5, 0, 0], { suggestion: SUGGESTION })];
+
+    const update = updateClusterStore([...smaller, ...larger], stored, OPTIONS, NOW);
+
+    expect(update).toMatchObject({ assigned: 0, seeded: 0, merged: 0, split: 1 });
+    const [original, part] = update.clusters;
+    expect(original).toMatchObject({ id: 'cluster-a', memberKeys: keysOf(larger), suggestion: SUGGESTION });
+    expect(part).toMatchObject({ splitFrom: 'cluster-a', memberKeys: keysOf(smaller), fingerprint: getClusterFingerprint(keysOf(smaller)) });
+    expect(part.id).not.toBe('cluster-a');
+    expect(part.suggestion).toBeUndefined();
+    expect(update.active.map(({ cluster, texts }) => [cluster.id, texts.length])).toEqual([['cluster-a', 5], [part.id, 3]]);
+  });
+
+  it('doesn\'t split a cluster with fewer than twice the minimum prompts', () => {
+    const points = [...pointsNear('s', 1, 2), ...pointsNear('l', 0, 3)];
+    const stored = [storedCluster('cluster-a', keysOf(points), [1, 0.5, 0, 0])];
+
+    const update = updateClusterStore(points, stored, OPTIONS, NOW);
+
+    expect(update.split).toBe(0);
+    expect(update.clusters.map(cluster => cluster.id)).toEqual(['cluster-a']);
+  });
+
+  it.each<[string, Partial<StoredCluster>, Partial<StoredCluster>, string]>([
+    ['the one with a suggestion, even if smaller', { suggestion: SUGGESTION }, {}, 'cluster-a'],
+    ['the larger one without suggestions', {}, {}, 'cluster-b'],
+    ['the larger one when both have suggestions', { suggestion: SUGGESTION }, { suggestion: { ...SUGGESTION, trigger: ';spec' } }, 'cluster-b']
+  ])('merges clusters whose centroids have grown together into %s', (_name, fieldsA, fieldsB, survivorId) => {
+    const pointsA = pointsNear('a', 0, 3);
+    const pointsB = pointsNear('b', 0, 5).map(point => ({ ...point, embedding: [1, point.embedding[1] + 0.02, 0, 0] }));
+    const stored = [
+      storedCluster('cluster-a', keysOf(pointsA), [1, 0, 0, 0], fieldsA),
+      storedCluster('cluster-b', keysOf(pointsB), [1, 0.6, 0, 0], fieldsB)
+    ];
+
+    const update = updateClusterStore([...pointsA, ...pointsB], stored, OPTIONS, NOW);
+
+    expect(update).toMatchObject({ merged: 1, split: 0 });
+    expect(update.clusters).toHaveLength(1);
+    const [survivor] = update.clusters;
+    const absorbed = stored.find(cluster => cluster.id !== survivorId) as StoredCluster;
+    expect(survivor.id).toBe(survivorId);
+    expect(survivor.mergedIds).toEqual([absorbed.id]);
+    expect([...survivor.memberKeys].sort()).toEqual([...keysOf(pointsA), ...keysOf(pointsB)].sort());
+    expect(survivor.suggestion).toEqual(stored.find(cluster => cluster.id === survivorId)?.suggestion || absorbed.suggestion);
+    expect(update.active).toHaveLength(1);
+    expect(update.active[0].texts).toHaveLength(8);
+  });
+
+  it('doesn\'t change the stored clusters it was given', () => {
+    const stored = [storedCluster('cluster-a', ['a1', 'a2', 'a3'], [1, 0, 0, 0])];
+    const before = JSON.parse(JSON.stringify(stored));
+
+    updateClusterStore([{ key: 'n1', text: 'Prompt n1', embedding: [1, 0.05, 0, 0], isNew: true }], stored, OPTIONS, NOW);
+
+    expect(stored).toEqual(before);
+  });
+});
@@ -1,10 +1,18 @@
 /**
- * @file Clustering node for grouping similar text embeddings using DBSCAN algorithm
+ * @file Clustering node for grouping similar text embeddings (DBSCAN by default, or HDBSCAN or agglomerative)
  * @module clustering-node
  */
 
-import { DBSCAN } from 'density-clustering';
+import { createHash, randomUUID } from 'crypto';
 import { calculateCosineSimilarity } from './embedding-node';
+import {
+  computeClusteringQuality,
+  createClusteringAlgorithm,
+  DEFAULT_EPSILON,
+  type ClusteringOptions
+} from './clustering-algorithms';
+import type { StoredCluster } from '../../common/types/cluster-store';
+import type { ClusteringQuality } from '../../common/types/clustering';
 
 // Interface for embedding results
 interface EmbeddingResult {
@@ -15,30 +23,64 @@ interface EmbeddingResult {
 
 // Interface for cluster results
 interface ClusterResult {
+  id?: string;          // Stored cluster ID, when clustered incrementally
+  fingerprint?: string;
   texts: string[];
   centroid: number[];
   size: number;
 }
 
-// Configuration for DBSCAN clustering algorithm
-const DBSCAN_CONFIG = {
-  epsilon: 0.3,              // Maximum distance between two samples for them to be considered neighbors
+// An embedded prompt of the current run, identified by the hash of its normalized text
+export interface ClusterPoint {
+  key: string;
+  text: string;
+  embedding: number[];
+  isNew: boolean;       // Not processed by an earlier analysis
+}
+
+// A stored cluster with prompts in the current run
+export interface ActiveCluster {
+  cluster: StoredCluster;
+  texts: string[];
+  newTextCount: number;
+}
+
+// The cluster store after a run, and what changed
+export interface ClusterStoreUpdate {
+  clusters: StoredCluster[];
+  active: ActiveCluster[];
+  assigned: number;     // Prompts added to existing clusters
+  seeded: number;       // New clusters
+  merged: number;       // Clusters folded into another
+  split: number;        // Clusters broken off another
+}
+
+// Clustering used when no options are given: DBSCAN with fixed parameters
+const DEFAULT_CLUSTERING_OPTIONS: ClusteringOptions = {
+  algorithm: createClusteringAlgorithm('dbscan'),
+  epsilon: DEFAULT_EPSILON,  // Maximum cosine distance between two samples for them to be considered neighbors
   minPoints: 3,              // Minimum number of points required to form a dense region (cluster)
-  maxClusters: 10,           // Maximum number of clusters to return
-  distanceFunction: 'cosine' // Distance function to use for clustering
+  epsilonSource: 'default'
 };
 
+const MAX_CLUSTERS = 10; // Maximum number of clusters to return (or synthesize per run)
+
 /**
- * Clusters embeddings using DBSCAN algorithm for density-based clustering
+ * Clusters embeddings from scratch
  * @param embeddings - Array of embedding results to cluster
+ * @param options - Algorithm and parameters (DBSCAN with epsilon 0.3 and 3 points by default)
  * @returns Promise resolving to array of clusters
  */
-export async function clusterEmbeddings(embeddings: EmbeddingResult[]): Promise<ClusterResult[]> {
+export async function clusterEmbeddings(
+  embeddings: EmbeddingResult[],
+  options: ClusteringOptions = DEFAULT_CLUSTERING_OPTIONS
+): Promise<ClusterResult[]> {
   if (!embeddings || embeddings.length === 0) {
     throw new Error('No embeddings provided for clustering');
   }
 
-  console.log(`Clustering ${embeddings.length} embeddings using DBSCAN...`);
+  const { algorithm, minPoints } = options;
+  console.log(`Clustering ${embeddings.length} embeddings using ${algorithm.name}...`);
 
   try {
     // Validate embeddings
@@ -50,22 +92,21 @@ export async function clusterEmbeddings(embeddings: EmbeddingResult[]): Promise<
       result.text.trim().length > 0
     );
 
-    if (validEmbeddings.length < DBSCAN_CONFIG.minPoints) {
-      console.log(`Not enough valid embeddings for DBSCAN clustering (need at least ${DBSCAN_CONFIG.minPoints})`);
+    if (validEmbeddings.length < minPoints) {
+      console.log(`Not enough valid embeddings for ${algorithm.name} clustering (need at least ${minPoints})`);
       return [];
     }
 
-    console.log(`Clustering ${validEmbeddings.length} valid embeddings with DBSCAN`);
+    console.log(`Clustering ${validEmbeddings.length} valid embeddings with ${algorithm.name}`);
 
-    // Use DBSCAN clustering algorithm
-    const clusters = await performDBSCANClustering(validEmbeddings);
+    const clusters = await performClustering(validEmbeddings, options);
 
     // Sort by cluster size (largest first) and limit to max clusters
     const sortedClusters = clusters
       .sort((a, b) => b.size - a.size)
-      .slice(0, DBSCAN_CONFIG.maxClusters);
+      .slice(0, MAX_CLUSTERS);
 
-    console.log(`DBSCAN found ${sortedClusters.length} valid clusters`);
+    console.log(`${algorithm.name} found ${sortedClusters.length} valid clusters`);
     sortedClusters.forEach((cluster, index) => {
       console.log(`Cluster ${index + 1}: ${cluster.size} items`);
       console.log(`  Sample texts: ${cluster.texts.slice(0, 2).map(t => `"${t.substring(0, 50)}..."`).join(', ')}`);
@@ -74,48 +115,57 @@ export async function clusterEmbeddings(embeddings: EmbeddingResult[]): Promise<
     return sortedClusters;
 
   } catch (error) {
-    console.error('Error clustering embeddings with DBSCAN:', error);
+    console.error(`Error clustering embeddings with ${algorithm.name}:`, error);
     throw new Error(`Failed to cluster embeddings: ${error}`);
   }
 }
 
 /**
- * Performs DBSCAN clustering on embeddings
+ * Cosine distance between two vectors (1 - cosine similarity)
+ * @param vectorA - First vector
+ * @param vectorB - Second vector
+ * @returns Distance between 0 and 2
+ */
+function cosineDistance(vectorA: number[], vectorB: number[]): number {
+  return 1 - calculateCosineSimilarity(vectorA, vectorB);
+}
+
+/**
+ * Groups vectors with the run's algorithm
+ * @param vectors - Embedding vectors
+ * @param options - Algorithm and parameters
+ * @returns Indices of the vectors in each group of at least minPoints (noise is left out)
+ */
+function groupVectors(vectors: number[][], options: ClusteringOptions): number[][] {
+  if (vectors.length < options.minPoints) return [];
+
+  return options.algorithm
+    .cluster(vectors, { epsilon: options.epsilon, minPoints: options.minPoints })
+    .filter(group => group.length >= options.minPoints);
+}
+
+/**
+ * Clusters embeddings with the given algorithm
  * @param embeddings - Valid embeddings to cluster
+ * @param options - Algorithm and parameters
  * @returns Array of cluster results
  */
-async function performDBSCANClustering(embeddings: EmbeddingResult[]): Promise<ClusterResult[]> {
-  // Initialize DBSCAN with configured parameters
-  const dbscan = new DBSCAN();
-  
-  // Extract just the embedding vectors for clustering
-  const vectors = embeddings.map(result => result.embedding);
-  
-  // Define distance function for DBSCAN (1 - cosine similarity = cosine distance)
-  const distanceFunction = (vectorA: number[], vectorB: number[]): number => {
-    const similarity = calculateCosineSimilarity(vectorA, vectorB);
-    return 1 - similarity; // Convert similarity to distance
-  };
-  
-  console.log(`Running DBSCAN with epsilon=${DBSCAN_CONFIG.epsilon}, minPoints=${DBSCAN_CONFIG.minPoints}`);
+async function performClustering(embeddings: EmbeddingResult[], options: ClusteringOptions): Promise<ClusterResult[]> {
+  const { algorithm, epsilon, minPoints } = options;
+  console.log(`Running ${algorithm.name} with ${algorithm.usesEpsilon ? `epsilon=${epsilon.toFixed(3)}, ` : ''}minPoints=${minPoints}`);
   
-  // Run DBSCAN clustering
-  const clusterIndices = dbscan.run(
-    vectors, 
-    DBSCAN_CONFIG.epsilon, 
-    DBSCAN_CONFIG.minPoints, 
-    distanceFunction
-  );
+  // Cluster just the embedding vectors
+  const clusterIndices = groupVectors(embeddings.map(result => result.embedding), options);
   
-  console.log(`DBSCAN returned ${clusterIndices.length} clusters`);
+  console.log(`${algorithm.name} returned ${clusterIndices.length} clusters`);
   
-  // Convert DBSCAN results to our cluster format
+  // Convert the groups to our cluster format
   const clusters: ClusterResult[] = [];
   
   for (let clusterIndex = 0; clusterIndex < clusterIndices.length; clusterIndex++) {
     const pointIndices = clusterIndices[clusterIndex];
     
-    if (pointIndices.length < DBSCAN_CONFIG.minPoints) {
+    if (pointIndices.length < minPoints) {
       continue; // Skip clusters that are too small
     }
     
@@ -133,7 +183,7 @@ async function performDBSCANClustering(embeddings: EmbeddingResult[]): Promise<C
     });
   }
   
-  console.log(`Created ${clusters.length} valid clusters from DBSCAN results`);
+  console.log(`Created ${clusters.length} valid clusters from ${algorithm.name} results`);
   
   return clusters;
 }
@@ -166,6 +216,211 @@ function calculateCentroid(embeddings: number[][]): number[] {
   return centroid;
 }
 
+/**
+ * Fingerprints a cluster by the prompts it was founded on
+ * @param memberKeys - Normalized-text hashes of the founding prompts
+ * @returns Short hex fingerprint, the same for the same set of prompts
+ */
+export function getClusterFingerprint(memberKeys: string[]): string {
+  return createHash('sha256').update([...new Set(memberKeys)].sort().join('\n')).digest('hex').slice(0, 16);
+}
+
+/**
+ * Creates a stored cluster from a dense group of points
+ * @param points - The group's points
+ * @param timestamp - Creation time (ISO string)
+ * @returns The new cluster
+ */
+function createStoredCluster(points: ClusterPoint[], timestamp: string): StoredCluster {
+  const memberKeys = [...new Set(points.map(point => point.key))];
+  return {
+    id: randomUUID(),
+    fingerprint: getClusterFingerprint(memberKeys),
+    centroid: calculateCentroid(points.map(point => point.embedding)),
+    memberKeys,
+    createdAt: timestamp,
+    updatedAt: timestamp
+  };
+}
+
+/**
+ * Updates the stored clusters with a run's embeddings instead of clustering from scratch
+ * Prompts already assigned to a cluster stay in it; other prompts join the nearest cluster whose centroid is within
+ * epsilon, and the rest are clustered with the run's algorithm to seed new clusters. Then clusters whose prompts now form separate
+ * dense groups are split (the largest group keeps the ID and suggestion), and clusters whose centroids have moved
+ * within half of epsilon of each other are merged (into the one with a suggestion, or else the larger one)
+ * @param points - This run's embedded prompts
+ * @param stored - Clusters from earlier runs (not changed)
+ * @param options - Algorithm and parameters
+ * @param now - Time of the run
+ * @returns The updated clusters, the ones with prompts in this run, and change counts
+ */
+export function updateClusterStore(
+  points: ClusterPoint[],
+  stored: StoredCluster[],
+  options: ClusteringOptions = DEFAULT_CLUSTERING_OPTIONS,
+  now: Date = new Date()
+): ClusterStoreUpdate {
+  const { epsilon, minPoints } = options;
+  const mergeDistance = epsilon / 2; // Centroids this close have grown into one region
+  const timestamp = now.toISOString();
+  const clusters = stored.map(cluster => ({ ...cluster, memberKeys: [...cluster.memberKeys] }));
+  const present = new Map<string, ClusterPoint[]>();
+  const owners = new Map<string, StoredCluster>();
+  clusters.forEach(cluster => cluster.memberKeys.forEach(key => owners.set(key, cluster)));
+
+  const addPresent = (cluster: StoredCluster, clusterPoints: ClusterPoint[]) => {
+    present.set(cluster.id, [...(present.get(cluster.id) || []), ...clusterPoints]);
+  };
+
+  // Assign prompts to known clusters: by membership first, then by distance to the centroid
+  const unassigned: ClusterPoint[] = [];
+  let assigned = 0;
+
+  for (const point of points) {
+    let owner = owners.get(point.key);
+
+    if (!owner) {
+      let nearestDistance = Infinity;
+      for (const cluster of clusters) {
+        const distance = cosineDistance(point.embedding, cluster.centroid);
+        if (distance <= epsilon && distance < nearestDistance) {
+          owner = cluster;
+          nearestDistance = distance;
+        }
+      }
+
+      if (owner) {
+        owner.memberKeys.push(point.key);
+        owners.set(point.key, owner);
+        assigned++;
+      }
+    }
+
+    if (owner) {
+      addPresent(owner, [point]);
+    } else {
+      unassigned.push(point);
+    }
+  }
+
+  // Seed new clusters from dense groups of the remaining prompts
+  let seeded = 0;
+  for (const group of groupVectors(unassigned.map(point => point.embedding), options)) {
+    const groupPoints = group.map(index => unassigned[index]);
+    const cluster = createStoredCluster(groupPoints, timestamp);
+    clusters.push(cluster);
+    addPresent(cluster, groupPoints);
+    seeded++;
+  }
+
+  // Move centroids to this run's prompts, then split clusters that now hold separate dense groups
+  let split = 0;
+  for (const cluster of [...clusters]) {
+    const clusterPoints = present.get(cluster.id);
+    if (!clusterPoints) continue;
+
+    cluster.centroid = calculateCentroid(clusterPoints.map(point => point.embedding));
+    cluster.updatedAt = timestamp;
+    if (clusterPoints.length < minPoints * 2) continue;
+
+    const groups = groupVectors(clusterPoints.map(point => point.embedding), options)
+      .sort((a, b) => b.length - a.length);
+    if (groups.length < 2) continue;
+
+    const splitIndices = new Set<number>();
+    for (const group of groups.slice(1)) {
+      const groupPoints = group.map(index => clusterPoints[index]);
+      const part = { ...createStoredCluster(groupPoints, timestamp), splitFrom: cluster.id };
+      const partKeys = new Set(part.memberKeys);
+
+      cluster.memberKeys = cluster.memberKeys.filter(key => !partKeys.has(key));
+      clusters.push(part);
+      present.set(part.id, groupPoints);
+      group.forEach(index => splitIndices.add(index));
+      split++;
+    }
+
+    const remaining = clusterPoints.filter((_, index) => !splitIndices.has(index));
+    present.set(cluster.id, remaining);
+    cluster.centroid = calculateCentroid(remaining.map(point => point.embedding));
+  }
+
+  // Merge clusters that have grown into each other
+  let merged = 0;
+  for (let i = 0; i < clusters.length; i++) {
+    for (let j = i + 1; j < clusters.length; j++) {
+      const [a, b] = [clusters[i], clusters[j]];
+      if (!present.has(a.id) && !present.has(b.id)) continue;
+      if (cosineDistance(a.centroid, b.centroid) > mergeDistance) continue;
+
+      const keepA = a.suggestion && !b.suggestion ? true
+        : b.suggestion && !a.suggestion ? false
+        : a.memberKeys.length >= b.memberKeys.length;
+      const [survivor, absorbed] = keepA ? [a, b] : [b, a];
+      const survivorPoints = present.get(survivor.id) || [];
+      const absorbedPoints = present.get(absorbed.id) || [];
+
+      survivor.memberKeys = [...new Set([...survivor.memberKeys, ...absorbed.memberKeys])];
+      survivor.mergedIds = [...(survivor.mergedIds || []), absorbed.id, ...(absorbed.mergedIds || [])];
+      survivor.suggestion = survivor.suggestion || absorbed.suggestion;
+      survivor.updatedAt = timestamp;
+      if (survivorPoints.length + absorbedPoints.length > 0) {
+        survivor.centroid = calculateCentroid([...survivorPoints, ...absorbedPoints].map(point => point.embedding));
+        present.set(survivor.id, [...survivorPoints, ...absorbedPoints]);
+      }
+      present.delete(absorbed.id);
+
+      clusters[i] = survivor;
+      clusters.splice(j, 1);
+      merged++;
+      j = i; // The survivor's centroid moved, so compare it with the remaining clusters again
+    }
+  }
+
+  const active = clusters
+    .filter(cluster => present.has(cluster.id))
+    .map(cluster => {
+      const clusterPoints = present.get(cluster.id) || [];
+      return {
+        cluster,
+        texts: clusterPoints.map(point => point.text),
+        newTextCount: clusterPoints.filter(point => point.isNew).length
+      };
+    });
+
+  return { clusters, active, assigned, seeded, merged, split };
+}
+
+/**
+ * Picks the clusters of a run that need a suggestion
+ * Clusters that already have one are known patterns and are skipped. The others are synthesized when they gained new
+ * prompts, or when no synthesis has been tried for them yet (e.g. the last attempt failed before finishing)
+ * @param update - The cluster store update of this run
+ * @param minPoints - Fewest prompts of the run a cluster needs to be synthesized
+ * @returns Clusters to synthesize, largest first
+ */
+export function selectClustersForSynthesis(
+  update: ClusterStoreUpdate,
+  minPoints: number = DEFAULT_CLUSTERING_OPTIONS.minPoints
+): ClusterResult[] {
+  return update.active
+    .filter(({ cluster, texts, newTextCount }) =>
+      !cluster.suggestion &&
+      texts.length >= minPoints &&
+      (newTextCount > 0 || !cluster.lastSynthesizedAt)
+    )
+    .sort((a, b) => b.texts.length - a.texts.length)
+    .slice(0, MAX_CLUSTERS)
+    .map(({ cluster, texts }) => ({
+      id: cluster.id,
+      fingerprint: cluster.fingerprint,
+      texts,
+      centroid: cluster.centroid,
+      size: texts.length
+    }));
+}
+
 /**
  * Alternative clustering method using k-means-like approach
  * This can be used if the simple method doesn't work well
@@ -242,7 +497,7 @@ export async function performKMeansClustering(
       .filter((_, index) => assignments[index] === c)
       .map(result => result.text);
 
-    if (clusterTexts.length >= DBSCAN_CONFIG.minPoints) {
+    if (clusterTexts.length >= DEFAULT_CLUSTERING_OPTIONS.minPoints) {
       clusters.push({
         texts: clusterTexts,
         centroid: centroids[c],
@@ -254,25 +509,49 @@ export async function performKMeansClustering(
   return clusters.sort((a, b) => b.size - a.size);
 }
 
+/**
+ * Measures how well clusters fit the embeddings they came from
+ * @param clusters - The clusters
+ * @param embeddings - Every embedding that was clustered (texts outside all clusters count as noise)
+ * @returns Silhouette, intra-cluster similarity and noise ratio
+ */
+function measureClusterQuality(clusters: ClusterResult[], embeddings: EmbeddingResult[]): ClusteringQuality {
+  const clusterOfText = new Map<string, number>();
+  clusters.forEach((cluster, clusterIndex) => cluster.texts.forEach(text => clusterOfText.set(text, clusterIndex)));
+
+  const groups: number[][] = clusters.map(() => []);
+  embeddings.forEach((result, index) => {
+    const clusterIndex = clusterOfText.get(result.text);
+    if (clusterIndex !== undefined) groups[clusterIndex].push(index);
+  });
+
+  return computeClusteringQuality(embeddings.map(result => result.embedding), groups);
+}
+
 /**
  * Gets cluster statistics for debugging and analysis
  * @param clusters - Array of cluster results
+ * @param embeddings - The embeddings that were clustered; when given, quality metrics are included
  * @returns Statistics about the clustering results
  */
-export function getClusteringStats(clusters: ClusterResult[]): {
+export function getClusteringStats(clusters: ClusterResult[], embeddings?: EmbeddingResult[]): {
   totalClusters: number;
   totalItems: number;
   averageClusterSize: number;
   largestClusterSize: number;
   smallestClusterSize: number;
+  quality?: ClusteringQuality;
 } {
+  const quality = embeddings ? { quality: measureClusterQuality(clusters, embeddings) } : {};
+
   if (clusters.length === 0) {
     return {
       totalClusters: 0,
       totalItems: 0,
       averageClusterSize: 0,
       largestClusterSize: 0,
-      smallestClusterSize: 0
+      smallestClusterSize: 0,
+      ...quality
     };
   }
 
@@ -284,6 +563,7 @@ export function getClusteringStats(clusters: ClusterResult[]): {
     totalItems,
     averageClusterSize: totalItems / clusters.length,
     largestClusterSize: Math.max(...sizes),
-    smallestClusterSize: Math.min(...sizes)
+    smallestClusterSize: Math.min(...sizes),
+    ...quality
   };
 } 
\ No newline at end of file
@@ -1,9 +1,10 @@
 /**
- * @file Embedding node for converting text to vector representations using OpenAI
+ * @file Embedding node for converting text to vector representations with the configured embedding provider
  * @module embedding-node
  */
 
-import { OpenAIEmbeddings } from '@langchain/openai';
+import type { EmbeddingProvider } from './embedding-providers';
+import { normalizeEmbeddingText, type EmbeddingCache } from '../utils/embedding-cache';
 
 // Interface for log entries
 interface LogEntry {
@@ -20,34 +21,33 @@ interface EmbeddingResult {
   index: number;
 }
 
+// Embeddings of one run, with how many texts came from the cache
+interface EmbeddingRun {
+  embeddings: EmbeddingResult[];
+  cacheHits: number;
+  cacheMisses: number;
+}
+
 /**
- * Embeds text entries using OpenAI's text-embedding-3-small model
+ * Embeds text entries with the given provider (OpenAI's text-embedding-3-small or the local lexical model)
+ * Texts found in the cache aren't sent to the provider, and each distinct text is embedded only once per run
  * @param logEntries - Array of log entries to embed
- * @param apiKey - OpenAI API key
- * @returns Promise resolving to array of embedding results
+ * @param provider - The embedding provider
+ * @param cache - Cached vectors of the provider's model, if caching is used
+ * @returns Promise resolving to the embedding results and cache hit and miss counts
  */
 export async function embedTexts(
   logEntries: LogEntry[], 
-  apiKey: string
-): Promise<EmbeddingResult[]> {
+  provider: EmbeddingProvider,
+  cache?: EmbeddingCache
+): Promise<EmbeddingRun> {
   if (!logEntries || logEntries.length === 0) {
     throw new Error('No log entries provided for embedding');
   }
 
-  if (!apiKey) {
-    throw new Error('OpenAI API key is required');
-  }
-
-  console.log(`Embedding ${logEntries.length} text entries...`);
+  console.log(`Embedding ${logEntries.length} text entries with ${provider.model}...`);
 
   try {
-    // Initialize OpenAI embeddings with the small model for cost efficiency
-    const embeddings = new OpenAIEmbeddings({
-      openAIApiKey: apiKey,
-      model: 'text-embedding-3-small',
-      dimensions: 1536, // Standard dimension for text-embedding-3-small
-    });
-
     // Extract just the text content for embedding
     const texts = logEntries.map(entry => entry.text);
 
@@ -60,30 +60,49 @@ export async function embedTexts(
 
     console.log(`Embedding ${validTexts.length} valid texts (filtered from ${texts.length})`);
 
+    // Look up each distinct text (ignoring whitespace differences) in the cache; only the misses go to the provider
+    const vectors = new Map<string, number[]>();
+    const misses: string[] = [];
+    const missKeys = new Set<string>();
+    let cacheHits = 0;
+
+    for (const text of validTexts) {
+      const key = normalizeEmbeddingText(text);
+      if (vectors.has(key) || missKeys.has(key)) continue;
+
+      const cached = cache?.get(text);
+      if (cached) {
+        vectors.set(key, cached);
+        cacheHits++;
+      } else {
+        misses.push(text);
+        missKeys.add(key);
+      }
+    }
+
+    if (cache) {
+      console.log(`Embedding cache: ${cacheHits} hits, ${misses.length} misses`);
+    }
+
     // Generate embeddings in batches to avoid API limits
-    const batchSize = 100; // OpenAI embedding API limit
-    const embeddingResults: EmbeddingResult[] = [];
+    const { batchSize } = provider;
 
-    for (let i = 0; i < validTexts.length; i += batchSize) {
-      const batch = validTexts.slice(i, i + batchSize);
-      console.log(`Processing embedding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(validTexts.length / batchSize)}`);
+    for (let i = 0; i < misses.length; i += batchSize) {
+      const batch = misses.slice(i, i + batchSize);
+      console.log(`Processing embedding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(misses.length / batchSize)}`);
 
       try {
         // Generate embeddings for this batch
-        const batchEmbeddings = await embeddings.embedDocuments(batch);
-
-        // Create embedding results with original indices
-        const batchResults = batchEmbeddings.map((embedding, batchIndex) => ({
-          text: batch[batchIndex],
-          embedding,
-          index: i + batchIndex
-        }));
+        const batchEmbeddings = await provider.embedDocuments(batch);
 
-        embeddingResults.push(...batchResults);
+        batchEmbeddings.forEach((embedding, batchIndex) => {
+          vectors.set(normalizeEmbeddingText(batch[batchIndex]), embedding);
+          cache?.set(batch[batchIndex], embedding);
+        });
 
         // Small delay between batches to respect rate limits
-        if (i + batchSize < validTexts.length) {
-          await new Promise(resolve => setTimeout(resolve, 200));
+        if (i + batchSize < misses.length && provider.batchDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, provider.batchDelayMs));
         }
 
       } catch (batchError) {
@@ -92,6 +111,13 @@ export async function embedTexts(
       }
     }
 
+    // Create embedding results with original indices
+    const embeddingResults: EmbeddingResult[] = validTexts.map((text, index) => ({
+      text,
+      embedding: vectors.get(normalizeEmbeddingText(text)) || [],
+      index
+    }));
+
     console.log(`Successfully generated ${embeddingResults.length} embeddings`);
 
     // Validate embeddings
@@ -103,7 +129,7 @@ export async function embedTexts(
       console.warn(`Found ${invalidEmbeddings.length} invalid embeddings`);
     }
 
-    return embeddingResults;
+    return { embeddings: embeddingResults, cacheHits, cacheMisses: misses.length };
 
   } catch (error) {
     console.error('Error generating embeddings:', error);
@@ -0,0 +1,78 @@
+/**
+ * @file Embedding providers: OpenAI embeddings, or local lexical vectors that never leave the machine
+ * @module embedding-providers
+ */
+
+import { OpenAIEmbeddings } from '@langchain/openai';
+import { embedLexical, LEXICAL_EMBEDDING_DIMENSIONS } from '../utils/lexical-embedding';
+import type { EmbeddingProviderId } from '../../common/types/analysis-settings';
+
+// Turns texts into vectors that cosine similarity can compare
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  model: string;                // Vectors are only comparable with others from the same model
+  dimensions: number;
+  requiresApiKey: boolean;
+  batchSize: number;            // Texts per embedDocuments call
+  batchDelayMs: number;         // Pause between batches (rate limits)
+  embedDocuments: (texts: string[]) => Promise<number[][]>;
+}
+
+/**
+ * Creates the OpenAI embedding provider (`text-embedding-3-small`)
+ * @param apiKey - OpenAI API key
+ * @returns The provider
+ */
+export function createOpenAIEmbeddingProvider(apiKey: string): EmbeddingProvider {
+  // Initialize OpenAI embeddings with the small model for cost efficiency
+  const embeddings = new OpenAIEmbeddings({
+    openAIApiKey: apiKey,
+    model: 'text-embedding-3-small',
+    dimensions: 1536, // Standard dimension for text-embedding-3-small
+    stripNewLines: false, // Multi-line prompts are embedded as typed
+  });
+
+  return {
+    id: 'openai',
+    model: 'text-embedding-3-small',
+    dimensions: 1536,
+    requiresApiKey: true,
+    batchSize: 100, // OpenAI embedding API limit
+    batchDelayMs: 200,
+    embedDocuments: texts => embeddings.embedDocuments(texts)
+  };
+}
+
+/**
+ * Creates the local lexical embedding provider (hashed word and character n-grams)
+ * Works offline and without an API key; it groups prompts that share wording rather than meaning
+ * @returns The provider
+ */
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    id: 'local',
+    model: `lexical-ngram-${LEXICAL_EMBEDDING_DIMENSIONS}`,
+    dimensions: LEXICAL_EMBEDDING_DIMENSIONS,
+    requiresApiKey: false,
+    batchSize: 500,
+    batchDelayMs: 0,
+    embedDocuments: async texts => texts.map(text => embedLexical(text))
+  };
+}
+
+/**
+ * Creates the provider selected in the analysis settings
+ * @param providerId - The selected provider
+ * @param apiKey - OpenAI API key, if one is configured
+ * @returns The provider
+ * @throws Error if the provider needs an API key and none is configured
+ */
+export function createEmbeddingProvider(providerId: EmbeddingProviderId, apiKey: string | null): EmbeddingProvider {
+  if (providerId === 'local') {
+    return createLocalEmbeddingProvider();
+  }
+  if (!apiKey) {
+    throw new Error('No OpenAI API key found');
+  }
+  return createOpenAIEmbeddingProvider(apiKey);
+}
@@ -0,0 +1,175 @@
+/**
+ * @file Tests for the HTTP synthesis providers against a local stand-in server, and the deterministic mock
+ * @module llm-providers.test
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createLlmProvider, createMockCompletion } from './llm-providers';
+
+// A request the stand-in server received
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+// What the stand-in server answers with next
+interface StubReply {
+  status: number;
+  body: unknown;
+}
+
+describe('HTTP providers', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let reply: StubReply;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => { body += chunk; });
+      request.on('end', () => {
+        received.push({ method: request.method, url: request.url, headers: request.headers, body: body ? JSON.parse(body) : null });
+        response.writeHead(reply.status, { 'content-type': 'application/json' });
+        response.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  describe('openai-compatible', () => {
+    const chatCompletion = (content: string) => ({
+      id: 'chatcmpl-1',
+      object: 'chat.completion',
+      created: 1736150000,
+      model: 'llama3.1',
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+    });
+
+    it('sends the prompt to the base URL\'s chat completions endpoint without a key', async () => {
+      reply = { status: 200, body: chatCompletion('Replacement: Explain {function}\nConfidence: HIGH') };
+      const provider = createLlmProvider('openai-compatible', { model: 'llama3.1', temperature: 0.3, baseUrl: `${baseUrl}/v1` }, null);
+
+      const text = await provider.complete('Summarize these prompts');
+
+      expect(text).toBe('Replacement: Explain {function}\nConfidence: HIGH');
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ method: 'POST', url: '/v1/chat/completions' });
+      expect(received[0].body).toMatchObject({
+        model: 'llama3.1',
+        temperature: 0.3,
+        max_tokens: 1000,
+        messages: [{ role: 'user', content: 'Summarize these prompts' }]
+      });
+      expect(provider).toMatchObject({ id: 'openai-compatible', model: 'llama3.1', requestDelayMs: 0 });
+    });
+
+    it('passes a configured API key on', async () => {
+      reply = { status: 200, body: chatCompletion('ok') };
+      const provider = createLlmProvider('openai-compatible', { model: 'llama3.1', temperature: 0, baseUrl: `${baseUrl}/v1` }, 'local-key');
+
+      await provider.complete('Hello');
+
+      expect(received[0].headers.authorization).toBe('Bearer local-key');
+    });
+
+    it('rejects when the server refuses the request', async () => {
+      reply = { status: 400, body: { error: { message: 'model "llama9" not found', type: 'invalid_request_error' } } };
+      const provider = createLlmProvider('openai-compatible', { model: 'llama9', temperature: 0, baseUrl: `${baseUrl}/v1` }, null);
+
+      await expect(provider.complete('Hello')).rejects.toThrow('model "llama9" not found');
+    });
+
+    it('needs a base URL', () => {
+      expect(() => createLlmProvider('openai-compatible', { model: 'llama3.1', temperature: 0 }, null))
+        .toThrow('The OpenAI-compatible provider needs a base URL');
+    });
+  });
+
+  describe('anthropic', () => {
+    it('posts to the Messages API under the base URL and joins the text blocks', async () => {
+      reply = {
+        status: 200,
+        body: {
+          content: [
+            { type: 'text', text: 'Replacement: Explain {function}' },
+            { type: 'tool_use', id: 'tool-1' },
+            { type: 'text', text: '\nConfidence: HIGH' }
+          ]
+        }
+      };
+      const provider = createLlmProvider('anthropic', { model: 'claude-3-5-sonnet-latest', temperature: 0.3, baseUrl: `${baseUrl}/` }, 'sk-ant-test');
+
+      const text = await provider.complete('Summarize these prompts');
+
+      expect(text).toBe('Replacement: Explain {function}\nConfidence: HIGH');
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ method: 'POST', url: '/v1/messages' });
+      expect(received[0].headers).toMatchObject({ 'x-api-key': 'sk-ant-test', 'anthropic-version': '2023-06-01' });
+      expect(received[0].body).toEqual({
+        model: 'claude-3-5-sonnet-latest',
+        max_tokens: 1000,
+        temperature: 0.3,
+        messages: [{ role: 'user', content: 'Summarize these prompts' }]
+      });
+    });
+
+    it('reports the API\'s error message with the status', async () => {
+      reply = { status: 401, body: { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } } };
+      const provider = createLlmProvider('anthropic', { model: 'claude-3-5-sonnet-latest', temperature: 0, baseUrl }, 'sk-ant-wrong');
+
+      await expect(provider.complete('Hello')).rejects.toThrow('Anthropic API error 401: invalid x-api-key');
+    });
+
+    it('falls back to the status text when the error body isn\'t JSON', async () => {
+      reply = { status: 502, body: '<html>Bad gateway</html>' };
+      const provider = createLlmProvider('anthropic', { model: 'claude-3-5-sonnet-latest', temperature: 0, baseUrl }, 'sk-ant-test');
+
+      await expect(provider.complete('Hello')).rejects.toThrow('Anthropic API error 502: Bad Gateway');
+    });
+
+    it('returns no text for a reply without text blocks', async () => {
+      reply = { status: 200, body: { content: null } };
+      const provider = createLlmProvider('anthropic', { model: 'claude-3-5-sonnet-latest', temperature: 0, baseUrl }, 'sk-ant-test');
+
+      expect(await provider.complete('Hello')).toBe('');
+    });
+
+    it('needs an API key', () => {
+      expect(() => createLlmProvider('anthropic', { model: 'claude-3-5-sonnet-latest', temperature: 0 }, null))
+        .toThrow('No Anthropic API key found');
+    });
+  });
+});
+
+describe('createMockCompletion', () => {
+  it('turns the listed varying parts into placeholders', () => {
+    const prompt = [
+      '1. "explain parseConfig"',
+      '2. "explain loadUser"',
+      '- {function}: "parseConfig", "loadUser"'
+    ].join('\n');
+
+    expect(createMockCompletion(prompt)).toBe('Replacement: explain {function}\nConfidence: HIGH');
+  });
+
+  it('uses the words the prompts start with when nothing varies', () => {
+    const prompt = '1. "Write unit tests for the parser"\n2. "Write unit tests for the lexer"';
+
+    expect(createMockCompletion(prompt)).toBe('Replacement: Write unit tests for the\nConfidence: HIGH');
+  });
+});
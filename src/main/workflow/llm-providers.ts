@@ -0,0 +1,199 @@
+/**
+ * @file Language model providers for synthesis: OpenAI, OpenAI-compatible servers, Anthropic and a deterministic mock
+ * @module llm-providers
+ */
+
+import { ChatOpenAI } from '@langchain/openai';
+import { HumanMessage } from '@langchain/core/messages';
+import type { LlmProviderConfig, LlmProviderId } from '../../common/types/llm-provider';
+
+const MAX_TOKENS = 1000; // Reasonable limit for responses
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Sends a single prompt to a language model and returns its text reply
+export interface LlmProvider {
+  id: LlmProviderId;
+  name: string;             // Shown in logs and errors
+  model: string;
+  requestDelayMs: number;   // Pause between requests (rate limits)
+  complete: (prompt: string) => Promise<string>;
+}
+
+// Display names of the providers
+export const LLM_PROVIDER_NAMES: Record<LlmProviderId, string> = {
+  openai: 'OpenAI',
+  'openai-compatible': 'OpenAI-compatible',
+  anthropic: 'Anthropic',
+  mock: 'Mock'
+};
+
+/**
+ * Checks whether a provider can't run without an API key
+ * OpenAI-compatible servers take one if configured, but local ones like Ollama don't need it
+ * @param providerId - The provider
+ * @returns Whether an API key is required
+ */
+export function providerRequiresApiKey(providerId: LlmProviderId): boolean {
+  return providerId === 'openai' || providerId === 'anthropic';
+}
+
+/**
+ * Reads the text of a LangChain chat response, joining text blocks if the content is structured
+ * @param content - The response content
+ * @returns The text
+ */
+function getMessageText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(block => (block && typeof block === 'object' && typeof block.text === 'string' ? block.text : ''))
+    .join('');
+}
+
+/**
+ * Creates a provider backed by the OpenAI chat API, or any server that speaks it
+ * @param providerId - 'openai' or 'openai-compatible'
+ * @param config - Model, temperature and base URL
+ * @param apiKey - API key (local OpenAI-compatible servers usually don't need one)
+ * @returns The provider
+ */
+function createChatOpenAIProvider(providerId: 'openai' | 'openai-compatible', config: LlmProviderConfig, apiKey: string | null): LlmProvider {
+  const llm = new ChatOpenAI({
+    // The client refuses to start without a key, so keyless local servers get a placeholder they ignore
+    openAIApiKey: apiKey || 'not-needed',
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: MAX_TOKENS,
+    ...(config.baseUrl ? { configuration: { baseURL: config.baseUrl } } : {})
+  });
+
+  return {
+    id: providerId,
+    name: LLM_PROVIDER_NAMES[providerId],
+    model: config.model,
+    requestDelayMs: providerId === 'openai' ? 500 : 0,
+    complete: async prompt => getMessageText((await llm.invoke([new HumanMessage(prompt)])).content)
+  };
+}
+
+/**
+ * Creates a provider backed by the Anthropic Messages API
+ * @param config - Model, temperature and optional base URL
+ * @param apiKey - Anthropic API key
+ * @returns The provider
+ */
+function createAnthropicProvider(config: LlmProviderConfig, apiKey: string): LlmProvider {
+  const endpoint = `${(config.baseUrl || ANTHROPIC_BASE_URL).replace(/\/+$/, '')}/v1/messages`;
+
+  return {
+    id: 'anthropic',
+    name: LLM_PROVIDER_NAMES.anthropic,
+    model: config.model,
+    requestDelayMs: 500,
+    complete: async prompt => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': ANTHROPIC_VERSION
+        },
+        body: JSON.stringify({
+          model: config.model,
+          max_tokens: MAX_TOKENS,
+          temperature: config.temperature,
+          messages: [{ role: 'user', content: prompt }]
+        })
+      });
+
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        const message = body?.error?.message || response.statusText;
+        throw new Error(`Anthropic API error ${response.status}: ${message}`);
+      }
+
+      const blocks: Array<{ type?: string; text?: string }> = Array.isArray(body?.content) ? body.content : [];
+      return blocks.filter(block => block.type === 'text').map(block => block.text || '').join('');
+    }
+  };
+}
+
+/**
+ * Answers a synthesis prompt without a model: the words the quoted prompts start with become the replacement,
+ * or the first prompt with its varying parts turned into placeholders when the prompt lists any
+ * The same request always gets the same reply, so workflow runs can be compared exactly
+ * @param prompt - The synthesis prompt, with the cluster's prompts listed as `1. "..."` and varying parts as
+ * `- {name}: "value", ...`
+ * @returns A reply in the synthesis response format
+ */
+export function createMockCompletion(prompt: string): string {
+  const samples = [...prompt.matchAll(/^\d+\. "(.*?)"?$/gm)].map(match => match[1].trim()).filter(Boolean);
+  if (samples.length === 0) {
+    return 'No prompts to summarize';
+  }
+
+  let template = samples[0];
+  for (const [, name, valueList] of prompt.matchAll(/^- \{(\w+)\}: (.*)$/gm)) {
+    const value = [...valueList.matchAll(/"(.*?)"/g)].map(match => match[1]).find(candidate => template.includes(candidate));
+    if (value) template = template.replace(value, `{${name}}`);
+  }
+  if (template !== samples[0]) {
+    return `Replacement: ${template.slice(0, 100)}\nConfidence: HIGH`;
+  }
+
+  const wordLists = samples.map(sample => sample.split(/\s+/));
+  const shared: string[] = [];
+  for (const [index, word] of wordLists[0].entries()) {
+    if (!wordLists.every(words => words[index]?.toLowerCase() === word.toLowerCase())) break;
+    shared.push(word);
+  }
+
+  const replacement = shared.join(' ').length >= 10 ? shared.join(' ') : samples[0];
+  return `Replacement: ${replacement.slice(0, 100)}\nConfidence: ${shared.length >= 2 ? 'HIGH' : 'MEDIUM'}`;
+}
+
+/**
+ * Creates the deterministic mock provider (no network)
+ * @param config - Model name to report
+ * @returns The provider
+ */
+function createMockProvider(config: LlmProviderConfig): LlmProvider {
+  return {
+    id: 'mock',
+    name: LLM_PROVIDER_NAMES.mock,
+    model: config.model,
+    requestDelayMs: 0,
+    complete: async prompt => createMockCompletion(prompt)
+  };
+}
+
+/**
+ * Creates the configured synthesis provider
+ * @param providerId - The provider
+ * @param config - Its model settings
+ * @param apiKey - Its API key from the keychain, if one is stored
+ * @returns The provider
+ * @throws Error if the provider needs an API key and none is stored, or has no base URL where one is required
+ */
+export function createLlmProvider(providerId: LlmProviderId, config: LlmProviderConfig, apiKey: string | null): LlmProvider {
+  const missingKey = new Error(`No ${LLM_PROVIDER_NAMES[providerId]} API key found`);
+
+  switch (providerId) {
+    case 'openai':
+      if (!apiKey) throw missingKey;
+      return createChatOpenAIProvider('openai', config, apiKey);
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error('The OpenAI-compatible provider needs a base URL');
+      }
+      return createChatOpenAIProvider('openai-compatible', config, apiKey);
+    case 'anthropic':
+      if (!apiKey) throw missingKey;
+      return createAnthropicProvider(config, apiKey);
+    case 'mock':
+      return createMockProvider(config);
+    default:
+      throw new Error(`Unknown synthesis provider: ${providerId}`);
+  }
+}
@@ -1,13 +1,15 @@
 /**
- * @file Synthesis node for converting text clusters into actionable suggestions using GPT
+ * @file Synthesis node for converting text clusters into actionable suggestions using a language model
  * @module synthesis-node
  */
 
-import { ChatOpenAI } from '@langchain/openai';
-import { HumanMessage } from '@langchain/core/messages';
+import type { LlmProvider } from './llm-providers';
+import { findVariableParts, getTemplatePlaceholderNames } from '../utils/prompt-template';
+import type { TemplatePlaceholder } from '../../common/types/prompt-template';
 
 // Interface for cluster results
 interface ClusterResult {
+  id?: string; // Stored cluster ID
   texts: string[];
   centroid: number[];
   size: number;
@@ -15,40 +17,30 @@ interface ClusterResult {
 
 // Interface for suggestion results
 interface SuggestionResult {
+  clusterId?: string;
   replacement: string;
+  placeholders?: TemplatePlaceholder[]; // Set when the replacement is a template with `{name}` placeholders
   sourceTexts: string[];
   confidence: number;
 }
 
 /**
- * Synthesizes actionable suggestions from text clusters using GPT-4
+ * Synthesizes actionable suggestions from text clusters with the configured language model
  * @param clusters - Array of cluster results to synthesize
- * @param apiKey - OpenAI API key
+ * @param llm - The synthesis provider
  * @returns Promise resolving to array of suggestion results
  */
 export async function synthesizeSuggestions(
   clusters: ClusterResult[],
-  apiKey: string
+  llm: LlmProvider
 ): Promise<SuggestionResult[]> {
   if (!clusters || clusters.length === 0) {
     throw new Error('No clusters provided for synthesis');
   }
 
-  if (!apiKey) {
-    throw new Error('OpenAI API key is required');
-  }
-
-  console.log(`Synthesizing suggestions from ${clusters.length} clusters...`);
+  console.log(`Synthesizing suggestions from ${clusters.length} clusters with ${llm.name} (${llm.model})...`);
 
   try {
-    // Initialize OpenAI chat model with GPT-4o for best reasoning
-    const llm = new ChatOpenAI({
-      openAIApiKey: apiKey,
-      model: 'gpt-4o',
-      temperature: 0.3, // Low temperature for consistent results
-      maxTokens: 1000    // Reasonable limit for responses
-    });
-
     const suggestions: SuggestionResult[] = [];
 
     // Process each cluster individually for better control
@@ -64,8 +56,8 @@ export async function synthesizeSuggestions(
         }
 
         // Small delay between API calls to respect rate limits
-        if (i < clusters.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 500));
+        if (i < clusters.length - 1 && llm.requestDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, llm.requestDelayMs));
         }
 
       } catch (clusterError) {
@@ -86,13 +78,13 @@ export async function synthesizeSuggestions(
     
     if (error instanceof Error) {
       if (error.message.includes('API key')) {
-        throw new Error('Invalid or missing OpenAI API key');
+        throw new Error(`Invalid or missing ${llm.name} API key`);
       }
       if (error.message.includes('quota')) {
-        throw new Error('OpenAI API quota exceeded');
+        throw new Error(`${llm.name} API quota exceeded`);
       }
       if (error.message.includes('rate limit')) {
-        throw new Error('OpenAI API rate limit exceeded');
+        throw new Error(`${llm.name} API rate limit exceeded`);
       }
     }
     
@@ -103,20 +95,20 @@ export async function synthesizeSuggestions(
 /**
  * Processes a single cluster to generate a suggestion
  * @param cluster - The cluster to process
- * @param llm - The OpenAI chat model instance
+ * @param llm - The synthesis provider
  * @returns Promise resolving to suggestion result or null if no good suggestion
  */
 async function processSingleCluster(
   cluster: ClusterResult,
-  llm: ChatOpenAI
+  llm: LlmProvider
 ): Promise<SuggestionResult | null> {
   
-  // Create a focused prompt for this specific cluster
-  const prompt = createClusterPrompt(cluster);
+  // Create a focused prompt for this specific cluster, pointing out the details that vary between its prompts
+  const variableParts = findVariableParts(cluster.texts);
+  const prompt = createClusterPrompt(cluster, variableParts);
   
   try {
-    const response = await llm.invoke([new HumanMessage(prompt)]);
-    const content = response.content as string;
+    const content = await llm.complete(prompt);
     
     // Parse the response to extract the suggestion
     const parsed = parseGptResponse(content);
@@ -126,14 +118,22 @@ async function processSingleCluster(
       return null;
     }
 
+    // Placeholders the model made up itself have no seen values; the user fills them in
+    const placeholders = getTemplatePlaceholderNames(parsed.replacement).map(name => ({
+      name,
+      values: variableParts.find(part => part.name === name)?.values || []
+    }));
+
     return {
+      clusterId: cluster.id,
       replacement: parsed.replacement,
+      ...(placeholders.length > 0 ? { placeholders } : {}),
       sourceTexts: cluster.texts,
       confidence: calculateConfidence(cluster, parsed.replacement)
     };
 
   } catch (error) {
-    console.error('Error processing cluster with GPT:', error);
+    console.error(`Error processing cluster with ${llm.name}:`, error);
     return null;
   }
 }
@@ -141,32 +141,42 @@ async function processSingleCluster(
 /**
  * Creates a carefully engineered prompt for analyzing a cluster
  * @param cluster - The cluster to create a prompt for
+ * @param variableParts - Details that vary between the cluster's prompts, offered as placeholders
  * @returns Formatted prompt string
  */
-function createClusterPrompt(cluster: ClusterResult): string {
+function createClusterPrompt(cluster: ClusterResult, variableParts: TemplatePlaceholder[]): string {
   // Sample up to 5 texts from the cluster for analysis
   const sampleTexts = cluster.texts.slice(0, 5);
+  const varyingSection = variableParts.length > 0
+    ? `\nVARYING PARTS (differ between the prompts above):\n${variableParts
+        .map(part => `- {${part.name}}: ${part.values.map(value => `"${value}"`).join(', ')}`)
+        .join('\n')}\n`
+    : '';
   
   return `You are analyzing repetitive text patterns to suggest keyboard shortcuts for a productivity app.
 
 TASK: Analyze these similar text prompts and create ONE concise, generic text replacement that captures their common intent.
 
 SIMILAR PROMPTS (${cluster.size} total):
-${sampleTexts.map((text, i) => `${i + 1}. "${text}"`).join('\n')}
-
+${sampleTexts.map((text, i) => `${i + 1}. "${text.replace(/\n/g, '\n   ')}"`).join('\n')}
+${varyingSection}
 REQUIREMENTS:
 - Create a generic version that works for ALL the prompts above
 - Keep it concise but complete (max 100 characters)
 - Make it professional and clear
 - Focus on the ACTION or INTENT, not specific details
+- Where the prompts differ only in a detail such as a file name, function name or error message, write a named placeholder in curly braces instead, e.g. {function}; use the names listed under VARYING PARTS when they fit
 - Suitable for text replacement/autocomplete
 
 RESPONSE FORMAT:
-Replacement: [your suggested text replacement]
+Replacement: [your suggested text replacement, with {placeholders} for the varying details]
 Confidence: [HIGH/MEDIUM/LOW based on how well the prompts match]
 
-Example:
+Examples:
 Replacement: Explain the following code:
+Confidence: HIGH
+
+Replacement: Explain how {function} works
 Confidence: HIGH`;
 }
 
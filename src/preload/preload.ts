@@ -4,6 +4,26 @@
  */
 
 import { contextBridge, ipcRenderer } from 'electron';
+import type { CaptureTargetRule } from '../common/types/capture-target';
+import type { RedactionSettings } from '../common/types/redaction';
+import type { ClassifierSettings, PromptClassification } from '../common/types/prompt-classifier';
+import type { AnalysisSettings } from '../common/types/analysis-settings';
+import type { EmbeddingCacheStats } from '../common/types/embedding-cache';
+import type {
+  ClusterExplorerData,
+  ClusteringTunerDataset,
+  ClusteringTunerParams,
+  ClusteringTunerResult
+} from '../common/types/clustering';
+import type { LlmProviderId, SynthesisSettings } from '../common/types/llm-provider';
+import type { CaptureSessionSummary } from '../common/types/capture-session';
+import type { PrivacySettings, PauseDuration, CapturePauseStatus } from '../common/types/capture-privacy';
+import type { LogEntry } from '../common/types/log-entry';
+import type { LogEncryptionStatus, KeyRotationResult, KeyRestoreResult } from '../common/types/log-encryption';
+import type { RetentionSettings, RetentionRunReport } from '../common/types/retention';
+import type { HistoryQuery, HistoryPage } from '../common/types/prompt-history';
+import type { ImportFormat, ImportReport } from '../common/types/prompt-import';
+import type { FilledTemplate, TemplateExportTarget } from '../common/types/prompt-template';
 
 // Define the API interface that will be exposed to the renderer
 interface ElectronAPI {
@@ -11,6 +31,69 @@ interface ElectronAPI {
   getApiKey: () => Promise<string | null>;
   checkApiKey: () => Promise<boolean>;
   
+  // Capture target settings
+  getCaptureTargets: () => Promise<CaptureTargetRule[]>;
+  saveCaptureTargets: (targets: CaptureTargetRule[]) => Promise<{ success: boolean; message: string }>;
+  
+  // Redaction settings
+  getRedactionSettings: () => Promise<RedactionSettings | null>;
+  saveRedactionSettings: (redaction: RedactionSettings) => Promise<{ success: boolean; message: string }>;
+  
+  // Prompt classifier settings
+  getClassifierSettings: () => Promise<{ settings: ClassifierSettings; languagePacks: Array<{ id: string; name: string }> } | null>;
+  saveClassifierSettings: (classifier: ClassifierSettings) => Promise<{ success: boolean; message: string }>;
+  classifyText: (text: string) => Promise<PromptClassification | null>;
+  
+  // Analysis settings and capture sessions
+  getAnalysisSettings: () => Promise<AnalysisSettings | null>;
+  saveAnalysisSettings: (analysis: AnalysisSettings) => Promise<{ success: boolean; message: string }>;
+  getCaptureSessions: () => Promise<CaptureSessionSummary[]>;
+  getEmbeddingCacheStats: () => Promise<EmbeddingCacheStats | null>;
+  clearEmbeddingCache: () => Promise<{ success: boolean; message: string }>;
+  
+  // Synthesis provider
+  getSynthesisSettings: () => Promise<SynthesisSettings | null>;
+  saveSynthesisSettings: (synthesis: SynthesisSettings) => Promise<{ success: boolean; message: string }>;
+  saveProviderApiKey: (provider: LlmProviderId, apiKey: string) => Promise<{ success: boolean; message: string }>;
+  hasProviderApiKey: (provider: LlmProviderId) => Promise<boolean>;
+  
+  // Clustering tuner (re-clusters cached embeddings; parameters are saved with the analysis settings)
+  loadClusteringTuner: () => Promise<{ success: boolean; message: string; dataset?: ClusteringTunerDataset }>;
+  runClusteringTuner: (params: ClusteringTunerParams) => Promise<{ success: boolean; message: string; result?: ClusteringTunerResult }>;
+  
+  // Cluster explorer
+  getClusterExplorer: () => Promise<{ success: boolean; message: string; data?: ClusterExplorerData }>;
+  openClusterSuggestion: (clusterId: string) => Promise<{ success: boolean; message: string }>;
+  
+  // Privacy: capture schedule, window exclusions and pauses
+  getPrivacySettings: () => Promise<PrivacySettings | null>;
+  savePrivacySettings: (privacy: PrivacySettings) => Promise<{ success: boolean; message: string }>;
+  pauseCapture: (duration: PauseDuration) => Promise<{ success: boolean; message: string; pause?: CapturePauseStatus }>;
+  resumeCapture: () => Promise<{ success: boolean; message: string; pause?: CapturePauseStatus }>;
+  
+  // Prompt history browser
+  searchHistory: (query: HistoryQuery) => Promise<HistoryPage | null>;
+  deleteHistoryEntries: (ids: string[]) => Promise<{ success: boolean; message: string; count?: number }>;
+  setHistoryEntriesExcluded: (ids: string[], excluded: boolean) => Promise<{ success: boolean; message: string; count?: number }>;
+  importPromptHistory: (format: ImportFormat) => Promise<{ success: boolean; message: string; canceled?: boolean; report?: ImportReport }>;
+  
+  // Retention policies for captured prompt data
+  getRetentionSettings: () => Promise<RetentionSettings | null>;
+  saveRetentionSettings: (retention: RetentionSettings) => Promise<{ success: boolean; message: string }>;
+  runRetention: () => Promise<{ success: boolean; message: string; report?: RetentionRunReport }>;
+  getRetentionReports: () => Promise<RetentionRunReport[]>;
+  
+  // Prompt log encryption at rest
+  getLogEncryptionStatus: () => Promise<LogEncryptionStatus | null>;
+  rotateLogEncryptionKey: () => Promise<{ success: boolean; message: string; result?: KeyRotationResult }>;
+  exportLogRecoveryKey: () => Promise<{ success: boolean; message: string; recoveryKey?: string }>;
+  restoreLogEncryptionKeys: (recoveryKey: string) => Promise<{ success: boolean; message: string; result?: KeyRestoreResult }>;
+  
+  // Capture recording and replay (for reproducing capture bugs)
+  startCaptureRecording: (options: { redact: boolean }) => Promise<{ success: boolean; message: string; filePath?: string }>;
+  stopCaptureRecording: () => Promise<{ success: boolean; message: string; filePath?: string | null }>;
+  replayCaptureRecording: (filePath: string) => Promise<{ success: boolean; message: string; entries?: LogEntry[] }>;
+  
   // Edit dialog validation methods
   validateTrigger: (trigger: string) => Promise<{
     isValid: boolean;
@@ -22,9 +105,10 @@ interface ElectronAPI {
     message?: string;
     type?: 'error' | 'warning' | 'success';
   }>;
+  fillTemplate: (template: string, values: Record<string, string>, target: TemplateExportTarget) => Promise<FilledTemplate>;
   
   // Edit dialog action methods
-  confirmEdit: (editedData: { trigger: string; replacement: string }) => Promise<{
+  confirmEdit: (editedData: { trigger: string; replacement: string; placeholderValues?: Record<string, string> }) => Promise<{
     success: boolean;
     error?: string;
   }>;
@@ -36,7 +120,7 @@ interface ElectronAPI {
   
   // Multi-suggestion dialog methods
   onLoadMultiSuggestions: (callback: (data: { suggestions: any[]; count: number }) => void) => void;
-  confirmSuggestion: (data: { suggestionIndex: number; editedData: { trigger: string; replacement: string } }) => Promise<{
+  confirmSuggestion: (data: { suggestionIndex: number; editedData: { trigger: string; replacement: string; placeholderValues?: Record<string, string> } }) => Promise<{
     success: boolean;
     error?: string;
   }>;
@@ -75,6 +159,340 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return ipcRenderer.invoke('check-api-key');
   },
 
+  /**
+   * Gets the configured capture target applications
+   * @returns Promise resolving to the list of capture target rules
+   */
+  getCaptureTargets: (): Promise<CaptureTargetRule[]> => {
+    return ipcRenderer.invoke('get-capture-targets');
+  },
+
+  /**
+   * Saves the capture target applications and their per-app rules
+   * @param targets - The full list of capture target rules
+   * @returns Promise resolving to success status and message
+   */
+  saveCaptureTargets: (targets: CaptureTargetRule[]): Promise<{ success: boolean; message: string }> => {
+    return ipcRenderer.invoke('save-capture-targets', targets);
+  },
+
+  /**
+   * Gets the secret/PII redaction settings
+   * @returns Promise resolving to the redaction settings
+   */
+  getRedactionSettings: (): Promise<RedactionSettings | null> => {
+    return ipcRenderer.invoke('get-redaction-settings');
+  },
+
+  /**
+   * Saves the redaction settings, including user-defined regex rules
+   * @param redaction - The full redaction settings
+   * @returns Promise resolving to success status and message
+   */
+  saveRedactionSettings: (redaction: RedactionSettings): Promise<{ success: boolean; message: string }> => {
+    return ipcRenderer.invoke('save-redaction-settings', redaction);
+  },
+
+  /**
+   * Gets the prompt classifier settings and the available language packs
+   * @returns Promise resolving to the classifier settings and pack list
+   */
+  getClassifierSettings: (): Promise<{ settings: ClassifierSettings; languagePacks: Array<{ id: string; name: string }> } | null> => {
+    return ipcRenderer.invoke('get-classifier-settings');
+  },
+
+  /**
+   * Saves the prompt classifier settings (threshold, language packs, custom rules)
+   * @param classifier - The full classifier settings
+   * @returns Promise resolving to success status and message
+   */
+  saveClassifierSettings: (classifier: ClassifierSettings): Promise<{ success: boolean; message: string }> => {
+    return ipcRenderer.invoke('save-classifier-settings', classifier);
+  },
+
+  /**
+   * Runs the classifier on a sample text and returns its score and reasons
+   * @param text - The text to classify
+   * @returns Promise resolving to the classification
+   */
+  classifyText: (text: string): Promise<PromptClassification | null> => {
+    return ipcRenderer.invoke('classify-text', text);
+  },
+
+  /**
+   * Gets the analysis settings
+   * @returns Promise resolving to the analysis settings
+   */
+  getAnalysisSettings: (): Promise<AnalysisSettings | null> => {
+    return ipcRenderer.invoke('get-analysis-settings');
+  },
+
+  /**
+   * Saves the analysis settings (e.g. only analyze submitted prompts)
+   * @param analysis - The full analysis settings
+   * @returns Promise resolving to success status and message
+   */
+  saveAnalysisSettings: (analysis: AnalysisSettings): Promise<{ success: boolean; message: string }> => {
+    return ipcRenderer.invoke('save-analysis-settings', analysis);
+  },
+
+  /**
+   * Gets summaries of the capture sessions in the current log
+   * @returns Promise resolving to session summaries, newest first
+   */
+  getCaptureSessions: (): Promise<CaptureSessionSummary[]> => {
+    return ipcRenderer.invoke('get-capture-sessions');
+  },
+
+  /**
+   * Gets the size and hit/miss counts of the embedding cache
+   * @returns Promise resolving to the cache statistics
+   */
+  getEmbeddingCacheStats: (): Promise<EmbeddingCacheStats | null> => {
+    return ipcRenderer.invoke('get-embedding-cache-stats');
+  },
+
+  /**
+   * Deletes every cached embedding
+   * @returns Promise resolving to success status and message
+   */
+  clearEmbeddingCache: (): Promise<{ success: boolean; message: string }> => {
+    return ipcRenderer.invoke('clear-embedding-cache');
+  },
+
+  /**
+   * Gets the synthesis provider settings
+   * @returns Promise resolving to the selected provider and each provider's model settings
+   */
+  getSynthesisSettings: (): Promise<SynthesisSettings | null> => {
+    return ipcRenderer.invoke('get-synthesis-settings');
+  },
+
+  /**
+   * Saves the synthesis provider settings
+   * @param synthesis - The full synthesis settings
+   * @returns Promise resolving to success status and message
+   */
+  saveSynthesisSettings: (synthesis: SynthesisSettings): Promise<{ success: boolean; message: string }> => {
+    return ipcRenderer.invoke('save-synthesis-settings', synthesis);
+  },
+
+  /**
+   * Saves a synthesis provider's API key to the keychain
+   * @param provider - The synthesis provider
+   * @param apiKey - The API key
+   * @returns Promise resolving to success status and message
+   */
+  saveProviderApiKey: (provider: LlmProviderId, apiKey: string): Promise<{ success: boolean; message: string }> => {
+    return ipcRenderer.invoke('save-provider-api-key', provider, apiKey);
+  },
+
+  /**
+   * Checks whether a synthesis provider's API key is stored
+   * @param provider - The synthesis provider
+   * @returns Promise resolving to whether a key is stored
+   */
+  hasProviderApiKey: (provider: LlmProviderId): Promise<boolean> => {
+    return ipcRenderer.invoke('has-provider-api-key', provider);
+  },
+
+  /**
+   * Loads the analysis window's prompts whose embeddings are cached, for the clustering tuner
+   * @returns Promise resolving to success status, message and the dataset summary
+   */
+  loadClusteringTuner: (): Promise<{ success: boolean; message: string; dataset?: ClusteringTunerDataset }> => {
+    return ipcRenderer.invoke('load-clustering-tuner');
+  },
+
+  /**
+   * Re-clusters the loaded embeddings with the given parameters (no API calls)
+   * @param params - Algorithm, epsilon (null for automatic) and minimum cluster size
+   * @returns Promise resolving to success status, message and the clusters
+   */
+  runClusteringTuner: (params: ClusteringTunerParams): Promise<{ success: boolean; message: string; result?: ClusteringTunerResult }> => {
+    return ipcRenderer.invoke('run-clustering-tuner', params);
+  },
+
+  /**
+   * Gets the cluster explorer's plot of the analysis window's prompts
+   * @returns Promise resolving to success status, message and the plot (none until an analysis has run)
+   */
+  getClusterExplorer: (): Promise<{ success: boolean; message: string; data?: ClusterExplorerData }> => {
+    return ipcRenderer.invoke('get-cluster-explorer');
+  },
+
+  /**
+   * Opens a plotted cluster's suggestion in the edit dialog
+   * @param clusterId - Stored cluster ID
+   * @returns Promise resolving to success status and message
+   */
+  openClusterSuggestion: (clusterId: string): Promise<{ success: boolean; message: string }> => {
+    return ipcRenderer.invoke('open-cluster-suggestion', clusterId);
+  },
+
+  /**
+   * Gets the privacy settings (capture schedule and window title exclusions)
+   * @returns Promise resolving to the privacy settings
+   */
+  getPrivacySettings: (): Promise<PrivacySettings | null> => {
+    return ipcRenderer.invoke('get-privacy-settings');
+  },
+
+  /**
+   * Saves the privacy settings
+   * @param privacy - The full privacy settings
+   * @returns Promise resolving to success status and message
+   */
+  savePrivacySettings: (privacy: PrivacySettings): Promise<{ success: boolean; message: string }> => {
+    return ipcRenderer.invoke('save-privacy-settings', privacy);
+  },
+
+  /**
+   * Pauses capture; text typed so far is discarded
+   * @param duration - How long to pause ('15m', '1h', 'tomorrow' or 'indefinite')
+   * @returns Promise resolving to success status and the new pause status
+   */
+  pauseCapture: (duration: PauseDuration): Promise<{ success: boolean; message: string; pause?: CapturePauseStatus }> => {
+    return ipcRenderer.invoke('pause-capture', duration);
+  },
+
+  /**
+   * Ends a manual capture pause
+   * @returns Promise resolving to success status and the new pause status
+   */
+  resumeCapture: (): Promise<{ success: boolean; message: string; pause?: CapturePauseStatus }> => {
+    return ipcRenderer.invoke('resume-capture');
+  },
+
+  /**
+   * Searches captured prompts in the live log and archives
+   * @param query - Search text, filters and page
+   * @returns Promise resolving to the page of matching entries, newest first
+   */
+  searchHistory: (query: HistoryQuery): Promise<HistoryPage | null> => {
+    return ipcRenderer.invoke('search-history', query);
+  },
+
+  /**
+   * Deletes captured prompts from the live log and archives
+   * @param ids - IDs of the entries to delete
+   * @returns Promise resolving to success status and the number deleted
+   */
+  deleteHistoryEntries: (ids: string[]): Promise<{ success: boolean; message: string; count?: number }> => {
+    return ipcRenderer.invoke('delete-history-entries', ids);
+  },
+
+  /**
+   * Excludes captured prompts from analysis, or includes them again
+   * @param ids - IDs of the entries to change
+   * @param excluded - Whether the entries should be left out of analysis
+   * @returns Promise resolving to success status and the number changed
+   */
+  setHistoryEntriesExcluded: (ids: string[], excluded: boolean): Promise<{ success: boolean; message: string; count?: number }> => {
+    return ipcRenderer.invoke('set-history-entries-excluded', ids, excluded);
+  },
+
+  /**
+   * Asks for an export file and imports the prompts in it into the log
+   * @param format - The tool the export comes from
+   * @returns Promise resolving to success status and the import report
+   */
+  importPromptHistory: (format: ImportFormat): Promise<{ success: boolean; message: string; canceled?: boolean; report?: ImportReport }> => {
+    return ipcRenderer.invoke('import-prompt-history', format);
+  },
+
+  /**
+   * Gets the retention settings for captured prompt data
+   * @returns Promise resolving to the retention settings
+   */
+  getRetentionSettings: (): Promise<RetentionSettings | null> => {
+    return ipcRenderer.invoke('get-retention-settings');
+  },
+
+  /**
+   * Saves the retention settings
+   * @param retention - The full retention settings
+   * @returns Promise resolving to success status and message
+   */
+  saveRetentionSettings: (retention: RetentionSettings): Promise<{ success: boolean; message: string }> => {
+    return ipcRenderer.invoke('save-retention-settings', retention);
+  },
+
+  /**
+   * Applies the retention settings now
+   * @returns Promise resolving to success status and the run report
+   */
+  runRetention: (): Promise<{ success: boolean; message: string; report?: RetentionRunReport }> => {
+    return ipcRenderer.invoke('run-retention');
+  },
+
+  /**
+   * Gets the reports of recent retention runs
+   * @returns Promise resolving to run reports, newest first
+   */
+  getRetentionReports: (): Promise<RetentionRunReport[]> => {
+    return ipcRenderer.invoke('get-retention-reports');
+  },
+
+  /**
+   * Gets the state of prompt log encryption (active key, recovery key, locked entries)
+   * @returns Promise resolving to the encryption status
+   */
+  getLogEncryptionStatus: (): Promise<LogEncryptionStatus | null> => {
+    return ipcRenderer.invoke('get-log-encryption-status');
+  },
+
+  /**
+   * Replaces the log encryption key and re-encrypts the log and archives with it
+   * @returns Promise resolving to success status and the rotation result
+   */
+  rotateLogEncryptionKey: (): Promise<{ success: boolean; message: string; result?: KeyRotationResult }> => {
+    return ipcRenderer.invoke('rotate-log-encryption-key');
+  },
+
+  /**
+   * Creates a new recovery key for the log encryption keys (replacing any earlier one)
+   * @returns Promise resolving to success status and the recovery key
+   */
+  exportLogRecoveryKey: (): Promise<{ success: boolean; message: string; recoveryKey?: string }> => {
+    return ipcRenderer.invoke('export-log-recovery-key');
+  },
+
+  /**
+   * Restores lost log encryption keys from the recovery key
+   * @param recoveryKey - The recovery key as shown when it was exported
+   * @returns Promise resolving to success status and how many keys and entries were restored
+   */
+  restoreLogEncryptionKeys: (recoveryKey: string): Promise<{ success: boolean; message: string; result?: KeyRestoreResult }> => {
+    return ipcRenderer.invoke('restore-log-encryption-keys', recoveryKey);
+  },
+
+  /**
+   * Starts recording keystroke and focus events seen by the capture engine
+   * @param options - Whether to mask typed characters and window titles
+   * @returns Promise resolving to success status and the recording path
+   */
+  startCaptureRecording: (options: { redact: boolean }): Promise<{ success: boolean; message: string; filePath?: string }> => {
+    return ipcRenderer.invoke('start-capture-recording', options);
+  },
+
+  /**
+   * Stops the current capture recording
+   * @returns Promise resolving to success status and the saved recording path
+   */
+  stopCaptureRecording: (): Promise<{ success: boolean; message: string; filePath?: string | null }> => {
+    return ipcRenderer.invoke('stop-capture-recording');
+  },
+
+  /**
+   * Replays a capture recording on a virtual clock
+   * @param filePath - Path to the recording file
+   * @returns Promise resolving to the log entries the capture engine would have written
+   */
+  replayCaptureRecording: (filePath: string): Promise<{ success: boolean; message: string; entries?: LogEntry[] }> => {
+    return ipcRenderer.invoke('replay-capture-recording', filePath);
+  },
+
   /**
    * Validates a trigger text in real-time
    * @param trigger - The trigger text to validate
@@ -93,12 +511,23 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return ipcRenderer.invoke('validate-replacement', replacement);
   },
 
+  /**
+   * Fills a template's placeholders in for an export target
+   * @param template - Replacement text with `{name}` placeholders
+   * @param values - Value per placeholder name
+   * @param target - 'text-replacement' (every placeholder needs a value) or 'clipboard' (unfilled ones stay as `{name}`)
+   * @returns Promise resolving to the filled text and any placeholders still missing a value
+   */
+  fillTemplate: (template: string, values: Record<string, string>, target: TemplateExportTarget) => {
+    return ipcRenderer.invoke('fill-template', template, values, target);
+  },
+
   /**
    * Confirms the edited suggestion and creates the shortcut
-   * @param editedData - The edited trigger and replacement text
+   * @param editedData - The edited trigger and replacement text, with values for the replacement's placeholders
    * @returns Promise resolving to operation result
    */
-  confirmEdit: (editedData: { trigger: string; replacement: string }) => {
+  confirmEdit: (editedData: { trigger: string; replacement: string; placeholderValues?: Record<string, string> }) => {
     return ipcRenderer.invoke('confirm-edit', editedData);
   },
 
@@ -139,7 +568,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
    * @param data - The suggestion index and edited data
    * @returns Promise resolving to operation result
    */
-  confirmSuggestion: (data: { suggestionIndex: number; editedData: { trigger: string; replacement: string } }) => {
+  confirmSuggestion: (data: { suggestionIndex: number; editedData: { trigger: string; replacement: string; placeholderValues?: Record<string, string> } }) => {
     return ipcRenderer.invoke('confirm-suggestion', data);
   },
 
@@ -27,6 +27,13 @@
  */
 
 import './index.css';
+import type { RetentionSettings, RetentionRunReport } from '../common/types/retention';
+import type { HistoryEntry, HistoryPage, HistoryQuery } from '../common/types/prompt-history';
+import type { ImportFormat } from '../common/types/prompt-import';
+import type { LlmProviderId, SynthesisSettings } from '../common/types/llm-provider';
+import type { AnalysisSettings, EmbeddingProviderId } from '../common/types/analysis-settings';
+import type { ClusterExplorerData, ClusteringTunerParams, ClusteringTunerResult } from '../common/types/clustering';
+import type { FilledTemplate, TemplateExportTarget, TemplatePlaceholder } from '../common/types/prompt-template';
 
 console.log('👋 This message is being logged by "renderer.ts", included via Vite');
 console.log('DryPrompt renderer script loaded - checking current URL:', window.location.href);
@@ -38,6 +45,8 @@ console.log('DryPrompt renderer script loaded - checking current URL:', window.l
 
 // Router to handle different views
 class AppRouter {
+  private currentView: string | null;
+
   constructor() {
     console.log('AppRouter constructor called');
     this.currentView = null;
@@ -53,6 +62,12 @@ class AppRouter {
     if (hash === '#edit-dialog' || hash === '#multi-edit-dialog') {
       console.log('Hash indicates edit dialog - initializing edit dialog view');
       this.showEditDialog();
+    } else if (hash === '#history') {
+      this.showHistoryView();
+    } else if (hash === '#tuner') {
+      this.showTunerView();
+    } else if (hash === '#explorer') {
+      this.showExplorerView();
     } else {
       console.log('No hash or different hash - showing config view');
       this.showConfigView();
@@ -71,6 +86,48 @@ class AppRouter {
     
     // Initialize config functionality
     new ConfigManager();
+    new SynthesisSettingsManager();
+    new EmbeddingSettingsManager();
+    new RetentionSettingsManager();
+  }
+
+  showHistoryView() {
+    const configView = document.getElementById('config-view');
+    const historyView = document.getElementById('history-view');
+    
+    if (configView) configView.style.display = 'none';
+    if (historyView) historyView.style.display = 'block';
+    
+    this.currentView = 'history';
+    document.title = 'Prompt History - DryPrompt';
+    
+    new HistoryBrowser();
+  }
+
+  showTunerView() {
+    const configView = document.getElementById('config-view');
+    const tunerView = document.getElementById('tuner-view');
+    
+    if (configView) configView.style.display = 'none';
+    if (tunerView) tunerView.style.display = 'block';
+    
+    this.currentView = 'tuner';
+    document.title = 'Clustering Tuner - DryPrompt';
+    
+    new ClusteringTuner();
+  }
+
+  showExplorerView() {
+    const configView = document.getElementById('config-view');
+    const explorerView = document.getElementById('explorer-view');
+    
+    if (configView) configView.style.display = 'none';
+    if (explorerView) explorerView.style.display = 'block';
+    
+    this.currentView = 'explorer';
+    document.title = 'Cluster Explorer - DryPrompt';
+    
+    new ClusterExplorer();
   }
 
   showEditDialog() {
@@ -182,6 +239,1173 @@ class ConfigManager {
   }
 }
 
+// Retention Settings Manager
+class RetentionSettingsManager {
+  private static readonly LIMIT_FIELDS = {
+    maxAgeDays: 'retention-max-age',
+    textMaxAgeDays: 'retention-text-age',
+    maxTotalSizeMb: 'retention-max-size',
+    maxArchives: 'retention-max-archives'
+  } as const;
+
+  constructor() {
+    this.setupEventListeners();
+    this.loadSettings();
+    this.loadLastReport();
+  }
+
+  setupEventListeners() {
+    document.getElementById('retention-form')?.addEventListener('submit', (e) => this.handleSave(e));
+    document.getElementById('run-retention-button')?.addEventListener('click', () => this.handleRunNow());
+  }
+
+  showStatusMessage(message: string, type: 'success' | 'error'): void {
+    const statusElement = document.getElementById('retention-status-message');
+    if (!statusElement) return;
+
+    statusElement.textContent = message;
+    statusElement.className = `status-message ${type}`;
+    statusElement.classList.remove('hidden');
+
+    setTimeout(() => {
+      statusElement.classList.add('hidden');
+    }, 5000);
+  }
+
+  getInput(id: string): HTMLInputElement | null {
+    return document.getElementById(id) as HTMLInputElement | null;
+  }
+
+  async loadSettings(): Promise<void> {
+    try {
+      const settings = await window.electronAPI.getRetentionSettings();
+      if (!settings) return;
+
+      const enabledInput = this.getInput('retention-enabled');
+      const intervalInput = this.getInput('retention-interval');
+      if (enabledInput) enabledInput.checked = settings.enabled;
+      if (intervalInput) intervalInput.value = String(settings.intervalHours);
+
+      for (const [key, id] of Object.entries(RetentionSettingsManager.LIMIT_FIELDS)) {
+        const input = this.getInput(id);
+        const value = settings[key as keyof typeof RetentionSettingsManager.LIMIT_FIELDS];
+        if (input) input.value = value === null ? '' : String(value);
+      }
+    } catch (error) {
+      console.error('Error loading retention settings:', error);
+    }
+  }
+
+  async loadLastReport(): Promise<void> {
+    try {
+      const [lastReport] = await window.electronAPI.getRetentionReports();
+      this.showReport(lastReport || null);
+    } catch (error) {
+      console.error('Error loading retention reports:', error);
+    }
+  }
+
+  showReport(report: RetentionRunReport | null): void {
+    const reportElement = document.getElementById('retention-report');
+    if (!reportElement) return;
+
+    if (!report) {
+      reportElement.textContent = 'Retention has not run yet.';
+      return;
+    }
+
+    const ranAt = new Date(report.ranAt).toLocaleString();
+    const freedMb = (report.bytesFreed / (1024 * 1024)).toFixed(1);
+    reportElement.textContent =
+      `Last run ${ranAt} (${report.trigger}): deleted ${report.entriesDeleted} prompts and ` +
+      `${report.archivesDeleted.length} archives, removed text from ${report.entriesStripped} prompts, freed ${freedMb} MB.` +
+      (report.errors.length > 0 ? ` ${report.errors.length} error(s): ${report.errors.join('; ')}` : '');
+  }
+
+  readLimit(id: string): number | null {
+    const value = this.getInput(id)?.value.trim();
+    return value ? Number(value) : null;
+  }
+
+  async handleSave(event: Event): Promise<void> {
+    event.preventDefault();
+
+    const settings: RetentionSettings = {
+      enabled: this.getInput('retention-enabled')?.checked ?? false,
+      intervalHours: Number(this.getInput('retention-interval')?.value || 24),
+      maxAgeDays: this.readLimit(RetentionSettingsManager.LIMIT_FIELDS.maxAgeDays),
+      textMaxAgeDays: this.readLimit(RetentionSettingsManager.LIMIT_FIELDS.textMaxAgeDays),
+      maxTotalSizeMb: this.readLimit(RetentionSettingsManager.LIMIT_FIELDS.maxTotalSizeMb),
+      maxArchives: this.readLimit(RetentionSettingsManager.LIMIT_FIELDS.maxArchives)
+    };
+
+    try {
+      const result = await window.electronAPI.saveRetentionSettings(settings);
+      this.showStatusMessage(result.success ? 'Retention settings saved' : result.message, result.success ? 'success' : 'error');
+    } catch (error) {
+      console.error('Error saving retention settings:', error);
+      this.showStatusMessage('An unexpected error occurred while saving retention settings', 'error');
+    }
+  }
+
+  async handleRunNow(): Promise<void> {
+    const runButton = document.getElementById('run-retention-button') as HTMLButtonElement | null;
+    if (runButton) {
+      runButton.disabled = true;
+      runButton.textContent = 'Running...';
+    }
+
+    try {
+      const result = await window.electronAPI.runRetention();
+      if (result.report) this.showReport(result.report);
+      this.showStatusMessage(result.success ? 'Retention applied' : result.message, result.success ? 'success' : 'error');
+    } catch (error) {
+      console.error('Error running retention:', error);
+      this.showStatusMessage('An unexpected error occurred while applying retention', 'error');
+    } finally {
+      if (runButton) {
+        runButton.disabled = false;
+        runButton.textContent = 'Run Now';
+      }
+    }
+  }
+}
+
+// Synthesis Provider Settings
+class SynthesisSettingsManager {
+  private static readonly KEYLESS_PROVIDERS: LlmProviderId[] = ['mock'];
+  private static readonly BASE_URL_PROVIDERS: LlmProviderId[] = ['openai-compatible', 'anthropic'];
+
+  private settings: SynthesisSettings | null = null;
+  private shownProvider: LlmProviderId | null = null;
+
+  constructor() {
+    this.setupEventListeners();
+    this.loadSettings();
+  }
+
+  setupEventListeners() {
+    document.getElementById('synthesis-form')?.addEventListener('submit', (e) => this.handleSave(e));
+    document.getElementById('synthesis-provider')?.addEventListener('change', () => {
+      this.storeShownFields();
+      this.showProvider(this.getSelectedProvider());
+    });
+  }
+
+  showStatusMessage(message: string, type: 'success' | 'error'): void {
+    const statusElement = document.getElementById('synthesis-status-message');
+    if (!statusElement) return;
+
+    statusElement.textContent = message;
+    statusElement.className = `status-message ${type}`;
+    statusElement.classList.remove('hidden');
+
+    setTimeout(() => {
+      statusElement.classList.add('hidden');
+    }, 5000);
+  }
+
+  getInput(id: string): HTMLInputElement | null {
+    return document.getElementById(id) as HTMLInputElement | null;
+  }
+
+  getSelectedProvider(): LlmProviderId {
+    const select = document.getElementById('synthesis-provider') as HTMLSelectElement | null;
+    return (select?.value || 'openai') as LlmProviderId;
+  }
+
+  async loadSettings(): Promise<void> {
+    try {
+      this.settings = await window.electronAPI.getSynthesisSettings();
+      if (!this.settings) return;
+
+      const select = document.getElementById('synthesis-provider') as HTMLSelectElement | null;
+      if (select) select.value = this.settings.provider;
+      await this.showProvider(this.settings.provider);
+    } catch (error) {
+      console.error('Error loading synthesis settings:', error);
+    }
+  }
+
+  // Keeps unsaved edits to a provider's fields when switching to another provider and back
+  storeShownFields(): void {
+    if (!this.settings || !this.shownProvider) return;
+
+    const baseUrl = this.getInput('synthesis-base-url')?.value.trim() || '';
+    this.settings.providers[this.shownProvider] = {
+      model: this.getInput('synthesis-model')?.value.trim() || '',
+      temperature: Number(this.getInput('synthesis-temperature')?.value || 0),
+      ...(baseUrl ? { baseUrl } : {})
+    };
+  }
+
+  async showProvider(provider: LlmProviderId): Promise<void> {
+    if (!this.settings) return;
+    this.shownProvider = provider;
+
+    const config = this.settings.providers[provider];
+    const modelInput = this.getInput('synthesis-model');
+    const temperatureInput = this.getInput('synthesis-temperature');
+    const baseUrlInput = this.getInput('synthesis-base-url');
+    if (modelInput) modelInput.value = config.model;
+    if (temperatureInput) temperatureInput.value = String(config.temperature);
+    if (baseUrlInput) baseUrlInput.value = config.baseUrl || '';
+
+    const baseUrlGroup = document.getElementById('synthesis-base-url-group');
+    const apiKeyGroup = document.getElementById('synthesis-api-key-group');
+    if (baseUrlGroup) baseUrlGroup.style.display = SynthesisSettingsManager.BASE_URL_PROVIDERS.includes(provider) ? 'block' : 'none';
+    if (apiKeyGroup) apiKeyGroup.style.display = SynthesisSettingsManager.KEYLESS_PROVIDERS.includes(provider) ? 'none' : 'block';
+
+    const apiKeyInput = this.getInput('synthesis-api-key');
+    if (apiKeyInput && !SynthesisSettingsManager.KEYLESS_PROVIDERS.includes(provider)) {
+      apiKeyInput.value = '';
+      const hasKey = await window.electronAPI.hasProviderApiKey(provider);
+      apiKeyInput.placeholder = hasKey
+        ? 'Stored in keychain (enter a new key to replace it)'
+        : provider === 'openai-compatible' ? 'Optional for local servers' : 'Not set';
+    }
+  }
+
+  async handleSave(event: Event): Promise<void> {
+    event.preventDefault();
+    if (!this.settings) return;
+
+    this.storeShownFields();
+    const provider = this.getSelectedProvider();
+    const settings: SynthesisSettings = { ...this.settings, provider };
+
+    try {
+      const apiKey = this.getInput('synthesis-api-key')?.value.trim();
+      if (apiKey && !SynthesisSettingsManager.KEYLESS_PROVIDERS.includes(provider)) {
+        const keyResult = await window.electronAPI.saveProviderApiKey(provider, apiKey);
+        if (!keyResult.success) {
+          this.showStatusMessage(keyResult.message, 'error');
+          return;
+        }
+      }
+
+      const result = await window.electronAPI.saveSynthesisSettings(settings);
+      if (result.success) {
+        this.settings = settings;
+        await this.showProvider(provider);
+      }
+      this.showStatusMessage(result.success ? 'Synthesis provider saved' : result.message, result.success ? 'success' : 'error');
+    } catch (error) {
+      console.error('Error saving synthesis settings:', error);
+      this.showStatusMessage('An unexpected error occurred while saving synthesis settings', 'error');
+    }
+  }
+}
+
+// Embedding Provider Settings
+class EmbeddingSettingsManager {
+  constructor() {
+    this.setupEventListeners();
+    this.loadSettings();
+  }
+
+  setupEventListeners() {
+    document.getElementById('embedding-form')?.addEventListener('submit', (e) => this.handleSave(e));
+  }
+
+  showStatusMessage(message: string, type: 'success' | 'error'): void {
+    const statusElement = document.getElementById('embedding-status-message');
+    if (!statusElement) return;
+
+    statusElement.textContent = message;
+    statusElement.className = `status-message ${type}`;
+    statusElement.classList.remove('hidden');
+
+    setTimeout(() => {
+      statusElement.classList.add('hidden');
+    }, 5000);
+  }
+
+  getSelect(): HTMLSelectElement | null {
+    return document.getElementById('embedding-provider') as HTMLSelectElement | null;
+  }
+
+  async loadSettings(): Promise<void> {
+    try {
+      const analysis = await window.electronAPI.getAnalysisSettings();
+      const select = this.getSelect();
+      if (analysis && select) select.value = analysis.embeddingProvider;
+    } catch (error) {
+      console.error('Error loading embedding settings:', error);
+    }
+  }
+
+  async handleSave(event: Event): Promise<void> {
+    event.preventDefault();
+    const embeddingProvider = (this.getSelect()?.value || 'openai') as EmbeddingProviderId;
+
+    try {
+      // Re-read the analysis settings so changes saved elsewhere (e.g. the clustering tuner) aren't overwritten
+      const analysis: AnalysisSettings | null = await window.electronAPI.getAnalysisSettings();
+      if (!analysis) {
+        this.showStatusMessage('Could not load analysis settings', 'error');
+        return;
+      }
+
+      const result = await window.electronAPI.saveAnalysisSettings({ ...analysis, embeddingProvider });
+      this.showStatusMessage(result.success ? 'Embedding provider saved' : result.message, result.success ? 'success' : 'error');
+    } catch (error) {
+      console.error('Error saving embedding settings:', error);
+      this.showStatusMessage('An unexpected error occurred while saving the embedding provider', 'error');
+    }
+  }
+}
+
+// Prompt History Browser
+class HistoryBrowser {
+  private static readonly PAGE_SIZE = 100;
+
+  private entries: HistoryEntry[] = [];
+  private total = 0;
+  private selectedIds = new Set<string>();
+  private searchTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    this.setupEventListeners();
+    this.search();
+  }
+
+  setupEventListeners() {
+    const filters = document.getElementById('history-filters');
+    filters?.addEventListener('submit', (e) => e.preventDefault());
+
+    // Typing waits for a pause before searching; dropdowns, dates and checkboxes search right away
+    filters?.addEventListener('input', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.id === 'history-search' || target.id === 'history-window') this.scheduleSearch();
+    });
+    filters?.addEventListener('change', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.id !== 'history-search' && target.id !== 'history-window') this.search();
+    });
+
+    document.getElementById('history-select-all')?.addEventListener('change', (e) => {
+      const checked = (e.target as HTMLInputElement).checked;
+      this.selectedIds = checked ? new Set(this.entries.map(entry => entry.id)) : new Set();
+      this.renderEntries();
+    });
+
+    document.getElementById('history-delete-btn')?.addEventListener('click', () => this.deleteEntries([...this.selectedIds]));
+    document.getElementById('history-exclude-btn')?.addEventListener('click', () => this.setExcluded([...this.selectedIds], true));
+    document.getElementById('history-include-btn')?.addEventListener('click', () => this.setExcluded([...this.selectedIds], false));
+    document.getElementById('history-load-more')?.addEventListener('click', () => this.search(true));
+    document.getElementById('history-import-btn')?.addEventListener('click', () => this.importHistory());
+  }
+
+  showStatusMessage(message: string, type: 'success' | 'error'): void {
+    const statusElement = document.getElementById('history-status-message');
+    if (!statusElement) return;
+
+    statusElement.textContent = message;
+    statusElement.className = `status-message ${type}`;
+    statusElement.classList.remove('hidden');
+
+    setTimeout(() => {
+      statusElement.classList.add('hidden');
+    }, 5000);
+  }
+
+  getValue(id: string): string {
+    const element = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+    return element ? element.value.trim() : '';
+  }
+
+  buildQuery(offset: number): HistoryQuery {
+    const from = this.getValue('history-from');
+    const to = this.getValue('history-to');
+    const includeArchives = (document.getElementById('history-include-archives') as HTMLInputElement | null)?.checked ?? true;
+
+    // Date inputs are local calendar days; the end date is inclusive, so search up to the following midnight
+    let toTime: string | undefined;
+    if (to) {
+      const end = new Date(`${to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      toTime = end.toISOString();
+    }
+
+    return {
+      text: this.getValue('history-search') || undefined,
+      processName: this.getValue('history-app') || undefined,
+      windowTitle: this.getValue('history-window') || undefined,
+      sessionId: this.getValue('history-session') || undefined,
+      from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+      to: toTime,
+      includeArchives,
+      offset,
+      limit: HistoryBrowser.PAGE_SIZE
+    };
+  }
+
+  scheduleSearch(): void {
+    if (this.searchTimer) clearTimeout(this.searchTimer);
+    this.searchTimer = setTimeout(() => this.search(), 250);
+  }
+
+  async search(append = false): Promise<void> {
+    try {
+      const page = await window.electronAPI.searchHistory(this.buildQuery(append ? this.entries.length : 0));
+      if (!page) {
+        this.showStatusMessage('Could not load prompt history', 'error');
+        return;
+      }
+
+      this.entries = append ? [...this.entries, ...page.entries] : page.entries;
+      this.total = page.total;
+      if (!append) this.selectedIds.clear();
+
+      this.updateFilterOptions(page);
+      this.renderEntries();
+    } catch (error) {
+      console.error('Error searching history:', error);
+      this.showStatusMessage('An unexpected error occurred while loading history', 'error');
+    }
+  }
+
+  updateFilterOptions(page: HistoryPage): void {
+    const fillSelect = (id: string, emptyLabel: string, options: Array<{ value: string; label: string }>) => {
+      const select = document.getElementById(id) as HTMLSelectElement | null;
+      if (!select) return;
+
+      const current = select.value;
+      select.replaceChildren(new Option(emptyLabel, ''), ...options.map(option => new Option(option.label, option.value)));
+      select.value = options.some(option => option.value === current) ? current : '';
+    };
+
+    fillSelect('history-app', 'All apps', page.processNames.map(name => ({ value: name, label: name })));
+    fillSelect('history-session', 'All sessions', page.sessions.map(session => ({
+      value: session.id,
+      label: `${new Date(session.startedAt).toLocaleString()} (${session.entryCount} ${session.entryCount === 1 ? 'prompt' : 'prompts'})`
+    })));
+  }
+
+  renderEntries(): void {
+    const list = document.getElementById('history-list');
+    if (!list) return;
+
+    list.replaceChildren(...this.entries.map(entry => this.createEntryElement(entry)));
+    if (this.entries.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'history-empty';
+      empty.textContent = 'No captured prompts match these filters.';
+      list.appendChild(empty);
+    }
+
+    const count = document.getElementById('history-count');
+    if (count) count.textContent = `${this.entries.length} of ${this.total} prompts`;
+
+    const loadMore = document.getElementById('history-load-more');
+    if (loadMore) loadMore.style.display = this.entries.length < this.total ? 'inline-block' : 'none';
+
+    this.updateSelectionControls();
+  }
+
+  createEntryElement(entry: HistoryEntry): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = `history-item${entry.excludedFromAnalysis ? ' excluded' : ''}`;
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = this.selectedIds.has(entry.id);
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) this.selectedIds.add(entry.id);
+      else this.selectedIds.delete(entry.id);
+      this.updateSelectionControls();
+    });
+
+    const body = document.createElement('div');
+    body.className = 'history-item-body';
+
+    const meta = document.createElement('div');
+    meta.className = 'history-meta';
+    meta.textContent = [
+      new Date(entry.timestamp).toLocaleString(),
+      entry.processName,
+      entry.windowTitle,
+      entry.location === 'live' ? 'Current log' : 'Archived'
+    ].filter(Boolean).join(' · ');
+
+    const badges = [
+      entry.excludedFromAnalysis ? 'Excluded from analysis' : null,
+      entry.source === 'import' ? 'Imported' : null,
+      entry.classification?.accepted === false ? 'Rejected by filter' : null,
+      entry.flushReason
+    ].filter((badge): badge is string => !!badge);
+    for (const badge of badges) {
+      const badgeElement = document.createElement('span');
+      badgeElement.className = 'history-badge';
+      badgeElement.textContent = badge;
+      meta.appendChild(badgeElement);
+    }
+
+    const text = document.createElement('div');
+    text.className = `history-text${entry.textPurgedAt ? ' purged' : ''}`;
+    text.textContent = entry.textPurgedAt ? 'Text deleted by retention' : entry.text;
+
+    body.append(meta, text);
+
+    const actions = document.createElement('div');
+    actions.className = 'history-item-actions';
+    const toggleButton = document.createElement('button');
+    toggleButton.type = 'button';
+    toggleButton.className = 'btn-secondary';
+    toggleButton.textContent = entry.excludedFromAnalysis ? 'Include' : 'Exclude';
+    toggleButton.title = entry.excludedFromAnalysis ? 'Include in analysis' : 'Exclude from analysis';
+    toggleButton.addEventListener('click', () => this.setExcluded([entry.id], !entry.excludedFromAnalysis));
+    actions.appendChild(toggleButton);
+
+    item.append(checkbox, body, actions);
+    return item;
+  }
+
+  updateSelectionControls(): void {
+    const selected = this.selectedIds.size;
+    const label = document.getElementById('history-selection-count');
+    if (label) label.textContent = selected > 0 ? `${selected} selected` : 'Select all';
+
+    const selectAll = document.getElementById('history-select-all') as HTMLInputElement | null;
+    if (selectAll) {
+      selectAll.checked = selected > 0 && selected === this.entries.length;
+      selectAll.indeterminate = selected > 0 && selected < this.entries.length;
+    }
+
+    for (const id of ['history-delete-btn', 'history-exclude-btn', 'history-include-btn']) {
+      const button = document.getElementById(id) as HTMLButtonElement | null;
+      if (button) button.disabled = selected === 0;
+    }
+  }
+
+  async deleteEntries(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    if (!window.confirm(`Delete ${ids.length} captured ${ids.length === 1 ? 'prompt' : 'prompts'}? This can't be undone.`)) return;
+
+    try {
+      const result = await window.electronAPI.deleteHistoryEntries(ids);
+      this.showStatusMessage(result.message, result.success ? 'success' : 'error');
+      if (result.success) await this.search();
+    } catch (error) {
+      console.error('Error deleting history entries:', error);
+      this.showStatusMessage('An unexpected error occurred while deleting prompts', 'error');
+    }
+  }
+
+  async setExcluded(ids: string[], excluded: boolean): Promise<void> {
+    if (ids.length === 0) return;
+
+    try {
+      const result = await window.electronAPI.setHistoryEntriesExcluded(ids, excluded);
+      if (!result.success) {
+        this.showStatusMessage(result.message, 'error');
+        return;
+      }
+
+      // Update in place so the list keeps its scroll position and selection
+      const idSet = new Set(ids);
+      this.entries = this.entries.map(entry => idSet.has(entry.id) ? { ...entry, excludedFromAnalysis: excluded || undefined } : entry);
+      this.renderEntries();
+      this.showStatusMessage(result.message, 'success');
+    } catch (error) {
+      console.error('Error updating history entries:', error);
+      this.showStatusMessage('An unexpected error occurred while updating prompts', 'error');
+    }
+  }
+
+  async importHistory(): Promise<void> {
+    const button = document.getElementById('history-import-btn') as HTMLButtonElement | null;
+    const format = this.getValue('history-import-format') as ImportFormat;
+
+    try {
+      if (button) {
+        button.disabled = true;
+        button.textContent = 'Importing...';
+      }
+
+      const result = await window.electronAPI.importPromptHistory(format);
+      if (result.canceled) return;
+
+      this.showStatusMessage(result.message, result.success ? 'success' : 'error');
+      if (result.success) await this.search();
+    } catch (error) {
+      console.error('Error importing prompt history:', error);
+      this.showStatusMessage('An unexpected error occurred while importing prompts', 'error');
+    } finally {
+      if (button) {
+        button.disabled = false;
+        button.textContent = 'Import...';
+      }
+    }
+  }
+}
+
+// Clustering tuner: re-clusters the last analysis's cached embeddings as the parameters change
+class ClusteringTuner {
+  private savedParams: ClusteringTunerParams | null = null;
+  private runTimer: ReturnType<typeof setTimeout> | null = null;
+  private runSequence = 0;
+
+  constructor() {
+    this.setupEventListeners();
+    this.load();
+  }
+
+  setupEventListeners() {
+    const form = document.getElementById('tuner-form');
+    form?.addEventListener('submit', (e) => e.preventDefault());
+
+    // Sliders re-cluster once they pause, so dragging doesn't queue a run per step
+    form?.addEventListener('input', () => {
+      this.updateControls();
+      this.scheduleRun();
+    });
+
+    document.getElementById('tuner-save-btn')?.addEventListener('click', () => this.save());
+    document.getElementById('tuner-revert-btn')?.addEventListener('click', () => {
+      if (!this.savedParams) return;
+      this.setParams(this.savedParams);
+      this.run();
+    });
+  }
+
+  showStatusMessage(message: string, type: 'success' | 'error'): void {
+    const statusElement = document.getElementById('tuner-status-message');
+    if (!statusElement) return;
+
+    statusElement.textContent = message;
+    statusElement.className = `status-message ${type}`;
+    statusElement.classList.remove('hidden');
+
+    setTimeout(() => {
+      statusElement.classList.add('hidden');
+    }, 5000);
+  }
+
+  getInput(id: string): HTMLInputElement | null {
+    return document.getElementById(id) as HTMLInputElement | null;
+  }
+
+  getParams(): ClusteringTunerParams {
+    const algorithm = (document.getElementById('tuner-algorithm') as HTMLSelectElement | null)?.value;
+    const auto = this.getInput('tuner-epsilon-auto')?.checked ?? true;
+
+    return {
+      algorithm: algorithm === 'hdbscan' || algorithm === 'agglomerative' ? algorithm : 'dbscan',
+      epsilon: auto ? null : Number(this.getInput('tuner-epsilon')?.value),
+      minPoints: Number(this.getInput('tuner-min-points')?.value)
+    };
+  }
+
+  setParams(params: ClusteringTunerParams): void {
+    const algorithm = document.getElementById('tuner-algorithm') as HTMLSelectElement | null;
+    const epsilon = this.getInput('tuner-epsilon');
+    const auto = this.getInput('tuner-epsilon-auto');
+    const minPoints = this.getInput('tuner-min-points');
+
+    if (algorithm) algorithm.value = params.algorithm;
+    if (auto) auto.checked = params.epsilon === null;
+    if (epsilon && params.epsilon !== null) epsilon.value = String(params.epsilon);
+    if (minPoints) minPoints.value = String(params.minPoints);
+    this.updateControls();
+  }
+
+  isSaved(params: ClusteringTunerParams): boolean {
+    return !!this.savedParams &&
+      params.algorithm === this.savedParams.algorithm &&
+      params.epsilon === this.savedParams.epsilon &&
+      params.minPoints === this.savedParams.minPoints;
+  }
+
+  updateControls(): void {
+    const params = this.getParams();
+    const epsilon = this.getInput('tuner-epsilon');
+    if (epsilon) epsilon.disabled = params.epsilon === null;
+
+    const epsilonValue = document.getElementById('tuner-epsilon-value');
+    if (epsilonValue && params.epsilon !== null) epsilonValue.textContent = params.epsilon.toFixed(2);
+    const minPointsValue = document.getElementById('tuner-min-points-value');
+    if (minPointsValue) minPointsValue.textContent = String(params.minPoints);
+
+    const unchanged = this.isSaved(params);
+    for (const id of ['tuner-save-btn', 'tuner-revert-btn']) {
+      const button = document.getElementById(id) as HTMLButtonElement | null;
+      if (button) button.disabled = !this.savedParams || unchanged;
+    }
+  }
+
+  async load(): Promise<void> {
+    const datasetLabel = document.getElementById('tuner-dataset');
+
+    try {
+      const response = await window.electronAPI.loadClusteringTuner();
+      if (!response.success || !response.dataset) {
+        this.showStatusMessage(response.message, 'error');
+        return;
+      }
+
+      const { dataset } = response;
+      this.savedParams = dataset.params;
+      this.setParams(dataset.params);
+
+      if (!dataset.embeddingModel) {
+        if (datasetLabel) datasetLabel.textContent = 'Run an analysis first; the tuner uses its cached embeddings';
+        return;
+      }
+
+      if (datasetLabel) {
+        datasetLabel.textContent = [
+          `${dataset.pointCount} prompts`,
+          dataset.embeddingModel,
+          dataset.uncachedCount > 0 ? `${dataset.uncachedCount} not yet embedded` : null
+        ].filter(Boolean).join(' · ');
+      }
+      await this.run();
+    } catch (error) {
+      console.error('Error loading clustering tuner:', error);
+      this.showStatusMessage('An unexpected error occurred while loading embeddings', 'error');
+    }
+  }
+
+  scheduleRun(): void {
+    if (this.runTimer) clearTimeout(this.runTimer);
+    this.runTimer = setTimeout(() => this.run(), 150);
+  }
+
+  async run(): Promise<void> {
+    // A slow run that finishes after a newer one must not overwrite its results
+    const sequence = ++this.runSequence;
+
+    try {
+      const response = await window.electronAPI.runClusteringTuner(this.getParams());
+      if (sequence !== this.runSequence) return;
+
+      if (!response.success || !response.result) {
+        this.showStatusMessage(response.message, 'error');
+        return;
+      }
+      this.renderResult(response.result);
+    } catch (error) {
+      console.error('Error running clustering tuner:', error);
+      this.showStatusMessage('An unexpected error occurred while clustering', 'error');
+    }
+  }
+
+  renderResult(result: ClusteringTunerResult): void {
+    const { quality } = result;
+    const epsilonLabel = result.epsilonSource === 'manual' ? '' : ` (${result.epsilonSource})`;
+
+    // Show the epsilon automatic selection picked, so switching to manual starts from it
+    const epsilonValue = document.getElementById('tuner-epsilon-value');
+    if (epsilonValue && result.epsilonSource !== 'manual') epsilonValue.textContent = result.epsilon.toFixed(2);
+    const epsilon = this.getInput('tuner-epsilon');
+    if (epsilon && result.epsilonSource !== 'manual') epsilon.value = String(result.epsilon);
+
+    const summary = document.getElementById('tuner-summary');
+    if (summary) {
+      summary.textContent = [
+        `${result.clusters.length} ${result.clusters.length === 1 ? 'cluster' : 'clusters'}`,
+        `${result.noiseCount} noise`,
+        `ε ${result.epsilon.toFixed(2)}${epsilonLabel}`,
+        quality.silhouette === null ? null : `silhouette ${quality.silhouette.toFixed(2)}`,
+        quality.intraClusterSimilarity === null ? null : `similarity ${quality.intraClusterSimilarity.toFixed(2)}`,
+        `${result.durationMs} ms`
+      ].filter(Boolean).join(' · ');
+    }
+
+    const list = document.getElementById('tuner-clusters');
+    if (list) {
+      list.replaceChildren(...result.clusters.map((cluster, index) => {
+        const item = document.createElement('li');
+        item.className = 'tuner-cluster';
+
+        const meta = document.createElement('div');
+        meta.className = 'history-meta';
+        meta.textContent = `Cluster ${index + 1} · ${cluster.size} prompts · ${cluster.similarity.toFixed(2)} similarity`;
+
+        item.append(meta, this.createTextList(cluster.texts));
+        return item;
+      }));
+
+      if (result.clusters.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'history-empty';
+        empty.textContent = 'No clusters with these parameters.';
+        list.appendChild(empty);
+      }
+    }
+
+    const noiseSummary = document.getElementById('tuner-noise-summary');
+    if (noiseSummary) {
+      const shown = result.noise.length < result.noiseCount ? ` (first ${result.noise.length} shown)` : '';
+      noiseSummary.textContent = `${result.noiseCount} prompts in no cluster${shown}`;
+    }
+    document.getElementById('tuner-noise-list')?.replaceWith(this.createTextList(result.noise, 'tuner-noise-list'));
+  }
+
+  createTextList(texts: string[], id?: string): HTMLUListElement {
+    const list = document.createElement('ul');
+    list.className = 'tuner-texts';
+    if (id) list.id = id;
+
+    list.append(...texts.map(text => {
+      const item = document.createElement('li');
+      item.className = 'history-text';
+      item.textContent = text;
+      return item;
+    }));
+    return list;
+  }
+
+  async save(): Promise<void> {
+    const params = this.getParams();
+
+    try {
+      const analysis: AnalysisSettings | null = await window.electronAPI.getAnalysisSettings();
+      if (!analysis) {
+        this.showStatusMessage('Could not load analysis settings', 'error');
+        return;
+      }
+
+      const result = await window.electronAPI.saveAnalysisSettings({
+        ...analysis,
+        clusteringAlgorithm: params.algorithm,
+        clusterEpsilon: params.epsilon,
+        clusterMinPoints: params.minPoints
+      });
+      this.showStatusMessage(
+        result.success ? 'Saved; the next analysis will cluster with these parameters' : result.message,
+        result.success ? 'success' : 'error'
+      );
+
+      if (result.success) {
+        this.savedParams = params;
+        this.updateControls();
+      }
+    } catch (error) {
+      console.error('Error saving clustering parameters:', error);
+      this.showStatusMessage('An unexpected error occurred while saving', 'error');
+    }
+  }
+}
+
+// Cluster explorer: the analysis window's prompts in 2D (PCA), coloured by cluster
+class ClusterExplorer {
+  private static readonly SVG_NS = 'http://www.w3.org/2000/svg';
+  private static readonly PLOT_SIZE = { width: 1000, height: 600, padding: 24 };
+  private static readonly NOISE_COLOR = '#b0b0b8';
+  private static readonly PALETTE = [
+    '#007aff', '#ff9500', '#34c759', '#ff2d55', '#af52de', '#5ac8fa', '#ffcc00', '#a2845e', '#5856d6', '#30b0c7'
+  ];
+
+  private data: ClusterExplorerData | null = null;
+
+  constructor() {
+    this.setupEventListeners();
+    this.load();
+  }
+
+  setupEventListeners() {
+    const plot = document.getElementById('explorer-plot');
+
+    // One listener for every point: each circle carries the index of its prompt
+    plot?.addEventListener('mousemove', (e) => {
+      const index = (e.target as SVGElement).dataset?.point;
+      if (index === undefined) this.hideTooltip();
+      else this.showTooltip(Number(index), e);
+    });
+    plot?.addEventListener('mouseleave', () => this.hideTooltip());
+    plot?.addEventListener('click', (e) => {
+      const index = (e.target as SVGElement).dataset?.point;
+      const cluster = index === undefined ? null : this.data?.points[Number(index)]?.cluster;
+      if (cluster !== null && cluster !== undefined) this.openSuggestion(cluster);
+    });
+  }
+
+  showStatusMessage(message: string, type: 'success' | 'error'): void {
+    const statusElement = document.getElementById('explorer-status-message');
+    if (!statusElement) return;
+
+    statusElement.textContent = message;
+    statusElement.className = `status-message ${type}`;
+    statusElement.classList.remove('hidden');
+
+    setTimeout(() => {
+      statusElement.classList.add('hidden');
+    }, 5000);
+  }
+
+  getClusterColor(cluster: number | null): string {
+    if (cluster === null) return ClusterExplorer.NOISE_COLOR;
+    if (cluster < ClusterExplorer.PALETTE.length) return ClusterExplorer.PALETTE[cluster];
+    // Past the palette, step around the hue wheel by the golden angle so neighbors stay distinguishable
+    return `hsl(${Math.round(cluster * 137.5) % 360}, 65%, 50%)`;
+  }
+
+  async load(): Promise<void> {
+    const info = document.getElementById('explorer-info');
+
+    try {
+      const response = await window.electronAPI.getClusterExplorer();
+      if (!response.success) {
+        this.showStatusMessage(response.message, 'error');
+        return;
+      }
+      if (!response.data) {
+        if (info) info.textContent = 'Run an analysis first; the explorer plots its cached embeddings';
+        return;
+      }
+
+      const { data } = response;
+      this.data = data;
+      if (info) {
+        const [first, second] = data.explainedVariance.map(ratio => `${Math.round(ratio * 100)}%`);
+        info.textContent = [
+          `${data.points.length} prompts`,
+          `${data.clusters.length} ${data.clusters.length === 1 ? 'cluster' : 'clusters'}`,
+          data.embeddingModel,
+          `axes explain ${first} and ${second} of the variance`,
+          data.uncachedCount > 0 ? `${data.uncachedCount} not yet embedded` : null
+        ].filter(Boolean).join(' · ');
+      }
+
+      this.renderPlot(data);
+      this.renderLegend(data);
+    } catch (error) {
+      console.error('Error loading cluster explorer:', error);
+      this.showStatusMessage('An unexpected error occurred while loading clusters', 'error');
+    }
+  }
+
+  renderPlot(data: ClusterExplorerData): void {
+    const plot = document.getElementById('explorer-plot');
+    if (!plot) return;
+
+    const { width, height, padding } = ClusterExplorer.PLOT_SIZE;
+    const xs = data.points.map(point => point.x);
+    const ys = data.points.map(point => point.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    const scaleX = (x: number) => padding + (maxX === minX ? 0.5 : (x - minX) / (maxX - minX)) * (width - 2 * padding);
+    const scaleY = (y: number) => height - padding - (maxY === minY ? 0.5 : (y - minY) / (maxY - minY)) * (height - 2 * padding);
+
+    // Noise first, so cluster points are drawn on top of it
+    const order = data.points
+      .map((point, index) => ({ point, index }))
+      .sort((a, b) => Number(a.point.cluster !== null) - Number(b.point.cluster !== null));
+
+    plot.replaceChildren(...order.map(({ point, index }) => {
+      const circle = document.createElementNS(ClusterExplorer.SVG_NS, 'circle');
+      circle.setAttribute('cx', scaleX(point.x).toFixed(1));
+      circle.setAttribute('cy', scaleY(point.y).toFixed(1));
+      circle.setAttribute('r', point.cluster === null ? '4' : '6');
+      circle.setAttribute('fill', this.getClusterColor(point.cluster));
+      circle.setAttribute('class', point.cluster === null ? 'explorer-point noise' : 'explorer-point');
+      circle.dataset.point = String(index);
+      return circle;
+    }));
+  }
+
+  renderLegend(data: ClusterExplorerData): void {
+    const legend = document.getElementById('explorer-legend');
+    if (!legend) return;
+
+    legend.replaceChildren(...data.clusters.map((cluster, index) => {
+      const item = document.createElement('li');
+      item.className = `explorer-legend-item${cluster.suggestion ? ' has-suggestion' : ''}`;
+      item.title = cluster.suggestion ? 'Open the suggestion in the editor' : 'No suggestion yet';
+
+      const swatch = document.createElement('span');
+      swatch.className = 'explorer-swatch';
+      swatch.style.backgroundColor = this.getClusterColor(index);
+
+      const label = document.createElement('span');
+      label.className = 'history-text';
+      label.textContent = cluster.suggestion
+        ? `${cluster.suggestion.trigger} → ${cluster.suggestion.replacement}`
+        : 'No suggestion yet';
+
+      const size = document.createElement('span');
+      size.className = 'history-meta';
+      size.textContent = `${cluster.size} ${cluster.size === 1 ? 'prompt' : 'prompts'}`;
+
+      item.append(swatch, label, size);
+      item.addEventListener('click', () => this.openSuggestion(index));
+      return item;
+    }));
+
+    if (data.clusters.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'history-empty';
+      empty.textContent = 'None of these prompts are in a cluster yet.';
+      legend.appendChild(empty);
+    }
+  }
+
+  showTooltip(index: number, event: MouseEvent): void {
+    const point = this.data?.points[index];
+    const tooltip = document.getElementById('explorer-tooltip');
+    const container = document.getElementById('explorer-plot-container');
+    if (!point || !tooltip || !container) return;
+
+    tooltip.textContent = point.text;
+    const bounds = container.getBoundingClientRect();
+    tooltip.style.left = `${Math.min(event.clientX - bounds.left + 12, bounds.width - 280)}px`;
+    tooltip.style.top = `${event.clientY - bounds.top + 12}px`;
+    tooltip.classList.remove('hidden');
+  }
+
+  hideTooltip(): void {
+    document.getElementById('explorer-tooltip')?.classList.add('hidden');
+  }
+
+  async openSuggestion(cluster: number): Promise<void> {
+    const target = this.data?.clusters[cluster];
+    if (!target) return;
+    if (!target.suggestion) {
+      this.showStatusMessage('This cluster has no suggestion yet', 'error');
+      return;
+    }
+
+    try {
+      const result = await window.electronAPI.openClusterSuggestion(target.id);
+      if (!result.success) this.showStatusMessage(result.message, 'error');
+    } catch (error) {
+      console.error('Error opening cluster suggestion:', error);
+      this.showStatusMessage('An unexpected error occurred while opening the suggestion', 'error');
+    }
+  }
+}
+
+// Value inputs for the `{name}` placeholders of the replacement text, shared by both edit dialogs
+class TemplatePlaceholderFields {
+  private section: HTMLElement | null;
+  private fields: HTMLElement | null;
+  private onChange: () => void;
+
+  private seenValues = new Map<string, string[]>();
+  private values: Record<string, string> = {};
+  private names: string[] = [];
+  private filled: FilledTemplate | null = null;
+  private sequence = 0;
+
+  constructor(onChange: () => void) {
+    this.section = document.getElementById('placeholder-section');
+    this.fields = document.getElementById('placeholder-fields');
+    this.onChange = onChange;
+  }
+
+  /**
+   * Starts over for another suggestion; each placeholder is pre-filled with the value its source prompts use most
+   * @param placeholders - The suggestion's placeholders with the values seen (none for manual creation)
+   */
+  reset(placeholders: TemplatePlaceholder[] = []) {
+    this.seenValues = new Map(placeholders.map(placeholder => [placeholder.name, placeholder.values]));
+    this.values = {};
+    placeholders.forEach(placeholder => {
+      if (placeholder.values.length > 0) this.values[placeholder.name] = placeholder.values[0];
+    });
+    this.names = [];
+    this.filled = null;
+  }
+
+  /**
+   * Fills the template in for Text Replacements and shows an input per placeholder
+   * @param template - The replacement text
+   * @returns The filled template, or null if a newer update superseded this one
+   */
+  async update(template: string): Promise<FilledTemplate | null> {
+    const sequence = ++this.sequence;
+    const filled = await window.electronAPI.fillTemplate(template, this.values, 'text-replacement');
+    if (sequence !== this.sequence) return null;
+
+    this.filled = filled;
+    if (filled.placeholders.join(',') !== this.names.join(',')) {
+      this.names = filled.placeholders;
+      this.renderFields();
+    }
+    this.updateMissing();
+    return filled;
+  }
+
+  /**
+   * Fills the template in for an export target with the current values
+   * @param template - The replacement text
+   * @param target - Where the text goes
+   * @returns The filled template
+   */
+  fill(template: string, target: TemplateExportTarget): Promise<FilledTemplate> {
+    return window.electronAPI.fillTemplate(template, this.values, target);
+  }
+
+  getValues(): Record<string, string> {
+    return { ...this.values };
+  }
+
+  // The replacement as Text Replacements would get it (empty until the first update)
+  getFilledText(): string {
+    return this.filled?.text || '';
+  }
+
+  // Whether every placeholder has a value
+  isComplete(): boolean {
+    return !this.filled || this.filled.missing.length === 0;
+  }
+
+  private renderFields() {
+    if (!this.section || !this.fields) return;
+
+    this.section.style.display = this.names.length > 0 ? 'block' : 'none';
+    this.fields.innerHTML = '';
+
+    this.names.forEach(name => {
+      const row = document.createElement('label');
+      row.className = 'placeholder-field';
+      row.dataset.name = name;
+
+      const label = document.createElement('span');
+      label.className = 'placeholder-name';
+      label.textContent = `{${name}}`;
+
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.spellcheck = false;
+      input.autocomplete = 'off';
+      input.value = this.values[name] || '';
+      input.placeholder = 'Value for Text Replacements';
+      input.addEventListener('input', () => {
+        this.values[name] = input.value;
+        this.onChange();
+      });
+
+      // Offer the values the source prompts used
+      const seen = this.seenValues.get(name) || [];
+      if (seen.length > 0) {
+        const list = document.createElement('datalist');
+        list.id = `placeholder-values-${name}`;
+        seen.forEach(value => {
+          const option = document.createElement('option');
+          option.value = value;
+          list.appendChild(option);
+        });
+        input.setAttribute('list', list.id);
+        row.appendChild(list);
+      }
+
+      row.appendChild(label);
+      row.appendChild(input);
+      this.fields?.appendChild(row);
+    });
+  }
+
+  private updateMissing() {
+    const missing = new Set(this.filled?.missing || []);
+    this.fields?.querySelectorAll<HTMLElement>('.placeholder-field').forEach(row => {
+      row.classList.toggle('missing', missing.has(row.dataset.name || ''));
+    });
+  }
+}
+
 // Edit Dialog Manager
 class EditDialog {
   private form: HTMLFormElement | null;
@@ -198,6 +1422,7 @@ class EditDialog {
   private sourcePromptsList: HTMLElement | null;
   private copyTriggerBtn: HTMLButtonElement | null;
   private copyReplacementBtn: HTMLButtonElement | null;
+  private placeholderFields: TemplatePlaceholderFields;
   
   private triggerValid: boolean;
   private replacementValid: boolean;
@@ -221,6 +1446,7 @@ class EditDialog {
     this.sourcePromptsList = document.getElementById('source-prompts-list');
     this.copyTriggerBtn = document.getElementById('copy-trigger-btn') as HTMLButtonElement;
     this.copyReplacementBtn = document.getElementById('copy-replacement-btn') as HTMLButtonElement;
+    this.placeholderFields = new TemplatePlaceholderFields(() => this.updateTemplate());
 
     // Debug element availability
     console.log('Form elements found:', {
@@ -258,7 +1484,7 @@ class EditDialog {
     this.replacementInput?.addEventListener('input', () => {
       this.validateReplacement();
       this.updateCharacterCount();
-      this.updatePreview();
+      this.updateTemplate();
     });
 
     // Form submission
@@ -277,7 +1503,7 @@ class EditDialog {
       if (e.key === 'Escape') {
         this.handleCancel();
       } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
-        if (this.triggerValid && this.replacementValid) {
+        if (this.triggerValid && this.replacementValid && this.placeholderFields.isComplete()) {
           this.form?.dispatchEvent(new Event('submit'));
         }
       }
@@ -345,12 +1571,13 @@ class EditDialog {
     
     // Load source prompts if available
     this.loadSourcePrompts(suggestion);
+    this.placeholderFields.reset(suggestion.placeholders);
     
     // Trigger validation and updates
     this.validateTrigger();
     this.validateReplacement();
     this.updateCharacterCount();
-    this.updatePreview();
+    this.updateTemplate();
 
     // Focus the trigger input for immediate editing
     this.triggerInput?.focus();
@@ -429,7 +1656,7 @@ class EditDialog {
       // Trigger validation and UI updates
       this.validateReplacement();
       this.updateCharacterCount();
-      this.updatePreview();
+      this.updateTemplate();
       
       // Focus the replacement input and select the text
       this.replacementInput.focus();
@@ -527,9 +1754,16 @@ class EditDialog {
     }
   }
 
+  async updateTemplate() {
+    await this.placeholderFields.update(this.replacementInput?.value.trim() || '');
+    this.updatePreview();
+    this.updateCreateButton();
+  }
+
   updatePreview() {
     const trigger = this.triggerInput?.value.trim() || '';
-    const replacement = this.replacementInput?.value.trim() || '';
+    // Show the text Text Replacements would get, with the placeholder values filled in
+    const replacement = this.placeholderFields.getFilledText() || this.replacementInput?.value.trim() || '';
 
     if (this.previewDemo) {
       if (trigger && replacement) {
@@ -542,20 +1776,21 @@ class EditDialog {
 
   updateCreateButton() {
     if (this.createBtn) {
-      this.createBtn.disabled = !(this.triggerValid && this.replacementValid);
+      this.createBtn.disabled = !(this.triggerValid && this.replacementValid && this.placeholderFields.isComplete());
     }
   }
 
   async handleSubmit(e) {
     e.preventDefault();
     
-    if (!this.triggerValid || !this.replacementValid) {
+    if (!this.triggerValid || !this.replacementValid || !this.placeholderFields.isComplete()) {
       return;
     }
 
     const editedData = {
       trigger: this.triggerInput?.value.trim() || '',
-      replacement: this.replacementInput?.value.trim() || ''
+      replacement: this.replacementInput?.value.trim() || '',
+      placeholderValues: this.placeholderFields.getValues()
     };
 
     try {
@@ -646,6 +1881,7 @@ class EditDialog {
     if (this.sourcePromptsSection) {
       this.sourcePromptsSection.style.display = 'none';
     }
+    this.placeholderFields.reset();
     
     this.isManualCreation = true;
     console.log('UI updated for manual creation');
@@ -672,13 +1908,16 @@ class EditDialog {
   }
 
   async copyReplacement() {
-    const replacement = this.replacementInput?.value.trim() || '';
+    const template = this.replacementInput?.value.trim() || '';
     
-    if (!replacement) {
+    if (!template) {
       this.showCopyFeedback(this.copyReplacementBtn, false, 'No replacement to copy');
       return;
     }
 
+    // Placeholders without a value stay as {name}, to fill in after pasting
+    const replacement = (await this.placeholderFields.fill(template, 'clipboard')).text;
+
     try {
       await navigator.clipboard.writeText(replacement);
       this.showCopyFeedback(this.copyReplacementBtn, true, 'Replacement copied!');
@@ -764,6 +2003,7 @@ class MultiSuggestionEditDialog {
   private navIndicator: HTMLElement | null;
   private prevBtn: HTMLButtonElement | null;
   private nextBtn: HTMLButtonElement | null;
+  private placeholderFields: TemplatePlaceholderFields;
 
   private triggerValid: boolean;
   private replacementValid: boolean;
@@ -789,6 +2029,7 @@ class MultiSuggestionEditDialog {
     this.sourcePromptsList = document.getElementById('source-prompts-list');
     this.copyTriggerBtn = document.getElementById('copy-trigger-btn') as HTMLButtonElement;
     this.copyReplacementBtn = document.getElementById('copy-replacement-btn') as HTMLButtonElement;
+    this.placeholderFields = new TemplatePlaceholderFields(() => this.updateTemplate());
     
     // Multi-suggestion navigation elements
     this.multiSuggestionNav = document.getElementById('multi-suggestion-nav');
@@ -814,7 +2055,7 @@ class MultiSuggestionEditDialog {
     this.replacementInput?.addEventListener('input', () => {
       this.validateReplacement();
       this.updateCharacterCount();
-      this.updatePreview();
+      this.updateTemplate();
     });
 
     // Navigation
@@ -842,7 +2083,7 @@ class MultiSuggestionEditDialog {
       } else if (e.key === 'ArrowRight' && e.metaKey) {
         this.navigateToNext();
       } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
-        if (this.triggerValid && this.replacementValid) {
+        if (this.triggerValid && this.replacementValid && this.placeholderFields.isComplete()) {
           this.form?.dispatchEvent(new Event('submit'));
         }
       }
@@ -929,12 +2170,13 @@ class MultiSuggestionEditDialog {
     
     // Load source prompts
     this.loadSourcePrompts(suggestion);
+    this.placeholderFields.reset(suggestion.placeholders);
     
     // Trigger validation and updates
     this.validateTrigger();
     this.validateReplacement();
     this.updateCharacterCount();
-    this.updatePreview();
+    this.updateTemplate();
   }
 
   loadSourcePrompts(suggestion) {
@@ -987,7 +2229,7 @@ class MultiSuggestionEditDialog {
       this.replacementInput.value = prompt;
       this.validateReplacement();
       this.updateCharacterCount();
-      this.updatePreview();
+      this.updateTemplate();
       this.replacementInput.focus();
       this.replacementInput.select();
       this.showUsePromptFeedback();
@@ -1077,9 +2319,16 @@ class MultiSuggestionEditDialog {
     }
   }
 
+  async updateTemplate() {
+    await this.placeholderFields.update(this.replacementInput?.value.trim() || '');
+    this.updatePreview();
+    this.updateCreateButton();
+  }
+
   updatePreview() {
     const trigger = this.triggerInput?.value.trim() || '';
-    const replacement = this.replacementInput?.value.trim() || '';
+    // Show the text Text Replacements would get, with the placeholder values filled in
+    const replacement = this.placeholderFields.getFilledText() || this.replacementInput?.value.trim() || '';
 
     if (this.previewDemo) {
       if (trigger && replacement) {
@@ -1092,20 +2341,21 @@ class MultiSuggestionEditDialog {
 
   updateCreateButton() {
     if (this.createBtn) {
-      this.createBtn.disabled = !(this.triggerValid && this.replacementValid);
+      this.createBtn.disabled = !(this.triggerValid && this.replacementValid && this.placeholderFields.isComplete());
     }
   }
 
   async handleSubmit(e) {
     e.preventDefault();
     
-    if (!this.triggerValid || !this.replacementValid) {
+    if (!this.triggerValid || !this.replacementValid || !this.placeholderFields.isComplete()) {
       return;
     }
 
     const editedData = {
       trigger: this.triggerInput?.value.trim() || '',
-      replacement: this.replacementInput?.value.trim() || ''
+      replacement: this.replacementInput?.value.trim() || '',
+      placeholderValues: this.placeholderFields.getValues()
     };
 
     try {
@@ -1174,7 +2424,7 @@ class MultiSuggestionEditDialog {
     if (this.createBtn) {
       this.createBtn.textContent = 'Create This Shortcut';
       this.createBtn.style.backgroundColor = '';
-      this.createBtn.disabled = !(this.triggerValid && this.replacementValid);
+      this.createBtn.disabled = !(this.triggerValid && this.replacementValid && this.placeholderFields.isComplete());
     }
   }
 
@@ -1207,13 +2457,16 @@ class MultiSuggestionEditDialog {
   }
 
   async copyReplacement() {
-    const replacement = this.replacementInput?.value.trim() || '';
+    const template = this.replacementInput?.value.trim() || '';
     
-    if (!replacement) {
+    if (!template) {
       this.showCopyFeedback(this.copyReplacementBtn, false, 'No replacement to copy');
       return;
     }
 
+    // Placeholders without a value stay as {name}, to fill in after pasting
+    const replacement = (await this.placeholderFields.fill(template, 'clipboard')).text;
+
     try {
       await navigator.clipboard.writeText(replacement);
       this.showCopyFeedback(this.copyReplacementBtn, true, 'Replacement copied!');
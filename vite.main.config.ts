@@ -20,6 +20,7 @@ export default defineConfig({
         'crypto',
         'child_process',
         'util',
+        'worker_threads',
         '@langchain/langgraph',
         '@langchain/openai',
         '@langchain/core',
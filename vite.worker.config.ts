@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+
+// https://vitejs.dev/config
+export default defineConfig({
+  build: {
+    lib: {
+      entry: 'src/main/workers/clustering-worker.ts',
+      formats: ['cjs'],
+    },
+    rollupOptions: {
+      external: [
+        'density-clustering',
+        'worker_threads'
+      ],
+      output: {
+        entryFileNames: '[name].js',
+      },
+    },
+    target: 'node18',
+    outDir: '.vite/build',
+    emptyOutDir: false, // Don't clear the main process and preload files
+  },
+});